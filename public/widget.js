@@ -0,0 +1,103 @@
+/*
+ * Intake widget for law-firm websites.
+ *
+ *   <script src="https://YOUR_APP_URL/widget.js" data-firm-id="FIRM_ID" async></script>
+ *
+ * Adds a button that opens the intake in an iframe. Optional attributes:
+ *   data-label     Button text (default "Talk to us now")
+ *   data-position  "right" (default) or "left"
+ * UTM parameters and practice_area on the host page are passed through for
+ * persona routing and campaign attribution.
+ */
+(function () {
+  var script = document.currentScript;
+  if (!script || window.__lorraWidgetLoaded) return;
+  window.__lorraWidgetLoaded = true;
+
+  var firmId = script.getAttribute('data-firm-id');
+  if (!firmId) {
+    console.error('Intake widget: data-firm-id is required');
+    return;
+  }
+
+  var appOrigin = new URL(script.src).origin;
+  var side = script.getAttribute('data-position') === 'left' ? 'left' : 'right';
+  var hostParams = new URLSearchParams(window.location.search);
+  var src = new URL('/embed', appOrigin);
+  src.searchParams.set('firm_id', firmId);
+  ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content', 'practice_area'].forEach(function (key) {
+    var value = hostParams.get(key);
+    if (value) src.searchParams.set(key, value);
+  });
+
+  var button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = script.getAttribute('data-label') || 'Talk to us now';
+  button.style.cssText = [
+    'position:fixed', 'bottom:20px', side + ':20px', 'z-index:2147483646',
+    'padding:12px 20px', 'border:1px solid rgba(255,255,255,0.3)', 'border-radius:24px',
+    'background:#000', 'color:#fff', 'font:500 14px Inter,sans-serif', 'cursor:pointer',
+    'box-shadow:0 0 15px rgba(34,197,254,0.5)'
+  ].join(';');
+
+  var overlay = document.createElement('div');
+  overlay.style.cssText = [
+    'position:fixed', 'inset:0', 'z-index:2147483647', 'display:none',
+    'align-items:center', 'justify-content:center', 'background:rgba(0,0,0,0.6)'
+  ].join(';');
+
+  var frame = document.createElement('div');
+  frame.style.cssText = [
+    'position:relative', 'width:min(960px,100vw)', 'height:min(720px,100vh)',
+    'border-radius:12px', 'overflow:hidden', 'background:#000'
+  ].join(';');
+
+  var close = document.createElement('button');
+  close.type = 'button';
+  close.setAttribute('aria-label', 'Close');
+  close.textContent = '×';
+  close.style.cssText = [
+    'position:absolute', 'top:8px', 'right:12px', 'z-index:1', 'border:0',
+    'background:transparent', 'color:#fff', 'font-size:28px', 'cursor:pointer'
+  ].join(';');
+
+  var iframe = null;
+
+  function open() {
+    // Loaded on first open so the camera prompt only shows when asked for
+    if (!iframe) {
+      iframe = document.createElement('iframe');
+      iframe.src = src.toString();
+      iframe.title = 'Legal intake';
+      iframe.allow = 'camera; microphone; autoplay; display-capture; fullscreen';
+      iframe.style.cssText = 'width:100%;height:100%;border:0';
+      frame.appendChild(iframe);
+    }
+    overlay.style.display = 'flex';
+  }
+
+  function hide() {
+    // Closing ends the call so the caller isn't left talking to a hidden page
+    overlay.style.display = 'none';
+    if (iframe) {
+      frame.removeChild(iframe);
+      iframe = null;
+    }
+  }
+
+  button.addEventListener('click', open);
+  close.addEventListener('click', hide);
+  frame.appendChild(close);
+  overlay.appendChild(frame);
+
+  function mount() {
+    document.body.appendChild(button);
+    document.body.appendChild(overlay);
+  }
+
+  if (document.body) {
+    mount();
+  } else {
+    document.addEventListener('DOMContentLoaded', mount);
+  }
+})();
@@ -7,10 +7,14 @@ import {
   IntroLoading,
   Outage,
   OutOfMinutes,
+  ResumeConversation,
   Intro,
   Instructions,
+  DeviceCheck,
   Conversation,
+  ChatIntake,
   FinalScreen,
+  ClientPortal,
   Settings,
 } from "./screens";
 
@@ -29,11 +33,19 @@ import { FirmDashboard } from "./screens/admin/FirmDashboard";
 import { FirmSettings } from "./screens/admin/FirmSettings";
 import { BillingDashboard } from "./screens/admin/BillingDashboard";
 import { LeadDistributionDashboard } from "./screens/admin/LeadDistributionDashboard";
+import { JobQueue } from "./screens/admin/JobQueue";
+import { Escalations } from "./screens/admin/Escalations";
+import { UsageBudget } from "./screens/admin/UsageBudget";
+import { TriageQueue } from "./screens/admin/TriageQueue";
+import { PromptExperiments } from "./screens/admin/PromptExperiments";
+import { PersonaRouting } from "./screens/admin/PersonaRouting";
+import { AttributionReport } from "./screens/admin/AttributionReport";
 
 // Auth components
 import { Login } from "./screens/auth/Login";
 import { Register } from "./screens/auth/Register";
 import { PublicLayout } from "./components/layouts/PublicLayout";
+import { EmbedLayout } from "./components/layouts/EmbedLayout";
 import { AdminLayout } from "./components/layouts/AdminLayout";
 import { ProtectedRoute } from "./components/auth/ProtectedRoute";
 import { LegalAdminRoute } from "./components/auth/LegalAdminRoute";
@@ -50,14 +62,20 @@ function App() {
         return <Outage />;
       case "outOfMinutes":
         return <OutOfMinutes />;
+      case "resume":
+        return <ResumeConversation />;
       case "intro":
         return <Intro />;
       case "settings":
         return <Settings />;
       case "instructions":
         return <Instructions />;
+      case "deviceCheck":
+        return <DeviceCheck />;
       case "conversation":
         return <Conversation />;
+      case "chat":
+        return <ChatIntake />;
       case "finalScreen":
         return <FinalScreen />;
       default:
@@ -79,6 +97,28 @@ function App() {
         } 
       />
 
+      {/* Intake widget framed by law-firm websites (public/widget.js) */}
+      <Route
+        path="/embed"
+        element={
+          <EmbedLayout>
+            {renderPublicScreen()}
+          </EmbedLayout>
+        }
+      />
+
+      {/* Callers follow their case from the emailed magic link */}
+      <Route
+        path="/portal"
+        element={
+          <PublicLayout>
+            <Header />
+            <ClientPortal />
+            <Footer />
+          </PublicLayout>
+        }
+      />
+
       {/* Auth Routes */}
       <Route path="/login" element={<Login />} />
       <Route path="/register" element={<Register />} />
@@ -208,6 +248,76 @@ function App() {
           </SystemAdminRoute>
         }
       />
+      <Route
+        path="/admin/triage"
+        element={
+          <SystemAdminRoute>
+            <AdminLayout>
+              <TriageQueue />
+            </AdminLayout>
+          </SystemAdminRoute>
+        }
+      />
+      <Route
+        path="/admin/prompts"
+        element={
+          <SystemAdminRoute>
+            <AdminLayout>
+              <PromptExperiments />
+            </AdminLayout>
+          </SystemAdminRoute>
+        }
+      />
+      <Route
+        path="/admin/personas"
+        element={
+          <SystemAdminRoute>
+            <AdminLayout>
+              <PersonaRouting />
+            </AdminLayout>
+          </SystemAdminRoute>
+        }
+      />
+      <Route
+        path="/admin/attribution"
+        element={
+          <SystemAdminRoute>
+            <AdminLayout>
+              <AttributionReport />
+            </AdminLayout>
+          </SystemAdminRoute>
+        }
+      />
+      <Route
+        path="/admin/jobs"
+        element={
+          <SystemAdminRoute>
+            <AdminLayout>
+              <JobQueue />
+            </AdminLayout>
+          </SystemAdminRoute>
+        }
+      />
+      <Route
+        path="/admin/escalations"
+        element={
+          <SystemAdminRoute>
+            <AdminLayout>
+              <Escalations />
+            </AdminLayout>
+          </SystemAdminRoute>
+        }
+      />
+      <Route
+        path="/admin/usage"
+        element={
+          <SystemAdminRoute>
+            <AdminLayout>
+              <UsageBudget />
+            </AdminLayout>
+          </SystemAdminRoute>
+        }
+      />
 
       {/* Fallback route */}
       <Route path="*" element={<Navigate to="/\" replace />} />
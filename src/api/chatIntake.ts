@@ -0,0 +1,55 @@
+import { EmergencyFlag } from '@/utils/intakeTools';
+import { getAttribution } from '@/utils/attribution';
+import { getEmbedContext } from '@/utils/embed';
+import { getEntryPoint } from '@/utils/entryPoint';
+import { logger } from '@/utils/logger';
+
+// Text chat intake for callers without camera or microphone. The chat is
+// stored as a conversation and goes through the same lead extraction as a
+// video call once it ends.
+
+const chatIntakeUrl = (path: 'start' | 'message' | 'end') =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat-intake/${path}`;
+
+const postChatIntake = async <T>(path: 'start' | 'message' | 'end', body: unknown): Promise<T> => {
+  const response = await fetch(chatIntakeUrl(path), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    logger.error(`Chat intake ${path} error`, error);
+    throw new Error(error || `HTTP error! status: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+export const startChatIntake = (language: string) => {
+  const { campaign, practiceArea } = getEntryPoint();
+  const embed = getEmbedContext();
+  return postChatIntake<{ conversation_id: string; greeting: string }>('start', {
+    language,
+    campaign,
+    practice_area: practiceArea,
+    embed_token: embed?.token,
+    attribution: getAttribution()
+  });
+};
+
+export const sendChatMessage = (conversationId: string, message: string) =>
+  postChatIntake<{ reply: string; emergency: EmergencyFlag | null }>('message', {
+    conversation_id: conversationId,
+    message
+  });
+
+export const endChatIntake = (conversationId: string, conversationData: Record<string, unknown>) =>
+  postChatIntake<{ message: string }>('end', {
+    conversation_id: conversationId,
+    conversationData
+  });
@@ -0,0 +1,72 @@
+import { logger } from '@/utils/logger';
+
+// Client portal for callers following their case after intake. Access is by
+// the magic link emailed for a case reference and the caller's email.
+
+export type CaseStatus = 'submitted' | 'matched' | 'accepted' | 'appointment_set';
+
+export type ClientCase = {
+  case_reference: string;
+  name: string | null;
+  case_category: string | null;
+  submitted_at: string;
+  status: CaseStatus;
+  firm: {
+    name: string;
+    description: string | null;
+    location: string;
+    // Contact details are only sent once the firm accepts
+    website: string | null;
+    contact_email: string | null;
+    contact_phone: string | null;
+    rating: number | null;
+    avg_response_time_minutes: number | null;
+    accepted: boolean;
+  } | null;
+  appointments: {
+    id: string;
+    scheduled_for: string;
+    duration_minutes: number | null;
+    status: string;
+    meeting_type: string;
+    meeting_link: string | null;
+  }[];
+  messages: {
+    id: string;
+    sender_type: 'client' | 'firm' | 'system';
+    message: string;
+    created_at: string;
+  }[];
+  can_message: boolean;
+};
+
+const postClientPortal = async <T>(path: 'request-link' | 'case' | 'message', body: unknown): Promise<T> => {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/client-portal/${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    logger.error(`Client portal ${path} error`, error);
+    throw new Error(error || `HTTP error! status: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+export const requestPortalLink = (caseReference: string, email: string) =>
+  postClientPortal<{ message: string }>('request-link', {
+    case_reference: caseReference,
+    email
+  });
+
+export const getClientCase = (token: string) =>
+  postClientPortal<ClientCase>('case', { token });
+
+export const sendClientMessage = (token: string, message: string) =>
+  postClientPortal<ClientCase>('message', { token, message });
@@ -0,0 +1,31 @@
+import { getVisitorId } from '@/utils';
+
+// Whether this visitor can start a call right now. Fails open: the create
+// endpoint enforces the budget again, so a failed check only skips the
+// early out-of-minutes screen.
+export const checkConversationBudget = async (): Promise<{ available: boolean }> => {
+  try {
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/tavus-conversation/budget`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`
+        },
+        body: JSON.stringify({ visitor_id: getVisitorId() })
+      }
+    );
+
+    if (!response.ok) {
+      console.error('Failed to check conversation budget:', await response.text());
+      return { available: true };
+    }
+
+    const { available } = await response.json();
+    return { available: available !== false };
+  } catch (error) {
+    console.error('Error checking conversation budget:', error);
+    return { available: true };
+  }
+};
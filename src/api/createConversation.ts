@@ -1,14 +1,26 @@
 import { IConversation } from '../types';
 import { logger } from '@/utils/logger';
+import { getVisitorId } from '@/utils';
+import { getAttribution } from '@/utils/attribution';
+import { getEmbedContext } from '@/utils/embed';
+import { getEntryPoint } from '@/utils/entryPoint';
 
-export const createConversation = async (): Promise<IConversation> => {
+// Thrown when the server refuses the call because a time or spend budget is used up
+export class OutOfMinutesError extends Error {
+  constructor(public reason: string | null) {
+    super('Out of minutes');
+    this.name = 'OutOfMinutesError';
+  }
+}
+
+export const createConversation = async (language: string): Promise<IConversation> => {
   try {
-    logger.debug('Creating conversation (public access)');
+    logger.debug('Creating conversation (public access)', { language });
 
     // First, let's check if there's an active Tavus configuration
     logger.debug('Checking for active Tavus configuration');
     const configResponse = await fetch(
-      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/tavus-config/active`,
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/tavus-config/active?language=${encodeURIComponent(language)}`,
       {
         method: 'GET',
         headers: {
@@ -29,7 +41,10 @@ export const createConversation = async (): Promise<IConversation> => {
     const config = await configResponse.json();
     logger.debug('Active Tavus config retrieved');
 
-    // Now create the conversation
+    // Now create the conversation; the landing page lets the server route
+    // the caller to a persona, and a firm's widget sends its leads to the firm
+    const { campaign, practiceArea } = getEntryPoint();
+    const embed = getEmbedContext();
     logger.debug('Making request to conversation endpoint');
     const conversationResponse = await fetch(
       `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/tavus-conversation/create`,
@@ -38,12 +53,26 @@ export const createConversation = async (): Promise<IConversation> => {
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`
-        }
+        },
+        body: JSON.stringify({
+          visitor_id: getVisitorId(),
+          language,
+          campaign,
+          practice_area: practiceArea,
+          embed_token: embed?.token,
+          attribution: getAttribution()
+        })
       }
     );
 
     logger.debug('Conversation response received', { status: conversationResponse.status });
 
+    if (conversationResponse.status === 429) {
+      const { reason } = await conversationResponse.json().catch(() => ({ reason: null }));
+      logger.info('Conversation refused, out of minutes', { reason });
+      throw new OutOfMinutesError(reason ?? null);
+    }
+
     if (!conversationResponse?.ok) {
       const errorText = await conversationResponse.text();
       logger.error('Conversation creation error', errorText);
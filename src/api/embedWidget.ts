@@ -0,0 +1,29 @@
+// The widget page is served by embed-widget/frame, which browsers only render
+// on the firm's allowed sites and which frames /embed with the widget token
+export const getEmbedFrameUrl = (search: string): string =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/embed-widget/frame${search}`;
+
+// Checks that a firm's widget is still on before the caller starts. The
+// create endpoints only accept the token the frame issued.
+export const getEmbedConfig = async (
+  embedToken: string
+): Promise<{ firm_id: string; firm_name: string }> => {
+  const params = new URLSearchParams({ embed_token: embedToken });
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/embed-widget/config?${params}`,
+    {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`
+      }
+    }
+  );
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new Error(error || `HTTP error! status: ${response.status}`);
+  }
+
+  return response.json();
+};
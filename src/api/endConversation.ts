@@ -1,4 +1,4 @@
-export const endConversation = async (conversationId: string, conversationData?: any) => {
+export const endConversation = async (conversationId: string, toolCallToken: string, conversationData?: any) => {
   try {
     console.log('=== ENDING CONVERSATION (PUBLIC ACCESS) ===');
     console.log('Conversation ID:', conversationId);
@@ -15,6 +15,7 @@ export const endConversation = async (conversationId: string, conversationData?:
         },
         body: JSON.stringify({ 
           conversation_id: conversationId,
+          tool_call_token: toolCallToken,
           conversationData: conversationData 
         })
       },
@@ -1,3 +1,9 @@
+export * from "./chatIntake";
+export * from "./clientPortal";
+export * from "./conversationBudget";
 export * from "./createConversation";
+export * from "./embedWidget";
 export * from "./endConversation";
 export * from "./healthCheck";
+export * from "./recordToolCall";
+export * from "./resumeConversation";
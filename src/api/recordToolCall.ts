@@ -0,0 +1,38 @@
+import { IntakeToolResult } from "@/utils/intakeTools";
+
+// Persists a persona tool call for audit; failures are logged, not thrown,
+// so a slow audit write never blocks the conversation
+export const recordToolCall = async (
+  conversationId: string,
+  toolCallToken: string,
+  toolCall: {
+    tool_call_id: string | null;
+    name: string;
+    arguments: unknown;
+    result: IntakeToolResult;
+  },
+) => {
+  try {
+    const response = await fetch(
+      `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/tavus-conversation/tool-call`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`
+        },
+        body: JSON.stringify({
+          conversation_id: conversationId,
+          tool_call_token: toolCallToken,
+          ...toolCall
+        })
+      },
+    );
+
+    if (!response.ok) {
+      console.error('Failed to record tool call:', await response.text());
+    }
+  } catch (error) {
+    console.error('Error recording tool call:', error);
+  }
+};
@@ -0,0 +1,51 @@
+import { IConversation } from '../types';
+import { logger } from '@/utils/logger';
+import { getVisitorId } from '@/utils';
+import { OutOfMinutesError } from './createConversation';
+
+export type ResumedConversation = {
+  // "rejoin" is the same live room; "continue" is a new session of the same intake
+  mode: 'rejoin' | 'continue';
+  conversation: IConversation;
+};
+
+export const resumeConversation = async (
+  conversationId: string,
+  toolCallToken: string,
+  intake: Record<string, unknown>,
+): Promise<ResumedConversation> => {
+  logger.debug('Resuming conversation', { conversationId });
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/tavus-conversation/resume`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`
+      },
+      body: JSON.stringify({
+        conversation_id: conversationId,
+        tool_call_token: toolCallToken,
+        visitor_id: getVisitorId(),
+        intake
+      })
+    }
+  );
+
+  if (response.status === 429) {
+    const { reason } = await response.json().catch(() => ({ reason: null }));
+    throw new OutOfMinutesError(reason ?? null);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error('Conversation resume error', errorText);
+    throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
+  }
+
+  const { mode, ...conversation } = await response.json();
+  logger.info(`Conversation resumed (${mode})`);
+
+  return { mode, conversation };
+};
@@ -0,0 +1,81 @@
+import { useAtomValue } from "jotai";
+import { PhoneCallIcon, ShieldAlertIcon } from "lucide-react";
+import { emergencyFlagAtom } from "@/store/intake";
+import { EmergencyKind } from "@/utils/intakeTools";
+import { cn } from "@/utils";
+
+type CrisisLine = { label: string; number: string; href: string };
+
+const EMERGENCY_LINE: CrisisLine = { label: "Emergency services", number: "911", href: "tel:911" };
+
+const CRISIS_LINES: Record<EmergencyKind, { message: string; lines: CrisisLine[] }> = {
+  medical: {
+    message: "If you are thinking about harming yourself or need medical help, please reach out now.",
+    lines: [
+      EMERGENCY_LINE,
+      { label: "988 Suicide & Crisis Lifeline", number: "988", href: "tel:988" },
+    ],
+  },
+  violence: {
+    message: "If you are in danger, get somewhere safe and call for help.",
+    lines: [
+      EMERGENCY_LINE,
+      { label: "National Domestic Violence Hotline", number: "1-800-799-7233", href: "tel:18007997233" },
+    ],
+  },
+  detention: {
+    message: "You have the right to remain silent and to ask for a lawyer. An attorney is being contacted.",
+    lines: [EMERGENCY_LINE],
+  },
+  deadline: {
+    message: "An attorney is being contacted about your upcoming date.",
+    lines: [],
+  },
+  other: {
+    message: "An attorney is being contacted. If anyone is in danger, call for help.",
+    lines: [EMERGENCY_LINE],
+  },
+};
+
+export const CrisisResources = ({ className }: { className?: string }) => {
+  const emergency = useAtomValue(emergencyFlagAtom);
+
+  if (!emergency) return null;
+
+  const { message, lines } = CRISIS_LINES[emergency.kind];
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        "w-72 rounded-lg border border-[rgba(251,36,71,0.9)] bg-black/80 p-4 text-white shadow-[0_0_20px_rgba(251,36,71,0.3)] backdrop-blur",
+        className,
+      )}
+    >
+      <div className="mb-2 flex items-center gap-2 text-sm font-medium">
+        <ShieldAlertIcon className="size-4 text-[#FB254F]" />
+        Help is on the way
+      </div>
+      <p className="text-xs text-white/80">{message}</p>
+
+      {lines.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {lines.map((line) => (
+            <li key={line.number}>
+              <a
+                href={line.href}
+                className="flex items-center justify-between gap-2 rounded border border-white/20 px-2 py-1 text-xs hover:border-[#FB254F]"
+              >
+                <span>{line.label}</span>
+                <span className="flex items-center gap-1 font-medium text-[#FB254F]">
+                  <PhoneCallIcon className="size-3" />
+                  {line.number}
+                </span>
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useAtom } from "jotai";
+import { AlertTriangleIcon, CheckIcon, CircleIcon, ClockIcon, PencilIcon } from "lucide-react";
+import { callbackTimeAtom, emergencyFlagAtom, intakeAtom } from "@/store/intake";
+import { IntakeFieldKey } from "@/types";
+import { cn } from "@/utils";
+import {
+  INTAKE_FIELDS,
+  confirmIntakeField,
+  getMissingIntakeItems,
+} from "@/utils/intake";
+
+const IntakeRow = ({
+  fieldKey,
+  label,
+}: {
+  fieldKey: IntakeFieldKey;
+  label: string;
+}) => {
+  const [intake, setIntake] = useAtom(intakeAtom);
+  const [draft, setDraft] = useState<string | null>(null);
+  const field = intake[fieldKey];
+
+  const confirm = (value: string) => {
+    setIntake((current) => confirmIntakeField(current, fieldKey, value));
+    setDraft(null);
+  };
+
+  return (
+    <div className="border-b border-white/10 py-2 last:border-b-0">
+      <div className="flex items-center justify-between text-xs text-white/60">
+        <span>{label}</span>
+        {field?.verified && (
+          <span className="flex items-center gap-1 text-[#43BD8F]">
+            <CheckIcon className="size-3" />
+            Confirmed
+          </span>
+        )}
+      </div>
+
+      {draft !== null ? (
+        <form
+          className="mt-1 flex gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            confirm(draft);
+          }}
+        >
+          <input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === "Escape" && setDraft(null)}
+            className="w-full rounded border border-white/20 bg-black/40 px-2 py-1 text-sm text-white outline-none focus:border-[#22C5FE]"
+          />
+          <button
+            type="submit"
+            aria-label={`Save ${label}`}
+            className="rounded border border-[#22C5FE] px-2 text-[#22C5FE]"
+          >
+            <CheckIcon className="size-4" />
+          </button>
+        </form>
+      ) : field ? (
+        <div className="mt-1 flex items-center justify-between gap-2">
+          <span className="break-all text-sm text-white">{field.value}</span>
+          <div className="flex shrink-0 gap-1">
+            {!field.verified && (
+              <button
+                type="button"
+                aria-label={`Confirm ${label}`}
+                onClick={() => confirm(field.value)}
+                className="rounded p-1 text-white/60 hover:text-[#43BD8F]"
+              >
+                <CheckIcon className="size-4" />
+              </button>
+            )}
+            <button
+              type="button"
+              aria-label={`Edit ${label}`}
+              onClick={() => setDraft(field.value)}
+              className="rounded p-1 text-white/60 hover:text-[#22C5FE]"
+            >
+              <PencilIcon className="size-4" />
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setDraft("")}
+          className="mt-1 text-sm italic text-white/40 hover:text-white/70"
+        >
+          Not captured yet — add
+        </button>
+      )}
+    </div>
+  );
+};
+
+export const IntakePanel = ({ className }: { className?: string }) => {
+  const [intake] = useAtom(intakeAtom);
+  const [emergency] = useAtom(emergencyFlagAtom);
+  const [callbackTime] = useAtom(callbackTimeAtom);
+  const missing = getMissingIntakeItems(intake);
+
+  return (
+    <div
+      className={cn(
+        "w-64 rounded-lg border border-white/20 bg-black/80 p-4 text-white backdrop-blur",
+        className,
+      )}
+    >
+      <h3 className="mb-2 text-sm font-medium">Your details</h3>
+
+      {emergency && (
+        <div className="mb-2 flex items-start gap-2 rounded border border-[rgba(251,36,71,0.9)] bg-[rgba(251,36,71,0.15)] p-2 text-xs">
+          <AlertTriangleIcon className="mt-0.5 size-3 shrink-0 text-[#FB254F]" />
+          <span>Marked urgent — our team will prioritize your case.</span>
+        </div>
+      )}
+
+      {INTAKE_FIELDS.map(({ key, label }) => (
+        <IntakeRow key={key} fieldKey={key} label={label} />
+      ))}
+
+      {callbackTime && (
+        <div className="mt-2 flex items-center gap-2 text-xs text-white/80">
+          <ClockIcon className="size-3 text-[#22C5FE]" />
+          Callback: {callbackTime}
+        </div>
+      )}
+
+      {missing.length > 0 && (
+        <div className="mt-3">
+          <p className="mb-1 text-xs text-white/60">Still needed</p>
+          <ul className="space-y-1">
+            {missing.map((item) => (
+              <li key={item} className="flex items-center gap-2 text-xs text-white/80">
+                <CircleIcon className="size-3 text-[#22C5FE]" />
+                {item}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import { settingsAtom } from "@/store/settings";
+import { cn } from "@/utils";
+import { SUPPORTED_LANGUAGES } from "@/utils/language";
+import { useAtom } from "jotai";
+import { Languages } from "lucide-react";
+import React from "react";
+
+// Language the intake persona speaks; saved with the other settings so a
+// returning caller keeps their choice
+export const LanguagePicker: React.FC<{ className?: string }> = ({ className }) => {
+  const [settings, setSettings] = useAtom(settingsAtom);
+
+  const handleChange = (language: string) => {
+    const updatedSettings = { ...settings, language };
+    setSettings(updatedSettings);
+    localStorage.setItem("tavus-settings", JSON.stringify(updatedSettings));
+  };
+
+  return (
+    <label className={cn("flex items-center gap-2 text-sm text-gray-400", className)}>
+      <Languages className="size-4" />
+      <span className="sr-only">Language</span>
+      <select
+        value={settings.language}
+        onChange={(e) => handleChange(e.target.value)}
+        className="rounded-full border border-white/20 bg-black/40 px-3 py-1 text-sm text-white outline-none focus:border-[#22C5FE]"
+      >
+        {SUPPORTED_LANGUAGES.map((lang) => (
+          <option key={lang.value} value={lang.value} className="bg-black text-white">
+            {lang.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
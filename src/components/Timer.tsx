@@ -1,5 +1,3 @@
-import { TIME_LIMIT } from "@/config";
-import { getSessionTime } from "@/utils";
 import { useEffect, useState } from "react";
 
 const formatTime = (duration: number) => {
@@ -11,19 +9,22 @@ const formatTime = (duration: number) => {
   return `${minutes}:${seconds < 10 ? `0${seconds}` : seconds}`;
 };
 
-export const Timer = () => {
-  const [time, setTime] = useState(() => {
-    const sessionTime = getSessionTime();
-    return TIME_LIMIT - sessionTime;
-  });
+// Counts down the call time the server reserved for this conversation
+export const Timer = ({
+  startedAt,
+  duration,
+}: {
+  startedAt: number;
+  duration: number;
+}) => {
+  const remaining = () =>
+    Math.max(duration - Math.floor((Date.now() - startedAt) / 1000), 0);
+  const [time, setTime] = useState(remaining);
 
   useEffect(() => {
-    const interval = setInterval(() => {
-      const sessionTime = getSessionTime();
-      setTime(TIME_LIMIT - sessionTime);
-    }, 1000);
+    const interval = setInterval(() => setTime(remaining()), 1000);
     return () => clearInterval(interval);
-  }, []);
+  }, [startedAt, duration]);
 
   return (
     <div className="absolute left-4 top-4 rounded-full bg-white/10 px-4 py-3 text-sm font-medium text-secondary-foreground backdrop-blur-xs">
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+type Message = {
+  id: string;
+  sender_type: 'client' | 'firm' | 'system';
+  message: string;
+  read: boolean;
+  created_at: string;
+};
+
+// Thread with the caller, who reads and replies from the client portal
+export const ClientMessages = ({ conversationId }: { conversationId: string }) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [conversationId]);
+
+  const fetchMessages = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_case_messages', { p_conversation_id: conversationId });
+      if (error) throw error;
+      setMessages(data || []);
+    } catch (error) {
+      console.error('Error fetching client messages:', error);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!draft.trim()) return;
+
+    try {
+      setIsSending(true);
+      const { error } = await supabase.rpc('send_case_message', {
+        p_conversation_id: conversationId,
+        p_message: draft,
+      });
+
+      if (error) throw error;
+      setDraft('');
+      fetchMessages();
+    } catch (error) {
+      console.error('Error sending client message:', error);
+      alert('Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-zinc-800 bg-zinc-950/50 p-4">
+      <p className="mb-3 text-sm font-medium text-zinc-300">Messages with client</p>
+      {messages.length === 0 ? (
+        <p className="mb-3 text-sm text-zinc-500">No messages yet. The client can reply from their case portal.</p>
+      ) : (
+        <div className="mb-3 max-h-64 space-y-2 overflow-y-auto">
+          {messages.map((message) => (
+            <div key={message.id} className={`flex ${message.sender_type === 'firm' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                  message.sender_type === 'firm' ? 'bg-cyan-900/30 text-white' : 'bg-zinc-800 text-zinc-200'
+                }`}
+              >
+                <p className="whitespace-pre-wrap">{message.message}</p>
+                <p className="mt-1 text-xs text-zinc-500">{new Date(message.created_at).toLocaleString()}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Input
+          placeholder="Reply to the client..."
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+          maxLength={2000}
+          className="flex-1 bg-zinc-800 border-zinc-700"
+        />
+        <Button onClick={handleSend} disabled={isSending || !draft.trim()}>
+          <Send className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
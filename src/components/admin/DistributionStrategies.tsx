@@ -0,0 +1,504 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Pencil, Play, Plus, Shuffle, Trash } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SUPPORTED_LANGUAGES, DEFAULT_LANGUAGE } from '@/utils/language';
+
+type StrategyName = 'round_robin' | 'weighted_score' | 'exclusive' | 'first_to_claim' | 'broadcast';
+
+type Weights = {
+  practice_area: number;
+  performance: number;
+  availability: number;
+  location: number;
+  quality: number;
+};
+
+type Strategy = {
+  id: string;
+  practice_area_id: string | null;
+  location_key: string | null;
+  strategy: StrategyName;
+  weights: Weights;
+  min_score: number;
+  firm_count: number;
+  max_attempts: number;
+  exclusive_firm_id: string | null;
+  active: boolean;
+};
+
+type Option = {
+  id: string;
+  name: string;
+};
+
+type PreviewRow = {
+  law_firm_id: string;
+  firm_name: string;
+  match_score: number;
+  assignment_method: string;
+  strategy: StrategyName;
+  location_key: string;
+  score_breakdown: Weights | null;
+  distance_miles: number | null;
+};
+
+const STRATEGIES: { value: StrategyName; label: string }[] = [
+  { value: 'round_robin', label: 'Round robin' },
+  { value: 'weighted_score', label: 'Weighted score' },
+  { value: 'exclusive', label: 'Exclusive firm' },
+  { value: 'first_to_claim', label: 'First to claim' },
+  { value: 'broadcast', label: 'Broadcast to N firms' },
+];
+
+const WEIGHT_FIELDS: { key: keyof Weights; label: string }[] = [
+  { key: 'practice_area', label: 'Practice area' },
+  { key: 'performance', label: 'Performance' },
+  { key: 'availability', label: 'Availability' },
+  { key: 'location', label: 'Location' },
+  { key: 'quality', label: 'Urgency fit' },
+];
+
+const DEFAULT_WEIGHTS: Weights = {
+  practice_area: 40,
+  performance: 25,
+  availability: 15,
+  location: 10,
+  quality: 10,
+};
+
+const emptyForm = {
+  id: null as string | null,
+  practice_area_id: '',
+  location_key: '',
+  strategy: 'round_robin' as StrategyName,
+  weights: DEFAULT_WEIGHTS,
+  min_score: '30',
+  firm_count: '3',
+  max_attempts: '3',
+  exclusive_firm_id: '',
+};
+
+const usesScore = (strategy: StrategyName) =>
+  strategy === 'weighted_score' || strategy === 'first_to_claim' || strategy === 'broadcast';
+
+const strategyLabel = (strategy: StrategyName) =>
+  STRATEGIES.find((option) => option.value === strategy)?.label ?? strategy;
+
+// Weights are stored as shares of 1 and edited as percentages
+const toPercentages = (weights: Weights): Weights =>
+  Object.fromEntries(
+    WEIGHT_FIELDS.map(({ key }) => [key, Math.round(Number(weights[key] ?? 0) * 100)])
+  ) as Weights;
+
+const toShares = (weights: Weights): Weights =>
+  Object.fromEntries(
+    WEIGHT_FIELDS.map(({ key }) => [key, Math.max(0, Number(weights[key]) || 0) / 100])
+  ) as Weights;
+
+// Per practice area and region: how new leads are offered to firms, with a dry run
+export const DistributionStrategies = () => {
+  const [strategies, setStrategies] = useState<Strategy[]>([]);
+  const [practiceAreas, setPracticeAreas] = useState<Option[]>([]);
+  const [firms, setFirms] = useState<Option[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [sample, setSample] = useState({
+    practice_area_id: '',
+    firm_location: '',
+    urgency: '5',
+    language: DEFAULT_LANGUAGE,
+  });
+  const [preview, setPreview] = useState<PreviewRow[] | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [strategiesResult, areasResult, firmsResult] = await Promise.all([
+        supabase.from('distribution_strategies').select('*').order('created_at'),
+        supabase.from('practice_areas').select('id, name').order('name'),
+        supabase.from('law_firms').select('id, name').is('deleted_at', null).order('name'),
+      ]);
+
+      if (strategiesResult.error) throw strategiesResult.error;
+      if (areasResult.error) throw areasResult.error;
+      if (firmsResult.error) throw firmsResult.error;
+
+      setStrategies(strategiesResult.data || []);
+      setPracticeAreas(areasResult.data || []);
+      setFirms(firmsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching distribution strategies:', error);
+    }
+  };
+
+  const editStrategy = (strategy: Strategy) => {
+    setForm({
+      id: strategy.id,
+      practice_area_id: strategy.practice_area_id ?? '',
+      location_key: strategy.location_key ?? '',
+      strategy: strategy.strategy,
+      weights: toPercentages(strategy.weights),
+      min_score: String(Math.round(Number(strategy.min_score) * 100)),
+      firm_count: String(strategy.firm_count),
+      max_attempts: String(strategy.max_attempts),
+      exclusive_firm_id: strategy.exclusive_firm_id ?? '',
+    });
+  };
+
+  const saveStrategy = async () => {
+    if (form.strategy === 'exclusive' && !form.exclusive_firm_id) {
+      alert('Choose the firm that receives these leads');
+      return;
+    }
+
+    const values = {
+      practice_area_id: form.practice_area_id || null,
+      location_key: form.location_key.trim().toUpperCase() || null,
+      strategy: form.strategy,
+      weights: toShares(form.weights),
+      min_score: Math.min(100, Math.max(0, parseInt(form.min_score, 10) || 0)) / 100,
+      firm_count: Math.max(1, parseInt(form.firm_count, 10) || 1),
+      max_attempts: Math.max(1, parseInt(form.max_attempts, 10) || 1),
+      exclusive_firm_id: form.strategy === 'exclusive' ? form.exclusive_firm_id : null,
+    };
+
+    try {
+      setIsSaving(true);
+
+      if (form.id) {
+        const { error } = await supabase
+          .from('distribution_strategies')
+          .update(values)
+          .eq('id', form.id);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+          .from('distribution_strategies')
+          .insert({ ...values, created_by: user?.id ?? null });
+        if (error) throw error;
+      }
+
+      setForm(emptyForm);
+      fetchData();
+    } catch (error) {
+      console.error('Error saving distribution strategy:', error);
+      alert('Failed to save strategy. Each practice area and region can have only one.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleStrategy = async (strategy: Strategy) => {
+    try {
+      const { error } = await supabase
+        .from('distribution_strategies')
+        .update({ active: !strategy.active })
+        .eq('id', strategy.id);
+
+      if (error) throw error;
+      fetchData();
+    } catch (error) {
+      console.error('Error updating distribution strategy:', error);
+    }
+  };
+
+  const deleteStrategy = async (strategyId: string) => {
+    if (!confirm('Delete this distribution strategy?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('distribution_strategies')
+        .delete()
+        .eq('id', strategyId);
+
+      if (error) throw error;
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting distribution strategy:', error);
+    }
+  };
+
+  const runPreview = async () => {
+    if (!sample.practice_area_id) return;
+
+    try {
+      setIsPreviewing(true);
+      const { data, error } = await supabase.rpc('preview_lead_distribution', {
+        p_practice_area_id: sample.practice_area_id,
+        p_firm_location: sample.firm_location.trim(),
+        p_urgency: Number(sample.urgency) || 5,
+        p_language: sample.language,
+      });
+
+      if (error) throw error;
+      setPreview((data || []) as PreviewRow[]);
+    } catch (error) {
+      console.error('Error previewing distribution:', error);
+      alert('Failed to preview distribution');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const describeScope = (strategy: Strategy) => {
+    const area = strategy.practice_area_id
+      ? practiceAreas.find((option) => option.id === strategy.practice_area_id)?.name ?? 'Unknown practice area'
+      : 'All practice areas';
+    return `${area} · ${strategy.location_key ?? 'All regions'}`;
+  };
+
+  const describeSettings = (strategy: Strategy) => {
+    const rounds = `up to ${strategy.max_attempts} offer ${strategy.max_attempts === 1 ? 'round' : 'rounds'}`;
+    if (strategy.strategy === 'exclusive') {
+      return `to ${firms.find((firm) => firm.id === strategy.exclusive_firm_id)?.name ?? 'unknown firm'} · ${rounds}`;
+    }
+    if (!usesScore(strategy.strategy)) return rounds;
+
+    const weights = toPercentages(strategy.weights);
+    const parts = [
+      WEIGHT_FIELDS.map(({ key, label }) => `${label} ${weights[key]}`).join(' / '),
+      `min ${Math.round(Number(strategy.min_score) * 100)}%`,
+      strategy.strategy === 'broadcast' && `top ${strategy.firm_count}`,
+      rounds,
+    ].filter(Boolean);
+    return parts.join(' · ');
+  };
+
+  return (
+    <div className="rounded-lg border border-zinc-800 bg-zinc-900">
+      <div className="border-b border-zinc-800 px-6 py-4">
+        <div className="flex items-center gap-3">
+          <Shuffle className="h-5 w-5 text-cyan-400" />
+          <h3 className="text-lg font-medium text-white">Distribution Strategies</h3>
+        </div>
+        <p className="mt-1 text-sm text-zinc-400">
+          The most specific active strategy for a lead's practice area and state applies; without one, leads rotate.
+        </p>
+      </div>
+
+      <div className="space-y-6 p-6">
+        <div className="rounded-lg border border-zinc-700 p-4">
+          <h4 className="mb-3 text-sm font-medium text-zinc-300">{form.id ? 'Edit Strategy' : 'Add Strategy'}</h4>
+          <div className="grid grid-cols-2 gap-3 lg:grid-cols-4">
+            <select
+              value={form.practice_area_id}
+              onChange={(e) => setForm({ ...form, practice_area_id: e.target.value })}
+              className="rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white"
+            >
+              <option value="">All practice areas</option>
+              {practiceAreas.map((area) => (
+                <option key={area.id} value={area.id}>{area.name}</option>
+              ))}
+            </select>
+            <Input
+              placeholder="State, e.g. TX (blank for all)"
+              value={form.location_key}
+              onChange={(e) => setForm({ ...form, location_key: e.target.value })}
+              className="bg-zinc-800 border-zinc-700"
+            />
+            <select
+              value={form.strategy}
+              onChange={(e) => setForm({ ...form, strategy: e.target.value as StrategyName })}
+              className="rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white"
+            >
+              {STRATEGIES.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {form.strategy === 'exclusive' && (
+              <select
+                value={form.exclusive_firm_id}
+                onChange={(e) => setForm({ ...form, exclusive_firm_id: e.target.value })}
+                className="rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white"
+              >
+                <option value="">Firm…</option>
+                {firms.map((firm) => (
+                  <option key={firm.id} value={firm.id}>{firm.name}</option>
+                ))}
+              </select>
+            )}
+            {form.strategy === 'broadcast' && (
+              <Input
+                type="number"
+                min={1}
+                placeholder="Firms per lead"
+                value={form.firm_count}
+                onChange={(e) => setForm({ ...form, firm_count: e.target.value })}
+                className="bg-zinc-800 border-zinc-700"
+              />
+            )}
+            <Input
+              type="number"
+              min={1}
+              placeholder="Offer rounds per lead"
+              title="Offer rounds per lead before it is marked exhausted"
+              value={form.max_attempts}
+              onChange={(e) => setForm({ ...form, max_attempts: e.target.value })}
+              className="bg-zinc-800 border-zinc-700"
+            />
+          </div>
+
+          {usesScore(form.strategy) && (
+            <div className="mt-3 grid grid-cols-2 gap-3 lg:grid-cols-6">
+              {WEIGHT_FIELDS.map(({ key, label }) => (
+                <label key={key} className="text-xs text-zinc-400">
+                  {label} (%)
+                  <Input
+                    type="number"
+                    min={0}
+                    value={form.weights[key]}
+                    onChange={(e) =>
+                      setForm({ ...form, weights: { ...form.weights, [key]: Number(e.target.value) } })
+                    }
+                    className="mt-1 bg-zinc-800 border-zinc-700"
+                  />
+                </label>
+              ))}
+              <label className="text-xs text-zinc-400">
+                Minimum score (%)
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={form.min_score}
+                  onChange={(e) => setForm({ ...form, min_score: e.target.value })}
+                  className="mt-1 bg-zinc-800 border-zinc-700"
+                />
+              </label>
+            </div>
+          )}
+
+          <div className="mt-3 flex gap-2">
+            <Button onClick={saveStrategy} disabled={isSaving} size="sm">
+              <Plus className="mr-2 h-4 w-4" />
+              {form.id ? 'Save Strategy' : 'Add Strategy'}
+            </Button>
+            {form.id && (
+              <Button variant="outline" size="sm" onClick={() => setForm(emptyForm)}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {strategies.length === 0 ? (
+          <p className="text-center text-zinc-500">No strategies — every lead goes through the rotation</p>
+        ) : (
+          <div className="space-y-2">
+            {strategies.map((strategy) => (
+              <div key={strategy.id} className="flex items-center justify-between rounded-lg border border-zinc-700 p-3">
+                <div>
+                  <p className="text-sm font-medium text-white">
+                    {describeScope(strategy)}
+                    <span className="ml-2 text-cyan-400">{strategyLabel(strategy.strategy)}</span>
+                    {!strategy.active && <span className="ml-2 text-xs text-zinc-500">(disabled)</span>}
+                  </p>
+                  <p className="text-xs text-zinc-400">{describeSettings(strategy)}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => editStrategy(strategy)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => toggleStrategy(strategy)}>
+                    {strategy.active ? 'Disable' : 'Enable'}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => deleteStrategy(strategy.id)}>
+                    <Trash className="h-4 w-4 text-red-400" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="rounded-lg border border-zinc-700 p-4">
+          <h4 className="mb-1 text-sm font-medium text-zinc-300">Preview</h4>
+          <p className="mb-3 text-xs text-zinc-500">
+            Shows which firms a sample lead would be offered to right now. Nothing is assigned.
+          </p>
+          <div className="grid grid-cols-2 gap-3 lg:grid-cols-5">
+            <select
+              value={sample.practice_area_id}
+              onChange={(e) => setSample({ ...sample, practice_area_id: e.target.value })}
+              className="rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white"
+            >
+              <option value="">Practice area…</option>
+              {practiceAreas.map((area) => (
+                <option key={area.id} value={area.id}>{area.name}</option>
+              ))}
+            </select>
+            <Input
+              placeholder="Location, e.g. Austin, TX"
+              value={sample.firm_location}
+              onChange={(e) => setSample({ ...sample, firm_location: e.target.value })}
+              className="bg-zinc-800 border-zinc-700"
+            />
+            <Input
+              type="number"
+              min={1}
+              max={10}
+              placeholder="Urgency (1-10)"
+              value={sample.urgency}
+              onChange={(e) => setSample({ ...sample, urgency: e.target.value })}
+              className="bg-zinc-800 border-zinc-700"
+            />
+            <select
+              value={sample.language}
+              onChange={(e) => setSample({ ...sample, language: e.target.value })}
+              className="rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white"
+            >
+              {SUPPORTED_LANGUAGES.map((lang) => (
+                <option key={lang.value} value={lang.value}>{lang.label}</option>
+              ))}
+            </select>
+            <Button onClick={runPreview} disabled={isPreviewing || !sample.practice_area_id} size="sm">
+              <Play className="mr-2 h-4 w-4" />
+              Preview
+            </Button>
+          </div>
+
+          {preview && (
+            preview.length === 0 ? (
+              <p className="mt-4 text-sm text-zinc-500">No eligible firm would receive this lead.</p>
+            ) : (
+              <div className="mt-4 space-y-2">
+                <p className="text-xs text-zinc-400">
+                  {strategyLabel(preview[0].strategy)} for {preview[0].location_key || 'unknown region'}
+                </p>
+                {preview.map((row) => (
+                  <div key={row.law_firm_id} className="flex items-center justify-between rounded border border-zinc-800 p-2">
+                    <div>
+                      <p className="text-sm text-white">
+                        {row.firm_name}
+                        {row.distance_miles !== null && (
+                          <span className="ml-2 text-xs text-zinc-500">{Math.round(Number(row.distance_miles))} mi</span>
+                        )}
+                      </p>
+                      {row.score_breakdown && (
+                        <p className="text-xs text-zinc-500">
+                          {WEIGHT_FIELDS.map(({ key, label }) =>
+                            `${label} ${Math.round(Number(row.score_breakdown?.[key] ?? 0) * 100)}%`
+                          ).join(' · ')}
+                        </p>
+                      )}
+                    </div>
+                    <span className="rounded bg-cyan-900/30 px-2 py-1 text-xs text-cyan-400">
+                      {Math.round(Number(row.match_score) * 100)}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { ChevronDown, ChevronUp, History, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+type Offer = {
+  id: string;
+  attempt: number;
+  status: string;
+  assignment_method: string;
+  match_score: number | null;
+  assigned_at: string;
+  responded_at: string | null;
+  expires_at: string | null;
+  rejection_reason: string | null;
+  law_firm: { name: string } | null;
+};
+
+type LeadOffers = {
+  id: string;
+  name: string | null;
+  case_category: string | null;
+  firm_location: string | null;
+  max_offer_attempts: number | null;
+  distribution_exhausted_at: string | null;
+  lead_assignments: Offer[];
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-yellow-900/30 text-yellow-400',
+  accepted: 'bg-green-900/30 text-green-400',
+  rejected: 'bg-red-900/30 text-red-400',
+  expired: 'bg-gray-900/30 text-gray-400',
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+const rounds = (lead: LeadOffers) =>
+  lead.lead_assignments.reduce((max, offer) => Math.max(max, offer.attempt), 0);
+
+// Every offer made for recent leads, round by round, with a way to send stuck leads out again
+export const OfferHistory = () => {
+  const [leads, setLeads] = useState<LeadOffers[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [exhaustedOnly, setExhaustedOnly] = useState(false);
+  const [limits, setLimits] = useState<Record<string, string>>({});
+  const [redistributingId, setRedistributingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchOffers();
+  }, [exhaustedOnly]);
+
+  const fetchOffers = async () => {
+    try {
+      let query = supabase
+        .from('conversations')
+        .select(`
+          id,
+          name,
+          case_category,
+          firm_location,
+          max_offer_attempts,
+          distribution_exhausted_at,
+          lead_assignments!inner(
+            id,
+            attempt,
+            status,
+            assignment_method,
+            match_score,
+            assigned_at,
+            responded_at,
+            expires_at,
+            rejection_reason,
+            law_firm:law_firms(name)
+          )
+        `)
+        .order('created_at', { ascending: false })
+        .limit(25);
+
+      if (exhaustedOnly) {
+        query = query.not('distribution_exhausted_at', 'is', null);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setLeads((data || []) as unknown as LeadOffers[]);
+    } catch (error) {
+      console.error('Error fetching offer history:', error);
+    }
+  };
+
+  const redistribute = async (lead: LeadOffers) => {
+    const limit = limits[lead.id]?.trim();
+    const maxAttempts = limit ? parseInt(limit, 10) : null;
+    if (maxAttempts !== null && (Number.isNaN(maxAttempts) || maxAttempts < 1)) {
+      alert('Offer rounds must be at least 1');
+      return;
+    }
+
+    try {
+      setRedistributingId(lead.id);
+      const { error } = await supabase.rpc('redistribute_lead', {
+        p_conversation_id: lead.id,
+        p_max_attempts: maxAttempts,
+      });
+
+      if (error) throw error;
+
+      setLimits({ ...limits, [lead.id]: '' });
+      fetchOffers();
+    } catch (error) {
+      console.error('Error redistributing lead:', error);
+      alert('Failed to redistribute lead');
+    } finally {
+      setRedistributingId(null);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-zinc-800 bg-zinc-900">
+      <div className="flex items-center justify-between border-b border-zinc-800 px-6 py-4">
+        <div>
+          <div className="flex items-center gap-3">
+            <History className="h-5 w-5 text-cyan-400" />
+            <h3 className="text-lg font-medium text-white">Offer History</h3>
+          </div>
+          <p className="mt-1 text-sm text-zinc-400">
+            Passed and expired offers move to the next firm until a firm accepts or the lead runs out of rounds.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-zinc-300">
+          <input
+            type="checkbox"
+            checked={exhaustedOnly}
+            onChange={(e) => setExhaustedOnly(e.target.checked)}
+            className="rounded border-zinc-600 bg-zinc-800 text-cyan-500"
+          />
+          Exhausted only
+        </label>
+      </div>
+
+      <div className="divide-y divide-zinc-800">
+        {leads.length === 0 ? (
+          <p className="p-6 text-center text-zinc-500">No offers yet</p>
+        ) : (
+          leads.map((lead) => {
+            const offers = [...lead.lead_assignments].sort(
+              (a, b) => a.attempt - b.attempt || a.assigned_at.localeCompare(b.assigned_at)
+            );
+            const isExpanded = expandedId === lead.id;
+
+            return (
+              <div key={lead.id} className="px-6 py-4">
+                <button
+                  type="button"
+                  onClick={() => setExpandedId(isExpanded ? null : lead.id)}
+                  className="flex w-full items-center justify-between text-left"
+                >
+                  <div>
+                    <p className="text-sm font-medium text-white">
+                      {lead.name || 'Anonymous'}
+                      <span className="ml-2 text-xs text-zinc-400">
+                        {[lead.case_category, lead.firm_location].filter(Boolean).join(' · ')}
+                      </span>
+                    </p>
+                    <p className="text-xs text-zinc-500">
+                      {offers.length} {offers.length === 1 ? 'offer' : 'offers'} over {rounds(lead)}{' '}
+                      {rounds(lead) === 1 ? 'round' : 'rounds'}
+                      {lead.max_offer_attempts && ` · limit ${lead.max_offer_attempts}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {lead.distribution_exhausted_at && (
+                      <span className="rounded bg-red-900/30 px-2 py-1 text-xs text-red-400">Exhausted</span>
+                    )}
+                    {isExpanded ? <ChevronUp className="h-4 w-4 text-zinc-400" /> : <ChevronDown className="h-4 w-4 text-zinc-400" />}
+                  </div>
+                </button>
+
+                {isExpanded && (
+                  <div className="mt-3 space-y-2">
+                    {offers.map((offer) => (
+                      <div key={offer.id} className="flex items-start justify-between rounded border border-zinc-800 p-2">
+                        <div>
+                          <p className="text-sm text-white">
+                            <span className="mr-2 text-xs text-zinc-500">Round {offer.attempt}</span>
+                            {offer.law_firm?.name ?? 'Unknown firm'}
+                            <span className="ml-2 text-xs capitalize text-zinc-400">
+                              {offer.assignment_method.replace(/_/g, ' ')}
+                            </span>
+                          </p>
+                          <p className="text-xs text-zinc-500">
+                            Offered {formatDate(offer.assigned_at)}
+                            {offer.responded_at
+                              ? ` · answered ${formatDate(offer.responded_at)}`
+                              : offer.status === 'pending' && offer.expires_at && ` · expires ${formatDate(offer.expires_at)}`}
+                          </p>
+                          {offer.rejection_reason && (
+                            <p className="text-xs text-zinc-400">"{offer.rejection_reason}"</p>
+                          )}
+                        </div>
+                        <span className={`rounded px-2 py-1 text-xs font-medium ${STATUS_COLORS[offer.status] ?? STATUS_COLORS.expired}`}>
+                          {offer.status}
+                        </span>
+                      </div>
+                    ))}
+
+                    <div className="flex items-center gap-2 pt-2">
+                      <Input
+                        type="number"
+                        min={1}
+                        placeholder="Offer rounds (optional)"
+                        value={limits[lead.id] ?? ''}
+                        onChange={(e) => setLimits({ ...limits, [lead.id]: e.target.value })}
+                        className="w-48 bg-zinc-800 border-zinc-700"
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => redistribute(lead)}
+                        disabled={redistributingId === lead.id}
+                      >
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        Offer to next firm
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { AlertTriangle, CalendarClock, ChevronDown, ChevronUp, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+type ScheduledJob = {
+  name: string;
+  description: string | null;
+  schedule: string;
+  enabled: boolean;
+  last_run_at: string | null;
+  last_duration_ms: number | null;
+  last_rows_affected: number | null;
+  last_status: 'succeeded' | 'failed' | null;
+  last_error: string | null;
+};
+
+type JobRun = {
+  id: string;
+  triggered_by: 'schedule' | 'manual';
+  status: 'running' | 'succeeded' | 'failed';
+  started_at: string;
+  duration_ms: number | null;
+  rows_affected: number | null;
+  error: string | null;
+};
+
+const STATUS_CLASSES: Record<string, string> = {
+  succeeded: 'bg-green-900/30 text-green-400',
+  failed: 'bg-red-900/30 text-red-400',
+  running: 'bg-blue-900/30 text-blue-400',
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString() + ' ' +
+  new Date(dateString).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+// Maintenance jobs run by pg_cron, with their latest outcome and recent runs
+export const ScheduledJobs = () => {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [expandedJob, setExpandedJob] = useState<string | null>(null);
+  const [busyJob, setBusyJob] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchJobs();
+  }, []);
+
+  useEffect(() => {
+    if (expandedJob) fetchRuns(expandedJob);
+  }, [expandedJob]);
+
+  const fetchJobs = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_jobs')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setJobs(data || []);
+    } catch (error) {
+      console.error('Error fetching scheduled jobs:', error);
+    }
+  };
+
+  const fetchRuns = async (jobName: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_job_runs')
+        .select('id, triggered_by, status, started_at, duration_ms, rows_affected, error')
+        .eq('job_name', jobName)
+        .order('started_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      setRuns(data || []);
+    } catch (error) {
+      console.error('Error fetching job runs:', error);
+    }
+  };
+
+  const runNow = async (jobName: string) => {
+    try {
+      setBusyJob(jobName);
+      const { error } = await supabase.rpc('trigger_scheduled_job', { p_job_name: jobName });
+      if (error) throw error;
+
+      await fetchJobs();
+      if (expandedJob === jobName) fetchRuns(jobName);
+    } catch (error) {
+      console.error('Error running scheduled job:', error);
+      alert('Failed to run job');
+    } finally {
+      setBusyJob(null);
+    }
+  };
+
+  const toggleJob = async (job: ScheduledJob) => {
+    try {
+      setBusyJob(job.name);
+      const { error } = await supabase.rpc('set_scheduled_job_enabled', {
+        p_job_name: job.name,
+        p_enabled: !job.enabled,
+      });
+      if (error) throw error;
+      fetchJobs();
+    } catch (error) {
+      console.error('Error updating scheduled job:', error);
+    } finally {
+      setBusyJob(null);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-zinc-800 bg-zinc-900">
+      <div className="border-b border-zinc-800 px-6 py-4">
+        <div className="flex items-center gap-3">
+          <CalendarClock className="h-5 w-5 text-cyan-400" />
+          <h3 className="text-lg font-medium text-white">Scheduled Maintenance</h3>
+        </div>
+        <p className="mt-1 text-sm text-zinc-400">
+          Run by pg_cron on the schedules below. Paused jobs can still be run by hand.
+        </p>
+      </div>
+
+      {jobs.length === 0 ? (
+        <p className="p-6 text-center text-zinc-500">No scheduled jobs registered</p>
+      ) : (
+        <div className="divide-y divide-zinc-800">
+          {jobs.map((job) => {
+            const isExpanded = expandedJob === job.name;
+
+            return (
+              <div key={job.name} className="px-6 py-4">
+                <div className="flex flex-col justify-between gap-3 sm:flex-row sm:items-center">
+                  <button
+                    type="button"
+                    onClick={() => setExpandedJob(isExpanded ? null : job.name)}
+                    className="flex items-start gap-2 text-left"
+                  >
+                    {isExpanded
+                      ? <ChevronUp className="mt-0.5 h-4 w-4 text-zinc-400" />
+                      : <ChevronDown className="mt-0.5 h-4 w-4 text-zinc-400" />}
+                    <div>
+                      <p className="text-sm font-medium text-white">
+                        {job.name}
+                        <code className="ml-2 text-xs text-zinc-500">{job.schedule}</code>
+                        {!job.enabled && <span className="ml-2 text-xs text-zinc-500">(paused)</span>}
+                      </p>
+                      {job.description && <p className="text-xs text-zinc-400">{job.description}</p>}
+                      <p className="text-xs text-zinc-500">
+                        {job.last_run_at
+                          ? `Last run ${formatDate(job.last_run_at)} · ${formatDuration(job.last_duration_ms)} · ${job.last_rows_affected ?? 0} rows`
+                          : 'Never run'}
+                      </p>
+                      {job.last_status === 'failed' && job.last_error && (
+                        <div className="mt-1 flex items-start gap-1 text-xs text-red-400">
+                          <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                          <span>{job.last_error}</span>
+                        </div>
+                      )}
+                    </div>
+                  </button>
+
+                  <div className="flex items-center gap-2">
+                    {job.last_status && (
+                      <span className={`rounded px-2 py-1 text-xs font-medium ${STATUS_CLASSES[job.last_status]}`}>
+                        {job.last_status}
+                      </span>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => toggleJob(job)}
+                      disabled={busyJob === job.name}
+                    >
+                      {job.enabled ? 'Pause' : 'Resume'}
+                    </Button>
+                    <Button size="sm" onClick={() => runNow(job.name)} disabled={busyJob === job.name}>
+                      <Play className="mr-1 h-3.5 w-3.5" />
+                      Run now
+                    </Button>
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="mt-3 overflow-x-auto">
+                    {runs.length === 0 ? (
+                      <p className="text-xs text-zinc-500">No runs yet</p>
+                    ) : (
+                      <table className="w-full border-collapse text-left">
+                        <thead>
+                          <tr className="border-b border-zinc-800">
+                            <th className="p-2 text-xs font-medium text-zinc-400">Started</th>
+                            <th className="p-2 text-xs font-medium text-zinc-400">Trigger</th>
+                            <th className="p-2 text-xs font-medium text-zinc-400">Status</th>
+                            <th className="p-2 text-xs font-medium text-zinc-400">Duration</th>
+                            <th className="p-2 text-xs font-medium text-zinc-400">Rows</th>
+                            <th className="p-2 text-xs font-medium text-zinc-400">Error</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {runs.map((run) => (
+                            <tr key={run.id} className="border-b border-zinc-800/50">
+                              <td className="whitespace-nowrap p-2 text-xs text-zinc-300">{formatDate(run.started_at)}</td>
+                              <td className="p-2 text-xs capitalize text-zinc-300">{run.triggered_by}</td>
+                              <td className="p-2">
+                                <span className={`rounded px-2 py-0.5 text-xs ${STATUS_CLASSES[run.status]}`}>
+                                  {run.status}
+                                </span>
+                              </td>
+                              <td className="whitespace-nowrap p-2 text-xs text-zinc-300">{formatDuration(run.duration_ms)}</td>
+                              <td className="p-2 text-xs text-zinc-300">{run.rows_affected ?? '—'}</td>
+                              <td className="max-w-xs truncate p-2 text-xs text-red-400">{run.error}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -16,7 +16,14 @@ import {
   Target,
   CreditCard,
   Home,
-  BarChart3
+  BarChart3,
+  Layers,
+  HelpCircle,
+  FlaskConical,
+  Siren,
+  Timer,
+  Route,
+  Megaphone
 } from 'lucide-react';
 import { MessageSquare } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
@@ -105,6 +112,34 @@ export const Sidebar = () => {
               <MessageSquare className="h-5 w-5" />
               <span>Conversations</span>
             </Link>
+            <Link to="/admin/escalations" className={getLinkClass(isActive('/admin/escalations'))}>
+              <Siren className="h-5 w-5" />
+              <span>Escalations</span>
+            </Link>
+            <Link to="/admin/triage" className={getLinkClass(isActive('/admin/triage'))}>
+              <HelpCircle className="h-5 w-5" />
+              <span>Triage Queue</span>
+            </Link>
+            <Link to="/admin/prompts" className={getLinkClass(isActive('/admin/prompts'))}>
+              <FlaskConical className="h-5 w-5" />
+              <span>Prompt Versions</span>
+            </Link>
+            <Link to="/admin/personas" className={getLinkClass(isActive('/admin/personas'))}>
+              <Route className="h-5 w-5" />
+              <span>Persona Routing</span>
+            </Link>
+            <Link to="/admin/attribution" className={getLinkClass(isActive('/admin/attribution'))}>
+              <Megaphone className="h-5 w-5" />
+              <span>Attribution</span>
+            </Link>
+            <Link to="/admin/usage" className={getLinkClass(isActive('/admin/usage'))}>
+              <Timer className="h-5 w-5" />
+              <span>Usage &amp; Budget</span>
+            </Link>
+            <Link to="/admin/jobs" className={getLinkClass(isActive('/admin/jobs'))}>
+              <Layers className="h-5 w-5" />
+              <span>Background Jobs</span>
+            </Link>
           </>
         )}
       </nav>
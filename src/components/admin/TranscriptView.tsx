@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Wrench } from 'lucide-react';
+
+type Turn = {
+  conversation_id: string;
+  turn_index: number;
+  speaker: 'user' | 'assistant' | 'tool';
+  text: string;
+  start_offset_ms: number | null;
+  tool_calls: { name: string; arguments: unknown }[];
+  entities: { type: string; value: string }[];
+};
+
+const formatOffset = (ms: number | null) => {
+  if (ms === null) return null;
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const TranscriptView = ({ conversationId }: { conversationId: string }) => {
+  const [turns, setTurns] = useState<Turn[]>([]);
+  const [rawTranscript, setRawTranscript] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchTurns();
+  }, [conversationId]);
+
+  const fetchTurns = async () => {
+    try {
+      setIsLoading(true);
+      // A resumed intake continues in later sessions linked to this one
+      const { data: sessions, error: sessionsError } = await supabase
+        .from('conversations')
+        .select('id')
+        .eq('intake_conversation_id', conversationId)
+        .order('created_at');
+
+      if (sessionsError) throw sessionsError;
+      const sessionIds = [conversationId, ...(sessions || []).map((session) => session.id)];
+
+      const { data, error } = await supabase
+        .from('conversation_turns')
+        .select('conversation_id, turn_index, speaker, text, start_offset_ms, tool_calls, entities')
+        .in('conversation_id', sessionIds)
+        .order('turn_index');
+
+      if (error) throw error;
+      setTurns(
+        (data || []).sort((a, b) => sessionIds.indexOf(a.conversation_id) - sessionIds.indexOf(b.conversation_id))
+      );
+
+      // Conversations stored before turns existed only have the raw column
+      if (!data?.length) {
+        const { data: conversation, error: conversationError } = await supabase
+          .from('conversations')
+          .select('transcript')
+          .eq('id', conversationId)
+          .single();
+
+        if (conversationError) throw conversationError;
+        setRawTranscript(conversation?.transcript ?? null);
+      }
+    } catch (error) {
+      console.error('Error fetching transcript:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-zinc-500">Loading transcript...</p>;
+  }
+
+  if (turns.length === 0) {
+    return rawTranscript ? (
+      <pre className="max-h-96 overflow-y-auto whitespace-pre-wrap text-sm text-zinc-300">{rawTranscript}</pre>
+    ) : (
+      <p className="text-sm text-zinc-500">No transcript received yet</p>
+    );
+  }
+
+  return (
+    <div className="max-h-96 space-y-3 overflow-y-auto pr-2">
+      {turns.map((turn, index) => {
+        const isUser = turn.speaker === 'user';
+        const offset = formatOffset(turn.start_offset_ms);
+        const reconnected = index > 0 && turns[index - 1].conversation_id !== turn.conversation_id;
+
+        return (
+          <div key={`${turn.conversation_id}-${turn.turn_index}`} className={`flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
+            {reconnected && (
+              <div className="mb-3 w-full border-t border-dashed border-zinc-700 pt-1 text-center text-xs text-zinc-500">
+                Caller reconnected
+              </div>
+            )}
+            {turn.text && (
+              <div
+                className={`max-w-[75%] whitespace-pre-wrap rounded-lg px-3 py-2 text-sm ${
+                  isUser ? 'bg-cyan-900/40 text-cyan-50' : 'bg-zinc-800 text-zinc-200'
+                }`}
+              >
+                {turn.text}
+              </div>
+            )}
+            {turn.tool_calls.map((call, index) => (
+              <div key={index} className="mt-1 flex items-center gap-1 text-xs text-zinc-500">
+                <Wrench className="h-3 w-3" />
+                {call.name}({JSON.stringify(call.arguments)})
+              </div>
+            ))}
+            <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-zinc-500">
+              <span>{isUser ? 'Client' : turn.speaker === 'tool' ? 'Tool' : 'AI'}</span>
+              {offset && <span>· {offset}</span>}
+              {turn.entities.map((entity) => (
+                <span key={`${entity.type}:${entity.value}`} className="rounded bg-zinc-800 px-1.5 py-0.5 text-zinc-400">
+                  {entity.type}: {entity.value}
+                </span>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { getEmbedConfig, getEmbedFrameUrl } from '@/api';
+import { embedTokenFromHash, getEmbedContext, setEmbedToken } from '@/utils/embed';
+import { PublicLayout } from './PublicLayout';
+
+// Public intake inside a firm's website (public/widget.js). Opened directly,
+// the page reloads through embed-widget/frame, which only the firm's allowed
+// sites may frame and which hands back the token the caller starts with.
+export const EmbedLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [firmName, setFirmName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const embed = getEmbedContext();
+    if (!embed) {
+      setError('This widget is missing its firm id.');
+      return;
+    }
+
+    const token = embedTokenFromHash(window.location.hash);
+    if (!token) {
+      window.location.replace(getEmbedFrameUrl(window.location.search));
+      return;
+    }
+
+    getEmbedConfig(token)
+      .then(({ firm_name }) => {
+        setEmbedToken(token);
+        setFirmName(firm_name);
+      })
+      .catch((error) => {
+        console.error('Error checking embed widget:', error);
+        setError(error instanceof Error ? error.message : 'This widget is not available.');
+      });
+  }, []);
+
+  if (error) {
+    return (
+      <PublicLayout>
+        <div className="flex size-full flex-col items-center justify-center gap-3 text-center text-white">
+          <AlertTriangle className="size-8 text-[#FB254F]" />
+          <p className="max-w-sm text-sm text-white/80">{error}</p>
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  if (!firmName) {
+    return (
+      <PublicLayout>
+        <div className="flex size-full items-center justify-center">
+          <div className="size-10 animate-spin rounded-full border-4 border-[#22C5FE] border-t-transparent" />
+        </div>
+      </PublicLayout>
+    );
+  }
+
+  return (
+    <PublicLayout>
+      <header className="w-full text-center text-xs text-white/60" style={{ fontFamily: 'Inter, sans-serif' }}>
+        Intake for {firmName}
+      </header>
+      {children}
+    </PublicLayout>
+  );
+};
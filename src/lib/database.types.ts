@@ -254,44 +254,59 @@ export interface Database {
           }
         ]
       }
-      matches: {
+      lead_assignments: {
         Row: {
           id: string
-          lead_id: string
+          conversation_id: string
           law_firm_id: string
           match_score: number | null
+          assignment_method: string
           status: string
+          assigned_at: string
+          responded_at: string | null
+          expires_at: string | null
+          rejection_reason: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
-          lead_id: string
+          conversation_id: string
           law_firm_id: string
           match_score?: number | null
+          assignment_method?: string
           status?: string
+          assigned_at?: string
+          responded_at?: string | null
+          expires_at?: string | null
+          rejection_reason?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
-          lead_id?: string
+          conversation_id?: string
           law_firm_id?: string
           match_score?: number | null
+          assignment_method?: string
           status?: string
+          assigned_at?: string
+          responded_at?: string | null
+          expires_at?: string | null
+          rejection_reason?: string | null
           created_at?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "matches_lead_id_fkey"
-            columns: ["lead_id"]
+            foreignKeyName: "lead_assignments_conversation_id_fkey"
+            columns: ["conversation_id"]
             isOneToOne: false
-            referencedRelation: "leads"
+            referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "matches_law_firm_id_fkey"
+            foreignKeyName: "lead_assignments_law_firm_id_fkey"
             columns: ["law_firm_id"]
             isOneToOne: false
             referencedRelation: "law_firms"
@@ -4,10 +4,14 @@ import { BrowserRouter as Router } from 'react-router-dom';
 import App from "./App.tsx";
 import { DailyProvider } from "@daily-co/daily-react";
 import { ErrorBoundary } from "./components/ErrorBoundary";
+import { captureAttribution } from "./utils/attribution";
 
 import "./fonts/Christmas and Santona.ttf";
 import "./index.css";
 
+// Before anything navigates away from the landing URL
+captureAttribution();
+
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <ErrorBoundary>
@@ -0,0 +1,184 @@
+import { DialogWrapper } from "@/components/DialogWrapper";
+import { CrisisResources } from "@/components/CrisisResources";
+import { IntakePanel } from "@/components/IntakePanel";
+import { Button } from "@/components/ui/button";
+import { endChatIntake, sendChatMessage, startChatIntake } from "@/api";
+import { callbackTimeAtom, emergencyFlagAtom, intakeAtom } from "@/store/intake";
+import { screenAtom } from "@/store/screens";
+import { settingsAtom } from "@/store/settings";
+import { cn } from "@/utils";
+import { toIntakePayload } from "@/utils/intake";
+import { useAtom, useAtomValue, useSetAtom } from "jotai";
+import { CheckIcon, SendIcon } from "lucide-react";
+import React, { useEffect, useRef, useState } from "react";
+
+type ChatMessage = { speaker: "user" | "assistant"; text: string };
+
+export const ChatIntake: React.FC = () => {
+  const setScreenState = useSetAtom(screenAtom);
+  const [intake, setIntake] = useAtom(intakeAtom);
+  const [emergency, setEmergency] = useAtom(emergencyFlagAtom);
+  const setCallbackTime = useSetAtom(callbackTimeAtom);
+  const { language } = useAtomValue(settingsAtom);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [isFinished, setIsFinished] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    // Each start creates a conversation row, so only start once
+    if (startedRef.current) return;
+    startedRef.current = true;
+
+    setIntake({});
+    setEmergency(null);
+    setCallbackTime(null);
+
+    startChatIntake(language)
+      .then(({ conversation_id, greeting }) => {
+        setConversationId(conversation_id);
+        setMessages([{ speaker: "assistant", text: greeting }]);
+      })
+      .catch((error) => {
+        console.error('Error starting chat:', error);
+        setError("We couldn't start the chat. Please try again in a few moments.");
+      });
+  }, [setIntake, setEmergency, setCallbackTime, language]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!conversationId || !text || isSending) return;
+
+    try {
+      setIsSending(true);
+      setError(null);
+      setDraft("");
+      setMessages((current) => [...current, { speaker: "user", text }]);
+
+      const { reply, emergency: flagged } = await sendChatMessage(conversationId, text);
+
+      setMessages((current) => [...current, { speaker: "assistant", text: reply }]);
+      if (flagged && !emergency) {
+        setEmergency(flagged);
+      }
+    } catch (error) {
+      console.error('Error sending chat message:', error);
+      setError(error instanceof Error ? error.message : "Your message wasn't sent. Please try again.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleFinish = async () => {
+    if (!conversationId) return;
+
+    try {
+      setIsSending(true);
+      setError(null);
+
+      // Same payload as a video call: intake fields plus the ones the caller confirmed
+      await endChatIntake(conversationId, toIntakePayload(intake));
+
+      setIntake({});
+      setEmergency(null);
+      setCallbackTime(null);
+      setIsFinished(true);
+    } catch (error) {
+      console.error('Error ending chat:', error);
+      setError("We couldn't send your details. Please try again.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (isFinished) {
+    return (
+      <DialogWrapper>
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 p-6 text-center text-white">
+          <CheckIcon className="size-10 text-[#43BD8F]" />
+          <h2 className="text-2xl font-semibold">Thanks — your details were sent</h2>
+          <p className="max-w-md text-sm text-white/70">
+            A law firm that handles cases like yours will contact you soon.
+          </p>
+          <Button variant="outline" onClick={() => setScreenState({ currentScreen: "intro" })}>
+            Back to start
+          </Button>
+        </div>
+      </DialogWrapper>
+    );
+  }
+
+  return (
+    <DialogWrapper>
+      <div className="absolute inset-0 flex gap-4 p-4">
+        <div className="flex min-w-0 flex-1 flex-col rounded-lg border border-white/20 bg-black/80 text-white backdrop-blur">
+          <div className="flex items-center justify-between border-b border-white/10 px-4 py-3">
+            <h3 className="text-sm font-medium">Chat with Lorra</h3>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleFinish}
+              disabled={!conversationId || isSending || messages.length < 2}
+            >
+              Finish
+            </Button>
+          </div>
+
+          <div className="flex-1 space-y-3 overflow-y-auto px-4 py-3">
+            <CrisisResources className="w-full" />
+            {messages.map((message, index) => (
+              <div
+                key={index}
+                className={cn(
+                  "max-w-[80%] whitespace-pre-wrap rounded-lg px-3 py-2 text-sm",
+                  message.speaker === "user"
+                    ? "ml-auto bg-[#22C5FE]/20 text-white"
+                    : "border border-white/10 bg-white/5 text-white/90",
+                )}
+              >
+                {message.text}
+              </div>
+            ))}
+            {isSending && <div className="text-xs italic text-white/50">Lorra is typing...</div>}
+            {!conversationId && !error && (
+              <div className="text-xs italic text-white/50">Starting chat...</div>
+            )}
+            <div ref={bottomRef} />
+          </div>
+
+          {error && <p className="px-4 pb-2 text-xs text-[#FB254F]">{error}</p>}
+
+          <form onSubmit={handleSend} className="flex gap-2 border-t border-white/10 p-3">
+            <input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={2000}
+              placeholder="Type your message..."
+              disabled={!conversationId}
+              className="w-full rounded border border-white/20 bg-black/40 px-3 py-2 text-sm text-white outline-none focus:border-[#22C5FE]"
+            />
+            <button
+              type="submit"
+              aria-label="Send message"
+              disabled={!conversationId || isSending || !draft.trim()}
+              className="rounded border border-[#22C5FE] px-3 text-[#22C5FE] disabled:opacity-50"
+            >
+              <SendIcon className="size-4" />
+            </button>
+          </form>
+        </div>
+
+        <IntakePanel className="hidden shrink-0 overflow-y-auto md:block" />
+      </div>
+    </DialogWrapper>
+  );
+};
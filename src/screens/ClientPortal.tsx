@@ -0,0 +1,316 @@
+import { DialogWrapper, AnimatedTextBlockWrapper } from "@/components/DialogWrapper";
+import React, { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { getClientCase, requestPortalLink, sendClientMessage, type CaseStatus, type ClientCase } from "@/api";
+import {
+  Award,
+  Calendar,
+  CheckCircle,
+  Circle,
+  Clock,
+  ExternalLink,
+  Globe,
+  Mail,
+  MapPin,
+  MessageSquare,
+  Phone,
+  Send
+} from "lucide-react";
+
+// The link's token is kept so the caller can come back without a new email
+const PORTAL_TOKEN_KEY = "client-portal-token";
+
+const STEPS: { status: CaseStatus; label: string }[] = [
+  { status: "submitted", label: "Submitted" },
+  { status: "matched", label: "Matched with a firm" },
+  { status: "accepted", label: "Firm accepted" },
+  { status: "appointment_set", label: "Appointment set" },
+];
+
+export const ClientPortal: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [token, setToken] = useState<string | null>(null);
+  const [clientCase, setClientCase] = useState<ClientCase | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [caseReference, setCaseReference] = useState("");
+  const [email, setEmail] = useState("");
+  const [linkMessage, setLinkMessage] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    const linkToken = searchParams.get("token");
+    if (linkToken) {
+      localStorage.setItem(PORTAL_TOKEN_KEY, linkToken);
+      // Keep the token out of the address bar and browser history
+      navigate("/portal", { replace: true });
+    }
+
+    const savedToken = linkToken || localStorage.getItem(PORTAL_TOKEN_KEY);
+    if (!savedToken) {
+      setIsLoading(false);
+      return;
+    }
+
+    setToken(savedToken);
+    getClientCase(savedToken)
+      .then(setClientCase)
+      .catch((err) => {
+        localStorage.removeItem(PORTAL_TOKEN_KEY);
+        setToken(null);
+        setError(err instanceof Error ? err.message : "Could not open your case");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleRequestLink = async () => {
+    try {
+      setError(null);
+      const { message } = await requestPortalLink(caseReference, email);
+      setLinkMessage(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not send the link");
+    }
+  };
+
+  const handleSendMessage = async () => {
+    if (!token || !message.trim()) return;
+
+    try {
+      setIsSending(true);
+      setClientCase(await sendClientMessage(token, message));
+      setMessage("");
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Could not send your message");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const stepIndex = clientCase ? STEPS.findIndex((step) => step.status === clientCase.status) : -1;
+  const upcoming = clientCase?.appointments.filter((a) => a.status !== "cancelled") ?? [];
+
+  return (
+    <DialogWrapper>
+      <AnimatedTextBlockWrapper>
+        <div className="flex flex-col items-center gap-6 py-8 px-4 max-w-3xl mx-auto w-full">
+          {isLoading ? (
+            <div className="h-16 w-16 animate-spin rounded-full border-4 border-cyan-400 border-t-transparent" />
+          ) : !clientCase ? (
+            <div className="w-full max-w-md bg-zinc-900/80 backdrop-blur-sm border border-zinc-800 rounded-lg p-6">
+              <h1 className="text-2xl font-bold text-white mb-2">Track Your Case</h1>
+              <p className="text-sm text-zinc-400 mb-4">
+                Enter the case reference from your confirmation and the email you gave us. We'll email you a private link.
+              </p>
+              {error && <p className="text-sm text-[#FB254F] mb-4">{error}</p>}
+              {linkMessage ? (
+                <div className="flex items-center gap-2 text-green-400">
+                  <CheckCircle className="h-5 w-5" />
+                  <p className="text-sm">{linkMessage}</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <Input
+                    placeholder="CASE-XXXXXXXX"
+                    value={caseReference}
+                    onChange={(e) => setCaseReference(e.target.value)}
+                    className="font-mono"
+                  />
+                  <Input
+                    type="email"
+                    placeholder="your@email.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                  <Button
+                    onClick={handleRequestLink}
+                    disabled={!caseReference || !email}
+                    className="w-full bg-cyan-500 hover:bg-cyan-600"
+                  >
+                    <Mail className="mr-2 h-4 w-4" />
+                    Email Me a Link
+                  </Button>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="w-full space-y-6">
+              <div className="text-center">
+                <p className="text-sm text-zinc-400 mb-1">Case Reference</p>
+                <p className="text-2xl font-bold text-cyan-400 font-mono tracking-wide">{clientCase.case_reference}</p>
+                <p className="text-sm text-zinc-500 mt-1">
+                  {clientCase.case_category || "Legal matter"} · submitted {new Date(clientCase.submitted_at).toLocaleDateString()}
+                </p>
+              </div>
+
+              {/* Status */}
+              <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800 rounded-lg p-6">
+                <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                  {STEPS.map((step, index) => (
+                    <div key={step.status} className="flex items-center gap-2">
+                      {index <= stepIndex ? (
+                        <CheckCircle className="h-5 w-5 flex-shrink-0 text-[#43BD8F]" />
+                      ) : (
+                        <Circle className="h-5 w-5 flex-shrink-0 text-zinc-600" />
+                      )}
+                      <span className={`text-sm ${index <= stepIndex ? "text-white" : "text-zinc-500"}`}>
+                        {step.label}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Firm */}
+              {clientCase.firm && (
+                <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800 rounded-lg p-6">
+                  <div className="flex items-start justify-between gap-4 mb-3">
+                    <div>
+                      <h2 className="text-lg font-bold text-white">{clientCase.firm.name}</h2>
+                      <p className="text-sm text-zinc-400">
+                        {clientCase.firm.accepted ? "Handling your case" : "Reviewing your case"}
+                      </p>
+                    </div>
+                    {Number(clientCase.firm.rating) > 0 && (
+                      <div className="flex items-center gap-1 text-sm text-yellow-400">
+                        <Award className="h-4 w-4" />
+                        {Number(clientCase.firm.rating).toFixed(1)}
+                      </div>
+                    )}
+                  </div>
+                  {clientCase.firm.description && (
+                    <p className="text-sm text-zinc-300 mb-4">{clientCase.firm.description}</p>
+                  )}
+                  <div className="grid grid-cols-1 gap-2 text-sm text-zinc-300 sm:grid-cols-2">
+                    <div className="flex items-center gap-2">
+                      <MapPin className="h-4 w-4 text-cyan-400" />
+                      {clientCase.firm.location}
+                    </div>
+                    {clientCase.firm.contact_phone && (
+                      <a href={`tel:${clientCase.firm.contact_phone}`} className="flex items-center gap-2 hover:text-cyan-400">
+                        <Phone className="h-4 w-4 text-cyan-400" />
+                        {clientCase.firm.contact_phone}
+                      </a>
+                    )}
+                    {clientCase.firm.contact_email && (
+                      <a href={`mailto:${clientCase.firm.contact_email}`} className="flex items-center gap-2 hover:text-cyan-400">
+                        <Mail className="h-4 w-4 text-cyan-400" />
+                        {clientCase.firm.contact_email}
+                      </a>
+                    )}
+                    {clientCase.firm.website && (
+                      <a
+                        href={clientCase.firm.website}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-2 hover:text-cyan-400"
+                      >
+                        <Globe className="h-4 w-4 text-cyan-400" />
+                        Website
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                    {Number(clientCase.firm.avg_response_time_minutes) > 0 && (
+                      <div className="flex items-center gap-2 text-zinc-400">
+                        <Clock className="h-4 w-4" />
+                        Avg response: {Math.round(Number(clientCase.firm.avg_response_time_minutes) / 60)} hours
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Appointments */}
+              {upcoming.length > 0 && (
+                <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800 rounded-lg p-6">
+                  <h2 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                    <Calendar className="h-5 w-5 text-cyan-400" />
+                    Appointments
+                  </h2>
+                  <div className="space-y-3">
+                    {upcoming.map((appointment) => (
+                      <div key={appointment.id} className="flex items-center justify-between gap-4 rounded-lg bg-zinc-800/50 p-3">
+                        <div>
+                          <p className="text-sm font-medium text-white">
+                            {new Date(appointment.scheduled_for).toLocaleString()}
+                          </p>
+                          <p className="text-xs text-zinc-400 capitalize">
+                            {appointment.meeting_type.replace("_", " ")} · {appointment.duration_minutes ?? 30} min · {appointment.status.replace("_", " ")}
+                          </p>
+                        </div>
+                        {appointment.meeting_link && (
+                          <a
+                            href={appointment.meeting_link}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 text-sm text-cyan-400 hover:text-cyan-300"
+                          >
+                            Join
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Messages */}
+              <div className="bg-zinc-900/50 backdrop-blur-sm border border-zinc-800 rounded-lg p-6">
+                <h2 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                  <MessageSquare className="h-5 w-5 text-cyan-400" />
+                  Messages
+                </h2>
+                {clientCase.messages.length === 0 ? (
+                  <p className="text-sm text-zinc-400 mb-4">
+                    {clientCase.can_message
+                      ? "No messages yet. Ask your attorney anything about your case."
+                      : "You can message your attorney once a firm accepts your case."}
+                  </p>
+                ) : (
+                  <div className="space-y-3 mb-4 max-h-80 overflow-y-auto">
+                    {clientCase.messages.map((msg) => (
+                      <div key={msg.id} className={`flex ${msg.sender_type === "client" ? "justify-end" : "justify-start"}`}>
+                        <div
+                          className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                            msg.sender_type === "client" ? "bg-cyan-500/20 text-white" : "bg-zinc-800 text-zinc-200"
+                          }`}
+                        >
+                          <p className="whitespace-pre-wrap">{msg.message}</p>
+                          <p className="mt-1 text-xs text-zinc-500">{new Date(msg.created_at).toLocaleString()}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {clientCase.can_message && (
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Write a message..."
+                      value={message}
+                      onChange={(e) => setMessage(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && handleSendMessage()}
+                      maxLength={2000}
+                      className="flex-1"
+                    />
+                    <Button
+                      onClick={handleSendMessage}
+                      disabled={isSending || !message.trim()}
+                      className="bg-cyan-500 hover:bg-cyan-600"
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </AnimatedTextBlockWrapper>
+    </DialogWrapper>
+  );
+};
@@ -8,11 +8,12 @@ import {
   useAudioTrack,
   useDailyEvent,
 } from "@daily-co/daily-react";
-import React, { useCallback, useEffect, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import Video from "@/components/Video";
 import { conversationAtom } from "@/store/conversation";
 import { useAtom, useAtomValue } from "jotai";
 import { screenAtom } from "@/store/screens";
+import { selectedDevicesAtom } from "@/store/devices";
 import { Button } from "@/components/ui/button";
 import { endConversation } from "@/api/endConversation";
 import {
@@ -22,17 +23,21 @@ import {
   VideoOffIcon,
   PhoneIcon,
 } from "lucide-react";
-import {
-  clearSessionTime,
-  getSessionTime,
-  setSessionStartTime,
-  updateSessionEndTime,
-} from "@/utils";
 import { Timer } from "@/components/Timer";
-import { TIME_LIMIT } from "@/config";
-import { niceScoreAtom } from "@/store/game";
-import { naughtyScoreAtom } from "@/store/game";
-import { Game } from "@/components/Game";
+import { IntakePanel } from "@/components/IntakePanel";
+import { CrisisResources } from "@/components/CrisisResources";
+import { callbackTimeAtom, emergencyFlagAtom, intakeAtom } from "@/store/intake";
+import { recordToolCall } from "@/api/recordToolCall";
+import { dispatchIntakeTool } from "@/utils/intakeTools";
+import {
+  clearActiveConversation,
+  saveActiveConversation,
+} from "@/utils/activeConversation";
+import {
+  applyIntakeEntity,
+  intakeFieldForEntity,
+  toIntakePayload,
+} from "@/utils/intake";
 import { quantum } from 'ldrs';
 import { cn } from "@/lib/utils";
 
@@ -53,8 +58,6 @@ const outroPhrases = [
 export const Conversation: React.FC = () => {
   const [conversation, setConversation] = useAtom(conversationAtom);
   const [, setScreenState] = useAtom(screenAtom);
-  const [naughtyScore] = useAtom(naughtyScoreAtom);
-  const [niceScore] = useAtom(niceScoreAtom);
 
   const daily = useDaily();
   const localSessionId = useLocalSessionId();
@@ -63,30 +66,35 @@ export const Conversation: React.FC = () => {
   const isCameraEnabled = !localVideo.isOff;
   const isMicEnabled = !localAudio.isOff;
   const remoteParticipantIds = useParticipantIds({ filter: "remote" });
+  const selectedDevices = useAtomValue(selectedDevicesAtom);
   const [start, setStart] = useState(false);
+  const [callStartedAt, setCallStartedAt] = useState<number | null>(null);
+  const maxCallDuration = conversation?.max_call_duration ?? 0;
 
-  // State to store conversation data
-  const [conversationData, setConversationData] = useState({
-    name: '',
-    email: '',
-    phone: '',
-    case_description: '',
-  });
+  // Intake fields captured by the avatar and confirmed by the caller
+  const [intake, setIntake] = useAtom(intakeAtom);
+  const [emergency, setEmergency] = useAtom(emergencyFlagAtom);
+  const [callbackTime, setCallbackTime] = useAtom(callbackTimeAtom);
 
   useEffect(() => {
     if (remoteParticipantIds.length && !start) {
       setStart(true);
+      setCallStartedAt(Date.now());
       setTimeout(() => daily?.setLocalAudio(true), 4000);
     }
   }, [remoteParticipantIds, start]);
 
+  // The call length is reserved server-side and Tavus ends the call when it
+  // runs out; this only says goodbye and leaves cleanly just before that
   useEffect(() => {
-    if (!remoteParticipantIds.length || !start) return;
+    if (callStartedAt === null) return;
 
-    setSessionStartTime();
+    let saidTimeToGo = false;
+    let saidOutro = false;
     const interval = setInterval(() => {
-      const time = getSessionTime();
-      if (time === TIME_LIMIT - 60) {
+      const remaining = maxCallDuration - Math.floor((Date.now() - callStartedAt) / 1000);
+      if (remaining <= 60 && !saidTimeToGo) {
+        saidTimeToGo = true;
         daily?.sendAppMessage({
           message_type: "conversation",
           event_type: "conversation.echo",
@@ -99,7 +107,8 @@ export const Conversation: React.FC = () => {
           },
         });
       }
-      if (time === TIME_LIMIT - 10) {
+      if (remaining <= 10 && !saidOutro) {
+        saidOutro = true;
         daily?.sendAppMessage({
           message_type: "conversation",
           event_type: "conversation.echo",
@@ -111,15 +120,13 @@ export const Conversation: React.FC = () => {
           },
         });
       }
-      if (time >= TIME_LIMIT) {
-        leaveConversation();
+      if (remaining <= 0) {
+        leaveConversationRef.current();
         clearInterval(interval);
-      } else {
-        updateSessionEndTime();
       }
     }, 1000);
     return () => clearInterval(interval);
-  }, [remoteParticipantIds, start]);
+  }, [callStartedAt, maxCallDuration]);
 
   useEffect(() => {
     console.log('=== CONVERSATION DEBUG ===');
@@ -147,11 +154,17 @@ export const Conversation: React.FC = () => {
           url: conversation.conversation_url,
           startVideoOff: false,
           startAudioOff: true,
+          // Devices picked in the pre-call check
+          ...(selectedDevices?.cameraId && { videoSource: selectedDevices.cameraId }),
+          ...(selectedDevices?.micId && { audioSource: selectedDevices.micId }),
         })
         .then((result) => {
           console.log('✅ Successfully joined Daily.co call:', result);
           daily?.setLocalVideo(true);
           daily?.setLocalAudio(false);
+          if (selectedDevices?.speakerId) {
+            daily?.setOutputDeviceAsync({ outputDeviceId: selectedDevices.speakerId });
+          }
         })
         .catch((error) => {
           console.error('❌ Failed to join Daily.co call:', error);
@@ -167,6 +180,27 @@ export const Conversation: React.FC = () => {
     }
   }, [conversation?.conversation_url, daily]);
 
+  // Keep the call and what's been captured so far, so a reload or dropped
+  // connection can rejoin or continue this intake
+  useEffect(() => {
+    if (conversation) {
+      saveActiveConversation(conversation, { fields: intake, emergency, callbackTime });
+    }
+  }, [conversation, intake, emergency, callbackTime]);
+
+  // A fatal call error keeps the saved conversation for the resume screen
+  useDailyEvent(
+    "error",
+    useCallback(
+      (ev: { errorMsg?: string }) => {
+        console.error('Daily call error:', ev.errorMsg);
+        daily?.leave();
+        setScreenState({ currentScreen: "resume" });
+      },
+      [daily, setScreenState]
+    )
+  );
+
   // Handle Tavus messages to extract user information
   useDailyEvent(
     "app-message",
@@ -180,48 +214,61 @@ export const Conversation: React.FC = () => {
             entity_name?: string;
             entity_type?: string;
             value?: string;
+            name?: string;
+            arguments?: unknown;
+            tool_call_id?: string;
           };
         };
       }) => {
-        if (ev.data?.event_type === "conversation.echo" && ev.data?.properties?.modality === "text") {
-          const text = ev.data.properties.text || "";
-          console.log("Received message:", text);
-          
-          // Try to build a more complete case description from AI responses
-          if (text.length > 20 && !text.includes("I'll need to dash off") && !text.includes("It's time for me to go")) {
-            setConversationData(prev => ({
-              ...prev,
-              case_description: prev.case_description 
-                ? `${prev.case_description}\n\nAI: ${text}`
-                : `AI: ${text}`
-            }));
+        // Persona tool calls update the intake, report back to the persona
+        // and are recorded for audit
+        if (ev.data?.event_type === "conversation.tool_call" && ev.data.properties?.name) {
+          const { name, arguments: rawArguments, tool_call_id } = ev.data.properties;
+          const { state, result } = dispatchIntakeTool(
+            { fields: intake, emergency, callbackTime },
+            name,
+            rawArguments,
+          );
+
+          setIntake(state.fields);
+          setEmergency(state.emergency);
+          setCallbackTime(state.callbackTime);
+
+          daily?.sendAppMessage({
+            message_type: "conversation",
+            event_type: "conversation.append_llm_context",
+            conversation_id: conversation?.conversation_id,
+            properties: {
+              context: `Result of ${name}: ${result.ok ? result.message : `failed - ${result.error}`}`,
+            },
+          });
+
+          if (conversation?.conversation_id) {
+            recordToolCall(conversation.conversation_id, conversation.tool_call_token, {
+              tool_call_id: tool_call_id ?? null,
+              name,
+              arguments: rawArguments ?? null,
+              result,
+            });
           }
         }
-        
+
+
         // Extract entities from NER results
         if (ev.data?.event_type === "conversation.entity" && 
             ev.data?.properties?.entity_name &&
             ev.data?.properties?.entity_type &&
             ev.data?.properties?.value) {
           
-          const { entity_type, value } = ev.data.properties;
-          
-          switch(entity_type.toLowerCase()) {
-            case "person":
-            case "name":
-              setConversationData(prev => ({ ...prev, name: value }));
-              break;
-            case "email":
-              setConversationData(prev => ({ ...prev, email: value }));
-              break;
-            case "phone":
-            case "phone_number":
-              setConversationData(prev => ({ ...prev, phone: value }));
-              break;
+          const { entity_name, entity_type, value } = ev.data.properties;
+          const field = intakeFieldForEntity(entity_type, entity_name);
+
+          if (field) {
+            setIntake(prev => applyIntakeEntity(prev, field, value));
           }
         }
       },
-      []
+      [daily, conversation, intake, emergency, callbackTime, setIntake, setEmergency, setCallbackTime]
     )
   );
 
@@ -238,51 +285,44 @@ export const Conversation: React.FC = () => {
     daily?.destroy();
     
     if (conversation?.conversation_id) {
-      // Calculate urgency score based on case description
-      let urgencyScore = 5; // Default medium urgency
-      const description = conversationData.case_description.toLowerCase();
-      
-      if (description.includes('urgent') || 
-          description.includes('emergency') || 
-          description.includes('immediately') ||
-          description.includes('critical')) {
-        urgencyScore = 9;
-      } else if (description.includes('soon') || 
-                description.includes('quickly') ||
-                description.includes('important')) {
-        urgencyScore = 7;
-      } else if (description.includes('no rush') ||
-                description.includes('whenever') ||
-                description.includes('not urgent')) {
-        urgencyScore = 3;
-      }
-      
-      // End the conversation and pass the collected data
-      await endConversation(conversation.conversation_id, {
-        ...conversationData,
-        urgency_score: urgencyScore
-      });
+      // End the conversation and pass the intake fields, flagging the ones the
+      // caller confirmed; case description and urgency are derived
+      // server-side from the transcript
+      await endConversation(conversation.conversation_id, conversation.tool_call_token, toIntakePayload(intake));
     }
     
     setConversation(null);
-    clearSessionTime();
+    setIntake({});
+    setEmergency(null);
+    setCallbackTime(null);
+    clearActiveConversation();
 
     // Return to home screen instead of final screen
     setScreenState({ currentScreen: "intro" });
-  }, [daily, conversation, conversationData, naughtyScore, niceScore, setScreenState, setConversation]);
+  }, [daily, conversation, intake, setScreenState, setConversation, setIntake, setEmergency, setCallbackTime]);
+
+  // The session timer is set up once, so it calls through a ref to send the
+  // latest intake fields when time runs out
+  const leaveConversationRef = useRef(leaveConversation);
+  useEffect(() => {
+    leaveConversationRef.current = leaveConversation;
+  }, [leaveConversation]);
 
   return (
     <DialogWrapper>
       <div className="absolute inset-0 size-full">
         {remoteParticipantIds?.length > 0 ? (
           <>
-            <Timer />
+            {callStartedAt !== null && (
+              <Timer startedAt={callStartedAt} duration={maxCallDuration} />
+            )}
             <Video
               id={remoteParticipantIds[0]}
               className="size-full"
               tileClassName="!object-cover"
             />
-            <Game />
+            <IntakePanel className="absolute right-4 top-4 z-10 hidden md:block" />
+            <CrisisResources className="absolute left-4 top-20 z-10 max-w-[calc(100%-2rem)]" />
           </>
         ) : (
           <div className="flex h-full items-center justify-center">
@@ -4,12 +4,15 @@ import {
   DialogWrapper,
   StaticTextBlockWrapper,
 } from "@/components/DialogWrapper";
-import { RefreshCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MessageSquare, RefreshCcw } from "lucide-react";
 import React from "react";
 
-export const ConversationError: React.FC<{ onClick: () => void }> = ({
-  onClick,
-}) => {
+export const ConversationError: React.FC<{
+  onClick: () => void;
+  // Offers the text chat intake when video can't connect
+  onChat?: () => void;
+}> = ({ onClick, onChat }) => {
   return (
     <DialogWrapper>
       <AnimatedTextBlockWrapper>
@@ -19,9 +22,16 @@ export const ConversationError: React.FC<{ onClick: () => void }> = ({
           titleClassName="sm:max-w-full"
           description="We're having trouble connecting. Please try again in a few moments."
         >
-          <AudioButton onClick={onClick} className="mt-6 sm:mt-8">
-            <RefreshCcw className="size-5" /> Try Again
-          </AudioButton>
+          <div className="mt-6 flex flex-col items-center gap-3 sm:mt-8 sm:flex-row">
+            <AudioButton onClick={onClick}>
+              <RefreshCcw className="size-5" /> Try Again
+            </AudioButton>
+            {onChat && (
+              <Button variant="outline" onClick={onChat}>
+                <MessageSquare className="size-5" /> Chat by text instead
+              </Button>
+            )}
+          </div>
         </StaticTextBlockWrapper>
       </AnimatedTextBlockWrapper>
     </DialogWrapper>
@@ -0,0 +1,322 @@
+import { createConversation, OutOfMinutesError } from "@/api";
+import { AnimatedTextBlockWrapper, DialogWrapper } from "@/components/DialogWrapper";
+import Video from "@/components/Video";
+import { Button } from "@/components/ui/button";
+import { conversationAtom } from "@/store/conversation";
+import { selectedDevicesAtom } from "@/store/devices";
+import { screenAtom } from "@/store/screens";
+import { settingsAtom } from "@/store/settings";
+import { cn } from "@/utils";
+import {
+  CheckResult,
+  evaluateDeviceCheck,
+  MIC_HEARD_LEVEL,
+  NetworkCheck,
+  toNetworkCheck,
+} from "@/utils/deviceCheck";
+import {
+  useAudioLevelObserver,
+  useDaily,
+  useDevices,
+  useLocalSessionId,
+} from "@daily-co/daily-react";
+import { useAtomValue, useSetAtom } from "jotai";
+import {
+  AlertTriangleIcon,
+  CheckIcon,
+  LoaderIcon,
+  MessageSquare,
+  RefreshCcw,
+  Video as VideoIcon,
+  XIcon,
+} from "lucide-react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ConversationError } from "./ConversationError";
+import zoomSound from "@/assets/sounds/zoom.mp3";
+import gloriaVideo from "@/assets/video/gloria.mp4";
+import { quantum } from 'ldrs';
+
+// Register the quantum loader
+quantum.register();
+
+const useCreateConversationMutation = () => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const setScreenState = useSetAtom(screenAtom);
+  const setConversation = useSetAtom(conversationAtom);
+  const { language } = useAtomValue(settingsAtom);
+
+  const createConversationRequest = async () => {
+    try {
+      console.log('=== CREATING CONVERSATION REQUEST ===');
+      setIsLoading(true);
+      setError(null);
+
+      const conversation = await createConversation(language);
+      console.log('Conversation created successfully:', conversation);
+
+      setConversation(conversation);
+      setScreenState({ currentScreen: "conversation" });
+    } catch (error) {
+      if (error instanceof OutOfMinutesError) {
+        setScreenState({ currentScreen: "outOfMinutes" });
+        return;
+      }
+      console.error('Failed to create conversation:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create conversation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    isLoading,
+    error,
+    createConversationRequest,
+  };
+};
+
+const CheckRow = ({ label, result }: { label: string; result: CheckResult }) => (
+  <div className="flex items-start gap-2">
+    {result.status === "ok" && <CheckIcon className="mt-0.5 size-4 shrink-0 text-[#43BD8F]" />}
+    {result.status === "checking" && <LoaderIcon className="mt-0.5 size-4 shrink-0 animate-spin text-[#22C5FE]" />}
+    {result.status === "warning" && <AlertTriangleIcon className="mt-0.5 size-4 shrink-0 text-yellow-400" />}
+    {result.status === "failed" && <XIcon className="mt-0.5 size-4 shrink-0 text-[#FB254F]" />}
+    <div>
+      <p className="text-sm font-medium">{label}</p>
+      <p className="text-xs text-white/70">{result.message}</p>
+    </div>
+  </div>
+);
+
+const DeviceSelect = ({
+  label,
+  devices,
+  onChange,
+}: {
+  label: string;
+  devices: { device: MediaDeviceInfo; selected: boolean }[];
+  onChange: (deviceId: string) => void;
+}) => (
+  <label className="block text-xs text-white/60">
+    {label}
+    <select
+      value={devices.find(({ selected }) => selected)?.device.deviceId ?? ""}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={devices.length === 0}
+      className="mt-1 w-full rounded border border-white/20 bg-black/40 px-2 py-1 text-sm text-white outline-none focus:border-[#22C5FE]"
+    >
+      {devices.length === 0 && <option value="">None found</option>}
+      {devices.map(({ device }, index) => (
+        <option key={device.deviceId} value={device.deviceId}>
+          {device.label || `${label} ${index + 1}`}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+// Checks camera, mic, speakers and connection before a Tavus conversation is
+// created, so a broken device doesn't cost the caller minutes
+export const DeviceCheck: React.FC = () => {
+  const daily = useDaily();
+  const {
+    cameras,
+    microphones,
+    speakers,
+    currentCam,
+    currentMic,
+    currentSpeaker,
+    camState,
+    micState,
+    setCamera,
+    setMicrophone,
+    setSpeaker,
+  } = useDevices();
+  const localSessionId = useLocalSessionId();
+  const setScreenState = useSetAtom(screenAtom);
+  const setSelectedDevices = useSetAtom(selectedDevicesAtom);
+  const { createConversationRequest, isLoading: isCreatingConversation, error: conversationError } = useCreateConversationMutation();
+  const [micLevel, setMicLevel] = useState(0);
+  const [micHeard, setMicHeard] = useState(false);
+  const [network, setNetwork] = useState<NetworkCheck>({ status: "pending" });
+  const [isPlayingSound, setIsPlayingSound] = useState(false);
+  const networkTestRun = useRef(0);
+  const audio = useMemo(() => {
+    const audioObj = new Audio(zoomSound);
+    audioObj.volume = 0.7;
+    return audioObj;
+  }, []);
+
+  useEffect(() => {
+    daily
+      ?.startCamera({ startVideoOff: false, startAudioOff: false })
+      .catch((error) => console.error('Error starting camera:', error));
+  }, [daily]);
+
+  useAudioLevelObserver(
+    localSessionId,
+    useCallback((volume: number) => {
+      setMicLevel(volume);
+      if (volume >= MIC_HEARD_LEVEL) setMicHeard(true);
+    }, []),
+  );
+
+  const runNetworkTest = useCallback(async () => {
+    if (!daily) return;
+
+    // A stopped test still resolves; only the latest run updates the result
+    const run = ++networkTestRun.current;
+    setNetwork({ status: "pending" });
+
+    try {
+      const results = await daily.testCallQuality();
+      if (run === networkTestRun.current) setNetwork(toNetworkCheck(results));
+    } catch (error) {
+      console.error('Error testing call quality:', error);
+      if (run === networkTestRun.current) {
+        setNetwork({ status: "done", result: "failed", roundTripMs: null, packetLossPercent: null });
+      }
+    }
+  }, [daily]);
+
+  // The quality test sends real media, so it waits for camera access
+  const isCameraReady = camState === "granted";
+  useEffect(() => {
+    if (!isCameraReady) return;
+    runNetworkTest();
+    return () => daily?.stopTestCallQuality();
+  }, [isCameraReady, runNetworkTest, daily]);
+
+  const checks = evaluateDeviceCheck({ camState, micState, micHeard, network });
+
+  const selectMicrophone = async (deviceId: string) => {
+    await setMicrophone(deviceId);
+    setMicHeard(false);
+  };
+
+  const startChat = () => {
+    daily?.stopTestCallQuality();
+    setScreenState({ currentScreen: "chat" });
+  };
+
+  const handleStart = async () => {
+    setSelectedDevices({
+      cameraId: currentCam?.device.deviceId ?? null,
+      micId: currentMic?.device.deviceId ?? null,
+      speakerId: currentSpeaker?.device.deviceId ?? null,
+    });
+
+    try {
+      setIsPlayingSound(true);
+      audio.currentTime = 0;
+      await audio.play();
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    } catch (error) {
+      console.error('Error playing start sound:', error);
+    } finally {
+      setIsPlayingSound(false);
+    }
+
+    await createConversationRequest();
+  };
+
+  if (isPlayingSound || isCreatingConversation) {
+    return (
+      <DialogWrapper>
+        <video
+          src={gloriaVideo}
+          autoPlay
+          muted
+          loop
+          playsInline
+          className="fixed inset-0 h-full w-full object-cover"
+        />
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm" />
+        <AnimatedTextBlockWrapper>
+          <div className="flex flex-col items-center justify-center gap-4">
+            <l-quantum
+              size="45"
+              speed="1.75"
+              color="white"
+            ></l-quantum>
+            <p className="text-white text-lg">
+              {isPlayingSound ? 'Preparing...' : 'Creating conversation...'}
+            </p>
+          </div>
+        </AnimatedTextBlockWrapper>
+      </DialogWrapper>
+    );
+  }
+
+  if (conversationError) {
+    return <ConversationError onClick={handleStart} onChat={startChat} />;
+  }
+
+  return (
+    <DialogWrapper>
+      <div className="absolute inset-0 flex flex-col gap-4 overflow-y-auto p-4 text-white md:flex-row">
+        <div className="flex flex-col gap-3 md:w-1/2">
+          <div className="relative aspect-video overflow-hidden rounded-lg border border-white/20 bg-black/80">
+            {localSessionId && (
+              <Video id={localSessionId} className="size-full" tileClassName="!object-cover" />
+            )}
+          </div>
+          <div>
+            <p className="mb-1 text-xs text-white/60">Microphone level</p>
+            <div className="h-2 overflow-hidden rounded-full bg-white/10">
+              <div
+                className={cn("h-full rounded-full transition-[width] duration-100", micHeard ? "bg-[#43BD8F]" : "bg-[#22C5FE]")}
+                style={{ width: `${Math.min(100, Math.round(micLevel * 300))}%` }}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-4 rounded-lg border border-white/20 bg-black/80 p-4 backdrop-blur md:w-1/2">
+          <h3 className="text-sm font-medium">Check your camera, mic and connection</h3>
+
+          <div className="space-y-2">
+            <DeviceSelect label="Camera" devices={cameras} onChange={setCamera} />
+            <DeviceSelect label="Microphone" devices={microphones} onChange={selectMicrophone} />
+            <DeviceSelect label="Speakers" devices={speakers} onChange={setSpeaker} />
+          </div>
+
+          <div className="space-y-3">
+            <CheckRow label="Camera" result={checks.camera} />
+            <CheckRow label="Microphone" result={checks.microphone} />
+            <CheckRow
+              label={
+                network.status === "done" && network.roundTripMs !== null
+                  ? `Connection (${network.roundTripMs} ms)`
+                  : "Connection"
+              }
+              result={checks.network}
+            />
+          </div>
+
+          <div className="mt-auto flex flex-wrap items-center gap-2">
+            <Button size="lg" onClick={handleStart} disabled={!checks.canStart}>
+              <VideoIcon className="size-4" />
+              Start Video Chat
+            </Button>
+            {checks.network.status === "failed" && (
+              <Button size="lg" variant="outline" onClick={runNetworkTest}>
+                <RefreshCcw className="size-4" />
+                Test again
+              </Button>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={startChat}
+            className="flex items-center gap-2 text-sm text-gray-400 hover:underline"
+          >
+            <MessageSquare className="size-4" />
+            Having trouble? Chat by text instead
+          </button>
+        </div>
+      </div>
+    </DialogWrapper>
+  );
+};
@@ -5,6 +5,7 @@ import { screenAtom } from "@/store/screens";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { supabase } from "@/lib/supabase";
+import { requestPortalLink } from "@/api";
 import {
   CheckCircle,
   Mail,
@@ -46,19 +47,19 @@ export const FinalScreen: React.FC = () => {
             leads(
               id,
               status,
-              practice_area:practice_areas(name),
-              matches(
-                id,
-                match_score,
-                status,
-                law_firm:law_firms(
-                  name,
-                  website,
-                  contact_phone,
-                  contact_email,
-                  rating,
-                  avg_response_time_minutes
-                )
+              practice_area:practice_areas(name)
+            ),
+            lead_assignments(
+              id,
+              match_score,
+              status,
+              law_firm:law_firms(
+                name,
+                website,
+                contact_phone,
+                contact_email,
+                rating,
+                avg_response_time_minutes
               )
             )
           `)
@@ -76,10 +77,10 @@ export const FinalScreen: React.FC = () => {
             setEmail(conversationData.email);
           }
 
-          // Sort matches by score (highest first) and get top matches
-          const matches = conversationData.leads?.[0]?.matches || [];
+          // Sort open assignments by score (highest first) and get top matches
+          const matches = conversationData.lead_assignments || [];
           const sortedMatches = matches
-            .filter((m: any) => m.status === 'pending')
+            .filter((m: any) => m.status === 'pending' || m.status === 'accepted')
             .sort((a: any, b: any) => b.match_score - a.match_score)
             .slice(0, 3);
 
@@ -117,17 +118,12 @@ export const FinalScreen: React.FC = () => {
     }
 
     try {
-      // Add email to notification queue
-      await supabase.from('email_queue').insert({
-        to_email: email,
-        subject: `Case Reference: ${caseReference} - Updates & Next Steps`,
-        template_name: 'case-updates',
-        template_data: { caseReference, name: leadData?.name },
-      });
-
+      // The portal link lets the caller come back to follow the case
+      await requestPortalLink(caseReference, email);
       setEmailSubmitted(true);
     } catch (error) {
-      console.error('Error saving email:', error);
+      console.error('Error requesting portal link:', error);
+      alert('We could not send the link. Please check your email address.');
     }
   };
 
@@ -341,9 +337,9 @@ export const FinalScreen: React.FC = () => {
                   <div className="flex items-start gap-3 mb-4">
                     <Bell className="h-5 w-5 text-cyan-400 mt-0.5" />
                     <div>
-                      <h3 className="font-semibold text-white">Get Status Updates</h3>
+                      <h3 className="font-semibold text-white">Track Your Case</h3>
                       <p className="text-sm text-zinc-300 mt-1">
-                        Receive notifications when firms review your case and reach out
+                        We'll email you a private link to follow your case, see appointments and message your attorney
                       </p>
                     </div>
                   </div>
@@ -357,7 +353,7 @@ export const FinalScreen: React.FC = () => {
                     />
                     <Button onClick={handleEmailSubmit} className="bg-cyan-500 hover:bg-cyan-600">
                       <Mail className="mr-2 h-4 w-4" />
-                      Subscribe
+                      Send Link
                     </Button>
                   </div>
                 </div>
@@ -365,7 +361,7 @@ export const FinalScreen: React.FC = () => {
                 <div className="bg-green-950/20 border border-green-800/30 rounded-lg p-4">
                   <div className="flex items-center gap-2 text-green-400">
                     <CheckCircle className="h-5 w-5" />
-                    <p className="font-medium">You're all set! We'll send updates to {email}</p>
+                    <p className="font-medium">Check your inbox — we've sent your case link to {email}</p>
                   </div>
                 </div>
               )}
@@ -1,166 +1,29 @@
-import { createConversation } from "@/api";
 import {
   DialogWrapper,
   AnimatedTextBlockWrapper,
   StaticTextBlockWrapper,
 } from "@/components/DialogWrapper";
 import { screenAtom } from "@/store/screens";
-import { conversationAtom } from "@/store/conversation";
-import React, { useCallback, useMemo, useState } from "react";
+import React from "react";
 import { useAtom } from "jotai";
-import { AlertTriangle, Mic, Video } from "lucide-react";
-import { useDaily, useDailyEvent, useDevices } from "@daily-co/daily-react";
-import { ConversationError } from "./ConversationError";
-import zoomSound from "@/assets/sounds/zoom.mp3";
+import { MessageSquare, Mic, Video } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { quantum } from 'ldrs';
+import { LanguagePicker } from "@/components/LanguagePicker";
 import gloriaVideo from "@/assets/video/gloria.mp4";
 
-// Register the quantum loader
-quantum.register();
-
-const useCreateConversationMutation = () => {
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+export const Instructions: React.FC = () => {
   const [, setScreenState] = useAtom(screenAtom);
-  const [, setConversation] = useAtom(conversationAtom);
-
-  const createConversationRequest = async () => {
-    try {
-      console.log('=== CREATING CONVERSATION REQUEST ===');
-      setIsLoading(true);
-      setError(null);
-      
-      const conversation = await createConversation();
-      console.log('Conversation created successfully:', conversation);
-      
-      setConversation(conversation);
-      setScreenState({ currentScreen: "conversation" });
-    } catch (error: any) {
-      console.error('Failed to create conversation:', error);
-      setError(error.message || 'Failed to create conversation');
-    } finally {
-      setIsLoading(false);
-    }
-  };
 
-  return {
-    isLoading,
-    error,
-    createConversationRequest,
+  // Camera, mic and connection are checked before any call time is spent
+  const handleClick = () => {
+    setScreenState({ currentScreen: "deviceCheck" });
   };
-};
-
-export const Instructions: React.FC = () => {
-  const daily = useDaily();
-  const { currentMic, setMicrophone, setSpeaker } = useDevices();
-  const { createConversationRequest, isLoading: isCreatingConversation, error: conversationError } = useCreateConversationMutation();
-  const [getUserMediaError, setGetUserMediaError] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const [isLoadingConversation, setIsLoadingConversation] = useState(false);
-  const [error, setError] = useState(false);
-  const audio = useMemo(() => {
-    const audioObj = new Audio(zoomSound);
-    audioObj.volume = 0.7;
-    return audioObj;
-  }, []);
-  const [isPlayingSound, setIsPlayingSound] = useState(false);
-
-  useDailyEvent(
-    "camera-error",
-    useCallback(() => {
-      setGetUserMediaError(true);
-    }, []),
-  );
-
-  const handleClick = async () => {
-    try {
-      console.log('=== START VIDEO CHAT CLICKED ===');
-      setIsLoading(true);
-      setIsPlayingSound(true);
-      setError(false);
-      
-      audio.currentTime = 0;
-      await audio.play();
-      
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      setIsPlayingSound(false);
-      setIsLoadingConversation(true);
-      
-      let micDeviceId = currentMic?.device?.deviceId;
-      if (!micDeviceId) {
-        console.log('Starting camera and microphone...');
-        const res = await daily?.startCamera({
-          startVideoOff: false,
-          startAudioOff: false,
-          audioSource: "default",
-        });
-        // @ts-expect-error deviceId exists in the MediaDeviceInfo
-        const isDefaultMic = res?.mic?.deviceId === "default";
-        // @ts-expect-error deviceId exists in the MediaDeviceInfo
-        const isDefaultSpeaker = res?.speaker?.deviceId === "default";
-        // @ts-expect-error deviceId exists in the MediaDeviceInfo
-        micDeviceId = res?.mic?.deviceId;
 
-        if (isDefaultMic) {
-          if (!isDefaultMic) {
-            setMicrophone("default");
-          }
-          if (!isDefaultSpeaker) {
-            setSpeaker("default");
-          }
-        }
-      }
-      
-      if (micDeviceId) {
-        console.log('Microphone ready, creating conversation...');
-        await createConversationRequest();
-      } else {
-        console.error('Failed to get microphone access');
-        setGetUserMediaError(true);
-      }
-    } catch (error) {
-      console.error('Error starting video chat:', error);
-      setError(true);
-    } finally {
-      setIsLoading(false);
-      setIsLoadingConversation(false);
-    }
+  // Text intake for callers without a working camera, mic or connection
+  const startChat = () => {
+    setScreenState({ currentScreen: "chat" });
   };
 
-  if (isPlayingSound || isLoadingConversation || isCreatingConversation) {
-    return (
-      <DialogWrapper>
-        <video
-          src={gloriaVideo}
-          autoPlay
-          muted
-          loop
-          playsInline
-          className="fixed inset-0 h-full w-full object-cover"
-        />
-        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm" />
-        <AnimatedTextBlockWrapper>
-          <div className="flex flex-col items-center justify-center gap-4">
-            <l-quantum
-              size="45"
-              speed="1.75"
-              color="white"
-            ></l-quantum>
-            <p className="text-white text-lg">
-              {isPlayingSound ? 'Preparing...' : 'Creating conversation...'}
-            </p>
-          </div>
-        </AnimatedTextBlockWrapper>
-      </DialogWrapper>
-    );
-  }
-
-  if (error || conversationError) {
-    return <ConversationError onClick={handleClick} />;
-  }
-
   return (
     <DialogWrapper>
       <video
@@ -188,10 +51,11 @@ export const Instructions: React.FC = () => {
           Have a face-to-face conversation with an AI so real, it feels human—an intelligent agent ready to listen, respond, and act for you.
         </p>
 
+        <LanguagePicker className="relative z-20 -mt-8 mb-6" />
+
         <Button
           onClick={handleClick}
           className="relative z-20 flex items-center justify-center gap-2 rounded-3xl border border-[rgba(255,255,255,0.3)] px-8 py-2 text-sm text-white transition-all duration-200 hover:text-primary mb-12 disabled:opacity-50"
-          disabled={isLoading}
           style={{
             height: '48px',
             transition: 'all 0.2s ease-in-out',
@@ -206,15 +70,6 @@ export const Instructions: React.FC = () => {
         >
           <Video className="size-5" />
           Start Video Chat
-          {getUserMediaError && (
-            <div className="absolute -top-1 left-0 right-0 flex items-center gap-1 text-wrap rounded-lg border bg-red-500 p-2 text-white backdrop-blur-sm">
-              <AlertTriangle className="text-red size-4" />
-              <p>
-                To chat with the AI, please allow microphone access. Check your
-                browser settings.
-              </p>
-            </div>
-          )}
         </Button>
         <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:gap-8 text-gray-400 justify-center">
           <div className="flex items-center gap-3 bg-[rgba(0,0,0,0.2)] px-4 py-2 rounded-full">
@@ -226,6 +81,14 @@ export const Instructions: React.FC = () => {
             Camera access is required
           </div>
         </div>
+        <button
+          type="button"
+          onClick={startChat}
+          className="relative z-20 -mt-4 mb-8 flex items-center gap-2 text-sm text-gray-400 hover:underline"
+        >
+          <MessageSquare className="size-4" />
+          Prefer to type? Chat by text
+        </button>
         <span className="absolute bottom-6 px-4 text-sm text-gray-500 sm:bottom-8 sm:px-8 text-center">
           By starting a conversation, I accept the{' '}
           <a href="#" className="text-primary hover:underline">Terms of Use</a> and acknowledge the{' '}
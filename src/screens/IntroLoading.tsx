@@ -1,13 +1,15 @@
 import React, { useEffect, useState } from "react";
-import { healthCheckApi } from "@/api";
+import { checkConversationBudget, healthCheckApi } from "@/api";
 import { screenAtom } from "@/store/screens";
 import { useAtom } from "jotai";
 import { quantum } from 'ldrs';
+import { loadActiveConversation } from "@/utils/activeConversation";
 
 const screens = {
   error: "outage",
   success: "intro",
   outOfTime: "outOfMinutes",
+  interrupted: "resume",
 } as const;
 
 const useHealthCheck = () => {
@@ -18,11 +20,20 @@ const useHealthCheck = () => {
   const healthCheck = async (): Promise<void> => {
     try {
       const response = await healthCheckApi();
-      if (response?.status) {
-        setScreenState("success");
-      } else {
+      if (!response?.status) {
         setScreenState("error");
+        return;
       }
+
+      // A call cut off by a reload or dropped connection can be picked up
+      // again; the resume endpoint checks the budget itself
+      if (loadActiveConversation()) {
+        setScreenState("interrupted");
+        return;
+      }
+
+      const budget = await checkConversationBudget();
+      setScreenState(budget.available ? "success" : "outOfTime");
     } catch (error) {
       setScreenState("error");
     }
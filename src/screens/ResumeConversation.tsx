@@ -0,0 +1,97 @@
+import AudioButton from "@/components/AudioButton";
+import {
+  AnimatedTextBlockWrapper,
+  DialogWrapper,
+  StaticTextBlockWrapper,
+} from "@/components/DialogWrapper";
+import { Button } from "@/components/ui/button";
+import { OutOfMinutesError, resumeConversation } from "@/api";
+import { conversationAtom } from "@/store/conversation";
+import { callbackTimeAtom, emergencyFlagAtom, intakeAtom } from "@/store/intake";
+import { screenAtom } from "@/store/screens";
+import {
+  clearActiveConversation,
+  loadActiveConversation,
+} from "@/utils/activeConversation";
+import { toIntakePayload } from "@/utils/intake";
+import { useSetAtom } from "jotai";
+import { PlayIcon } from "lucide-react";
+import React, { useState } from "react";
+
+export const ResumeConversation: React.FC = () => {
+  const setScreenState = useSetAtom(screenAtom);
+  const setConversation = useSetAtom(conversationAtom);
+  const setIntake = useSetAtom(intakeAtom);
+  const setEmergency = useSetAtom(emergencyFlagAtom);
+  const setCallbackTime = useSetAtom(callbackTimeAtom);
+  const [saved] = useState(loadActiveConversation);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startOver = () => {
+    clearActiveConversation();
+    setScreenState({ currentScreen: "intro" });
+  };
+
+  const handleResume = async () => {
+    if (!saved) {
+      startOver();
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { conversation } = await resumeConversation(
+        saved.conversation.conversation_id,
+        saved.conversation.tool_call_token,
+        toIntakePayload(saved.intake.fields),
+      );
+
+      setIntake(saved.intake.fields);
+      setEmergency(saved.intake.emergency);
+      setCallbackTime(saved.intake.callbackTime);
+      setConversation(conversation);
+      setScreenState({ currentScreen: "conversation" });
+    } catch (error) {
+      if (error instanceof OutOfMinutesError) {
+        clearActiveConversation();
+        setScreenState({ currentScreen: "outOfMinutes" });
+        return;
+      }
+      console.error('Failed to resume conversation:', error);
+      setError("We couldn't reconnect your call. You can start a new one.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <DialogWrapper>
+      <AnimatedTextBlockWrapper>
+        <StaticTextBlockWrapper
+          imgSrc="/images/speak.png"
+          title="Welcome back"
+          titleClassName="sm:max-w-full"
+          description={
+            error ??
+            "Your call was interrupted. Pick up where you left off — we've kept what you told us so far."
+          }
+        >
+          <div className="mt-6 flex flex-col items-center gap-3 sm:mt-8 sm:flex-row">
+            {!error && (
+              <AudioButton onClick={handleResume} disabled={isLoading}>
+                <PlayIcon className="size-5" />
+                {isLoading ? "Reconnecting..." : "Continue where you left off"}
+              </AudioButton>
+            )}
+            <Button variant="outline" onClick={startOver} disabled={isLoading}>
+              Start over
+            </Button>
+          </div>
+        </StaticTextBlockWrapper>
+      </AnimatedTextBlockWrapper>
+    </DialogWrapper>
+  );
+};
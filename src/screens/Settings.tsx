@@ -10,6 +10,7 @@ import { screenAtom } from "@/store/screens";
 import { X } from "lucide-react";
 import * as React from "react";
 import { apiTokenAtom } from "@/store/tokens";
+import { SUPPORTED_LANGUAGES } from "@/utils/language";
 
 // Button Component
 const Button = React.forwardRef<
@@ -135,15 +136,6 @@ export const Settings: React.FC = () => {
   const [token, setToken] = useAtom(apiTokenAtom);
   const [, setSettingsSaved] = useAtom(settingsSavedAtom);
 
-  const languages = [
-    { label: "English", value: "en" },
-    { label: "Spanish", value: "es" },
-    { label: "French", value: "fr" },
-    { label: "German", value: "de" },
-    { label: "Italian", value: "it" },
-    { label: "Portuguese", value: "pt" },
-  ];
-
   const interruptSensitivities = [
     { label: "Low", value: "low" },
     { label: "Medium", value: "medium" },
@@ -226,7 +218,7 @@ export const Settings: React.FC = () => {
                   className="bg-black/20 font-mono"
                   style={{ fontFamily: "'Source Code Pro', monospace" }}
                 >
-                  {languages.map((lang) => (
+                  {SUPPORTED_LANGUAGES.map((lang) => (
                     <option 
                       key={lang.value} 
                       value={lang.value}
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Megaphone } from 'lucide-react';
+
+type AttributionRow = {
+  source: string;
+  campaign: string | null;
+  conversations: number;
+  leads: number;
+  accepted: number;
+  converted: number;
+};
+
+const PERIODS = [7, 30, 90];
+
+const rate = (count: number, total: number) =>
+  total > 0 ? `${Math.round((count / total) * 100)}%` : '—';
+
+export const AttributionReport = () => {
+  const [rows, setRows] = useState<AttributionRow[]>([]);
+  const [days, setDays] = useState(30);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchReport();
+  }, [days]);
+
+  const fetchReport = async () => {
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase.rpc('get_attribution_report', { p_days: days });
+
+      if (error) throw error;
+      setRows((data || []) as AttributionRow[]);
+    } catch (error) {
+      console.error('Error fetching attribution report:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      conversations: sum.conversations + Number(row.conversations),
+      leads: sum.leads + Number(row.leads),
+      accepted: sum.accepted + Number(row.accepted),
+      converted: sum.converted + Number(row.converted),
+    }),
+    { conversations: 0, leads: 0, accepted: 0, converted: 0 }
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col justify-between gap-4 sm:flex-row sm:items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Campaign Attribution</h2>
+          <p className="text-zinc-400">
+            Intakes by where the caller first came from. Without UTM parameters the referring site is the source.
+          </p>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white"
+        >
+          {PERIODS.map((period) => (
+            <option key={period} value={period}>Last {period} days</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex h-64 items-center justify-center">
+          <div className="size-16 animate-spin-slow border-4 border-cyan-400 border-t-transparent rounded-full" />
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="flex h-64 flex-col items-center justify-center rounded-lg border border-zinc-800 bg-zinc-900 p-6 text-center">
+          <div className="mb-4 rounded-full bg-zinc-800 p-4">
+            <Megaphone className="h-6 w-6 text-zinc-500" />
+          </div>
+          <h3 className="text-lg font-medium text-white">No intakes</h3>
+          <p className="text-zinc-400">No conversations started in the last {days} days</p>
+        </div>
+      ) : (
+        <div className="overflow-hidden rounded-lg border border-zinc-800">
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse text-left">
+              <thead>
+                <tr className="border-b border-zinc-800 bg-zinc-900">
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Source</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Campaign</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Conversations</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Leads</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Accepted</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Converted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const total = Number(row.conversations);
+
+                  return (
+                    <tr key={`${row.source}:${row.campaign}`} className="border-b border-zinc-800 bg-zinc-900/30 transition hover:bg-zinc-900/50">
+                      <td className="whitespace-nowrap p-4 text-sm font-medium text-white">{row.source}</td>
+                      <td className="whitespace-nowrap p-4 text-sm text-zinc-300">{row.campaign ?? '—'}</td>
+                      <td className="whitespace-nowrap p-4 text-sm text-zinc-300">{total}</td>
+                      <td className="whitespace-nowrap p-4 text-sm text-zinc-300">
+                        {row.leads} <span className="text-zinc-500">({rate(Number(row.leads), total)})</span>
+                      </td>
+                      <td className="whitespace-nowrap p-4 text-sm text-zinc-300">
+                        {row.accepted} <span className="text-zinc-500">({rate(Number(row.accepted), total)})</span>
+                      </td>
+                      <td className="whitespace-nowrap p-4 text-sm text-zinc-300">
+                        {row.converted} <span className="text-zinc-500">({rate(Number(row.converted), total)})</span>
+                      </td>
+                    </tr>
+                  );
+                })}
+                <tr className="bg-zinc-900">
+                  <td colSpan={2} className="p-4 text-sm font-medium text-white">Total</td>
+                  <td className="p-4 text-sm font-medium text-white">{totals.conversations}</td>
+                  <td className="p-4 text-sm font-medium text-white">{totals.leads}</td>
+                  <td className="p-4 text-sm font-medium text-white">{totals.accepted}</td>
+                  <td className="p-4 text-sm font-medium text-white">{totals.converted}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
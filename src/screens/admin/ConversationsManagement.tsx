@@ -1,17 +1,28 @@
 import React, { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
-import { Search, Filter, ChevronDown, ChevronUp, MessageSquare, Phone, Mail } from 'lucide-react';
+import { Search, Filter, ChevronDown, ChevronUp, ChevronRight, MessageSquare, Phone, Mail, BadgeCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { TranscriptView } from '@/components/admin/TranscriptView';
 
 type Conversation = {
   id: string;
-  tavus_conversation_id: string;
+  tavus_conversation_id: string | null;
+  channel: 'video' | 'chat';
+  language: string;
   name: string | null;
   email: string | null;
   phone: string | null;
   case_description: string | null;
   urgency_score: number | null;
+  urgency_reasons: {
+    rule: string;
+    label: string;
+    score: number;
+    evidence: string | null;
+    applied: boolean;
+  }[] | null;
+  user_verified_fields: string[] | null;
   status: string;
   created_at: string;
   updated_at: string;
@@ -32,6 +43,7 @@ export const ConversationsManagement = () => {
   const [sortField, setSortField] = useState('created_at');
   const [sortDirection, setSortDirection] = useState('desc');
   const [showFilters, setShowFilters] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchConversations();
@@ -52,8 +64,10 @@ export const ConversationsManagement = () => {
               name
             )
           )
-        `);
-      
+        `)
+        // Continued sessions are shown inside their intake's transcript
+        .is('intake_conversation_id', null);
+
       // Apply filters
       if (statusFilter !== 'all') {
         query = query.eq('status', statusFilter);
@@ -103,6 +117,13 @@ export const ConversationsManagement = () => {
            new Date(dateString).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  const verifiedMark = (conversation: Conversation, field: string) =>
+    conversation.user_verified_fields?.includes(field) && (
+      <span title="Confirmed by caller">
+        <BadgeCheck className="h-3.5 w-3.5 text-green-400" />
+      </span>
+    );
+
   const getStatusBadgeClass = (status: string) => {
     switch (status) {
       case 'new':
@@ -229,24 +250,49 @@ export const ConversationsManagement = () => {
               </thead>
               <tbody>
                 {filteredConversations.map((conversation) => (
-                  <tr key={conversation.id} className="border-b border-zinc-800 bg-zinc-900/30 transition hover:bg-zinc-900/50">
+                  <React.Fragment key={conversation.id}>
+                  <tr
+                    className="cursor-pointer border-b border-zinc-800 bg-zinc-900/30 transition hover:bg-zinc-900/50"
+                    onClick={() => setExpandedId(expandedId === conversation.id ? null : conversation.id)}
+                  >
                     <td className="whitespace-nowrap p-4 text-sm text-zinc-300">
-                      {formatDate(conversation.created_at)}
+                      <div className="flex items-center gap-2">
+                        {expandedId === conversation.id
+                          ? <ChevronDown className="h-4 w-4 text-zinc-500" />
+                          : <ChevronRight className="h-4 w-4 text-zinc-500" />}
+                        {formatDate(conversation.created_at)}
+                        {conversation.channel === 'chat' && (
+                          <span className="flex items-center gap-1 rounded bg-zinc-800 px-1.5 py-0.5 text-xs text-zinc-400" title="Text chat intake">
+                            <MessageSquare className="h-3 w-3" />
+                            Chat
+                          </span>
+                        )}
+                        {conversation.language !== 'en' && (
+                          <span className="rounded bg-zinc-800 px-1.5 py-0.5 text-xs uppercase text-zinc-400" title="Intake language">
+                            {conversation.language}
+                          </span>
+                        )}
+                      </div>
                     </td>
                     <td className="whitespace-nowrap p-4">
-                      <div className="text-sm font-medium text-white">{conversation.name || 'Unknown'}</div>
+                      <div className="flex items-center gap-1 text-sm font-medium text-white">
+                        {conversation.name || 'Unknown'}
+                        {verifiedMark(conversation, 'name')}
+                      </div>
                     </td>
                     <td className="p-4">
                       {conversation.email && (
                         <div className="mb-1 flex items-center gap-1 text-sm text-zinc-400">
                           <Mail className="h-3.5 w-3.5" />
                           {conversation.email}
+                          {verifiedMark(conversation, 'email')}
                         </div>
                       )}
                       {conversation.phone && (
                         <div className="flex items-center gap-1 text-sm text-zinc-400">
                           <Phone className="h-3.5 w-3.5" />
                           {conversation.phone}
+                          {verifiedMark(conversation, 'phone')}
                         </div>
                       )}
                     </td>
@@ -267,12 +313,36 @@ export const ConversationsManagement = () => {
                     </td>
                     <td className="p-4">
                       {conversation.urgency_score && (
-                        <span className={`inline-block rounded px-2 py-1 text-xs font-medium ${getUrgencyBadgeClass(conversation.urgency_score)}`}>
+                        <span
+                          className={`inline-block rounded px-2 py-1 text-xs font-medium ${getUrgencyBadgeClass(conversation.urgency_score)}`}
+                          title={conversation.urgency_reasons?.filter((r) => r.applied).map((r) => r.label).join(', ')}
+                        >
                           {conversation.urgency_score}/10
                         </span>
                       )}
                     </td>
                   </tr>
+                  {expandedId === conversation.id && (
+                    <tr className="border-b border-zinc-800 bg-zinc-950">
+                      <td colSpan={7} className="space-y-4 p-4">
+                        {conversation.urgency_reasons && conversation.urgency_reasons.length > 0 && (
+                          <div>
+                            <h4 className="mb-2 text-sm font-medium text-white">Urgency reasons</h4>
+                            <ul className="space-y-1 text-sm">
+                              {conversation.urgency_reasons.map((reason) => (
+                                <li key={reason.rule} className={reason.applied ? 'text-zinc-300' : 'text-zinc-500'}>
+                                  <span className="font-medium">{reason.score}/10</span> {reason.label}
+                                  {reason.evidence && <span className="text-zinc-500"> — “{reason.evidence}”</span>}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                        <TranscriptView conversationId={conversation.id} />
+                      </td>
+                    </tr>
+                  )}
+                  </React.Fragment>
                 ))}
               </tbody>
             </table>
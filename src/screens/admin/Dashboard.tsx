@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { useAtom } from 'jotai';
 import { userProfileAtom } from '@/store/auth';
 import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/database.types';
 import {
   BarChart,
   Bar,
@@ -16,6 +17,17 @@ import {
 } from 'recharts';
 import { BarChart3, PieChart as PieChartIcon, Users, Building } from 'lucide-react';
 
+type Tables = Database['public']['Tables'];
+
+// A firm's lead_assignments row as selected below, with its conversation's leads
+type AssignmentWithLeads = Pick<Tables['lead_assignments']['Row'], 'id' | 'match_score' | 'status' | 'conversation_id'> & {
+  conversations: {
+    leads: (Pick<Tables['leads']['Row'], 'id' | 'status' | 'practice_area_id' | 'created_at'> & {
+      practice_areas: Pick<Tables['practice_areas']['Row'], 'name'> | null;
+    })[];
+  } | null;
+};
+
 export const Dashboard = () => {
   const [userProfile] = useAtom(userProfileAtom);
   const [stats, setStats] = useState({
@@ -47,23 +59,31 @@ export const Dashboard = () => {
             .single();
 
           if (lawFirm) {
-            // Get all matches for this law firm
-            const { data: matches } = await supabase
-              .from('matches')
+            // Get all assignments for this law firm
+            const { data: assignments } = await supabase
+              .from('lead_assignments')
               .select(`
                 id,
                 match_score,
                 status,
-                lead_id,
-                leads(
-                  id,
-                  status,
-                  practice_area_id,
-                  created_at,
-                  practice_areas(name)
+                conversation_id,
+                conversations(
+                  leads(
+                    id,
+                    status,
+                    practice_area_id,
+                    created_at,
+                    practice_areas(name)
+                  )
                 )
               `)
-              .eq('law_firm_id', lawFirm.id);
+              .eq('law_firm_id', lawFirm.id)
+              .returns<AssignmentWithLeads[]>();
+
+            // One row per assigned lead
+            const matches = (assignments || []).flatMap(a =>
+              (a.conversations?.leads || []).map(lead => ({ ...a, leads: lead }))
+            );
 
             // Transform data for charts and stats
             if (matches) {
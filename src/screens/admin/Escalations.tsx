@@ -0,0 +1,241 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { AlertTriangle, CheckCircle, Mail, Phone, Siren } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+type Escalation = {
+  id: string;
+  trigger: 'tool_call' | 'keyword' | 'urgency_threshold';
+  kind: 'detention' | 'violence' | 'medical' | 'deadline' | 'other';
+  reason: string;
+  evidence: string | null;
+  status: 'open' | 'acknowledged' | 'resolved';
+  paged_firm_ids: string[];
+  paged_at: string | null;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+  resolution_notes: string | null;
+  created_at: string;
+  conversation: {
+    id: string;
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+    case_category: string | null;
+  } | null;
+};
+
+type EscalationFilter = 'active' | 'resolved' | 'all';
+
+const TRIGGER_LABELS: Record<Escalation['trigger'], string> = {
+  tool_call: 'Flagged by avatar',
+  keyword: 'Crisis keywords',
+  urgency_threshold: 'Urgency score',
+};
+
+export const Escalations = () => {
+  const [escalations, setEscalations] = useState<Escalation[]>([]);
+  const [filter, setFilter] = useState<EscalationFilter>('active');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEscalations();
+  }, [filter]);
+
+  const fetchEscalations = async () => {
+    try {
+      setIsLoading(true);
+
+      let query = supabase
+        .from('escalations')
+        .select(`
+          *,
+          conversation:conversations (id, name, email, phone, case_category)
+        `)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (filter === 'active') {
+        query = query.in('status', ['open', 'acknowledged']);
+      } else if (filter === 'resolved') {
+        query = query.eq('status', 'resolved');
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setEscalations(data || []);
+    } catch (error) {
+      console.error('Error fetching escalations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStatusChange = async (escalationId: string, newStatus: 'acknowledged' | 'resolved') => {
+    try {
+      setSavingId(escalationId);
+      const { error } = await supabase.rpc('update_escalation_status', {
+        escalation_id: escalationId,
+        new_status: newStatus,
+        notes: notes[escalationId]?.trim() || null,
+      });
+
+      if (error) throw error;
+      fetchEscalations();
+    } catch (error) {
+      console.error('Error updating escalation:', error);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString() + ' ' +
+           new Date(dateString).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  const getStatusBadgeClass = (status: Escalation['status']) => {
+    if (status === 'open') return 'bg-red-900/30 text-red-400';
+    if (status === 'acknowledged') return 'bg-yellow-900/30 text-yellow-400';
+    return 'bg-green-900/30 text-green-400';
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="size-16 animate-spin-slow border-4 border-cyan-400 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col justify-between gap-4 sm:flex-row sm:items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Emergency Escalations</h2>
+          <p className="text-zinc-400">
+            Calls escalated by the avatar, crisis keywords or a high urgency score. On-call firms are paged automatically.
+          </p>
+        </div>
+
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as EscalationFilter)}
+          className="rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white"
+        >
+          <option value="active">Open &amp; acknowledged</option>
+          <option value="resolved">Resolved</option>
+          <option value="all">All escalations</option>
+        </select>
+      </div>
+
+      {escalations.length === 0 ? (
+        <div className="flex h-64 flex-col items-center justify-center rounded-lg border border-zinc-800 bg-zinc-900 p-6 text-center">
+          <div className="mb-4 rounded-full bg-zinc-800 p-4">
+            <CheckCircle className="h-6 w-6 text-zinc-500" />
+          </div>
+          <h3 className="text-lg font-medium text-white">No escalations</h3>
+          <p className="text-zinc-400">Nothing needs attention right now</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {escalations.map((escalation) => {
+            const { conversation } = escalation;
+
+            return (
+              <div key={escalation.id} className="rounded-lg border border-zinc-800 bg-zinc-900 p-6">
+                <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
+                  <div className="space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Siren className="h-4 w-4 text-red-400" />
+                      <span className={`rounded px-2 py-1 text-xs font-medium ${getStatusBadgeClass(escalation.status)}`}>
+                        {escalation.status}
+                      </span>
+                      <span className="rounded bg-zinc-800 px-2 py-1 text-xs font-medium text-zinc-300">
+                        {escalation.kind}
+                      </span>
+                      <span className="text-xs text-zinc-500">
+                        {TRIGGER_LABELS[escalation.trigger]} · {formatDate(escalation.created_at)}
+                      </span>
+                    </div>
+                    <h3 className="font-medium text-white">{conversation?.name || 'Anonymous'}</h3>
+                    <p className="text-sm text-zinc-300">{escalation.reason}</p>
+                    {escalation.evidence && (
+                      <blockquote className="border-l-2 border-zinc-700 pl-3 text-sm italic text-zinc-400">
+                        "{escalation.evidence}"
+                      </blockquote>
+                    )}
+                    <div className="flex flex-wrap gap-4 text-sm text-zinc-400">
+                      {conversation?.phone && (
+                        <span className="flex items-center gap-1">
+                          <Phone className="h-3.5 w-3.5" />
+                          {conversation.phone}
+                        </span>
+                      )}
+                      {conversation?.email && (
+                        <span className="flex items-center gap-1">
+                          <Mail className="h-3.5 w-3.5" />
+                          {conversation.email}
+                        </span>
+                      )}
+                    </div>
+                    {escalation.paged_firm_ids.length > 0 ? (
+                      <p className="text-xs text-zinc-500">
+                        Paged {escalation.paged_firm_ids.length} on-call firm{escalation.paged_firm_ids.length === 1 ? '' : 's'}
+                        {escalation.paged_at && ` at ${formatDate(escalation.paged_at)}`}
+                      </p>
+                    ) : escalation.paged_at ? (
+                      <p className="flex items-center gap-1 text-xs text-red-400">
+                        <AlertTriangle className="h-3.5 w-3.5" />
+                        No on-call firm was available to page — follow up manually
+                      </p>
+                    ) : (
+                      <p className="text-xs text-zinc-500">Paging on-call firms…</p>
+                    )}
+                    {escalation.resolution_notes && (
+                      <p className="text-xs text-zinc-400">Notes: {escalation.resolution_notes}</p>
+                    )}
+                  </div>
+
+                  {escalation.status !== 'resolved' && (
+                    <div className="flex w-full flex-col gap-2 lg:w-72">
+                      <textarea
+                        value={notes[escalation.id] ?? ''}
+                        onChange={(e) => setNotes((current) => ({ ...current, [escalation.id]: e.target.value }))}
+                        placeholder="Notes (optional)"
+                        rows={2}
+                        className="rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white"
+                      />
+                      <div className="flex gap-2">
+                        {escalation.status === 'open' && (
+                          <Button
+                            variant="outline"
+                            className="flex-1"
+                            disabled={savingId === escalation.id}
+                            onClick={() => handleStatusChange(escalation.id, 'acknowledged')}
+                          >
+                            Acknowledge
+                          </Button>
+                        )}
+                        <Button
+                          className="flex-1"
+                          disabled={savingId === escalation.id}
+                          onClick={() => handleStatusChange(escalation.id, 'resolved')}
+                        >
+                          Resolve
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import { userProfileAtom } from '@/store/auth';
 import { supabase } from '@/lib/supabase';
 import { Check, X, Clock, AlertCircle, Phone, Mail, MapPin, Star } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { ClientMessages } from '@/components/admin/ClientMessages';
 
 type LeadAssignment = {
   id: string;
@@ -21,7 +22,7 @@ type LeadAssignment = {
   match_score: number;
   status: string;
   assigned_at: string;
-  expires_at: string;
+  expires_at: string | null;
   assignment_method: string;
 };
 
@@ -182,7 +183,8 @@ export const FirmDashboard = () => {
     return `${Math.floor(diffInHours / 24)} days ago`;
   };
 
-  const isExpiringSoon = (expiresAt: string) => {
+  const isExpiringSoon = (expiresAt: string | null) => {
+    if (!expiresAt) return false;
     const expires = new Date(expiresAt);
     const now = new Date();
     const hoursUntilExpiry = (expires.getTime() - now.getTime()) / (1000 * 60 * 60);
@@ -286,6 +288,12 @@ export const FirmDashboard = () => {
                       <span className={`rounded px-2 py-1 text-xs font-medium ${getStatusColor(assignment.status)}`}>
                         {assignment.status}
                       </span>
+                      {assignment.assignment_method === 'escalation' && (
+                        <span className="flex items-center gap-1 rounded bg-red-900/30 px-2 py-1 text-xs font-medium text-red-400">
+                          <AlertCircle className="h-3 w-3" />
+                          Emergency
+                        </span>
+                      )}
                       {isExpiringSoon(assignment.expires_at) && (
                         <span className="rounded bg-red-900/30 px-2 py-1 text-xs font-medium text-red-400">
                           Expiring Soon
@@ -323,9 +331,15 @@ export const FirmDashboard = () => {
                     </div>
 
                     <div className="text-xs text-zinc-500">
-                      Assigned {formatTimeAgo(assignment.assigned_at)} • 
-                      Expires {new Date(assignment.expires_at).toLocaleDateString()}
+                      Assigned {formatTimeAgo(assignment.assigned_at)}
+                      {assignment.expires_at && ` • Expires ${new Date(assignment.expires_at).toLocaleDateString()}`}
                     </div>
+
+                    {assignment.status === 'accepted' && (
+                      <div className="mt-4">
+                        <ClientMessages conversationId={assignment.conversation.id} />
+                      </div>
+                    )}
                   </div>
 
                   {assignment.status === 'pending' && (
@@ -2,9 +2,10 @@ import React, { useEffect, useState } from 'react';
 import { useAtom } from 'jotai';
 import { userProfileAtom } from '@/store/auth';
 import { supabase } from '@/lib/supabase';
-import { Plus, Trash, Save, Building, MapPin, Users, CreditCard } from 'lucide-react';
+import { Plus, Trash, Save, Building, MapPin, Users, CreditCard, Code, Copy } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { SUPPORTED_LANGUAGES } from '@/utils/language';
 
 type ServiceArea = {
   id: string;
@@ -12,6 +13,7 @@ type ServiceArea = {
   city: string;
   zip_code: string;
   radius_miles: number;
+  latitude: number | null;
 };
 
 type FirmProfile = {
@@ -23,6 +25,13 @@ type FirmProfile = {
   contact_phone: string;
   max_leads_per_month: number;
   remote_capable: boolean;
+  bar_admission_states: string[];
+  emergency_on_call: boolean;
+  emergency_phone: string | null;
+  languages: string[];
+  embed_enabled: boolean;
+  embed_allowed_origins: string[];
+  embed_routing: 'exclusive' | 'preferred';
   subscription_status: string;
   current_month_leads: number;
 };
@@ -37,6 +46,15 @@ type Subscription = {
   is_active: boolean;
 };
 
+const toOrigin = (value: string) => {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.origin : null;
+  } catch {
+    return null;
+  }
+};
+
 export const FirmSettings = () => {
   const [userProfile] = useAtom(userProfileAtom);
   const [firmProfile, setFirmProfile] = useState<FirmProfile | null>(null);
@@ -44,6 +62,8 @@ export const FirmSettings = () => {
   const [subscription, setSubscription] = useState<Subscription | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [embedOrigins, setEmbedOrigins] = useState('');
+  const [barStates, setBarStates] = useState('');
   const [newServiceArea, setNewServiceArea] = useState({
     state: '',
     city: '',
@@ -70,6 +90,8 @@ export const FirmSettings = () => {
 
       if (firmError) throw firmError;
       setFirmProfile(firm);
+      setEmbedOrigins((firm.embed_allowed_origins || []).join('\n'));
+      setBarStates((firm.bar_admission_states || []).join(', '));
 
       // Get service areas
       const { data: areas, error: areasError } = await supabase
@@ -101,6 +123,20 @@ export const FirmSettings = () => {
   const saveFirmProfile = async () => {
     if (!firmProfile) return;
 
+    // One site per line; anything that isn't an http(s) URL is dropped
+    const allowedOrigins = embedOrigins
+      .split('\n')
+      .map((line) => toOrigin(line))
+      .filter((origin): origin is string => origin !== null);
+
+    // Two-letter abbreviations, comma or space separated
+    const admittedStates = Array.from(new Set(
+      barStates
+        .split(/[\s,]+/)
+        .map((state) => state.trim().toUpperCase())
+        .filter((state) => /^[A-Z]{2}$/.test(state))
+    ));
+
     try {
       setIsSaving(true);
 
@@ -114,11 +150,20 @@ export const FirmSettings = () => {
           contact_phone: firmProfile.contact_phone,
           max_leads_per_month: firmProfile.max_leads_per_month,
           remote_capable: firmProfile.remote_capable,
+          bar_admission_states: admittedStates,
+          emergency_on_call: firmProfile.emergency_on_call,
+          emergency_phone: firmProfile.emergency_phone || null,
+          languages: firmProfile.languages,
+          embed_enabled: firmProfile.embed_enabled,
+          embed_allowed_origins: allowedOrigins,
+          embed_routing: firmProfile.embed_routing,
         })
         .eq('id', firmProfile.id);
 
       if (error) throw error;
 
+      setEmbedOrigins(allowedOrigins.join('\n'));
+      setBarStates(admittedStates.join(', '));
       alert('Profile updated successfully!');
     } catch (error) {
       console.error('Error saving profile:', error);
@@ -128,6 +173,19 @@ export const FirmSettings = () => {
     }
   };
 
+  const widgetSnippet = firmProfile
+    ? `<script src="${window.location.origin}/widget.js" data-firm-id="${firmProfile.id}" async></script>`
+    : '';
+
+  const copySnippet = async () => {
+    try {
+      await navigator.clipboard.writeText(widgetSnippet);
+      alert('Snippet copied');
+    } catch (error) {
+      console.error('Error copying snippet:', error);
+    }
+  };
+
   const addServiceArea = async () => {
     if (!firmProfile || !newServiceArea.state) return;
 
@@ -263,6 +321,42 @@ export const FirmSettings = () => {
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-zinc-400 mb-1">Languages Spoken</label>
+              <p className="mb-2 text-xs text-zinc-500">Clients who talk to Lorra in these languages are routed to you first.</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {SUPPORTED_LANGUAGES.map((lang) => (
+                  <label key={lang.value} className="flex items-center gap-2 text-sm text-zinc-300">
+                    <input
+                      type="checkbox"
+                      checked={firmProfile.languages.includes(lang.value)}
+                      onChange={(e) => setFirmProfile({
+                        ...firmProfile,
+                        languages: e.target.checked
+                          ? [...firmProfile.languages, lang.value]
+                          : firmProfile.languages.filter((code) => code !== lang.value),
+                      })}
+                      className="rounded border-zinc-600 bg-zinc-800 text-cyan-500"
+                    />
+                    {lang.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-zinc-400 mb-1">Bar Admissions</label>
+              <p className="mb-2 text-xs text-zinc-500">
+                State abbreviations, e.g. CA, NV. You only receive leads from states you're admitted in, including remote clients. Leave empty to receive leads from any state.
+              </p>
+              <Input
+                value={barStates}
+                onChange={(e) => setBarStates(e.target.value)}
+                className="bg-zinc-800 border-zinc-700"
+                placeholder="CA, NV"
+              />
+            </div>
+
             <div className="flex items-center gap-2">
               <input
                 type="checkbox"
@@ -275,6 +369,31 @@ export const FirmSettings = () => {
                 We can handle remote clients nationwide
               </label>
             </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="emergency_on_call"
+                checked={firmProfile.emergency_on_call}
+                onChange={(e) => setFirmProfile({ ...firmProfile, emergency_on_call: e.target.checked })}
+                className="rounded border-zinc-600 bg-zinc-800 text-cyan-500"
+              />
+              <label htmlFor="emergency_on_call" className="text-sm text-zinc-300">
+                Page us for emergency intakes (arrests, danger, same-day hearings)
+              </label>
+            </div>
+
+            {firmProfile.emergency_on_call && (
+              <div>
+                <label className="block text-sm font-medium text-zinc-400 mb-1">Emergency SMS Number</label>
+                <Input
+                  value={firmProfile.emergency_phone || ''}
+                  onChange={(e) => setFirmProfile({ ...firmProfile, emergency_phone: e.target.value })}
+                  className="bg-zinc-800 border-zinc-700"
+                  placeholder="+15555555555"
+                />
+              </div>
+            )}
           </div>
         </div>
 
@@ -336,7 +455,11 @@ export const FirmSettings = () => {
                         {area.zip_code && ` ${area.zip_code}`}
                       </div>
                       <div className="text-xs text-zinc-400">
-                        {area.radius_miles} mile radius
+                        {!area.city && !area.zip_code
+                          ? 'Statewide'
+                          : area.latitude === null
+                            ? 'Location not recognized, matched by name only'
+                            : `${area.radius_miles} mile radius`}
                       </div>
                     </div>
                     <Button
@@ -355,6 +478,70 @@ export const FirmSettings = () => {
         </div>
       </div>
 
+      {/* Website Widget */}
+      <div className="rounded-lg border border-zinc-800 bg-zinc-900">
+        <div className="border-b border-zinc-800 px-6 py-4">
+          <div className="flex items-center gap-3">
+            <Code className="h-5 w-5 text-cyan-400" />
+            <h3 className="text-lg font-medium text-white">Website Widget</h3>
+          </div>
+        </div>
+        <div className="p-6 space-y-4">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="embed_enabled"
+              checked={firmProfile.embed_enabled}
+              onChange={(e) => setFirmProfile({ ...firmProfile, embed_enabled: e.target.checked })}
+              className="rounded border-zinc-600 bg-zinc-800 text-cyan-500"
+            />
+            <label htmlFor="embed_enabled" className="text-sm text-zinc-300">
+              Let visitors to our website talk to Lorra
+            </label>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-zinc-400 mb-1">Allowed Websites</label>
+            <p className="mb-2 text-xs text-zinc-500">One per line, e.g. https://www.yourfirm.com. The widget won't start anywhere else.</p>
+            <textarea
+              value={embedOrigins}
+              onChange={(e) => setEmbedOrigins(e.target.value)}
+              className="w-full rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 font-mono text-sm text-white"
+              rows={3}
+              placeholder="https://www.yourfirm.com"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-zinc-400 mb-1">Lead Routing</label>
+            <select
+              value={firmProfile.embed_routing}
+              onChange={(e) => setFirmProfile({ ...firmProfile, embed_routing: e.target.value as FirmProfile['embed_routing'] })}
+              className="w-full rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white"
+            >
+              <option value="exclusive">Exclusive — widget leads only ever go to us</option>
+              <option value="preferred">Preferred — offered to us first, then to other firms if we pass</option>
+            </select>
+          </div>
+
+          <div>
+            <div className="mb-1 flex items-center justify-between">
+              <label className="block text-sm font-medium text-zinc-400">Embed Code</label>
+              <Button variant="ghost" size="sm" onClick={copySnippet}>
+                <Copy className="mr-1 h-4 w-4" />
+                Copy
+              </Button>
+            </div>
+            <pre className="overflow-x-auto rounded-md border border-zinc-700 bg-zinc-950 p-3 text-xs text-zinc-300">
+              {widgetSnippet}
+            </pre>
+            <p className="mt-2 text-xs text-zinc-500">
+              Paste before the closing &lt;/body&gt; tag on each page. Save your changes before testing.
+            </p>
+          </div>
+        </div>
+      </div>
+
       {/* Subscription Info */}
       <div className="rounded-lg border border-zinc-800 bg-zinc-900">
         <div className="border-b border-zinc-800 px-6 py-4">
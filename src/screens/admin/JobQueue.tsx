@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { AlertTriangle, CheckCircle, Clock, RotateCcw, Skull } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScheduledJobs } from '@/components/admin/ScheduledJobs';
+
+type Job = {
+  id: string;
+  job_type: string;
+  payload: Record<string, string>;
+  status: 'pending' | 'running' | 'completed' | 'dead';
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type JobFilter = 'failing' | 'dead' | 'all';
+
+export const JobQueue = () => {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [counts, setCounts] = useState({ pending: 0, running: 0, dead: 0 });
+  const [filter, setFilter] = useState<JobFilter>('failing');
+  const [isLoading, setIsLoading] = useState(true);
+  const [requeueingId, setRequeueingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [filter]);
+
+  const fetchJobs = async () => {
+    try {
+      setIsLoading(true);
+
+      let query = supabase
+        .from('job_queue')
+        .select('*')
+        .order('updated_at', { ascending: false })
+        .limit(100);
+
+      // "Failing" = dead-lettered jobs plus jobs backing off after an error
+      if (filter === 'failing') {
+        query = query.or('status.eq.dead,and(status.eq.pending,last_error.not.is.null)');
+      } else if (filter === 'dead') {
+        query = query.eq('status', 'dead');
+      }
+
+      const [{ data, error }, pending, running, dead] = await Promise.all([
+        query,
+        supabase.from('job_queue').select('*', { count: 'exact', head: true }).eq('status', 'pending'),
+        supabase.from('job_queue').select('*', { count: 'exact', head: true }).eq('status', 'running'),
+        supabase.from('job_queue').select('*', { count: 'exact', head: true }).eq('status', 'dead'),
+      ]);
+
+      if (error) throw error;
+
+      setJobs(data || []);
+      setCounts({
+        pending: pending.count || 0,
+        running: running.count || 0,
+        dead: dead.count || 0,
+      });
+    } catch (error) {
+      console.error('Error fetching jobs:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRequeue = async (jobId: string) => {
+    try {
+      setRequeueingId(jobId);
+      const { error } = await supabase.rpc('requeue_job', { job_id: jobId });
+      if (error) throw error;
+      fetchJobs();
+    } catch (error) {
+      console.error('Error requeueing job:', error);
+    } finally {
+      setRequeueingId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString() + ' ' +
+           new Date(dateString).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  const getStatusBadgeClass = (job: Job) => {
+    if (job.status === 'dead') return 'bg-red-900/30 text-red-400';
+    if (job.status === 'running') return 'bg-blue-900/30 text-blue-400';
+    if (job.status === 'completed') return 'bg-green-900/30 text-green-400';
+    return job.last_error ? 'bg-yellow-900/30 text-yellow-400' : 'bg-gray-900/30 text-gray-400';
+  };
+
+  const getStatusLabel = (job: Job) => {
+    if (job.status === 'pending' && job.last_error) return 'retrying';
+    return job.status;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="size-16 animate-spin-slow border-4 border-cyan-400 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col justify-between gap-4 sm:flex-row sm:items-center">
+        <h2 className="text-2xl font-bold text-white">Background Jobs</h2>
+
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as JobFilter)}
+          className="rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white"
+        >
+          <option value="failing">Failing &amp; dead-lettered</option>
+          <option value="dead">Dead-lettered only</option>
+          <option value="all">All recent jobs</option>
+        </select>
+      </div>
+
+      <ScheduledJobs />
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+        <div className="rounded-lg border border-zinc-800 bg-zinc-900 p-6">
+          <div className="flex items-center gap-4">
+            <div className="rounded-full bg-yellow-950/50 p-3 text-yellow-400">
+              <Clock className="h-6 w-6" />
+            </div>
+            <div>
+              <p className="text-sm font-medium text-zinc-400">Queued</p>
+              <h3 className="text-2xl font-bold text-white">{counts.pending}</h3>
+            </div>
+          </div>
+        </div>
+
+        <div className="rounded-lg border border-zinc-800 bg-zinc-900 p-6">
+          <div className="flex items-center gap-4">
+            <div className="rounded-full bg-blue-950/50 p-3 text-blue-400">
+              <CheckCircle className="h-6 w-6" />
+            </div>
+            <div>
+              <p className="text-sm font-medium text-zinc-400">Running</p>
+              <h3 className="text-2xl font-bold text-white">{counts.running}</h3>
+            </div>
+          </div>
+        </div>
+
+        <div className="rounded-lg border border-zinc-800 bg-zinc-900 p-6">
+          <div className="flex items-center gap-4">
+            <div className="rounded-full bg-red-950/50 p-3 text-red-400">
+              <Skull className="h-6 w-6" />
+            </div>
+            <div>
+              <p className="text-sm font-medium text-zinc-400">Dead-lettered</p>
+              <h3 className="text-2xl font-bold text-white">{counts.dead}</h3>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {jobs.length === 0 ? (
+        <div className="flex h-64 flex-col items-center justify-center rounded-lg border border-zinc-800 bg-zinc-900 p-6 text-center">
+          <div className="mb-4 rounded-full bg-zinc-800 p-4">
+            <CheckCircle className="h-6 w-6 text-zinc-500" />
+          </div>
+          <h3 className="text-lg font-medium text-white">No jobs found</h3>
+          <p className="text-zinc-400">Nothing is failing right now</p>
+        </div>
+      ) : (
+        <div className="overflow-hidden rounded-lg border border-zinc-800">
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse text-left">
+              <thead>
+                <tr className="border-b border-zinc-800 bg-zinc-900">
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Updated</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Job</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Status</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Attempts</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Last Error</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Next Run</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map((job) => (
+                  <tr key={job.id} className="border-b border-zinc-800 bg-zinc-900/30 transition hover:bg-zinc-900/50">
+                    <td className="whitespace-nowrap p-4 text-sm text-zinc-300">
+                      {formatDate(job.updated_at)}
+                    </td>
+                    <td className="p-4">
+                      <div className="text-sm font-medium text-white">{job.job_type}</div>
+                      <div className="text-xs text-zinc-500">
+                        {Object.values(job.payload || {}).join(', ')}
+                      </div>
+                    </td>
+                    <td className="p-4">
+                      <span className={`inline-block rounded px-2 py-1 text-xs font-medium ${getStatusBadgeClass(job)}`}>
+                        {getStatusLabel(job)}
+                      </span>
+                    </td>
+                    <td className="whitespace-nowrap p-4 text-sm text-zinc-300">
+                      {job.attempts} / {job.max_attempts}
+                    </td>
+                    <td className="max-w-xs p-4">
+                      {job.last_error && (
+                        <div className="flex items-start gap-1 text-sm text-red-400">
+                          <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                          <span className="truncate">{job.last_error}</span>
+                        </div>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap p-4 text-sm text-zinc-300">
+                      {job.status === 'pending' ? formatDate(job.run_at) : '—'}
+                    </td>
+                    <td className="p-4">
+                      {(job.status === 'dead' || (job.status === 'pending' && job.last_error)) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRequeue(job.id)}
+                          disabled={requeueingId === job.id}
+                        >
+                          <RotateCcw className="mr-1 h-3.5 w-3.5" />
+                          Requeue
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
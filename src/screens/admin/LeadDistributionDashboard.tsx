@@ -28,6 +28,8 @@ import {
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { DistributionStrategies } from '@/components/admin/DistributionStrategies';
+import { OfferHistory } from '@/components/admin/OfferHistory';
 
 type LeadDistributionStats = {
   totalLeads: number;
@@ -362,6 +364,10 @@ export const LeadDistributionDashboard = () => {
         </div>
       </div>
 
+      <DistributionStrategies />
+
+      <OfferHistory />
+
       {/* Lead Assignments Table */}
       <div className="rounded-lg border border-zinc-800 bg-zinc-900">
         <div className="border-b border-zinc-800 px-6 py-4">
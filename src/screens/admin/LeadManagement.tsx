@@ -31,6 +31,7 @@ interface Lead {
   status: string;
   created_at: string;
   claimed_at: string | null;
+  claimed_by_firm_id: string | null;
   quality_score: number | null;
   temperature: string;
   conversation: {
@@ -46,12 +47,12 @@ interface Lead {
   practice_area: {
     name: string;
   } | null;
-  matches: Array<{
+  assignment: {
     id: string;
     match_score: number;
     status: string;
-    created_at: string;
-  }>;
+    assigned_at: string;
+  };
 }
 
 export const LeadManagement = () => {
@@ -105,11 +106,14 @@ export const LeadManagement = () => {
     try {
       setIsLoading(true);
 
-      // Build query to get leads matched with this firm
-      let query = supabase
-        .from('leads')
+      // Leads reach a firm through its assignments
+      const { data, error } = await supabase
+        .from('lead_assignments')
         .select(`
-          *,
+          id,
+          match_score,
+          status,
+          assigned_at,
           conversation:conversations!inner (
             id,
             name,
@@ -118,53 +122,51 @@ export const LeadManagement = () => {
             case_description,
             case_category,
             urgency_score,
-            openai_urgency_score
-          ),
-          practice_area:practice_areas (
-            name
-          ),
-          matches!inner (
-            id,
-            match_score,
-            status,
-            created_at,
-            law_firm_id
+            openai_urgency_score,
+            leads (
+              *,
+              practice_area:practice_areas (
+                name
+              )
+            )
           )
         `)
-        .eq('matches.law_firm_id', firmId)
-        .order('created_at', { ascending: false });
-
-      // Apply filter
-      if (filter === 'available') {
-        query = query
-          .is('claimed_at', null)
-          .eq('matches.status', 'pending');
-      } else if (filter === 'claimed') {
-        query = query
-          .not('claimed_at', 'is', null)
-          .eq('claimed_by_firm_id', firmId);
-      } else if (filter === 'converted') {
-        query = query.eq('status', 'converted');
-      }
-
-      const { data, error } = await query;
+        .eq('law_firm_id', firmId)
+        .order('assigned_at', { ascending: false });
 
       if (error) throw error;
 
-      // Filter to only show leads where this firm has a match
-      const filteredData = (data || []).filter(lead =>
-        lead.matches.some((m: any) => m.law_firm_id === firmId)
-      );
+      const firmLeads: Lead[] = (data || []).flatMap((assignment: any) => {
+        const { leads: conversationLeads, ...conversation } = assignment.conversation;
+        return (conversationLeads || []).map((lead: any) => ({
+          ...lead,
+          conversation,
+          assignment: {
+            id: assignment.id,
+            match_score: assignment.match_score,
+            status: assignment.status,
+            assigned_at: assignment.assigned_at,
+          },
+        }));
+      });
+
+      // Apply filter
+      const filteredData = firmLeads.filter(lead => {
+        if (filter === 'available') return !lead.claimed_at && lead.assignment.status === 'pending';
+        if (filter === 'claimed') return lead.claimed_at && lead.claimed_by_firm_id === firmId;
+        if (filter === 'converted') return lead.status === 'converted';
+        return true;
+      });
 
       setLeads(filteredData);
       setFilteredLeads(filteredData);
 
       // Calculate stats
       const statsData = {
-        total: filteredData.length,
-        available: filteredData.filter(l => !l.claimed_at && l.matches.some((m: any) => m.status === 'pending')).length,
-        claimed: filteredData.filter(l => l.claimed_at && l.claimed_by_firm_id === firmId).length,
-        converted: filteredData.filter(l => l.status === 'converted').length
+        total: firmLeads.length,
+        available: firmLeads.filter(l => !l.claimed_at && l.assignment.status === 'pending').length,
+        claimed: firmLeads.filter(l => l.claimed_at && l.claimed_by_firm_id === firmId).length,
+        converted: firmLeads.filter(l => l.status === 'converted').length
       };
       setStats(statsData);
 
@@ -192,7 +194,7 @@ export const LeadManagement = () => {
     setFilteredLeads(filtered);
   };
 
-  const claimLead = async (leadId: string) => {
+  const claimLead = async (lead: Lead) => {
     if (!firmId || !user?.id) return;
 
     try {
@@ -205,26 +207,14 @@ export const LeadManagement = () => {
         return;
       }
 
-      const { error } = await supabase
-        .from('leads')
-        .update({
-          status: 'claimed',
-          claimed_at: new Date().toISOString(),
-          claimed_by_firm_id: firmId,
-          claimed_by_user_id: user.id,
-        })
-        .eq('id', leadId);
+      // Accepting the assignment claims the lead and logs the activity
+      const { error } = await supabase.rpc('handle_lead_response', {
+        assignment_id: lead.assignment.id,
+        response_status: 'accepted',
+      });
 
       if (error) throw error;
 
-      // Log activity
-      await supabase.from('lead_activities').insert({
-        lead_id: leadId,
-        user_id: user.id,
-        activity_type: 'claimed',
-        details: { claimed_by_firm_id: firmId }
-      });
-
       // Refresh leads
       await fetchLeads();
 
@@ -266,11 +256,6 @@ export const LeadManagement = () => {
     );
   };
 
-  const getMatchScore = (matches: any[]) => {
-    const match = matches.find(m => m.law_firm_id === firmId);
-    return match?.match_score || 0;
-  };
-
   if (!firmId) {
     return (
       <div className="flex h-full items-center justify-center">
@@ -427,7 +412,7 @@ export const LeadManagement = () => {
                 const isClaimed = lead.claimed_at !== null;
                 const isClaimedByUs = lead.claimed_by_firm_id === firmId;
                 const urgency = lead.conversation.urgency_score || lead.conversation.openai_urgency_score || 5;
-                const matchScore = getMatchScore(lead.matches);
+                const matchScore = lead.assignment.match_score || 0;
 
                 return (
                   <TableRow key={lead.id} className="border-zinc-800 hover:bg-zinc-800/30">
@@ -519,18 +504,22 @@ export const LeadManagement = () => {
                             Taken
                           </Badge>
                         )
-                      ) : (
+                      ) : lead.assignment.status === 'pending' ? (
                         <Badge variant="outline" className="text-green-400 border-green-400">
                           Available
                         </Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-zinc-500 capitalize">
+                          {lead.assignment.status}
+                        </Badge>
                       )}
                     </TableCell>
 
                     <TableCell className="text-right">
-                      {!isClaimed ? (
+                      {!isClaimed && lead.assignment.status === 'pending' ? (
                         <Button
                           size="sm"
-                          onClick={() => claimLead(lead.id)}
+                          onClick={() => claimLead(lead)}
                           className="bg-cyan-500 hover:bg-cyan-600"
                         >
                           Claim Lead
@@ -47,12 +47,13 @@ export const LeadsManagement = () => {
             id,
             status,
             created_at,
+            conversation_id,
             conversation:conversations(id, name, email, phone, case_description, urgency_score, created_at),
             practice_area:practice_areas(name)
           `);
         
         if (userProfile.role === 'legal_admin') {
-          // For legal admin, only show leads matched to their firm
+          // For legal admin, only show leads assigned to their firm
           const { data: lawFirm } = await supabase
             .from('law_firms')
             .select('id')
@@ -60,12 +61,14 @@ export const LeadsManagement = () => {
             .single();
             
           if (lawFirm) {
+            const { data: assignments } = await supabase
+              .from('lead_assignments')
+              .select('conversation_id')
+              .eq('law_firm_id', lawFirm.id);
+
             query = query.in(
-              'id', 
-              supabase
-                .from('matches')
-                .select('lead_id')
-                .eq('law_firm_id', lawFirm.id)
+              'conversation_id',
+              (assignments || []).map(a => a.conversation_id)
             );
           }
         }
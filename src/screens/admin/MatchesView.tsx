@@ -8,20 +8,17 @@ import { Input } from '@/components/ui/input';
 
 type Match = {
   id: string;
-  lead: {
+  conversation: {
     id: string;
-    conversation: {
-      id: string;
-      name: string;
-      email: string;
-      phone: string;
-      case_description: string;
-      urgency_score: number;
-    };
+    name: string;
+    email: string;
+    phone: string;
+    case_description: string;
+    urgency_score: number;
     practice_area: {
       id: string;
       name: string;
-    };
+    } | null;
   };
   match_score: number;
   status: string;
@@ -55,16 +52,15 @@ export const MatchesView = () => {
         if (!lawFirm) return;
         
         let query = supabase
-          .from('matches')
+          .from('lead_assignments')
           .select(`
             id,
             match_score,
             status,
             created_at,
-            lead:leads(
-              id,
-              practice_area:practice_areas(id, name),
-              conversation:conversations(id, name, email, phone, case_description, urgency_score)
+            conversation:conversations(
+              id, name, email, phone, case_description, urgency_score,
+              practice_area:practice_areas(id, name)
             )
           `)
           .eq('law_firm_id', lawFirm.id);
@@ -96,10 +92,11 @@ export const MatchesView = () => {
 
   const updateMatchStatus = async (matchId: string, newStatus: 'accepted' | 'rejected') => {
     try {
-      const { error } = await supabase
-        .from('matches')
-        .update({ status: newStatus })
-        .eq('id', matchId);
+      // Accepting claims the lead; rejecting offers it to the next firm
+      const { error } = await supabase.rpc('handle_lead_response', {
+        assignment_id: matchId,
+        response_status: newStatus,
+      });
         
       if (error) {
         console.error('Error updating match status:', error);
@@ -110,17 +107,6 @@ export const MatchesView = () => {
             ? { ...match, status: newStatus } 
             : match
         ));
-        
-        // If match accepted, update lead status to contacted
-        if (newStatus === 'accepted') {
-          const match = matches.find(m => m.id === matchId);
-          if (match) {
-            await supabase
-              .from('leads')
-              .update({ status: 'contacted' })
-              .eq('id', match.lead.id);
-          }
-        }
       }
     } catch (error) {
       console.error('Error:', error);
@@ -144,10 +130,10 @@ export const MatchesView = () => {
   const filteredMatches = matches.filter(match => {
     const searchLower = searchTerm.toLowerCase();
     return (
-      match.lead?.conversation?.name?.toLowerCase().includes(searchLower) ||
-      match.lead?.conversation?.email?.toLowerCase().includes(searchLower) ||
-      match.lead?.conversation?.case_description?.toLowerCase().includes(searchLower) ||
-      match.lead?.practice_area?.name?.toLowerCase().includes(searchLower)
+      match.conversation?.name?.toLowerCase().includes(searchLower) ||
+      match.conversation?.email?.toLowerCase().includes(searchLower) ||
+      match.conversation?.case_description?.toLowerCase().includes(searchLower) ||
+      match.conversation?.practice_area?.name?.toLowerCase().includes(searchLower)
     );
   });
 
@@ -291,16 +277,16 @@ export const MatchesView = () => {
                       {formatDate(match.created_at)}
                     </td>
                     <td className="whitespace-nowrap p-4">
-                      <div className="text-sm font-medium text-white">{match.lead?.conversation?.name || 'Unknown'}</div>
-                      <div className="text-xs text-zinc-400">{match.lead?.conversation?.email}</div>
+                      <div className="text-sm font-medium text-white">{match.conversation?.name || 'Unknown'}</div>
+                      <div className="text-xs text-zinc-400">{match.conversation?.email}</div>
                     </td>
                     <td className="max-w-xs p-4">
                       <div className="truncate text-sm text-zinc-300">
-                        {match.lead?.conversation?.case_description || 'No description provided'}
+                        {match.conversation?.case_description || 'No description provided'}
                       </div>
                     </td>
                     <td className="p-4">
-                      <div className="text-sm text-zinc-300">{match.lead?.practice_area?.name || 'Unknown'}</div>
+                      <div className="text-sm text-zinc-300">{match.conversation?.practice_area?.name || 'Unknown'}</div>
                     </td>
                     <td className="p-4">
                       <span className={`inline-block rounded px-2 py-1 text-xs font-medium ${getMatchScoreBadgeClass(match.match_score)}`}>
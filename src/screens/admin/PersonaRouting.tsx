@@ -0,0 +1,404 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Plus, Route, Trash } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SUPPORTED_LANGUAGES } from '@/utils/language';
+
+type PersonaMetrics = {
+  config_id: string;
+  name: string;
+  language: string;
+  active: boolean;
+  conversation_count: number;
+  avg_completeness: number | null;
+  avg_urgency: number | null;
+  assigned: number;
+  accepted: number;
+  converted: number;
+};
+
+type RoutingRule = {
+  id: string;
+  name: string;
+  tavus_config_id: string;
+  priority: number;
+  campaign: string | null;
+  language: string | null;
+  practice_area_id: string | null;
+  start_hour: number | null;
+  end_hour: number | null;
+  timezone: string;
+  traffic_weight: number;
+  active: boolean;
+};
+
+type PracticeArea = {
+  id: string;
+  name: string;
+};
+
+const emptyRule = {
+  name: '',
+  tavus_config_id: '',
+  priority: '100',
+  campaign: '',
+  language: '',
+  practice_area_id: '',
+  start_hour: '',
+  end_hour: '',
+  timezone: 'America/New_York',
+  traffic_weight: '1',
+};
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${Math.round(value * 100)}%`;
+
+const rate = (count: number, total: number) =>
+  total > 0 ? formatPercent(count / total) : '—';
+
+const optionalHour = (value: string) => (value === '' ? null : Math.min(23, Math.max(0, parseInt(value, 10) || 0)));
+
+export const PersonaRouting = () => {
+  const [personas, setPersonas] = useState<PersonaMetrics[]>([]);
+  const [rules, setRules] = useState<RoutingRule[]>([]);
+  const [practiceAreas, setPracticeAreas] = useState<PracticeArea[]>([]);
+  const [newRule, setNewRule] = useState(emptyRule);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setIsLoading(true);
+
+      const [metricsResult, rulesResult, areasResult] = await Promise.all([
+        supabase.rpc('get_persona_metrics'),
+        supabase.from('persona_routing_rules').select('*').order('priority').order('created_at'),
+        supabase.from('practice_areas').select('id, name').order('name'),
+      ]);
+
+      if (metricsResult.error) throw metricsResult.error;
+      if (rulesResult.error) throw rulesResult.error;
+      if (areasResult.error) throw areasResult.error;
+
+      setPersonas((metricsResult.data || []) as PersonaMetrics[]);
+      setRules(rulesResult.data || []);
+      setPracticeAreas(areasResult.data || []);
+    } catch (error) {
+      console.error('Error fetching persona routing:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const togglePersona = async (persona: PersonaMetrics) => {
+    try {
+      const { error } = await supabase
+        .from('tavus_configs')
+        .update({ active: !persona.active })
+        .eq('id', persona.config_id);
+
+      if (error) throw error;
+      fetchData();
+    } catch (error) {
+      console.error('Error updating persona:', error);
+    }
+  };
+
+  const addRule = async () => {
+    if (!newRule.name || !newRule.tavus_config_id) return;
+
+    const startHour = optionalHour(newRule.start_hour);
+    const endHour = optionalHour(newRule.end_hour);
+    if ((startHour === null) !== (endHour === null)) {
+      alert('Set both a start and an end hour, or neither');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from('persona_routing_rules')
+        .insert({
+          name: newRule.name,
+          tavus_config_id: newRule.tavus_config_id,
+          priority: parseInt(newRule.priority, 10) || 100,
+          campaign: newRule.campaign.trim() || null,
+          language: newRule.language || null,
+          practice_area_id: newRule.practice_area_id || null,
+          start_hour: startHour,
+          end_hour: endHour,
+          timezone: newRule.timezone.trim() || 'UTC',
+          traffic_weight: Math.max(1, parseInt(newRule.traffic_weight, 10) || 1),
+          created_by: user?.id ?? null,
+        });
+
+      if (error) throw error;
+
+      setNewRule(emptyRule);
+      fetchData();
+    } catch (error) {
+      console.error('Error adding routing rule:', error);
+      alert('Failed to add routing rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: RoutingRule) => {
+    try {
+      const { error } = await supabase
+        .from('persona_routing_rules')
+        .update({ active: !rule.active })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      fetchData();
+    } catch (error) {
+      console.error('Error updating routing rule:', error);
+    }
+  };
+
+  const deleteRule = async (ruleId: string) => {
+    if (!confirm('Delete this routing rule?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('persona_routing_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting routing rule:', error);
+    }
+  };
+
+  const describeConditions = (rule: RoutingRule) => {
+    const conditions = [
+      rule.campaign && `campaign "${rule.campaign}"`,
+      rule.language && SUPPORTED_LANGUAGES.find((lang) => lang.value === rule.language)?.label,
+      rule.practice_area_id && practiceAreas.find((area) => area.id === rule.practice_area_id)?.name,
+      rule.start_hour !== null && `${rule.start_hour}:00–${rule.end_hour}:00 ${rule.timezone}`,
+    ].filter(Boolean);
+
+    return conditions.length > 0 ? conditions.join(', ') : 'Every conversation';
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="size-16 animate-spin-slow border-4 border-cyan-400 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Persona Routing</h2>
+        <p className="text-zinc-400">
+          Rules are checked by priority, lowest first. Matching rules with the same priority split traffic by weight;
+          without a match callers get an active persona for their language.
+        </p>
+      </div>
+
+      <div className="overflow-hidden rounded-lg border border-zinc-800">
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse text-left">
+            <thead>
+              <tr className="border-b border-zinc-800 bg-zinc-900">
+                <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Persona</th>
+                <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Language</th>
+                <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Conversations</th>
+                <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Completeness</th>
+                <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Avg Urgency</th>
+                <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Assigned</th>
+                <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Accepted</th>
+                <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Converted</th>
+                <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {personas.map((persona) => {
+                const total = Number(persona.conversation_count);
+
+                return (
+                  <tr key={persona.config_id} className="border-b border-zinc-800 bg-zinc-900/30 transition hover:bg-zinc-900/50">
+                    <td className="whitespace-nowrap p-4">
+                      <div className="flex items-center gap-2 text-sm font-medium text-white">
+                        {persona.name}
+                        {persona.active && (
+                          <span className="rounded bg-cyan-900/30 px-2 py-0.5 text-xs text-cyan-400">Active</span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="whitespace-nowrap p-4 text-sm uppercase text-zinc-300">{persona.language}</td>
+                    <td className="whitespace-nowrap p-4 text-sm text-zinc-300">{total}</td>
+                    <td className="whitespace-nowrap p-4 text-sm text-zinc-300">
+                      {formatPercent(persona.avg_completeness === null ? null : Number(persona.avg_completeness))}
+                    </td>
+                    <td className="whitespace-nowrap p-4 text-sm text-zinc-300">{persona.avg_urgency ?? '—'}</td>
+                    <td className="whitespace-nowrap p-4 text-sm text-zinc-300">{rate(Number(persona.assigned), total)}</td>
+                    <td className="whitespace-nowrap p-4 text-sm text-zinc-300">{rate(Number(persona.accepted), total)}</td>
+                    <td className="whitespace-nowrap p-4 text-sm text-zinc-300">{rate(Number(persona.converted), total)}</td>
+                    <td className="p-4">
+                      <Button variant="outline" size="sm" onClick={() => togglePersona(persona)}>
+                        {persona.active ? 'Deactivate' : 'Activate'}
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-zinc-800 bg-zinc-900">
+        <div className="border-b border-zinc-800 px-6 py-4">
+          <div className="flex items-center gap-3">
+            <Route className="h-5 w-5 text-cyan-400" />
+            <h3 className="text-lg font-medium text-white">Routing Rules</h3>
+          </div>
+        </div>
+        <div className="p-6">
+          <div className="mb-6 rounded-lg border border-zinc-700 p-4">
+            <h4 className="mb-3 text-sm font-medium text-zinc-300">Add Rule</h4>
+            <div className="grid grid-cols-2 gap-3 lg:grid-cols-4">
+              <Input
+                placeholder="Rule name"
+                value={newRule.name}
+                onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+                className="bg-zinc-800 border-zinc-700"
+              />
+              <select
+                value={newRule.tavus_config_id}
+                onChange={(e) => setNewRule({ ...newRule, tavus_config_id: e.target.value })}
+                className="rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white"
+              >
+                <option value="">Persona…</option>
+                {personas.map((persona) => (
+                  <option key={persona.config_id} value={persona.config_id}>{persona.name}</option>
+                ))}
+              </select>
+              <Input
+                type="number"
+                placeholder="Priority"
+                value={newRule.priority}
+                onChange={(e) => setNewRule({ ...newRule, priority: e.target.value })}
+                className="bg-zinc-800 border-zinc-700"
+              />
+              <Input
+                type="number"
+                min={1}
+                placeholder="Weight"
+                value={newRule.traffic_weight}
+                onChange={(e) => setNewRule({ ...newRule, traffic_weight: e.target.value })}
+                className="bg-zinc-800 border-zinc-700"
+              />
+              <Input
+                placeholder="Campaign (utm_campaign)"
+                value={newRule.campaign}
+                onChange={(e) => setNewRule({ ...newRule, campaign: e.target.value })}
+                className="bg-zinc-800 border-zinc-700"
+              />
+              <select
+                value={newRule.language}
+                onChange={(e) => setNewRule({ ...newRule, language: e.target.value })}
+                className="rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white"
+              >
+                <option value="">Any language</option>
+                {SUPPORTED_LANGUAGES.map((lang) => (
+                  <option key={lang.value} value={lang.value}>{lang.label}</option>
+                ))}
+              </select>
+              <select
+                value={newRule.practice_area_id}
+                onChange={(e) => setNewRule({ ...newRule, practice_area_id: e.target.value })}
+                className="rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white"
+              >
+                <option value="">Any entry point</option>
+                {practiceAreas.map((area) => (
+                  <option key={area.id} value={area.id}>{area.name}</option>
+                ))}
+              </select>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  max={23}
+                  placeholder="From hour"
+                  value={newRule.start_hour}
+                  onChange={(e) => setNewRule({ ...newRule, start_hour: e.target.value })}
+                  className="bg-zinc-800 border-zinc-700"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  max={23}
+                  placeholder="To hour"
+                  value={newRule.end_hour}
+                  onChange={(e) => setNewRule({ ...newRule, end_hour: e.target.value })}
+                  className="bg-zinc-800 border-zinc-700"
+                />
+              </div>
+              <Input
+                placeholder="Time zone"
+                value={newRule.timezone}
+                onChange={(e) => setNewRule({ ...newRule, timezone: e.target.value })}
+                className="bg-zinc-800 border-zinc-700"
+              />
+            </div>
+            <Button
+              onClick={addRule}
+              disabled={isSaving || !newRule.name || !newRule.tavus_config_id}
+              className="mt-3"
+              size="sm"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Rule
+            </Button>
+          </div>
+
+          {rules.length === 0 ? (
+            <p className="text-center text-zinc-500">No routing rules — every caller gets the persona for their language</p>
+          ) : (
+            <div className="space-y-2">
+              {rules.map((rule) => (
+                <div key={rule.id} className="flex items-center justify-between rounded-lg border border-zinc-700 p-3">
+                  <div>
+                    <p className="text-sm font-medium text-white">
+                      {rule.name}
+                      <span className="ml-2 text-zinc-400">
+                        → {personas.find((persona) => persona.config_id === rule.tavus_config_id)?.name ?? 'Unknown persona'}
+                      </span>
+                    </p>
+                    <p className="text-xs text-zinc-400">
+                      Priority {rule.priority} · weight {rule.traffic_weight} · {describeConditions(rule)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => toggleRule(rule)}>
+                      {rule.active ? 'Disable' : 'Enable'}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => deleteRule(rule.id)}>
+                      <Trash className="h-4 w-4 text-red-400" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
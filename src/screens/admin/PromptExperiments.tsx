@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { FlaskConical, Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+type VersionMetrics = {
+  template_id: string;
+  version: number;
+  is_active: boolean;
+  traffic_weight: number;
+  conversation_count: number;
+  avg_completeness: number | null;
+  unclassified: number;
+  urgency_low: number;
+  urgency_medium: number;
+  urgency_high: number;
+  avg_urgency: number | null;
+  assigned: number;
+  accepted: number;
+  converted: number;
+};
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${Math.round(value * 100)}%`;
+
+const rate = (count: number, total: number) =>
+  total > 0 ? formatPercent(count / total) : '—';
+
+export const PromptExperiments = () => {
+  const [versions, setVersions] = useState<VersionMetrics[]>([]);
+  const [weights, setWeights] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchMetrics();
+  }, []);
+
+  const fetchMetrics = async () => {
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase.rpc('get_prompt_version_metrics', { p_name: 'lead_extraction' });
+
+      if (error) throw error;
+
+      const rows = (data || []) as VersionMetrics[];
+      setVersions(rows);
+      setWeights(Object.fromEntries(rows.map((row) => [row.template_id, String(row.traffic_weight)])));
+    } catch (error) {
+      console.error('Error fetching prompt metrics:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleActivate = async (templateId: string) => {
+    try {
+      const { error } = await supabase.rpc('activate_prompt_template', { template_id: templateId });
+      if (error) throw error;
+      fetchMetrics();
+    } catch (error) {
+      console.error('Error activating prompt template:', error);
+    }
+  };
+
+  const handleSaveWeights = async () => {
+    try {
+      setIsSaving(true);
+      const changed = versions.filter((v) => String(v.traffic_weight) !== weights[v.template_id]);
+
+      for (const version of changed) {
+        const weight = Math.max(0, parseInt(weights[version.template_id], 10) || 0);
+        const { error } = await supabase
+          .from('prompt_templates')
+          .update({ traffic_weight: weight })
+          .eq('id', version.template_id);
+
+        if (error) throw error;
+      }
+
+      fetchMetrics();
+    } catch (error) {
+      console.error('Error saving traffic weights:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const totalWeight = versions.reduce((sum, v) => sum + (parseInt(weights[v.template_id], 10) || 0), 0);
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="size-16 animate-spin-slow border-4 border-cyan-400 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col justify-between gap-4 sm:flex-row sm:items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Extraction Prompt Versions</h2>
+          <p className="text-zinc-400">
+            {totalWeight > 0
+              ? 'Traffic is split between versions by weight.'
+              : 'No weights set — all traffic uses the active version.'}
+          </p>
+        </div>
+        <Button onClick={handleSaveWeights} disabled={isSaving}>
+          Save weights
+        </Button>
+      </div>
+
+      {versions.length === 0 ? (
+        <div className="flex h-64 flex-col items-center justify-center rounded-lg border border-zinc-800 bg-zinc-900 p-6 text-center">
+          <div className="mb-4 rounded-full bg-zinc-800 p-4">
+            <FlaskConical className="h-6 w-6 text-zinc-500" />
+          </div>
+          <h3 className="text-lg font-medium text-white">No prompt versions</h3>
+          <p className="text-zinc-400">Add rows to prompt_templates to start comparing</p>
+        </div>
+      ) : (
+        <div className="overflow-hidden rounded-lg border border-zinc-800">
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse text-left">
+              <thead>
+                <tr className="border-b border-zinc-800 bg-zinc-900">
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Version</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Weight</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Conversations</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Completeness</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Unclassified</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Urgency (low / med / high)</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Avg Urgency</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Assigned</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Accepted</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Converted</th>
+                  <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {versions.map((version) => {
+                  const total = Number(version.conversation_count);
+
+                  return (
+                    <tr key={version.template_id} className="border-b border-zinc-800 bg-zinc-900/30 transition hover:bg-zinc-900/50">
+                      <td className="whitespace-nowrap p-4">
+                        <div className="flex items-center gap-2 text-sm font-medium text-white">
+                          v{version.version}
+                          {version.is_active && (
+                            <span className="inline-flex items-center gap-1 rounded bg-cyan-900/30 px-2 py-0.5 text-xs text-cyan-400">
+                              <Star className="h-3 w-3" />
+                              Active
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="p-4">
+                        <Input
+                          type="number"
+                          min={0}
+                          value={weights[version.template_id] ?? '0'}
+                          onChange={(e) => setWeights({ ...weights, [version.template_id]: e.target.value })}
+                          className="w-20"
+                        />
+                      </td>
+                      <td className="whitespace-nowrap p-4 text-sm text-zinc-300">{total}</td>
+                      <td className="whitespace-nowrap p-4 text-sm text-zinc-300">
+                        {formatPercent(version.avg_completeness === null ? null : Number(version.avg_completeness))}
+                      </td>
+                      <td className="whitespace-nowrap p-4 text-sm text-zinc-300">
+                        {rate(Number(version.unclassified), total)}
+                      </td>
+                      <td className="whitespace-nowrap p-4 text-sm text-zinc-300">
+                        {rate(Number(version.urgency_low), total)} / {rate(Number(version.urgency_medium), total)} / {rate(Number(version.urgency_high), total)}
+                      </td>
+                      <td className="whitespace-nowrap p-4 text-sm text-zinc-300">{version.avg_urgency ?? '—'}</td>
+                      <td className="whitespace-nowrap p-4 text-sm text-zinc-300">{rate(Number(version.assigned), total)}</td>
+                      <td className="whitespace-nowrap p-4 text-sm text-zinc-300">{rate(Number(version.accepted), total)}</td>
+                      <td className="whitespace-nowrap p-4 text-sm text-zinc-300">{rate(Number(version.converted), total)}</td>
+                      <td className="p-4">
+                        {!version.is_active && (
+                          <Button variant="outline" size="sm" onClick={() => handleActivate(version.template_id)}>
+                            Make active
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { CheckCircle, HelpCircle, Mail, Phone } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+type UnclassifiedConversation = {
+  id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  case_category: string | null;
+  case_description: string | null;
+  firm_location: string | null;
+  created_at: string;
+};
+
+type PracticeArea = {
+  id: string;
+  name: string;
+};
+
+type TriageSelection = {
+  practiceAreaId: string;
+  saveAsSynonym: boolean;
+};
+
+export const TriageQueue = () => {
+  const [conversations, setConversations] = useState<UnclassifiedConversation[]>([]);
+  const [practiceAreas, setPracticeAreas] = useState<PracticeArea[]>([]);
+  const [selections, setSelections] = useState<Record<string, TriageSelection>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchQueue();
+  }, []);
+
+  const fetchQueue = async () => {
+    try {
+      setIsLoading(true);
+
+      const [conversationsResult, practiceAreasResult] = await Promise.all([
+        supabase
+          .from('conversations')
+          .select('id, name, email, phone, case_category, case_description, firm_location, created_at')
+          .eq('classification_status', 'unclassified')
+          .is('deleted_at', null)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('practice_areas')
+          .select('id, name')
+          .order('name'),
+      ]);
+
+      if (conversationsResult.error) throw conversationsResult.error;
+      if (practiceAreasResult.error) throw practiceAreasResult.error;
+
+      setConversations(conversationsResult.data || []);
+      setPracticeAreas(practiceAreasResult.data || []);
+    } catch (error) {
+      console.error('Error fetching triage queue:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateSelection = (conversationId: string, changes: Partial<TriageSelection>) => {
+    setSelections((current) => {
+      const previous = current[conversationId] ?? { practiceAreaId: '', saveAsSynonym: true };
+      return { ...current, [conversationId]: { ...previous, ...changes } };
+    });
+  };
+
+  const handleClassify = async (conversationId: string) => {
+    const selection = selections[conversationId];
+    if (!selection?.practiceAreaId) return;
+
+    try {
+      setSavingId(conversationId);
+      const { error } = await supabase.rpc('triage_conversation', {
+        conversation_id: conversationId,
+        practice_area_id: selection.practiceAreaId,
+        save_as_synonym: selection.saveAsSynonym,
+      });
+
+      if (error) throw error;
+
+      setConversations((current) => current.filter((c) => c.id !== conversationId));
+    } catch (error) {
+      console.error('Error classifying conversation:', error);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString() + ' ' +
+           new Date(dateString).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="size-16 animate-spin-slow border-4 border-cyan-400 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Classification Triage</h2>
+        <p className="text-zinc-400">
+          Intakes whose case category didn't match a practice area. Classify them to send them through lead distribution.
+        </p>
+      </div>
+
+      {conversations.length === 0 ? (
+        <div className="flex h-64 flex-col items-center justify-center rounded-lg border border-zinc-800 bg-zinc-900 p-6 text-center">
+          <div className="mb-4 rounded-full bg-zinc-800 p-4">
+            <CheckCircle className="h-6 w-6 text-zinc-500" />
+          </div>
+          <h3 className="text-lg font-medium text-white">Queue is empty</h3>
+          <p className="text-zinc-400">Every intake has been matched to a practice area</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {conversations.map((conversation) => {
+            const selection = selections[conversation.id];
+
+            return (
+              <div key={conversation.id} className="rounded-lg border border-zinc-800 bg-zinc-900 p-6">
+                <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <HelpCircle className="h-4 w-4 text-yellow-400" />
+                      <span className="rounded bg-yellow-900/30 px-2 py-1 text-xs font-medium text-yellow-400">
+                        {conversation.case_category || 'No category'}
+                      </span>
+                      <span className="text-xs text-zinc-500">{formatDate(conversation.created_at)}</span>
+                    </div>
+                    <h3 className="font-medium text-white">{conversation.name || 'Anonymous'}</h3>
+                    <div className="flex flex-wrap gap-4 text-sm text-zinc-400">
+                      {conversation.email && (
+                        <span className="flex items-center gap-1">
+                          <Mail className="h-3.5 w-3.5" />
+                          {conversation.email}
+                        </span>
+                      )}
+                      {conversation.phone && (
+                        <span className="flex items-center gap-1">
+                          <Phone className="h-3.5 w-3.5" />
+                          {conversation.phone}
+                        </span>
+                      )}
+                      {conversation.firm_location && <span>{conversation.firm_location}</span>}
+                    </div>
+                    {conversation.case_description && (
+                      <p className="max-w-2xl text-sm text-zinc-300">{conversation.case_description}</p>
+                    )}
+                  </div>
+
+                  <div className="flex flex-col gap-2 lg:w-72">
+                    <select
+                      value={selection?.practiceAreaId || ''}
+                      onChange={(e) => updateSelection(conversation.id, { practiceAreaId: e.target.value })}
+                      className="rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white"
+                    >
+                      <option value="">Select practice area…</option>
+                      {practiceAreas.map((area) => (
+                        <option key={area.id} value={area.id}>{area.name}</option>
+                      ))}
+                    </select>
+                    {conversation.case_category && (
+                      <label className="flex items-center gap-2 text-sm text-zinc-400">
+                        <input
+                          type="checkbox"
+                          checked={selection?.saveAsSynonym ?? true}
+                          onChange={(e) => updateSelection(conversation.id, { saveAsSynonym: e.target.checked })}
+                        />
+                        Remember "{conversation.case_category}" as a synonym
+                      </label>
+                    )}
+                    <Button
+                      onClick={() => handleClassify(conversation.id)}
+                      disabled={!selection?.practiceAreaId || savingId === conversation.id}
+                    >
+                      Classify &amp; distribute
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
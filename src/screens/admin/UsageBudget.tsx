@@ -0,0 +1,238 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Clock, DollarSign, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+type UsageBudgetSettings = {
+  max_call_seconds: number;
+  visitor_daily_seconds: number;
+  global_daily_seconds: number;
+  cost_per_minute_usd: number;
+  daily_spend_cap_usd: number;
+  updated_at: string;
+};
+
+type UsageDay = {
+  day: string;
+  conversations: number;
+  visitors: number;
+  seconds: number;
+  estimated_spend_usd: number;
+};
+
+// The form edits minutes; the table stores seconds
+type BudgetForm = {
+  maxCallMinutes: string;
+  visitorDailyMinutes: string;
+  globalDailyMinutes: string;
+  costPerMinute: string;
+  dailySpendCap: string;
+};
+
+export const UsageBudget = () => {
+  const [budget, setBudget] = useState<UsageBudgetSettings | null>(null);
+  const [form, setForm] = useState<BudgetForm | null>(null);
+  const [usage, setUsage] = useState<UsageDay[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchUsage();
+  }, []);
+
+  const fetchUsage = async () => {
+    try {
+      setIsLoading(true);
+
+      const [budgetResult, usageResult] = await Promise.all([
+        supabase.from('usage_budgets').select('*').single(),
+        supabase.rpc('get_usage_summary', { p_days: 14 }),
+      ]);
+
+      if (budgetResult.error) throw budgetResult.error;
+      if (usageResult.error) throw usageResult.error;
+
+      const settings = budgetResult.data as UsageBudgetSettings;
+      setBudget(settings);
+      setForm({
+        maxCallMinutes: String(settings.max_call_seconds / 60),
+        visitorDailyMinutes: String(settings.visitor_daily_seconds / 60),
+        globalDailyMinutes: String(settings.global_daily_seconds / 60),
+        costPerMinute: String(settings.cost_per_minute_usd),
+        dailySpendCap: String(settings.daily_spend_cap_usd),
+      });
+      setUsage(usageResult.data || []);
+    } catch (error) {
+      console.error('Error fetching usage:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    try {
+      setIsSaving(true);
+      const { error } = await supabase.rpc('update_usage_budget', {
+        max_call_seconds: Math.round(Number(form.maxCallMinutes) * 60),
+        visitor_daily_seconds: Math.round(Number(form.visitorDailyMinutes) * 60),
+        global_daily_seconds: Math.round(Number(form.globalDailyMinutes) * 60),
+        cost_per_minute_usd: Number(form.costPerMinute),
+        daily_spend_cap_usd: Number(form.dailySpendCap),
+      });
+
+      if (error) throw error;
+      fetchUsage();
+    } catch (error) {
+      console.error('Error saving usage budget:', error);
+      alert('Failed to save budget');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatMinutes = (seconds: number) => `${Math.round(seconds / 60)} min`;
+
+  if (isLoading || !budget || !form) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="size-16 animate-spin-slow border-4 border-cyan-400 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  const today = usage.find((d) => d.day === new Date().toISOString().slice(0, 10));
+  const todaySeconds = today?.seconds ?? 0;
+  const todaySpend = Number(today?.estimated_spend_usd ?? 0);
+  const isCapped = todaySeconds >= budget.global_daily_seconds || todaySpend >= budget.daily_spend_cap_usd;
+
+  const fields: { key: keyof BudgetForm; label: string; step: string }[] = [
+    { key: 'maxCallMinutes', label: 'Max call length (minutes)', step: '1' },
+    { key: 'visitorDailyMinutes', label: 'Minutes per visitor per day', step: '1' },
+    { key: 'globalDailyMinutes', label: 'Minutes per day, all visitors', step: '10' },
+    { key: 'costPerMinute', label: 'Cost per minute (USD)', step: '0.01' },
+    { key: 'dailySpendCap', label: 'Daily spend cap (USD)', step: '1' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Usage &amp; Budget</h2>
+        <p className="text-zinc-400">
+          Call time is reserved when a conversation starts. When a budget runs out, visitors see the out-of-minutes screen until the next day (UTC).
+        </p>
+      </div>
+
+      {isCapped && (
+        <div className="rounded-lg border border-red-800 bg-red-950/30 p-4 text-sm text-red-300">
+          Today's budget is used up — new visitors are being shown the out-of-minutes screen.
+        </div>
+      )}
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+        <div className="rounded-lg border border-zinc-800 bg-zinc-900 p-6">
+          <div className="flex items-center gap-4">
+            <div className="rounded-full bg-cyan-950/50 p-3 text-cyan-400">
+              <Clock className="h-6 w-6" />
+            </div>
+            <div>
+              <p className="text-sm font-medium text-zinc-400">Minutes Today</p>
+              <h3 className="text-2xl font-bold text-white">
+                {formatMinutes(todaySeconds)}
+                <span className="text-sm font-normal text-zinc-500"> / {formatMinutes(budget.global_daily_seconds)}</span>
+              </h3>
+            </div>
+          </div>
+        </div>
+
+        <div className="rounded-lg border border-zinc-800 bg-zinc-900 p-6">
+          <div className="flex items-center gap-4">
+            <div className="rounded-full bg-green-950/50 p-3 text-green-400">
+              <DollarSign className="h-6 w-6" />
+            </div>
+            <div>
+              <p className="text-sm font-medium text-zinc-400">Estimated Spend Today</p>
+              <h3 className="text-2xl font-bold text-white">
+                ${todaySpend.toFixed(2)}
+                <span className="text-sm font-normal text-zinc-500"> / ${Number(budget.daily_spend_cap_usd).toFixed(2)}</span>
+              </h3>
+            </div>
+          </div>
+        </div>
+
+        <div className="rounded-lg border border-zinc-800 bg-zinc-900 p-6">
+          <div className="flex items-center gap-4">
+            <div className="rounded-full bg-blue-950/50 p-3 text-blue-400">
+              <Users className="h-6 w-6" />
+            </div>
+            <div>
+              <p className="text-sm font-medium text-zinc-400">Visitors Today</p>
+              <h3 className="text-2xl font-bold text-white">{today?.visitors ?? 0}</h3>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-zinc-800 bg-zinc-900 p-6">
+        <h3 className="mb-4 text-lg font-medium text-white">Budgets</h3>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {fields.map(({ key, label, step }) => (
+            <div key={key}>
+              <label className="block text-sm font-medium text-zinc-400 mb-1">{label}</label>
+              <Input
+                type="number"
+                min="0"
+                step={step}
+                value={form[key]}
+                onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                className="bg-zinc-800 border-zinc-700"
+              />
+            </div>
+          ))}
+        </div>
+        <div className="mt-4 flex items-center justify-between">
+          <p className="text-xs text-zinc-500">Last changed {new Date(budget.updated_at).toLocaleString()}</p>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Budgets'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-hidden rounded-lg border border-zinc-800">
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse text-left">
+            <thead>
+              <tr className="border-b border-zinc-800 bg-zinc-900">
+                <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Day</th>
+                <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Calls</th>
+                <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Visitors</th>
+                <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Minutes</th>
+                <th className="whitespace-nowrap p-4 text-sm font-medium text-zinc-300">Estimated Spend</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="p-4 text-center text-sm text-zinc-500">No calls in the last 14 days</td>
+                </tr>
+              ) : (
+                usage.map((day) => (
+                  <tr key={day.day} className="border-b border-zinc-800 bg-zinc-900/30">
+                    <td className="whitespace-nowrap p-4 text-sm text-zinc-300">{day.day}</td>
+                    <td className="p-4 text-sm text-zinc-300">{day.conversations}</td>
+                    <td className="p-4 text-sm text-zinc-300">{day.visitors}</td>
+                    <td className="p-4 text-sm text-zinc-300">{formatMinutes(day.seconds)}</td>
+                    <td className="p-4 text-sm text-zinc-300">${Number(day.estimated_spend_usd).toFixed(2)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -3,8 +3,12 @@ export { Outage } from "./Outage";
 export { OutOfMinutes } from "./OutOfMinutes";
 export { Intro } from "./Intro";
 export { Instructions } from "./Instructions";
+export { DeviceCheck } from "./DeviceCheck";
 export { ConversationLoading } from "./ConversationLoading";
 export { Conversation } from "./Conversation";
+export { ChatIntake } from "./ChatIntake";
 export { FinalScreen } from "./FinalScreen";
+export { ClientPortal } from "./ClientPortal";
 export { ConversationError } from "./ConversationError";
+export { ResumeConversation } from "./ResumeConversation";
 export { Settings } from "./Settings";
@@ -0,0 +1,10 @@
+import { atom } from "jotai";
+
+// Devices the caller picked in the pre-call check, used when joining the call
+export type SelectedDevices = {
+  cameraId: string | null;
+  micId: string | null;
+  speakerId: string | null;
+};
+
+export const selectedDevicesAtom = atom<SelectedDevices | null>(null);
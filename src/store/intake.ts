@@ -0,0 +1,7 @@
+import { atom } from "jotai";
+import { IntakeFields } from "../types";
+import { EmergencyFlag } from "../utils/intakeTools";
+
+export const intakeAtom = atom<IntakeFields>({});
+export const emergencyFlagAtom = atom<EmergencyFlag | null>(null);
+export const callbackTimeAtom = atom<string | null>(null);
@@ -4,10 +4,13 @@ export type Screen =
   | "introLoading"
   | "outage"
   | "outOfMinutes"
+  | "resume"
   | "intro"
   | "instructions"
+  | "deviceCheck"
   | "settings"
   | "conversation"
+  | "chat"
   | "conversationError"
   | "positiveFeedback"
   | "negativeFeedback"
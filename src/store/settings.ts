@@ -1,4 +1,5 @@
 import { atom } from "jotai";
+import { detectLanguage } from "@/utils/language";
 
 interface Settings {
   name: string;
@@ -17,7 +18,7 @@ const getInitialSettings = (): Settings => {
   }
   return {
     name: "",
-    language: "en",
+    language: detectLanguage(navigator.languages ?? []),
     interruptSensitivity: "medium",
     greeting: "",
     context: "",
@@ -10,4 +10,25 @@ export type IConversation = {
   status: ConversationStatus;
   conversation_url: string;
   created_at: string;
+  // Seconds reserved for this call; Tavus ends the call when it runs out
+  max_call_duration: number;
+  // Sent with the call's tool calls so only this browser can record them
+  tool_call_token: string;
 };
+
+export type IntakeFieldKey =
+  | "name"
+  | "email"
+  | "phone"
+  | "case_category"
+  | "firm_location";
+
+export type IntakeField = {
+  value: string;
+  /** Who supplied the current value */
+  source: "avatar" | "caller";
+  /** Caller confirmed or corrected the value during the call */
+  verified: boolean;
+};
+
+export type IntakeFields = Partial<Record<IntakeFieldKey, IntakeField>>;
@@ -0,0 +1,45 @@
+import { IConversation } from "@/types";
+import { IntakeToolState } from "@/utils/intakeTools";
+
+// The call in progress, kept so a reload or dropped connection can rejoin or
+// continue it instead of starting the intake over
+type ActiveConversation = {
+  conversation: IConversation;
+  intake: IntakeToolState;
+  savedAt: number;
+};
+
+const STORAGE_KEY = "activeConversation";
+
+// Older than this, the intake is treated as abandoned
+const MAX_AGE_MS = 2 * 60 * 60 * 1000;
+
+export function saveActiveConversation(
+  conversation: IConversation,
+  intake: IntakeToolState,
+) {
+  const saved: ActiveConversation = { conversation, intake, savedAt: Date.now() };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+}
+
+export function loadActiveConversation(): ActiveConversation | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    const saved = JSON.parse(raw) as ActiveConversation;
+    if (!saved.conversation?.conversation_id || Date.now() - saved.savedAt > MAX_AGE_MS) {
+      clearActiveConversation();
+      return null;
+    }
+
+    return saved;
+  } catch {
+    clearActiveConversation();
+    return null;
+  }
+}
+
+export function clearActiveConversation() {
+  localStorage.removeItem(STORAGE_KEY);
+}
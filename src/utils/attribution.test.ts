@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { buildAttribution } from './attribution';
+
+const now = new Date('2025-07-07T12:00:00Z');
+
+describe('buildAttribution', () => {
+  it('captures UTM parameters, referrer and landing page', () => {
+    const url = new URL('https://app.example.com/?utm_source=google&utm_medium=cpc&utm_campaign=divorce-ads&utm_term=lawyer');
+
+    expect(buildAttribution(url, 'https://www.google.com/', now)).toEqual({
+      utm_source: 'google',
+      utm_medium: 'cpc',
+      utm_campaign: 'divorce-ads',
+      utm_term: 'lawyer',
+      utm_content: null,
+      referrer: 'https://www.google.com/',
+      landing_page: '/?utm_source=google&utm_medium=cpc&utm_campaign=divorce-ads&utm_term=lawyer',
+      first_visit_at: '2025-07-07T12:00:00.000Z',
+    });
+  });
+
+  it('ignores referrers from the app itself', () => {
+    const url = new URL('https://app.example.com/');
+
+    expect(buildAttribution(url, 'https://app.example.com/login', now).referrer).toBeNull();
+    expect(buildAttribution(url, '', now).referrer).toBeNull();
+  });
+});
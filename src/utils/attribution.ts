@@ -0,0 +1,61 @@
+// Where a caller came from, captured on their first visit and sent with each
+// intake so conversions can be reported by source and campaign
+export type Attribution = {
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  utm_term: string | null;
+  utm_content: string | null;
+  referrer: string | null;
+  landing_page: string;
+  first_visit_at: string;
+};
+
+const ATTRIBUTION_KEY = "attribution";
+
+export function buildAttribution(url: URL, referrer: string, now: Date): Attribution {
+  const param = (key: string) => url.searchParams.get(key)?.trim() || null;
+
+  // Navigation within the app isn't a source
+  let externalReferrer: string | null = null;
+  try {
+    externalReferrer = referrer && new URL(referrer).origin !== url.origin ? referrer : null;
+  } catch {
+    externalReferrer = null;
+  }
+
+  return {
+    utm_source: param("utm_source"),
+    utm_medium: param("utm_medium"),
+    utm_campaign: param("utm_campaign"),
+    utm_term: param("utm_term"),
+    utm_content: param("utm_content"),
+    referrer: externalReferrer,
+    landing_page: url.pathname + url.search,
+    first_visit_at: now.toISOString(),
+  };
+}
+
+/** Stores the first visit's attribution; later visits keep the original */
+export function captureAttribution() {
+  try {
+    // Portal links are emailed to existing callers and carry their access token
+    if (window.location.pathname === "/portal") return;
+
+    if (!localStorage.getItem(ATTRIBUTION_KEY)) {
+      const attribution = buildAttribution(new URL(window.location.href), document.referrer, new Date());
+      localStorage.setItem(ATTRIBUTION_KEY, JSON.stringify(attribution));
+    }
+  } catch (error) {
+    console.error("Error capturing attribution:", error);
+  }
+}
+
+export function getAttribution(): Attribution | null {
+  try {
+    const saved = localStorage.getItem(ATTRIBUTION_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+}
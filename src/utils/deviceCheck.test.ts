@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateDeviceCheck, toNetworkCheck } from './deviceCheck';
+
+const goodNetwork = { status: 'done', result: 'good', roundTripMs: 40, packetLossPercent: 0 } as const;
+
+describe('evaluateDeviceCheck', () => {
+  it('allows the call once devices work, the caller was heard and the network is usable', () => {
+    const results = evaluateDeviceCheck({
+      camState: 'granted',
+      micState: 'granted',
+      micHeard: true,
+      network: { ...goodNetwork, result: 'warning' },
+    });
+
+    expect(results.camera.status).toBe('ok');
+    expect(results.microphone.status).toBe('ok');
+    expect(results.network.status).toBe('warning');
+    expect(results.canStart).toBe(true);
+  });
+
+  it('waits until the caller has been heard on the mic', () => {
+    const results = evaluateDeviceCheck({ camState: 'granted', micState: 'granted', micHeard: false, network: goodNetwork });
+
+    expect(results.microphone.status).toBe('checking');
+    expect(results.canStart).toBe(false);
+  });
+
+  it('blocks with guidance for denied devices and a bad connection', () => {
+    const results = evaluateDeviceCheck({
+      camState: 'in-use',
+      micState: 'blocked',
+      micHeard: false,
+      network: { ...goodNetwork, result: 'bad' },
+    });
+
+    expect(results.camera).toMatchObject({ status: 'failed', message: expect.stringMatching(/Another app is using your camera/) });
+    expect(results.microphone).toMatchObject({ status: 'failed', message: expect.stringMatching(/blocking the microphone/) });
+    expect(results.network).toMatchObject({ status: 'failed', message: expect.stringMatching(/too slow/) });
+    expect(results.canStart).toBe(false);
+  });
+});
+
+describe('toNetworkCheck', () => {
+  it('converts round trip seconds and packet loss fractions', () => {
+    expect(toNetworkCheck({
+      result: 'good',
+      secondsElapsed: 10,
+      data: {
+        maxRoundTripTime: 0.2,
+        avgRoundTripTime: 0.0814,
+        avgSendPacketLoss: 0.0123,
+        avgAvailableOutgoingBitrate: 2_000_000,
+        avgSendBitsPerSecond: 1_200_000,
+      },
+    })).toEqual({ status: 'done', result: 'good', roundTripMs: 81, packetLossPercent: 1.2 });
+  });
+
+  it('keeps failures without stats', () => {
+    expect(toNetworkCheck({ result: 'failed', errorMsg: 'timeout', secondsElapsed: 30 }))
+      .toEqual({ status: 'done', result: 'failed', roundTripMs: null, packetLossPercent: null });
+  });
+});
@@ -0,0 +1,142 @@
+import type { DailyCallQualityTestResults } from "@daily-co/daily-js";
+
+// Daily's general camera/mic access state (useDevices camState / micState)
+export type DeviceState =
+  | "undefined-mediadevices"
+  | "not-found"
+  | "unknown"
+  | "idle"
+  | "pending"
+  | "not-supported"
+  | "granted"
+  | "blocked"
+  | "in-use"
+  | "constraints-invalid"
+  | "constraints-none-specified";
+
+export type NetworkCheck =
+  | { status: "pending" }
+  | {
+      status: "done";
+      result: "good" | "warning" | "bad" | "failed" | "aborted";
+      roundTripMs: number | null;
+      packetLossPercent: number | null;
+    };
+
+export type CheckStatus = "checking" | "ok" | "warning" | "failed";
+
+export type CheckResult = { status: CheckStatus; message: string };
+
+export type DeviceCheckResults = {
+  camera: CheckResult;
+  microphone: CheckResult;
+  network: CheckResult;
+  canStart: boolean;
+};
+
+// Mic level (0-1) that counts as hearing the caller rather than room noise
+export const MIC_HEARD_LEVEL = 0.05;
+
+function deviceStateCheck(device: "camera" | "microphone", state: DeviceState): CheckResult {
+  switch (state) {
+    case "granted":
+      return { status: "ok", message: `Your ${device} is working.` };
+    case "idle":
+    case "pending":
+      return { status: "checking", message: `Waiting for ${device} access — allow it when your browser asks.` };
+    case "blocked":
+      return {
+        status: "failed",
+        message: `Your browser is blocking the ${device}. Click the lock or ${device} icon in the address bar, allow access, then reload the page.`,
+      };
+    case "not-found":
+      return { status: "failed", message: `No ${device} was found. Plug one in, or pick another one below.` };
+    case "in-use":
+      return {
+        status: "failed",
+        message: `Another app is using your ${device}. Close apps like Zoom or Teams, then try again.`,
+      };
+    case "undefined-mediadevices":
+    case "not-supported":
+      return {
+        status: "failed",
+        message: `This browser can't share a ${device}. Try the latest Chrome, Edge, Safari or Firefox.`,
+      };
+    default:
+      return { status: "failed", message: `We couldn't start your ${device}. Pick another one below or reload the page.` };
+  }
+}
+
+function networkCheck(network: NetworkCheck): CheckResult {
+  if (network.status === "pending") {
+    return { status: "checking", message: "Testing your connection…" };
+  }
+
+  switch (network.result) {
+    case "good":
+      return { status: "ok", message: "Your connection is good for video." };
+    case "warning":
+      return {
+        status: "warning",
+        message: "Your connection is weak, so video may be choppy. Closing other apps or tabs using the internet can help.",
+      };
+    case "bad":
+      return {
+        status: "failed",
+        message: "Your connection is too slow for a video call. Move closer to your Wi-Fi router or close other apps using the internet, then test again — or chat by text instead.",
+      };
+    case "aborted":
+      return { status: "failed", message: "The connection test was interrupted. Test again to continue." };
+    default:
+      return {
+        status: "failed",
+        message: "We couldn't reach the video service. A firewall or VPN may be blocking it — try another network, or chat by text instead.",
+      };
+  }
+}
+
+/** Whether the caller's camera, mic and connection are good enough to start a call */
+export function evaluateDeviceCheck({
+  camState,
+  micState,
+  micHeard,
+  network,
+}: {
+  camState: DeviceState;
+  micState: DeviceState;
+  micHeard: boolean;
+  network: NetworkCheck;
+}): DeviceCheckResults {
+  const camera = deviceStateCheck("camera", camState);
+  let microphone = deviceStateCheck("microphone", micState);
+
+  // Access alone doesn't prove the mic picks anything up
+  if (microphone.status === "ok" && !micHeard) {
+    microphone = {
+      status: "checking",
+      message: "Say something — the meter should move. If it doesn't, pick another microphone below.",
+    };
+  }
+
+  const results = { camera, microphone, network: networkCheck(network) };
+
+  return {
+    ...results,
+    canStart: Object.values(results).every(({ status }) => status === "ok" || status === "warning"),
+  };
+}
+
+/** Summarizes the result of daily.testCallQuality() */
+export function toNetworkCheck(results: DailyCallQualityTestResults): NetworkCheck {
+  if (!("data" in results)) {
+    return { status: "done", result: results.result, roundTripMs: null, packetLossPercent: null };
+  }
+
+  const { avgRoundTripTime, avgSendPacketLoss } = results.data;
+  return {
+    status: "done",
+    result: results.result,
+    roundTripMs: avgRoundTripTime === null ? null : Math.round(avgRoundTripTime * 1000),
+    packetLossPercent: avgSendPacketLoss === null ? null : Math.round(avgSendPacketLoss * 1000) / 10,
+  };
+}
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { embedTokenFromHash } from './embed';
+
+describe('embedTokenFromHash', () => {
+  it('reads the token embed-widget/frame put in the fragment', () => {
+    expect(embedTokenFromHash('#embed_token=abc.def')).toBe('abc.def');
+    expect(embedTokenFromHash('embed_token=abc.def&x=1')).toBe('abc.def');
+  });
+
+  it('returns null when the page was opened directly', () => {
+    expect(embedTokenFromHash('')).toBeNull();
+    expect(embedTokenFromHash('#embed_token=')).toBeNull();
+    expect(embedTokenFromHash('#other=1')).toBeNull();
+  });
+});
@@ -0,0 +1,33 @@
+// The intake runs inside a firm's website when loaded from public/widget.js
+// at /embed?firm_id=..., framed through embed-widget/frame
+export const EMBED_PATH = "/embed";
+
+export type EmbedContext = {
+  firmId: string;
+  token: string | null;
+};
+
+// Issued by embed-widget/frame and checked by embed-widget/config; starting
+// an intake sends it instead of the firm id
+let embedToken: string | null = null;
+
+export function setEmbedToken(token: string | null) {
+  embedToken = token;
+}
+
+/** The token embed-widget/frame put in the URL fragment, if the page came through it */
+export function embedTokenFromHash(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, "")).get("embed_token")?.trim() || null;
+}
+
+export function getEmbedContext(): EmbedContext | null {
+  if (window.location.pathname !== EMBED_PATH) return null;
+
+  const firmId = new URLSearchParams(window.location.search).get("firm_id")?.trim();
+  if (!firmId) return null;
+
+  return {
+    firmId,
+    token: embedToken,
+  };
+}
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { getEntryPoint } from './entryPoint';
+
+describe('getEntryPoint', () => {
+  it('reads the campaign and practice area from the landing URL', () => {
+    expect(getEntryPoint('?utm_source=google&utm_campaign=divorce-ads&practice_area=Family%20Law')).toEqual({
+      campaign: 'divorce-ads',
+      practiceArea: 'Family Law',
+    });
+    expect(getEntryPoint('?campaign=spring')).toEqual({ campaign: 'spring', practiceArea: null });
+  });
+
+  it('treats blank parameters as missing', () => {
+    expect(getEntryPoint('?utm_campaign=%20&practice_area=')).toEqual({ campaign: null, practiceArea: null });
+  });
+});
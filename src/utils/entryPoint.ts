@@ -0,0 +1,16 @@
+// Landing-page parameters used to route the caller to a persona, e.g.
+// /?utm_campaign=divorce-ads&practice_area=Family%20Law
+export type EntryPoint = {
+  campaign: string | null;
+  practiceArea: string | null;
+};
+
+export function getEntryPoint(search: string = window.location.search): EntryPoint {
+  const params = new URLSearchParams(search);
+  const value = (key: string) => params.get(key)?.trim() || null;
+
+  return {
+    campaign: value("utm_campaign") ?? value("campaign"),
+    practiceArea: value("practice_area"),
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyIntakeEntity,
+  confirmIntakeField,
+  getMissingIntakeItems,
+  intakeFieldForEntity,
+  toIntakePayload,
+} from './intake';
+
+describe('intake fields', () => {
+  it('maps Tavus entity types onto intake fields', () => {
+    expect(intakeFieldForEntity('PERSON')).toBe('name');
+    expect(intakeFieldForEntity('phone_number')).toBe('phone');
+    expect(intakeFieldForEntity('custom', 'legal_issue')).toBe('case_category');
+    expect(intakeFieldForEntity('date')).toBeNull();
+  });
+
+  it('does not let the avatar overwrite a value the caller confirmed', () => {
+    let fields = applyIntakeEntity({}, 'name', 'Jon Smith');
+    fields = confirmIntakeField(fields, 'name', 'John Smith');
+    fields = applyIntakeEntity(fields, 'name', 'Jonathan');
+
+    expect(fields.name).toEqual({ value: 'John Smith', source: 'caller', verified: true });
+  });
+
+  it('keeps the avatar as the source when the caller confirms without changes', () => {
+    const fields = confirmIntakeField(applyIntakeEntity({}, 'email', 'a@b.co'), 'email', 'a@b.co');
+
+    expect(fields.email).toEqual({ value: 'a@b.co', source: 'avatar', verified: true });
+  });
+
+  it('lists missing items, accepting either phone or email as contact', () => {
+    expect(getMissingIntakeItems({})).toHaveLength(4);
+    expect(
+      getMissingIntakeItems({ phone: { value: '5125550143', source: 'avatar', verified: false } })
+    ).not.toContain('A phone number or email');
+  });
+
+  it('sends values with the list of verified fields', () => {
+    const fields = confirmIntakeField(applyIntakeEntity({}, 'phone', '512-555-0143'), 'phone', '512-555-0143');
+
+    expect(toIntakePayload(applyIntakeEntity(fields, 'name', 'Ana'))).toEqual({
+      name: 'Ana',
+      email: '',
+      phone: '512-555-0143',
+      case_category: '',
+      firm_location: '',
+      verified_fields: ['phone'],
+    });
+  });
+});
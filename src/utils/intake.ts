@@ -0,0 +1,93 @@
+import { IntakeFieldKey, IntakeFields } from "@/types";
+
+export const INTAKE_FIELDS: { key: IntakeFieldKey; label: string }[] = [
+  { key: "name", label: "Name" },
+  { key: "email", label: "Email" },
+  { key: "phone", label: "Phone" },
+  { key: "case_category", label: "Case type" },
+  { key: "firm_location", label: "Location" },
+];
+
+// Tavus NER entity types (lowercased) mapped to intake fields
+const ENTITY_FIELDS: Record<string, IntakeFieldKey> = {
+  person: "name",
+  name: "name",
+  full_name: "name",
+  email: "email",
+  email_address: "email",
+  phone: "phone",
+  phone_number: "phone",
+  case_category: "case_category",
+  case_type: "case_category",
+  legal_issue: "case_category",
+  practice_area: "case_category",
+  location: "firm_location",
+  city: "firm_location",
+  gpe: "firm_location",
+  address: "firm_location",
+};
+
+export function intakeFieldForEntity(
+  entityType: string,
+  entityName?: string,
+): IntakeFieldKey | null {
+  return (
+    ENTITY_FIELDS[entityType.toLowerCase()] ??
+    (entityName ? ENTITY_FIELDS[entityName.toLowerCase()] : undefined) ??
+    null
+  );
+}
+
+/** Applies a value heard by the avatar; never overwrites what the caller confirmed */
+export function applyIntakeEntity(
+  fields: IntakeFields,
+  key: IntakeFieldKey,
+  value: string,
+): IntakeFields {
+  const trimmed = value.trim();
+  if (!trimmed || fields[key]?.verified) return fields;
+
+  return { ...fields, [key]: { value: trimmed, source: "avatar", verified: false } };
+}
+
+/** Caller corrected or confirmed a field inline */
+export function confirmIntakeField(
+  fields: IntakeFields,
+  key: IntakeFieldKey,
+  value: string,
+): IntakeFields {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    const rest = { ...fields };
+    delete rest[key];
+    return rest;
+  }
+
+  const current = fields[key];
+  const source = current?.value === trimmed ? current.source : "caller";
+  return { ...fields, [key]: { value: trimmed, source, verified: true } };
+}
+
+/** Items the avatar still needs to ask about */
+export function getMissingIntakeItems(fields: IntakeFields): string[] {
+  const missing: string[] = [];
+
+  if (!fields.name) missing.push("Your name");
+  if (!fields.email && !fields.phone) missing.push("A phone number or email");
+  if (!fields.case_category) missing.push("What the case is about");
+  if (!fields.firm_location) missing.push("Where you are located");
+
+  return missing;
+}
+
+/** Body sent with endConversation */
+export function toIntakePayload(fields: IntakeFields) {
+  return {
+    ...Object.fromEntries(
+      INTAKE_FIELDS.map(({ key }) => [key, fields[key]?.value ?? ""]),
+    ),
+    verified_fields: INTAKE_FIELDS.filter(({ key }) => fields[key]?.verified).map(
+      ({ key }) => key,
+    ),
+  };
+}
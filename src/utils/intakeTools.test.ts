@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { dispatchIntakeTool, INTAKE_TOOL_DEFINITIONS, type IntakeToolState } from './intakeTools';
+import { confirmIntakeField } from './intake';
+
+const empty: IntakeToolState = { fields: {}, emergency: null, callbackTime: null };
+
+describe('dispatchIntakeTool', () => {
+  it('records contact details from JSON-string arguments', () => {
+    const { state, result } = dispatchIntakeTool(
+      empty,
+      'record_contact',
+      '{"name":"Ana Ruiz","email":"Ana@Example.com"}'
+    );
+
+    expect(result).toEqual({ ok: true, message: 'Recorded name, email' });
+    expect(state.fields.email).toEqual({ value: 'ana@example.com', source: 'avatar', verified: false });
+  });
+
+  it('rejects invalid values with a message for the persona and leaves state alone', () => {
+    const { state, result } = dispatchIntakeTool(empty, 'record_contact', { phone: '555-01' });
+
+    expect(result.ok).toBe(false);
+    expect(state).toBe(empty);
+  });
+
+  it('does not overwrite a category the caller confirmed', () => {
+    const confirmed = { ...empty, fields: confirmIntakeField({}, 'case_category', 'Family Law') };
+    const { state } = dispatchIntakeTool(confirmed, 'set_case_category', { category: 'Criminal Defense', location: 'Austin, TX' });
+
+    expect(state.fields.case_category?.value).toBe('Family Law');
+    expect(state.fields.firm_location?.value).toBe('Austin, TX');
+  });
+
+  it('flags emergencies and callback times', () => {
+    let { state } = dispatchIntakeTool(empty, 'flag_emergency', { kind: 'detention', reason: 'Son arrested last night' });
+    ({ state } = dispatchIntakeTool(state, 'request_callback_time', { preferred_time: 'tomorrow after 3pm CT' }));
+
+    expect(state.emergency).toEqual({ kind: 'detention', reason: 'Son arrested last night' });
+    expect(state.callbackTime).toBe('tomorrow after 3pm CT');
+  });
+
+  it('reports unknown tools and malformed arguments', () => {
+    expect(dispatchIntakeTool(empty, 'score_naughty', {}).result).toEqual({ ok: false, error: 'Unknown tool "score_naughty"' });
+    expect(dispatchIntakeTool(empty, 'record_contact', '{oops').result.ok).toBe(false);
+  });
+
+  it('exposes a function definition for every tool', () => {
+    expect(INTAKE_TOOL_DEFINITIONS.map((d) => d.function.name)).toEqual([
+      'record_contact',
+      'set_case_category',
+      'flag_emergency',
+      'request_callback_time',
+    ]);
+  });
+});
@@ -0,0 +1,222 @@
+import { IntakeFields } from "@/types";
+import { applyIntakeEntity } from "@/utils/intake";
+
+/**
+ * Tools the intake persona can call during a conversation.
+ *
+ * Each tool validates its arguments, applies them to the intake state and
+ * returns a result that is sent back to the persona, so it can correct itself
+ * when a value is rejected. INTAKE_TOOL_DEFINITIONS is the list to register
+ * on the persona's LLM layer in Tavus.
+ */
+
+export type EmergencyKind = "detention" | "violence" | "medical" | "deadline" | "other";
+
+export type EmergencyFlag = {
+  kind: EmergencyKind;
+  reason: string;
+};
+
+export type IntakeToolState = {
+  fields: IntakeFields;
+  emergency: EmergencyFlag | null;
+  callbackTime: string | null;
+};
+
+export type IntakeToolResult =
+  | { ok: true; message: string }
+  | { ok: false; error: string };
+
+type JsonSchema = {
+  type: "object";
+  properties: Record<string, { type: "string"; description: string; enum?: string[] }>;
+  required?: string[];
+};
+
+type IntakeTool<Args> = {
+  description: string;
+  parameters: JsonSchema;
+  /** Returns the typed arguments, or an error message for the persona */
+  parse: (raw: Record<string, unknown>) => Args | string;
+  run: (state: IntakeToolState, args: Args) => { state: IntakeToolState; message: string };
+};
+
+type RegisteredTool = Omit<IntakeTool<unknown>, "parse" | "run"> & {
+  handle: (state: IntakeToolState, raw: Record<string, unknown>) => {
+    state: IntakeToolState;
+    result: IntakeToolResult;
+  };
+};
+
+function defineTool<Args>(tool: IntakeTool<Args>): RegisteredTool {
+  return {
+    description: tool.description,
+    parameters: tool.parameters,
+    handle: (state, raw) => {
+      const args = tool.parse(raw);
+      if (typeof args === "string") {
+        return { state, result: { ok: false, error: args } };
+      }
+      const outcome = tool.run(state, args);
+      return { state: outcome.state, result: { ok: true, message: outcome.message } };
+    },
+  };
+}
+
+const optionalText = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const EMERGENCY_KINDS: EmergencyKind[] = ["detention", "violence", "medical", "deadline", "other"];
+
+export const INTAKE_TOOLS = {
+  record_contact: defineTool<{ name?: string; email?: string; phone?: string }>({
+    description: "Record the caller's name and contact details as soon as they share them.",
+    parameters: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Caller's full name" },
+        email: { type: "string", description: "Caller's email address" },
+        phone: { type: "string", description: "Caller's phone number, digits only if possible" },
+      },
+    },
+    parse: (raw) => {
+      const args = {
+        name: optionalText(raw.name),
+        email: optionalText(raw.email)?.toLowerCase(),
+        phone: optionalText(raw.phone),
+      };
+      if (!args.name && !args.email && !args.phone) {
+        return "Provide at least one of name, email or phone";
+      }
+      if (args.email && !EMAIL_PATTERN.test(args.email)) {
+        return `"${args.email}" is not a valid email address; ask the caller to spell it`;
+      }
+      const digits = args.phone?.replace(/\D/g, "") ?? "";
+      if (args.phone && (digits.length < 10 || digits.length > 15)) {
+        return `"${args.phone}" is not a complete phone number; ask for the full number`;
+      }
+      return args;
+    },
+    run: (state, args) => {
+      let fields = state.fields;
+      if (args.name) fields = applyIntakeEntity(fields, "name", args.name);
+      if (args.email) fields = applyIntakeEntity(fields, "email", args.email);
+      if (args.phone) fields = applyIntakeEntity(fields, "phone", args.phone);
+
+      const recorded = Object.keys(args).filter((key) => args[key as keyof typeof args]);
+      return { state: { ...state, fields }, message: `Recorded ${recorded.join(", ")}` };
+    },
+  }),
+
+  set_case_category: defineTool<{ category: string; location?: string }>({
+    description: "Set the type of legal matter once it is clear, and where the caller is located if known.",
+    parameters: {
+      type: "object",
+      properties: {
+        category: { type: "string", description: "Practice area, e.g. Personal Injury or Family Law" },
+        location: { type: "string", description: "City and state where the caller needs help" },
+      },
+      required: ["category"],
+    },
+    parse: (raw) => {
+      const category = optionalText(raw.category);
+      if (!category) return "category is required";
+      return { category, location: optionalText(raw.location) };
+    },
+    run: (state, args) => {
+      let fields = applyIntakeEntity(state.fields, "case_category", args.category);
+      if (args.location) fields = applyIntakeEntity(fields, "firm_location", args.location);
+
+      return { state: { ...state, fields }, message: `Case category set to ${args.category}` };
+    },
+  }),
+
+  flag_emergency: defineTool<EmergencyFlag>({
+    description:
+      "Flag the intake for immediate staff attention: someone detained, in danger, seriously hurt, or a deadline within days.",
+    parameters: {
+      type: "object",
+      properties: {
+        kind: { type: "string", description: "Kind of emergency", enum: EMERGENCY_KINDS },
+        reason: { type: "string", description: "One sentence describing the emergency" },
+      },
+      required: ["kind", "reason"],
+    },
+    parse: (raw) => {
+      const reason = optionalText(raw.reason);
+      if (!reason) return "reason is required";
+      const kind = EMERGENCY_KINDS.includes(raw.kind as EmergencyKind) ? (raw.kind as EmergencyKind) : "other";
+      return { kind, reason };
+    },
+    run: (state, args) => ({
+      state: { ...state, emergency: args },
+      message: "Emergency flagged for staff review. Tell the caller a team member will prioritize their case.",
+    }),
+  }),
+
+  request_callback_time: defineTool<{ preferred_time: string }>({
+    description: "Record when the caller prefers a lawyer to call them back.",
+    parameters: {
+      type: "object",
+      properties: {
+        preferred_time: {
+          type: "string",
+          description: "Preferred callback time in the caller's words, including time zone if given",
+        },
+      },
+      required: ["preferred_time"],
+    },
+    parse: (raw) => {
+      const preferredTime = optionalText(raw.preferred_time);
+      return preferredTime ? { preferred_time: preferredTime } : "preferred_time is required";
+    },
+    run: (state, args) => ({
+      state: { ...state, callbackTime: args.preferred_time },
+      message: `Callback requested for ${args.preferred_time}`,
+    }),
+  }),
+} satisfies Record<string, RegisteredTool>;
+
+export type IntakeToolName = keyof typeof INTAKE_TOOLS;
+
+export const isIntakeToolName = (name: string): name is IntakeToolName =>
+  Object.prototype.hasOwnProperty.call(INTAKE_TOOLS, name);
+
+/** Tool schemas in the OpenAI function-calling format Tavus personas use */
+export const INTAKE_TOOL_DEFINITIONS = Object.entries(INTAKE_TOOLS).map(
+  ([name, tool]) => ({
+    type: "function" as const,
+    function: { name, description: tool.description, parameters: tool.parameters },
+  }),
+);
+
+/** Tavus sends arguments as a JSON string; older events used an object */
+export function parseToolArguments(raw: unknown): Record<string, unknown> | null {
+  if (typeof raw === "string") {
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+  return raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : null;
+}
+
+export function dispatchIntakeTool(
+  state: IntakeToolState,
+  name: string,
+  rawArguments: unknown,
+): { state: IntakeToolState; result: IntakeToolResult } {
+  if (!isIntakeToolName(name)) {
+    return { state, result: { ok: false, error: `Unknown tool "${name}"` } };
+  }
+
+  const args = parseToolArguments(rawArguments);
+  if (!args) {
+    return { state, result: { ok: false, error: "Arguments must be a JSON object" } };
+  }
+
+  return INTAKE_TOOLS[name].handle(state, args);
+}
@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage } from './language';
+
+describe('detectLanguage', () => {
+  it('picks the first supported language from the browser preferences', () => {
+    expect(detectLanguage(['ja-JP', 'es-MX', 'en-US'])).toBe('es');
+    expect(detectLanguage(['FR'])).toBe('fr');
+  });
+
+  it('falls back to English', () => {
+    expect(detectLanguage(['ja-JP', 'zh'])).toBe('en');
+    expect(detectLanguage([])).toBe('en');
+  });
+});
@@ -0,0 +1,24 @@
+// Languages the intake persona can speak, by ISO 639-1 code. Matches the
+// languages edge functions accept (supabase/functions/_shared/personas.ts).
+export const SUPPORTED_LANGUAGES = [
+  { label: "English", value: "en" },
+  { label: "Spanish", value: "es" },
+  { label: "French", value: "fr" },
+  { label: "German", value: "de" },
+  { label: "Italian", value: "it" },
+  { label: "Portuguese", value: "pt" },
+];
+
+export const DEFAULT_LANGUAGE = "en";
+
+/** First supported language in the browser's preference list, e.g. "es-MX" → "es" */
+export function detectLanguage(preferred: readonly string[]): string {
+  for (const tag of preferred) {
+    const code = tag.toLowerCase().split("-")[0];
+    if (SUPPORTED_LANGUAGES.some(({ value }) => value === code)) {
+      return code;
+    }
+  }
+
+  return DEFAULT_LANGUAGE;
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeAttribution } from './attribution';
+
+describe('normalizeAttribution', () => {
+  it('keeps UTM parameters, referrer and landing page', () => {
+    expect(normalizeAttribution({
+      utm_source: ' Google ',
+      utm_medium: 'cpc',
+      utm_campaign: 'Divorce-Ads',
+      referrer: 'https://www.google.com/',
+      landing_page: '/?utm_source=Google',
+      first_visit_at: '2025-07-07T12:00:00.000Z',
+    })).toEqual({
+      utm_source: 'google',
+      utm_medium: 'cpc',
+      utm_campaign: 'divorce-ads',
+      utm_term: null,
+      utm_content: null,
+      referrer: 'https://www.google.com/',
+      landing_page: '/?utm_source=Google',
+      first_visit_at: '2025-07-07T12:00:00.000Z',
+    });
+  });
+
+  it('drops values that are missing, malformed or not strings', () => {
+    const columns = normalizeAttribution({
+      utm_source: 42,
+      utm_campaign: '   ',
+      referrer: 'javascript:alert(1)',
+      first_visit_at: 'yesterday',
+    });
+
+    expect(Object.values(columns).every((value) => value === null)).toBe(true);
+    expect(normalizeAttribution(undefined).utm_source).toBeNull();
+  });
+
+  it('caps long values', () => {
+    expect(normalizeAttribution({ utm_campaign: 'x'.repeat(500) }).utm_campaign).toHaveLength(200);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Campaign attribution sent by the intake page.
+ *
+ * The browser records UTM parameters, the referrer and the landing page on a
+ * caller's first visit. They come from the caller, so each value is trimmed,
+ * capped and dropped when it isn't a string before it's stored.
+ */
+
+export const UTM_FIELDS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+
+const MAX_UTM_CHARS = 200;
+const MAX_URL_CHARS = 2000;
+
+export type AttributionColumns = Record<(typeof UTM_FIELDS)[number], string | null> & {
+  referrer: string | null;
+  landing_page: string | null;
+  first_visit_at: string | null;
+};
+
+function text(value: unknown, maxChars: number): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  return value.trim().slice(0, maxChars);
+}
+
+/** Conversation columns for the attribution in a request body; all null when none was sent */
+export function normalizeAttribution(raw: unknown): AttributionColumns {
+  const input = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+
+  const utm = Object.fromEntries(
+    UTM_FIELDS.map((field) => [field, text(input[field], MAX_UTM_CHARS)?.toLowerCase() ?? null])
+  ) as Record<(typeof UTM_FIELDS)[number], string | null>;
+
+  const referrer = text(input.referrer, MAX_URL_CHARS);
+  const firstVisit = text(input.first_visit_at, 40);
+  const firstVisitAt = firstVisit && !Number.isNaN(Date.parse(firstVisit))
+    ? new Date(firstVisit).toISOString()
+    : null;
+
+  return {
+    ...utm,
+    referrer: referrer && /^https?:\/\//i.test(referrer) ? referrer : null,
+    landing_page: text(input.landing_page, MAX_URL_CHARS),
+    first_visit_at: firstVisitAt,
+  };
+}
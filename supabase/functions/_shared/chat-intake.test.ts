@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { buildChatMessages } from './chat-intake';
+
+describe('buildChatMessages', () => {
+  it('puts the persona context ahead of the chat instructions', () => {
+    const [system] = buildChatMessages('You are Lorra, a legal intake assistant.', []);
+
+    expect(system.role).toBe('system');
+    expect(system.content).toMatch(/^You are Lorra, a legal intake assistant\.\n\nYou are talking with the caller by text chat/);
+  });
+
+  it('maps turns to chat roles and skips tool turns and blank messages', () => {
+    const messages = buildChatMessages(null, [
+      { speaker: 'assistant', text: 'What is going on?' },
+      { speaker: 'tool', text: 'record_contact' },
+      { speaker: 'user', text: '  ' },
+      { speaker: 'user', text: 'My landlord kept my deposit.' },
+    ]);
+
+    expect(messages.slice(1)).toEqual([
+      { role: 'assistant', content: 'What is going on?' },
+      { role: 'user', content: 'My landlord kept my deposit.' },
+    ]);
+  });
+});
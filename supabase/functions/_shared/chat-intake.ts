@@ -0,0 +1,45 @@
+/**
+ * Text chat intake for callers who can't use camera and microphone.
+ *
+ * The chat runs the active Tavus persona's conversational context through
+ * the LLM provider, so the same intake questions are asked by text. Messages
+ * are stored as conversation_turns, which is all lead extraction needs.
+ */
+
+import type { LlmMessage } from './llm-provider.ts';
+import type { TranscriptTurn } from './transcript.ts';
+
+export const MAX_CHAT_MESSAGE_CHARS = 2_000;
+
+// Caller and assistant turns together; keeps an abandoned tab or a script
+// from running up the LLM bill
+export const MAX_CHAT_TURNS = 80;
+
+export const DEFAULT_CHAT_GREETING =
+  "Hi, I'm Lorra. I can help connect you with a lawyer. What's going on?";
+
+const CHAT_INSTRUCTIONS = [
+  'You are talking with the caller by text chat instead of video.',
+  'Keep each reply to two or three short sentences and ask one question at a time.',
+  'Reply in the language the caller writes in.',
+  'Collect their name, a phone number or email, what the case is about, and where they are located.',
+  'If anyone is in danger, tell them to call 911 right away.',
+  'Do not give legal advice. When you have what you need, tell them they can press "Finish" to send their details to a law firm.',
+].join('\n');
+
+export function buildChatMessages(
+  personaContext: string | null,
+  turns: Pick<TranscriptTurn, 'speaker' | 'text'>[]
+): LlmMessage[] {
+  const system = [personaContext?.trim(), CHAT_INSTRUCTIONS].filter(Boolean).join('\n\n');
+
+  return [
+    { role: 'system', content: system },
+    ...turns
+      .filter((turn) => turn.speaker !== 'tool' && turn.text.trim())
+      .map((turn): LlmMessage => ({
+        role: turn.speaker === 'user' ? 'user' : 'assistant',
+        content: turn.text,
+      })),
+  ];
+}
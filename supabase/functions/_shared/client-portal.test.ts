@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  caseFirmAssignment,
+  caseReference,
+  caseStatus,
+  generatePortalToken,
+  hashPortalToken,
+  parseCaseReference,
+  portalFirm,
+} from './client-portal';
+
+describe('case references', () => {
+  it('round-trips a conversation id prefix', () => {
+    const reference = caseReference('3f2a9c1b-0000-4000-8000-000000000000');
+
+    expect(reference).toBe('CASE-3F2A9C1B');
+    expect(parseCaseReference(reference)).toBe('3f2a9c1b');
+    expect(parseCaseReference(' case-3f2a9c1b ')).toBe('3f2a9c1b');
+  });
+
+  it('rejects anything else', () => {
+    expect(parseCaseReference('CASE-3F2A')).toBeNull();
+    expect(parseCaseReference('CASE-3F2A9C1B%')).toBeNull();
+    expect(parseCaseReference(42)).toBeNull();
+  });
+});
+
+describe('portal tokens', () => {
+  it('generates distinct url-safe tokens with stable hashes', async () => {
+    const token = generatePortalToken();
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(generatePortalToken()).not.toBe(token);
+    expect(await hashPortalToken(token)).toBe(await hashPortalToken(token));
+    expect(await hashPortalToken(token)).toHaveLength(64);
+  });
+});
+
+describe('caseStatus', () => {
+  it('reports the furthest step reached', () => {
+    expect(caseStatus([], [])).toBe('submitted');
+    expect(caseStatus([{ status: 'rejected' }, { status: 'pending' }], [])).toBe('matched');
+    expect(caseStatus([{ status: 'accepted' }], [])).toBe('accepted');
+    expect(caseStatus([{ status: 'accepted' }], [{ status: 'scheduled' }])).toBe('appointment_set');
+  });
+
+  it('ignores cancelled appointments and closed assignments', () => {
+    expect(caseStatus([{ status: 'accepted' }], [{ status: 'cancelled' }])).toBe('accepted');
+    expect(caseStatus([{ status: 'expired' }, { status: 'rejected' }], [])).toBe('submitted');
+  });
+});
+
+describe('caseFirmAssignment', () => {
+  it('prefers the accepting firm over newer pending ones', () => {
+    const assignments = [
+      { id: 'a', status: 'accepted', assigned_at: '2025-07-08T10:00:00Z' },
+      { id: 'b', status: 'pending', assigned_at: '2025-07-08T11:00:00Z' },
+    ];
+
+    expect(caseFirmAssignment(assignments)?.id).toBe('a');
+    expect(caseFirmAssignment(assignments.slice(1))?.id).toBe('b');
+    expect(caseFirmAssignment([{ id: 'c', status: 'rejected', assigned_at: '2025-07-08T12:00:00Z' }])).toBeNull();
+  });
+});
+
+describe('portalFirm', () => {
+  const lawFirm = {
+    name: 'Smith Law',
+    description: null,
+    location: 'Austin, TX',
+    website: 'https://smith-law.com',
+    contact_email: 'intake@smith-law.com',
+    contact_phone: '555-0100',
+    rating: 4.8,
+    avg_response_time_minutes: 90,
+  };
+
+  it('shows the contact details of a firm that accepted', () => {
+    expect(portalFirm({ status: 'accepted', law_firm: lawFirm })).toEqual({ ...lawFirm, accepted: true });
+  });
+
+  it('hides the contact details while the firm is still deciding', () => {
+    expect(portalFirm({ status: 'pending', law_firm: lawFirm })).toEqual({
+      ...lawFirm,
+      website: null,
+      contact_email: null,
+      contact_phone: null,
+      accepted: false,
+    });
+    expect(portalFirm(null)).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Client portal for callers following their case after intake.
+ *
+ * A caller asks for a link with the case reference from the thank-you screen
+ * and the email they gave during intake. The link carries a random token; only
+ * its hash is stored, and it works until it expires.
+ */
+
+export const PORTAL_TOKEN_DAYS = 7;
+export const MAX_CLIENT_MESSAGE_CHARS = 2000;
+
+export type CaseStatus = 'submitted' | 'matched' | 'accepted' | 'appointment_set';
+
+const encoder = new TextEncoder();
+
+/** "CASE-" and the first eight characters of the intake conversation's id */
+export function caseReference(conversationId: string): string {
+  return `CASE-${conversationId.slice(0, 8).toUpperCase()}`;
+}
+
+/** The conversation id prefix in a case reference; null when it isn't one */
+export function parseCaseReference(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+
+  const match = value.trim().match(/^(?:CASE-)?([0-9a-f]{8})$/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+export function generatePortalToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export async function hashPortalToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/** Furthest step the case has reached; cancelled appointments don't count */
+export function caseStatus(
+  assignments: { status: string }[],
+  appointments: { status: string }[]
+): CaseStatus {
+  if (appointments.some((appointment) => appointment.status !== 'cancelled' && appointment.status !== 'no_show')) {
+    return 'appointment_set';
+  }
+  if (assignments.some((assignment) => assignment.status === 'accepted')) return 'accepted';
+  if (assignments.some((assignment) => assignment.status === 'pending')) return 'matched';
+  return 'submitted';
+}
+
+/** The firm the caller deals with: the one that accepted, else the newest still deciding */
+export function caseFirmAssignment<T extends { status: string; assigned_at: string }>(assignments: T[]): T | null {
+  const newestFirst = [...assignments].sort((a, b) => b.assigned_at.localeCompare(a.assigned_at));
+  return (
+    newestFirst.find((assignment) => assignment.status === 'accepted') ??
+    newestFirst.find((assignment) => assignment.status === 'pending') ??
+    null
+  );
+}
+
+export interface PortalFirmProfile {
+  name: string;
+  description: string | null;
+  location: string;
+  website: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+  rating: number | null;
+  avg_response_time_minutes: number | null;
+}
+
+/** The firm as the caller sees it; how to reach the firm is only shown once it accepts */
+export function portalFirm(
+  assignment: { status: string; law_firm: PortalFirmProfile } | null
+): (PortalFirmProfile & { accepted: boolean }) | null {
+  if (!assignment) return null;
+
+  const accepted = assignment.status === 'accepted';
+  return accepted
+    ? { ...assignment.law_firm, accepted }
+    : { ...assignment.law_firm, website: null, contact_email: null, contact_phone: null, accepted };
+}
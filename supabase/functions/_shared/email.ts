@@ -0,0 +1,34 @@
+/**
+ * Plain-text email through Resend. Like the lead notification emails, it is
+ * logged instead of sent when RESEND_API_KEY isn't set (development).
+ */
+
+export async function sendEmail(to: string, subject: string, text: string): Promise<boolean> {
+  const apiKey = Deno.env.get('RESEND_API_KEY');
+
+  if (!apiKey) {
+    console.log('📧 Email would be sent to:', to);
+    console.log('📧 Subject:', subject);
+    return true;
+  }
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: 'Legal Leads Platform <noreply@yourdomain.com>',
+      to,
+      subject,
+      text,
+    }),
+  });
+
+  if (!response.ok) {
+    console.error('Resend API error:', await response.text());
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { EMBED_TOKEN_TTL_SECONDS, frameAncestorsPolicy, normalizeOrigin, signEmbedToken, verifyEmbedToken } from './embed';
+
+describe('normalizeOrigin', () => {
+  it('reduces URLs to their origin', () => {
+    expect(normalizeOrigin('https://Smith-Law.com/contact?x=1')).toBe('https://smith-law.com');
+    expect(normalizeOrigin(' http://localhost:8080/ ')).toBe('http://localhost:8080');
+  });
+
+  it('rejects non-web and malformed values', () => {
+    expect(normalizeOrigin('javascript:alert(1)')).toBeNull();
+    expect(normalizeOrigin('smith-law.com')).toBeNull();
+    expect(normalizeOrigin(undefined)).toBeNull();
+  });
+});
+
+describe('frameAncestorsPolicy', () => {
+  it('lists each allowed site once, as an origin', () => {
+    expect(frameAncestorsPolicy(['https://smith-law.com', 'https://www.smith-law.com/', 'https://Smith-Law.com/contact']))
+      .toBe('frame-ancestors https://smith-law.com https://www.smith-law.com');
+  });
+
+  it('lets nobody frame the widget when no site is valid', () => {
+    expect(frameAncestorsPolicy([])).toBe("frame-ancestors 'none'");
+    expect(frameAncestorsPolicy(['smith-law.com', 'javascript:alert(1)'])).toBe("frame-ancestors 'none'");
+  });
+});
+
+describe('embed tokens', () => {
+  const secret = 'embed-secret';
+  const now = 1_750_000_000_000;
+
+  it('round-trips the firm until the token expires', async () => {
+    const token = await signEmbedToken(secret, 'firm-1', now);
+
+    expect(await verifyEmbedToken(secret, token, now)).toEqual({
+      firmId: 'firm-1',
+      expiresAt: Math.floor(now / 1000) + EMBED_TOKEN_TTL_SECONDS,
+    });
+    expect(await verifyEmbedToken(secret, token, now + EMBED_TOKEN_TTL_SECONDS * 1000)).toBeNull();
+  });
+
+  it('refuses tokens signed with another secret or edited', async () => {
+    const token = await signEmbedToken(secret, 'firm-1', now);
+    const [, signature] = token.split('.');
+    const forged = btoa(JSON.stringify({ firm_id: 'firm-2', exp: 9_999_999_999 }));
+
+    expect(await verifyEmbedToken('other-secret', token, now)).toBeNull();
+    expect(await verifyEmbedToken(secret, `${forged}.${signature}`, now)).toBeNull();
+  });
+
+  it('refuses malformed tokens', async () => {
+    expect(await verifyEmbedToken(secret, 'not-a-token', now)).toBeNull();
+    expect(await verifyEmbedToken(secret, 'a.b.c', now)).toBeNull();
+    expect(await verifyEmbedToken(secret, undefined, now)).toBeNull();
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Website widget checks.
+ *
+ * A firm's widget only runs on the sites the firm allows, which the browser
+ * enforces: `/embed` is framed through `embed-widget/frame`, served with
+ * `frame-ancestors` set to the firm's list, and only that page hands the app a
+ * short-lived token for the firm. Starting an intake takes the firm from that
+ * token, never from the firm id or origin in the request.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.3';
+import { computeSignature, timingSafeEqual } from './webhook-signature.ts';
+
+/** How long a widget page may wait before the caller starts */
+export const EMBED_TOKEN_TTL_SECONDS = 30 * 60;
+
+export interface EmbedTokenClaims {
+  firmId: string;
+  expiresAt: number; // Unix seconds
+}
+
+export interface EmbedFirm {
+  id: string;
+  name: string;
+  allowedOrigins: string[];
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64Url(value: string): string {
+  return btoa(String.fromCharCode(...encoder.encode(value)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return decoder.decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+/** "https://Example.com/path" → "https://example.com"; null for anything but http(s) */
+export function normalizeOrigin(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/** A firm's allowed sites as distinct origins, without the entries that aren't web origins */
+export function normalizeOrigins(values: unknown[]): string[] {
+  return [...new Set(values.map(normalizeOrigin).filter((origin): origin is string => origin !== null))];
+}
+
+/** The `frame-ancestors` directive for a firm's allowed sites; nobody may frame it when none are valid */
+export function frameAncestorsPolicy(allowedOrigins: string[]): string {
+  const origins = normalizeOrigins(allowedOrigins);
+  return `frame-ancestors ${origins.length > 0 ? origins.join(' ') : "'none'"}`;
+}
+
+/**
+ * The firm whose widget a request came from, or null for the main site.
+ * Throws when the firm's widget is off or allows no sites.
+ */
+export async function resolveEmbedFirm(
+  supabase: SupabaseClient,
+  firmId: unknown
+): Promise<EmbedFirm | null> {
+  if (firmId === undefined || firmId === null || firmId === '') return null;
+
+  if (typeof firmId !== 'string') {
+    throw new Error('Invalid firm');
+  }
+
+  const { data: firm, error } = await supabase
+    .from('law_firms')
+    .select('id, name, embed_enabled, embed_allowed_origins')
+    .eq('id', firmId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading embed firm:', error);
+    throw new Error('Invalid firm');
+  }
+
+  const allowedOrigins = normalizeOrigins(firm?.embed_allowed_origins ?? []);
+
+  if (!firm || !firm.embed_enabled || allowedOrigins.length === 0) {
+    console.warn(`Widget for firm ${firmId} refused`);
+    throw new Error('This intake widget is not enabled for this website');
+  }
+
+  return { id: firm.id, name: firm.name, allowedOrigins };
+}
+
+/** `<payload>.<signature>`, signed the same way as our webhooks over the expiry and payload */
+export async function signEmbedToken(
+  secret: string,
+  firmId: string,
+  now = Date.now()
+): Promise<string> {
+  const expiresAt = Math.floor(now / 1000) + EMBED_TOKEN_TTL_SECONDS;
+  const payload = toBase64Url(JSON.stringify({ firm_id: firmId, exp: expiresAt }));
+  return `${payload}.${await computeSignature(secret, expiresAt, payload)}`;
+}
+
+/** The token's firm; null when it is malformed, forged or expired */
+export async function verifyEmbedToken(
+  secret: string,
+  token: unknown,
+  now = Date.now()
+): Promise<EmbedTokenClaims | null> {
+  if (typeof token !== 'string') return null;
+
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  let claims: { firm_id?: unknown; exp?: unknown };
+  try {
+    claims = JSON.parse(fromBase64Url(payload));
+  } catch {
+    return null;
+  }
+
+  if (typeof claims.firm_id !== 'string' || typeof claims.exp !== 'number') {
+    return null;
+  }
+
+  const expected = await computeSignature(secret, claims.exp, payload);
+  if (!timingSafeEqual(signature, expected) || claims.exp <= Math.floor(now / 1000)) {
+    return null;
+  }
+
+  return { firmId: claims.firm_id, expiresAt: claims.exp };
+}
+
+/**
+ * The firm whose widget started an intake, from the token `embed-widget/frame`
+ * issued, or null for the main site. The firm is checked again in case it
+ * turned its widget off since.
+ */
+export async function resolveEmbedToken(
+  supabase: SupabaseClient,
+  token: unknown
+): Promise<EmbedFirm | null> {
+  if (token === undefined || token === null || token === '') return null;
+
+  const secret = Deno.env.get('EMBED_TOKEN_SECRET');
+  if (!secret) {
+    console.error('EMBED_TOKEN_SECRET is not configured');
+    throw new Error('This intake widget is not available');
+  }
+
+  const claims = await verifyEmbedToken(secret, token);
+  if (!claims) {
+    throw new Error('This intake widget session has expired. Please reload the page.');
+  }
+
+  return resolveEmbedFirm(supabase, claims.firmId);
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { detectEscalationKeywords, escalationFromUrgency } from './escalation';
+import { scoreUrgency } from './urgency';
+
+describe('detectEscalationKeywords', () => {
+  it('flags crisis language from the caller with the turn as evidence', () => {
+    const signal = detectEscalationKeywords([
+      { speaker: 'assistant', text: 'How can I help you today?' },
+      { speaker: 'user', text: 'My husband said he is going to kill me if I leave.' },
+    ]);
+
+    expect(signal).toEqual({
+      trigger: 'keyword',
+      kind: 'violence',
+      reason: 'Caller is in danger from someone',
+      evidence: 'My husband said he is going to kill me if I leave.',
+    });
+  });
+
+  it('recognises arrests in progress and hearings within a day', () => {
+    expect(detectEscalationKeywords([{ speaker: 'user', text: 'The police are outside right now.' }])?.kind)
+      .toBe('detention');
+    expect(detectEscalationKeywords([{ speaker: 'user', text: 'My eviction hearing is tomorrow.' }])?.kind)
+      .toBe('deadline');
+  });
+
+  it('ignores what the avatar says and ordinary urgency', () => {
+    expect(detectEscalationKeywords([
+      { speaker: 'assistant', text: 'If you are thinking about suicide, call 988.' },
+      { speaker: 'user', text: 'I have a court date next month about my divorce.' },
+    ])).toBeNull();
+  });
+});
+
+describe('escalationFromUrgency', () => {
+  it('escalates at the threshold using the strongest rule', () => {
+    const signal = escalationFromUrgency(scoreUrgency({ text: 'My brother was arrested last night.' }));
+
+    expect(signal?.trigger).toBe('urgency_threshold');
+    expect(signal?.kind).toBe('detention');
+    expect(signal?.reason).toMatch(/^Urgency 10\/10:/);
+  });
+
+  it('does nothing below the threshold', () => {
+    expect(escalationFromUrgency(scoreUrgency({ text: 'I was injured at work.' }))).toBeNull();
+    expect(escalationFromUrgency(scoreUrgency({ text: 'I was injured at work.' }), 7)?.kind).toBe('medical');
+  });
+});
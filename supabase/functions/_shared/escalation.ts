@@ -0,0 +1,125 @@
+/**
+ * Emergency escalation: detection rules and the call that opens an escalation.
+ *
+ * Opening an escalation queues a page_escalation job, so on-call firms are
+ * paged by the job worker with retries rather than inline in whichever
+ * function noticed the emergency.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.3';
+import type { TranscriptTurn } from './transcript.ts';
+import type { UrgencyAssessment } from './urgency.ts';
+import { kickJobWorker } from './job-queue.ts';
+
+export type EscalationTrigger = 'tool_call' | 'keyword' | 'urgency_threshold';
+export type EscalationKind = 'detention' | 'violence' | 'medical' | 'deadline' | 'other';
+
+export interface EscalationSignal {
+  trigger: EscalationTrigger;
+  kind: EscalationKind;
+  reason: string;
+  evidence: string | null;
+}
+
+export const ESCALATION_KINDS: EscalationKind[] = ['detention', 'violence', 'medical', 'deadline', 'other'];
+
+/** Urgency scores at or above this open an escalation */
+export const DEFAULT_ESCALATION_URGENCY_THRESHOLD = 9;
+
+// Crisis language only; ordinary urgency is handled by the urgency rules
+const KEYWORD_RULES: { kind: EscalationKind; reason: string; pattern: RegExp }[] = [
+  {
+    kind: 'medical',
+    reason: 'Caller mentioned self-harm',
+    pattern: /\b(?:kill myself|suicid(?:e|al)|end my life|don't want to (?:live|be alive))\b/i,
+  },
+  {
+    kind: 'violence',
+    reason: 'Caller is in danger from someone',
+    pattern: /\b(?:(?:going to|gonna|threaten(?:ed|ing) to) (?:kill|hurt|beat) (?:me|us|my)|(?:has|had|pulled) a (?:gun|knife)|afraid for my life|(?:is|are|keeps) (?:hitting|beating|choking) (?:me|us|my))\b/i,
+  },
+  {
+    kind: 'detention',
+    reason: 'Arrest in progress',
+    pattern: /\b(?:(?:being|getting) arrested|police are (?:here|outside|at (?:my|the) door)|(?:they|police|cops|ice) (?:are|is) (?:taking|arresting|detaining))\b/i,
+  },
+  {
+    kind: 'deadline',
+    reason: 'Hearing or court date within a day',
+    pattern: /\b(?:(?:court|hearing|arraignment|trial|eviction)[^.?!]{0,40}\b(?:today|tonight|tomorrow)|(?:today|tonight|tomorrow)[^.?!]{0,40}\b(?:court|hearing|arraignment|trial|eviction))\b/i,
+  },
+];
+
+/** First crisis signal in what the client said, if any */
+export function detectEscalationKeywords(
+  turns: Pick<TranscriptTurn, 'speaker' | 'text'>[]
+): EscalationSignal | null {
+  for (const turn of turns) {
+    if (turn.speaker !== 'user') continue;
+
+    for (const rule of KEYWORD_RULES) {
+      if (rule.pattern.test(turn.text)) {
+        return { trigger: 'keyword', kind: rule.kind, reason: rule.reason, evidence: turn.text.slice(0, 500) };
+      }
+    }
+  }
+
+  return null;
+}
+
+// Urgency rules that map onto an escalation kind
+const URGENCY_RULE_KINDS: Record<string, EscalationKind> = {
+  detention: 'detention',
+  court_date_imminent: 'deadline',
+  statute_of_limitations: 'deadline',
+  serious_injury: 'medical',
+};
+
+export function escalationFromUrgency(
+  urgency: UrgencyAssessment,
+  threshold = DEFAULT_ESCALATION_URGENCY_THRESHOLD
+): EscalationSignal | null {
+  if (urgency.score < threshold) return null;
+
+  const applied = urgency.reasons
+    .filter((r) => r.applied && r.score >= threshold)
+    .sort((a, b) => b.score - a.score);
+  const top = applied[0];
+
+  return {
+    trigger: 'urgency_threshold',
+    kind: (top && URGENCY_RULE_KINDS[top.rule]) || 'other',
+    reason: `Urgency ${urgency.score}/10: ${applied.map((r) => r.label).join(', ') || 'model-assessed'}`,
+    evidence: top?.evidence ?? null,
+  };
+}
+
+export function escalationUrgencyThreshold(): number {
+  const configured = Number(Deno.env.get('ESCALATION_URGENCY_THRESHOLD'));
+  return Number.isFinite(configured) && configured >= 1 && configured <= 10
+    ? configured
+    : DEFAULT_ESCALATION_URGENCY_THRESHOLD;
+}
+
+/** Opens (or returns the already open) escalation and nudges the worker to page */
+export async function openEscalation(
+  supabase: SupabaseClient,
+  conversationId: string,
+  signal: EscalationSignal
+): Promise<string> {
+  const { data, error } = await supabase.rpc('open_escalation', {
+    p_conversation_id: conversationId,
+    p_trigger: signal.trigger,
+    p_kind: signal.kind,
+    p_reason: signal.reason,
+    p_evidence: signal.evidence,
+  });
+
+  if (error) {
+    throw new Error(`Failed to open escalation: ${error.message}`);
+  }
+
+  console.warn(`Escalation ${data} open for conversation ${conversationId} (${signal.trigger}: ${signal.reason})`);
+  kickJobWorker();
+  return data as string;
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateExtractor, formatReport, SCORED_FIELDS, urgencyBand, type GoldenFixture } from './extraction-eval';
+import { extractLeadData, type LeadExtraction, type PracticeAreaOption } from './lead-extraction';
+import { OpenAiProvider, StubLlmProvider, type LlmProvider } from './llm-provider';
+import practiceAreas from './fixtures/extraction/practice-areas.json';
+
+const fixtures = Object.values(
+  import.meta.glob<GoldenFixture>('./fixtures/extraction/transcripts/*.json', { eager: true, import: 'default' })
+);
+
+// Set EXTRACTION_EVAL_LIVE=1 with OPENAI_API_KEY to score the real model
+// instead of the recorded responses (e.g. after a prompt change)
+const live = process.env.EXTRACTION_EVAL_LIVE === '1' && !!process.env.OPENAI_API_KEY;
+
+const providerFor = (fixture: GoldenFixture): LlmProvider =>
+  live
+    ? new OpenAiProvider(process.env.OPENAI_API_KEY as string, process.env.OPENAI_MODEL ?? 'gpt-4')
+    : new StubLlmProvider([JSON.stringify(fixture.recorded_response)]);
+
+// Minimum scores a prompt or model change must keep
+const MIN_CATEGORY_ACCURACY = 0.85;
+const MIN_PRECISION = 0.85;
+const MIN_RECALL = 0.75;
+
+describe('golden transcript evaluation', () => {
+  it('meets the accuracy bar on every scored field', async () => {
+    const report = await evaluateExtractor(
+      async (transcript, fixture) =>
+        (await extractLeadData(providerFor(fixture), transcript, practiceAreas as PracticeAreaOption[])).extraction,
+      fixtures
+    );
+
+    console.log(formatReport(report));
+
+    expect(report.fixtures).toBe(fixtures.length);
+    expect(report.categoryAccuracy).toBeGreaterThanOrEqual(MIN_CATEGORY_ACCURACY);
+    for (const field of SCORED_FIELDS) {
+      expect(report.fields[field].precision, `${field} precision`).toBeGreaterThanOrEqual(MIN_PRECISION);
+      expect(report.fields[field].recall, `${field} recall`).toBeGreaterThanOrEqual(MIN_RECALL);
+    }
+  }, live ? 120_000 : 5_000);
+});
+
+describe('evaluateExtractor', () => {
+  const extraction = (overrides: Partial<LeadExtraction>): LeadExtraction => ({
+    caseCategory: 'Family Law',
+    practiceAreaId: 'pa-family',
+    firmLocation: 'Columbus, OH',
+    openaiUrgencyScore: 8,
+    extractedData: { name: 'Sam Patel', email: null, phone: '6145550100', case_description: null },
+    confidence: { caseCategory: 1, firmLocation: 1, openaiUrgencyScore: 1, name: 1, email: 0, phone: 1, case_description: 0 },
+    ...overrides,
+  });
+
+  const fixture = (id: string, expected: Partial<GoldenFixture['expected']>): GoldenFixture => ({
+    id,
+    transcript: id,
+    expected: {
+      caseCategory: 'Family Law',
+      firmLocation: 'Columbus, OH',
+      urgencyBand: 'high',
+      name: 'Sam Patel',
+      email: null,
+      phone: '6145550100',
+      ...expected,
+    },
+  });
+
+  it('counts true/false positives and negatives per field', async () => {
+    const outputs: Record<string, LeadExtraction> = {
+      exact: extraction({}),
+      wrong: extraction({ caseCategory: 'Criminal Defense', practiceAreaId: 'pa-criminal', firmLocation: null }),
+      extra: extraction({ extractedData: { name: 'Sam Patel', email: 'sam@example.com', phone: '+1 (614) 555-0100', case_description: null } }),
+    };
+
+    const report = await evaluateExtractor(
+      async (transcript) => outputs[transcript],
+      [fixture('exact', {}), fixture('wrong', {}), fixture('extra', {})]
+    );
+
+    expect(report.fields.caseCategory).toMatchObject({ truePositives: 2, falsePositives: 1, falseNegatives: 1 });
+    expect(report.fields.firmLocation).toMatchObject({ truePositives: 2, falsePositives: 0, falseNegatives: 1, precision: 1 });
+    expect(report.fields.email).toMatchObject({ truePositives: 0, falsePositives: 1, falseNegatives: 0, precision: 0, recall: 1 });
+    expect(report.fields.phone.truePositives).toBe(3);
+    expect(report.confusion).toEqual({ 'Family Law': { 'Family Law': 2, 'Criminal Defense': 1 } });
+  });
+
+  it('scores unclassified leads and failed extractions as misses', async () => {
+    const report = await evaluateExtractor(
+      async (transcript) => {
+        if (transcript === 'failed') throw new Error('invalid response');
+        return extraction({ caseCategory: 'Maritime Law', practiceAreaId: null });
+      },
+      [fixture('unclassified', {}), fixture('failed', {})]
+    );
+
+    expect(report.confusion['Family Law']).toEqual({ Unclassified: 2 });
+    expect(report.categoryAccuracy).toBe(0);
+    expect(report.misses.some((m) => m.fixtureId === 'failed' && m.field === 'extraction')).toBe(true);
+  });
+
+  it('bands urgency scores the same way as the prompt metrics', () => {
+    expect([1, 3, 4, 6, 7, 10].map(urgencyBand)).toEqual(['low', 'low', 'medium', 'medium', 'high', 'high']);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Scores a lead extractor against golden transcripts.
+ *
+ * Each fixture carries the fields a human reviewer expects. A field counts
+ * as a true positive when the extractor fills it with the expected value, a
+ * false positive when it fills it with anything else, and a false negative
+ * when an expected value is missing or wrong.
+ */
+
+import type { LeadExtraction } from './lead-extraction.ts';
+
+export type UrgencyBand = 'low' | 'medium' | 'high';
+
+export interface GoldenExpectation {
+  caseCategory: string | null;
+  firmLocation: string | null;
+  urgencyBand: UrgencyBand | null;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface GoldenFixture {
+  id: string;
+  transcript: string;
+  expected: GoldenExpectation;
+  /** Model output captured from a real run, replayed by the stub provider */
+  recorded_response?: unknown;
+}
+
+export type ScoredField = keyof GoldenExpectation;
+
+export const SCORED_FIELDS: ScoredField[] = ['caseCategory', 'firmLocation', 'urgencyBand', 'name', 'email', 'phone'];
+
+/** Label used in the confusion matrix when no practice area was assigned */
+export const UNCLASSIFIED = 'Unclassified';
+
+export interface FieldScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+}
+
+export interface FixtureMiss {
+  fixtureId: string;
+  field: ScoredField | 'extraction';
+  expected: string | null;
+  actual: string | null;
+}
+
+export interface EvaluationReport {
+  fixtures: number;
+  fields: Record<ScoredField, FieldScore>;
+  /** confusion[expected][predicted] = count */
+  confusion: Record<string, Record<string, number>>;
+  categoryAccuracy: number;
+  misses: FixtureMiss[];
+}
+
+export type Extractor = (transcript: string, fixture: GoldenFixture) => Promise<LeadExtraction>;
+
+/** Bands match the low/medium/high split in get_prompt_version_metrics() */
+export function urgencyBand(score: number | null | undefined): UrgencyBand | null {
+  if (score === null || score === undefined) return null;
+  if (score <= 3) return 'low';
+  if (score <= 6) return 'medium';
+  return 'high';
+}
+
+function normalize(field: ScoredField, value: string | null | undefined): string | null {
+  if (value === null || value === undefined || value.trim() === '') return null;
+  const lower = value.trim().toLowerCase();
+
+  switch (field) {
+    case 'phone':
+      return value.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+    case 'firmLocation':
+      return lower.replace(/\s*,\s*/g, ', ').replace(/\.$/, '');
+    case 'name':
+      return lower.replace(/\s+/g, ' ');
+    default:
+      return lower;
+  }
+}
+
+function predictedValues(extraction: LeadExtraction | null): GoldenExpectation {
+  return {
+    caseCategory: extraction?.practiceAreaId ? extraction.caseCategory : null,
+    firmLocation: extraction?.firmLocation ?? null,
+    urgencyBand: urgencyBand(extraction?.openaiUrgencyScore),
+    name: extraction?.extractedData.name ?? null,
+    email: extraction?.extractedData.email ?? null,
+    phone: extraction?.extractedData.phone ?? null,
+  };
+}
+
+const ratio = (numerator: number, denominator: number) => (denominator === 0 ? 1 : numerator / denominator);
+
+export async function evaluateExtractor(extract: Extractor, fixtures: GoldenFixture[]): Promise<EvaluationReport> {
+  const counts = Object.fromEntries(
+    SCORED_FIELDS.map((field) => [field, { truePositives: 0, falsePositives: 0, falseNegatives: 0 }])
+  ) as Record<ScoredField, Omit<FieldScore, 'precision' | 'recall'>>;
+  const confusion: Record<string, Record<string, number>> = {};
+  const misses: FixtureMiss[] = [];
+  let correctCategories = 0;
+
+  for (const fixture of fixtures) {
+    let extraction: LeadExtraction | null = null;
+    try {
+      extraction = await extract(fixture.transcript, fixture);
+    } catch (error) {
+      misses.push({
+        fixtureId: fixture.id,
+        field: 'extraction',
+        expected: null,
+        actual: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const predicted = predictedValues(extraction);
+
+    for (const field of SCORED_FIELDS) {
+      const expected = normalize(field, fixture.expected[field]);
+      const actual = normalize(field, predicted[field]);
+
+      if (actual !== null && actual === expected) {
+        counts[field].truePositives++;
+        continue;
+      }
+      if (actual !== null) counts[field].falsePositives++;
+      if (expected !== null) counts[field].falseNegatives++;
+      if (actual !== expected) {
+        misses.push({ fixtureId: fixture.id, field, expected: fixture.expected[field], actual: predicted[field] });
+      }
+    }
+
+    const expectedCategory = fixture.expected.caseCategory ?? UNCLASSIFIED;
+    const predictedCategory = predicted.caseCategory ?? UNCLASSIFIED;
+    confusion[expectedCategory] ??= {};
+    confusion[expectedCategory][predictedCategory] = (confusion[expectedCategory][predictedCategory] ?? 0) + 1;
+    if (normalize('caseCategory', expectedCategory) === normalize('caseCategory', predictedCategory)) {
+      correctCategories++;
+    }
+  }
+
+  const fields = Object.fromEntries(
+    SCORED_FIELDS.map((field) => {
+      const { truePositives, falsePositives, falseNegatives } = counts[field];
+      return [field, {
+        truePositives,
+        falsePositives,
+        falseNegatives,
+        precision: ratio(truePositives, truePositives + falsePositives),
+        recall: ratio(truePositives, truePositives + falseNegatives),
+      }];
+    })
+  ) as Record<ScoredField, FieldScore>;
+
+  return {
+    fixtures: fixtures.length,
+    fields,
+    confusion,
+    categoryAccuracy: ratio(correctCategories, fixtures.length),
+    misses,
+  };
+}
+
+/** Plain-text report for test output */
+export function formatReport(report: EvaluationReport): string {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+  const lines = [
+    `Golden transcripts: ${report.fixtures}, category accuracy ${pct(report.categoryAccuracy).trim()}`,
+    '',
+    'field           precision  recall',
+    ...SCORED_FIELDS.map((field) =>
+      `${field.padEnd(16)}${pct(report.fields[field].precision)}  ${pct(report.fields[field].recall)}`
+    ),
+    '',
+    'confusion (expected -> predicted)',
+  ];
+
+  for (const [expected, row] of Object.entries(report.confusion).sort()) {
+    const cells = Object.entries(row).map(([predicted, count]) => `${predicted}: ${count}`).join(', ');
+    lines.push(`  ${expected} -> ${cells}`);
+  }
+
+  if (report.misses.length > 0) {
+    lines.push('', 'misses');
+    for (const miss of report.misses) {
+      lines.push(`  ${miss.fixtureId} ${miss.field}: expected ${JSON.stringify(miss.expected)}, got ${JSON.stringify(miss.actual)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { intakeUpdateFromClient } from './intake-fields';
+
+describe('intakeUpdateFromClient', () => {
+  it('keeps contact fields and only caller-confirmed category and location', () => {
+    expect(intakeUpdateFromClient({
+      name: ' Dana Cruz ',
+      email: '',
+      phone: '555-0100',
+      case_category: 'Family Law',
+      firm_location: 'Austin, TX',
+      verified_fields: ['name', 'firm_location', 'email', 'urgency_score'],
+      urgency_score: 7,
+    })).toEqual({
+      name: 'Dana Cruz',
+      phone: '555-0100',
+      firm_location: 'Austin, TX',
+      user_verified_fields: ['name', 'firm_location'],
+      client_urgency_hint: 7,
+    });
+  });
+
+  it('ignores a missing payload and out-of-range urgency', () => {
+    expect(intakeUpdateFromClient(undefined)).toEqual({ user_verified_fields: [], client_urgency_hint: null });
+    expect(intakeUpdateFromClient({ urgency_score: 11 }).client_urgency_hint).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Intake fields the caller fills in or confirms in the browser, sent when a
+ * video call or text chat ends.
+ */
+
+// Intake panel fields the caller can confirm
+export const INTAKE_FIELDS = ['name', 'email', 'phone', 'case_category', 'firm_location'];
+
+const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+/**
+ * Conversation columns to update from the client's intake payload. Urgency
+ * and case description come from the transcript via lead extraction; a
+ * client-supplied urgency is stored as a hint only.
+ */
+export function intakeUpdateFromClient(conversationData: Record<string, unknown> | null | undefined) {
+  const clientUrgency = Number(conversationData?.urgency_score);
+
+  // Fields the caller confirmed in the intake panel are kept over extracted values
+  const verifiedFields = Array.isArray(conversationData?.verified_fields)
+    ? conversationData.verified_fields.filter(
+        (field: unknown): field is string =>
+          typeof field === 'string' && INTAKE_FIELDS.includes(field) && !!text(conversationData[field])
+      )
+    : [];
+
+  // Captured values only fill in fields; an empty panel must not blank out
+  // anything lead extraction already wrote
+  const intakeValues = Object.fromEntries(
+    INTAKE_FIELDS
+      .filter((field) => (field !== 'case_category' && field !== 'firm_location') || verifiedFields.includes(field))
+      .map((field) => [field, text(conversationData?.[field])])
+      .filter(([, value]) => value !== null)
+  );
+
+  return {
+    ...intakeValues,
+    user_verified_fields: verifiedFields,
+    client_urgency_hint: Number.isInteger(clientUrgency) && clientUrgency >= 1 && clientUrgency <= 10
+      ? clientUrgency
+      : null,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * An intake can span several Tavus sessions when the caller reconnects.
+ * The first conversation is the intake record; continued sessions point at
+ * it through conversations.intake_conversation_id.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.3';
+import type { TranscriptTurn } from './transcript.ts';
+
+export interface IntakeSession {
+  /** This session's conversations row */
+  id: string;
+  /** The conversations row holding the intake record */
+  intakeId: string;
+}
+
+export async function findIntakeSession(
+  supabase: SupabaseClient,
+  tavusConversationId: string
+): Promise<IntakeSession | null> {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('id, intake_conversation_id')
+    .eq('tavus_conversation_id', tavusConversationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load conversation: ${error.message}`);
+  }
+
+  return data ? { id: data.id, intakeId: data.intake_conversation_id ?? data.id } : null;
+}
+
+/** Turns from every session of the intake, in the order they were spoken */
+export async function loadIntakeTurns(
+  supabase: SupabaseClient,
+  intakeId: string
+): Promise<Pick<TranscriptTurn, 'speaker' | 'text' | 'tool_calls'>[]> {
+  const { data: sessionIds, error: sessionsError } = await supabase.rpc('intake_session_ids', {
+    p_intake_conversation_id: intakeId,
+  });
+
+  if (sessionsError) {
+    throw new Error(`Failed to load intake sessions: ${sessionsError.message}`);
+  }
+
+  const ids: string[] = sessionIds ?? [intakeId];
+  const { data: turns, error } = await supabase
+    .from('conversation_turns')
+    .select('conversation_id, speaker, text, tool_calls')
+    .in('conversation_id', ids)
+    .order('turn_index');
+
+  if (error) {
+    throw new Error(`Failed to load conversation turns: ${error.message}`);
+  }
+
+  return (turns ?? [])
+    .sort((a, b) => ids.indexOf(a.conversation_id) - ids.indexOf(b.conversation_id))
+    .map(({ speaker, text, tool_calls }) => ({ speaker, text, tool_calls }));
+}
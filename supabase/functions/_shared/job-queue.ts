@@ -0,0 +1,17 @@
+/**
+ * Helpers for functions that queue work for the job worker
+ */
+
+// Nudge the worker so the job usually runs within seconds. The job is already
+// durable, so a failed nudge only means waiting for the next scheduled run.
+export function kickJobWorker(): void {
+  fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/job-worker`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+    },
+  }).catch((error) => {
+    console.warn('Failed to kick job worker:', error);
+  });
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildExtractionMessages,
+  extractLeadData,
+  LeadExtractionError,
+  normalizePhone,
+  validateLeadExtraction,
+} from './lead-extraction';
+import { StubLlmProvider } from './llm-provider';
+
+const practiceAreas = [
+  { id: 'pa-family', name: 'Family Law', description: 'Divorce, custody', synonyms: ['Divorce', 'Child Custody'] },
+  { id: 'pa-injury', name: 'Personal Injury', description: 'Accidents', synonyms: ['Car Accident'] },
+  { id: 'pa-criminal', name: 'Criminal Defense', synonyms: ['DUI'] },
+];
+
+const validResponse = {
+  caseCategory: 'Personal Injury',
+  firmLocation: 'Austin, TX',
+  openaiUrgencyScore: 7,
+  extractedData: {
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    phone: '(512) 555-0100',
+    case_description: 'Rear-ended at a stop light',
+  },
+  confidence: { caseCategory: 0.9, firmLocation: 0.8, email: 1.4 },
+};
+
+describe('validateLeadExtraction', () => {
+  it('normalizes category casing, phone format and confidence', () => {
+    const result = validateLeadExtraction(
+      { ...validResponse, caseCategory: 'personal injury', openaiUrgencyScore: '7' },
+      practiceAreas
+    );
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.value.caseCategory).toBe('Personal Injury');
+    expect(result.value.practiceAreaId).toBe('pa-injury');
+    expect(result.value.openaiUrgencyScore).toBe(7);
+    expect(result.value.extractedData.phone).toBe('5125550100');
+    expect(result.value.confidence.email).toBe(1);
+    expect(result.value.confidence.phone).toBe(0);
+  });
+
+  it('reports unknown categories, out-of-range scores and bad contact fields', () => {
+    const result = validateLeadExtraction(
+      {
+        ...validResponse,
+        caseCategory: 'Maritime Law',
+        openaiUrgencyScore: 14,
+        extractedData: { ...validResponse.extractedData, email: 'jane.example.com', phone: '555' },
+      },
+      practiceAreas
+    );
+
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.issues.map((i) => i.field)).toEqual(['caseCategory', 'openaiUrgencyScore', 'email', 'phone']);
+  });
+
+  it('treats placeholder values as missing', () => {
+    const result = validateLeadExtraction(
+      { ...validResponse, extractedData: { ...validResponse.extractedData, email: 'N/A', phone: '' } },
+      practiceAreas
+    );
+
+    expect(result.valid && result.value.extractedData).toMatchObject({ email: null, phone: null });
+  });
+
+  it('resolves synonyms to their practice area', () => {
+    const result = validateLeadExtraction({ ...validResponse, caseCategory: 'child custody' }, practiceAreas);
+
+    expect(result.valid && result.value).toMatchObject({ caseCategory: 'Family Law', practiceAreaId: 'pa-family' });
+  });
+
+  it('keeps a leading plus on international numbers', () => {
+    expect(normalizePhone('+44 20 7946 0958')).toBe('+442079460958');
+  });
+});
+
+describe('buildExtractionMessages', () => {
+  it('lists every practice area with its description and synonyms', () => {
+    const [, user] = buildExtractionMessages('transcript', practiceAreas);
+
+    expect(user.content).toContain('- Family Law: Divorce, custody (also: Divorce, Child Custody)');
+    expect(user.content).toContain('- Criminal Defense (also: DUI)');
+  });
+
+  it('asks for an English summary of non-English conversations', () => {
+    const [english] = buildExtractionMessages('transcript', practiceAreas);
+    const [spanish] = buildExtractionMessages('transcript', practiceAreas, undefined, 'es');
+
+    expect(english.content).not.toContain('English summary');
+    expect(spanish.content).toContain('The conversation is in Spanish.');
+    expect(spanish.content).toContain('case_description as an English summary');
+  });
+});
+
+describe('extractLeadData', () => {
+  it('accepts fenced JSON on the first attempt', async () => {
+    const provider = new StubLlmProvider(['```json\n' + JSON.stringify(validResponse) + '\n```']);
+    const outcome = await extractLeadData(provider, 'transcript', practiceAreas);
+
+    expect(outcome.attempts).toBe(1);
+    expect(outcome.providerId).toBe('stub');
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it('re-asks once with the validation issues', async () => {
+    const provider = new StubLlmProvider([
+      JSON.stringify({ ...validResponse, caseCategory: 'Maritime Law' }),
+      JSON.stringify(validResponse),
+    ]);
+    const outcome = await extractLeadData(provider, 'transcript', practiceAreas);
+
+    expect(outcome.attempts).toBe(2);
+    expect(outcome.extraction.caseCategory).toBe('Personal Injury');
+    expect(provider.calls[1].at(-1)?.content).toContain('caseCategory "Maritime Law" must be one of');
+  });
+
+  it('leaves the lead unclassified when only the category is unrecognized twice', async () => {
+    const provider = new StubLlmProvider([JSON.stringify({ ...validResponse, caseCategory: 'Maritime Law' })]);
+    const outcome = await extractLeadData(provider, 'transcript', practiceAreas);
+
+    expect(outcome.attempts).toBe(2);
+    expect(outcome.extraction).toMatchObject({ caseCategory: 'Maritime Law', practiceAreaId: null });
+  });
+
+  it('clears contact fields the model still gets wrong and keeps the rest', async () => {
+    const provider = new StubLlmProvider([
+      JSON.stringify({
+        ...validResponse,
+        extractedData: { ...validResponse.extractedData, email: 'jane.example.com', phone: '555' },
+      }),
+    ]);
+    const outcome = await extractLeadData(provider, 'transcript', practiceAreas);
+
+    expect(outcome.attempts).toBe(2);
+    expect(outcome.extraction).toMatchObject({
+      caseCategory: 'Personal Injury',
+      extractedData: { name: 'Jane Doe', email: null, phone: null },
+    });
+    expect(outcome.issues.map((i) => i.field)).toEqual(['email', 'phone']);
+  });
+
+  it('gives up after the second invalid response', async () => {
+    const provider = new StubLlmProvider(['not json at all']);
+
+    await expect(extractLeadData(provider, 'transcript', practiceAreas)).rejects.toBeInstanceOf(LeadExtractionError);
+    expect(provider.calls).toHaveLength(2);
+  });
+
+  it('falls back to a keyword match without canned responses', async () => {
+    const provider = new StubLlmProvider();
+    const outcome = await extractLeadData(
+      provider,
+      'I was arrested for a DUI last night, reach me at sam@example.org',
+      practiceAreas
+    );
+
+    expect(outcome.extraction.caseCategory).toBe('Criminal Defense');
+    expect(outcome.extraction.extractedData.email).toBe('sam@example.org');
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Lead extraction from conversation transcripts.
+ *
+ * The LLM response is parsed, normalized and validated against a typed
+ * schema. If it fails validation the model is re-asked once with the list
+ * of problems; a second failure is reported as a LeadExtractionError, except
+ * when only the category or contact details are at fault — those leads are
+ * returned unclassified, or without the bad email or phone, so the rest of
+ * the extraction isn't lost.
+ */
+
+import type { LlmMessage, LlmProvider } from './llm-provider.ts';
+import { DEFAULT_LANGUAGE, LANGUAGE_NAMES } from './personas.ts';
+import { DEFAULT_EXTRACTION_TEMPLATE, renderPromptTemplate, type PromptTemplate } from './prompt-templates.ts';
+
+export const EXTRACTION_FIELDS = [
+  'caseCategory',
+  'firmLocation',
+  'openaiUrgencyScore',
+  'name',
+  'email',
+  'phone',
+  'case_description',
+] as const;
+
+export type ExtractionField = typeof EXTRACTION_FIELDS[number];
+
+/** Model-reported confidence (0-1) for each extracted field */
+export type FieldConfidence = Record<ExtractionField, number>;
+
+/** A row from practice_areas with its practice_area_synonyms */
+export interface PracticeAreaOption {
+  id: string;
+  name: string;
+  description?: string | null;
+  synonyms?: string[];
+}
+
+export interface LeadExtraction {
+  /** Canonical practice area name, or the model's free text when unclassified */
+  caseCategory: string;
+  /** NULL when the category could not be resolved to a practice area */
+  practiceAreaId: string | null;
+  firmLocation: string | null;
+  openaiUrgencyScore: number;
+  extractedData: {
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+    case_description: string | null;
+  };
+  confidence: FieldConfidence;
+}
+
+export interface ValidationIssue {
+  field: ExtractionField | 'response';
+  message: string;
+}
+
+export type ValidationResult =
+  | { valid: true; value: LeadExtraction; dropped: ValidationIssue[] }
+  | { valid: false; issues: ValidationIssue[] };
+
+interface ValidationOptions {
+  allowUnclassified?: boolean;
+  /** Clear an invalid email or phone and report it in `dropped` */
+  dropInvalidContact?: boolean;
+}
+
+export interface ExtractionOutcome {
+  extraction: LeadExtraction;
+  providerId: string;
+  /** prompt_templates row used, or null for the built-in default */
+  promptTemplateId: string | null;
+  promptVersion: number;
+  /** 1 if the first response was usable, 2 if the model had to be re-asked */
+  attempts: number;
+  /** Contact fields cleared because the retry still got them wrong */
+  issues: ValidationIssue[];
+}
+
+export class LeadExtractionError extends Error {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(`Lead extraction failed validation: ${issues.map((i) => i.message).join('; ')}`);
+    this.name = 'LeadExtractionError';
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+/**
+ * Resolves free text to a practice area by name, then synonym (case-insensitive).
+ * Mirrors resolve_practice_area() in the database.
+ */
+export function resolvePracticeArea(
+  category: string | null | undefined,
+  practiceAreas: PracticeAreaOption[]
+): PracticeAreaOption | null {
+  const needle = category?.trim().toLowerCase();
+  if (!needle) return null;
+
+  return practiceAreas.find((area) => area.name.toLowerCase() === needle)
+    ?? practiceAreas.find((area) => area.synonyms?.some((s) => s.trim().toLowerCase() === needle))
+    ?? null;
+}
+
+function describePracticeArea(area: PracticeAreaOption): string {
+  const description = area.description ? `: ${area.description}` : '';
+  const synonyms = area.synonyms && area.synonyms.length > 0 ? ` (also: ${area.synonyms.join(', ')})` : '';
+  return `- ${area.name}${description}${synonyms}`;
+}
+
+// Firms read the summary in English, but names and contact details must stay
+// exactly as the caller gave them
+function languageInstructions(language: string): string {
+  const name = LANGUAGE_NAMES[language] ?? language;
+  return `\n\nThe conversation is in ${name}. Copy names, phone numbers, emails and locations exactly as given in the original language. Write case_description as an English summary of the case.`;
+}
+
+export function buildExtractionMessages(
+  transcript: string,
+  practiceAreas: PracticeAreaOption[],
+  template: PromptTemplate = DEFAULT_EXTRACTION_TEMPLATE,
+  language: string = DEFAULT_LANGUAGE
+): LlmMessage[] {
+  const variables = {
+    practice_areas: practiceAreas.map(describePracticeArea).join('\n'),
+    transcript,
+  };
+  const system = renderPromptTemplate(template.system_prompt, variables);
+
+  return [
+    { role: 'system', content: language === DEFAULT_LANGUAGE ? system : system + languageInstructions(language) },
+    { role: 'user', content: renderPromptTemplate(template.user_prompt, variables) },
+  ];
+}
+
+// Models often wrap JSON in markdown fences or add a sentence around it
+function parseJsonResponse(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : content;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    throw new SyntaxError('No JSON object found');
+  }
+
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+function optionalString(value: unknown): string | null | undefined {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed === '' || /^(null|n\/a|unknown|none)$/i.test(trimmed) ? null : trimmed;
+}
+
+export function normalizePhone(value: string): string | null {
+  const hasPlus = value.trim().startsWith('+');
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 10 || digits.length > 15) return null;
+  return hasPlus ? `+${digits}` : digits;
+}
+
+function normalizeConfidence(raw: unknown): FieldConfidence {
+  const source = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  const confidence = {} as FieldConfidence;
+
+  for (const field of EXTRACTION_FIELDS) {
+    const value = Number(source[field]);
+    confidence[field] = Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+  }
+
+  return confidence;
+}
+
+/**
+ * Validates a parsed model response, normalizing what can be fixed locally:
+ * category casing, numeric strings, phone formatting and placeholder values.
+ */
+export function validateLeadExtraction(
+  raw: unknown,
+  practiceAreas: PracticeAreaOption[],
+  options: ValidationOptions = {}
+): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const dropped: ValidationIssue[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { valid: false, issues: [{ field: 'response', message: 'Response must be a JSON object' }] };
+  }
+
+  const data = raw as Record<string, unknown>;
+  const details = (data.extractedData && typeof data.extractedData === 'object'
+    ? data.extractedData
+    : {}) as Record<string, unknown>;
+
+  const rawCategory = optionalString(data.caseCategory);
+  const practiceArea = resolvePracticeArea(rawCategory, practiceAreas);
+  if (!rawCategory || (!practiceArea && !options.allowUnclassified)) {
+    issues.push({
+      field: 'caseCategory',
+      message: `caseCategory "${String(data.caseCategory)}" must be one of: ${practiceAreas.map((a) => a.name).join(', ')}`,
+    });
+  }
+
+  const score = typeof data.openaiUrgencyScore === 'string'
+    ? Number(data.openaiUrgencyScore)
+    : data.openaiUrgencyScore;
+  if (typeof score !== 'number' || !Number.isFinite(score) || score < 1 || score > 10) {
+    issues.push({
+      field: 'openaiUrgencyScore',
+      message: `openaiUrgencyScore must be a number from 1 to 10, got ${JSON.stringify(data.openaiUrgencyScore)}`,
+    });
+  }
+
+  const firmLocation = optionalString(data.firmLocation);
+  if (firmLocation === undefined) {
+    issues.push({ field: 'firmLocation', message: 'firmLocation must be a string or null' });
+  }
+
+  const name = optionalString(details.name);
+  if (name === undefined) {
+    issues.push({ field: 'name', message: 'name must be a string or null' });
+  }
+
+  const caseDescription = optionalString(details.case_description);
+  if (caseDescription === undefined) {
+    issues.push({ field: 'case_description', message: 'case_description must be a string or null' });
+  }
+
+  const contactIssues = options.dropInvalidContact ? dropped : issues;
+
+  const rawEmail = optionalString(details.email);
+  let email = rawEmail ? rawEmail.toLowerCase() : rawEmail;
+  if (email === undefined || (email !== null && !EMAIL_PATTERN.test(email))) {
+    contactIssues.push({ field: 'email', message: `email "${String(details.email)}" is not a valid email address` });
+    email = null;
+  }
+
+  const rawPhone = optionalString(details.phone);
+  const phone = rawPhone ? normalizePhone(rawPhone) : rawPhone;
+  if (phone === undefined || (rawPhone && !phone)) {
+    contactIssues.push({ field: 'phone', message: `phone "${String(details.phone)}" must contain 10-15 digits` });
+  }
+
+  if (issues.length > 0) {
+    return { valid: false, issues };
+  }
+
+  return {
+    valid: true,
+    value: {
+      caseCategory: practiceArea?.name ?? rawCategory as string,
+      practiceAreaId: practiceArea?.id ?? null,
+      firmLocation: firmLocation ?? null,
+      openaiUrgencyScore: Math.round(score as number),
+      extractedData: {
+        name: name ?? null,
+        email: email ?? null,
+        phone: phone ?? null,
+        case_description: caseDescription ?? null,
+      },
+      confidence: normalizeConfidence(data.confidence),
+    },
+    dropped,
+  };
+}
+
+function checkResponse(
+  content: string,
+  practiceAreas: PracticeAreaOption[],
+  options: ValidationOptions = {}
+): ValidationResult {
+  try {
+    return validateLeadExtraction(parseJsonResponse(content), practiceAreas, options);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { valid: false, issues: [{ field: 'response', message: `Response is not valid JSON: ${message}` }] };
+  }
+}
+
+/**
+ * Runs extraction with the given provider. The model gets one chance to fix
+ * an invalid response; the second failure throws LeadExtractionError unless
+ * only the category or contact details are wrong, in which case the lead is
+ * unclassified and the bad email or phone is cleared and reported.
+ */
+export async function extractLeadData(
+  provider: LlmProvider,
+  transcript: string,
+  practiceAreas: PracticeAreaOption[],
+  template: PromptTemplate = DEFAULT_EXTRACTION_TEMPLATE,
+  language: string = DEFAULT_LANGUAGE
+): Promise<ExtractionOutcome> {
+  const messages = buildExtractionMessages(transcript, practiceAreas, template, language);
+  const stamp = { providerId: provider.id, promptTemplateId: template.id, promptVersion: template.version };
+
+  const firstResponse = await provider.complete(messages);
+  const first = checkResponse(firstResponse, practiceAreas);
+  if (first.valid) {
+    return { extraction: first.value, ...stamp, attempts: 1, issues: [] };
+  }
+
+  console.warn('Extraction response failed validation, re-asking:', first.issues);
+
+  const retryResponse = await provider.complete([
+    ...messages,
+    { role: 'assistant', content: firstResponse },
+    {
+      role: 'user',
+      content: `Your response was invalid:\n${first.issues.map((i) => `- ${i.message}`).join('\n')}\n\nReturn the corrected JSON object only.`,
+    },
+  ]);
+
+  const retry = checkResponse(retryResponse, practiceAreas, { allowUnclassified: true, dropInvalidContact: true });
+  if (retry.valid) {
+    if (!retry.value.practiceAreaId) {
+      console.warn(`Category "${retry.value.caseCategory}" did not resolve to a practice area; leaving unclassified`);
+    }
+    if (retry.dropped.length > 0) {
+      console.warn('Cleared contact fields that were still invalid:', retry.dropped);
+    }
+    return { extraction: retry.value, ...stamp, attempts: 2, issues: retry.dropped };
+  }
+
+  throw new LeadExtractionError(retry.issues);
+}
@@ -0,0 +1,163 @@
+/**
+ * Pluggable LLM providers for edge functions.
+ *
+ * Functions depend on the LlmProvider interface rather than calling OpenAI
+ * directly, so extraction logic can run against the deterministic stub in
+ * tests and local development without network access.
+ */
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmCompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LlmProvider {
+  /** Identifier stored alongside results, e.g. "openai:gpt-4" */
+  readonly id: string;
+  complete(messages: LlmMessage[], options?: LlmCompletionOptions): Promise<string>;
+}
+
+export class LlmProviderError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+export class OpenAiProvider implements LlmProvider {
+  readonly id: string;
+
+  constructor(private apiKey: string, private model: string = 'gpt-4') {
+    this.id = `openai:${model}`;
+  }
+
+  async complete(messages: LlmMessage[], options: LlmCompletionOptions = {}): Promise<string> {
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        temperature: options.temperature ?? 0.1,
+        max_tokens: options.maxTokens ?? 1000,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new LlmProviderError(
+        `OpenAI API error: ${response.status} ${await response.text()}`,
+        response.status
+      );
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      throw new LlmProviderError('No content from OpenAI');
+    }
+
+    return content;
+  }
+}
+
+export type StubResponder = (messages: LlmMessage[], call: number) => string;
+
+/**
+ * Deterministic provider that never touches the network.
+ *
+ * Pass a list of canned responses (returned in order, the last one repeating)
+ * or a responder function. Without either it falls back to a keyword match
+ * of the listed categories against the transcript in the prompt.
+ */
+export class StubLlmProvider implements LlmProvider {
+  readonly id = 'stub';
+  readonly calls: LlmMessage[][] = [];
+  private responder: StubResponder;
+
+  constructor(responses?: string[] | StubResponder) {
+    if (typeof responses === 'function') {
+      this.responder = responses;
+    } else if (responses && responses.length > 0) {
+      this.responder = (_messages, call) => responses[Math.min(call, responses.length - 1)];
+    } else {
+      this.responder = keywordResponder;
+    }
+  }
+
+  complete(messages: LlmMessage[]): Promise<string> {
+    this.calls.push(messages);
+    return Promise.resolve(this.responder(messages, this.calls.length - 1));
+  }
+}
+
+// Reads the "- Name: description (also: synonyms)" category lines and the
+// "Transcript:" section written by buildExtractionMessages, and picks the
+// first category whose name or synonym appears in the transcript
+function keywordResponder(messages: LlmMessage[]): string {
+  const prompt = messages.filter((m) => m.role === 'user').map((m) => m.content).join('\n');
+  const [header, transcriptSection = ''] = prompt.split(/^Transcript:$/m);
+  const transcript = transcriptSection.toLowerCase();
+
+  const categories = [...header.matchAll(/^- ([^:(\n]+?)(?::[^(\n]*)?(?: \(also: ([^)\n]+)\))?$/gm)].map((match) => ({
+    name: match[1].trim(),
+    keywords: [match[1], ...(match[2]?.split(',') ?? [])].map((k) => k.trim().toLowerCase()),
+  }));
+
+  const category = categories.find((c) => c.keywords.some((k) => transcript.includes(k)))?.name
+    ?? categories[0]?.name
+    ?? 'Unknown';
+  const email = transcript.match(/[^\s@]+@[^\s@]+\.[a-z]{2,}/)?.[0] ?? null;
+
+  return JSON.stringify({
+    caseCategory: category,
+    firmLocation: null,
+    openaiUrgencyScore: 5,
+    extractedData: {
+      name: null,
+      email,
+      phone: null,
+      case_description: null,
+    },
+    confidence: {
+      caseCategory: 0.5,
+      firmLocation: 0,
+      openaiUrgencyScore: 0.5,
+      name: 0,
+      email: email ? 0.9 : 0,
+      phone: 0,
+      case_description: 0,
+    },
+  });
+}
+
+/**
+ * Picks the provider from LLM_PROVIDER ("openai" by default, or "stub").
+ * The OpenAI model can be overridden with OPENAI_MODEL.
+ */
+export function createLlmProvider(): LlmProvider {
+  const provider = Deno.env.get('LLM_PROVIDER') ?? 'openai';
+
+  if (provider === 'stub') {
+    return new StubLlmProvider();
+  }
+
+  if (provider !== 'openai') {
+    throw new LlmProviderError(`Unknown LLM_PROVIDER: ${provider}`);
+  }
+
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) {
+    throw new LlmProviderError('OPENAI_API_KEY not set');
+  }
+
+  return new OpenAiProvider(apiKey, Deno.env.get('OPENAI_MODEL') ?? 'gpt-4');
+}
@@ -0,0 +1,202 @@
+/**
+ * Pages on-call firms about an escalated conversation.
+ *
+ * Each firm gets a lead assignment (with no expiry), an in-app notification
+ * for its legal admins, an SMS to its emergency phone and an email. SMS goes
+ * through Twilio when configured; like the lead notification emails, it is
+ * logged instead of sent in development.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.3';
+import { sendEmail } from './email.ts';
+
+interface OnCallFirm {
+  id: string;
+  name: string;
+  contact_email: string | null;
+  emergency_phone: string | null;
+  law_firm_practice_areas: { practice_area_id: string }[] | null;
+}
+
+interface EscalationRecord {
+  id: string;
+  kind: string;
+  reason: string;
+  status: string;
+  paged_firm_ids: string[];
+  conversation: {
+    id: string;
+    name: string | null;
+    phone: string | null;
+    case_category: string | null;
+    practice_area_id: string | null;
+    firm_location: string | null;
+  };
+}
+
+async function sendSms(to: string, body: string): Promise<boolean> {
+  const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const from = Deno.env.get('TWILIO_FROM_NUMBER');
+
+  if (!accountSid || !authToken || !from) {
+    console.log('📟 SMS would be sent to:', to);
+    console.log('📟 Body:', body);
+    return true;
+  }
+
+  const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({ To: to, From: from, Body: body }),
+  });
+
+  if (!response.ok) {
+    console.error('Twilio API error:', await response.text());
+    return false;
+  }
+  return true;
+}
+
+// Firms on call for the practice area; any on-call firm if none covers it,
+// since an emergency should never go unanswered for lack of a perfect match
+async function findOnCallFirms(supabase: SupabaseClient, practiceAreaId: string | null): Promise<OnCallFirm[]> {
+  const { data, error } = await supabase
+    .from('law_firms')
+    .select('id, name, contact_email, emergency_phone, law_firm_practice_areas(practice_area_id)')
+    .eq('emergency_on_call', true)
+    .eq('subscription_status', 'active')
+    .is('deleted_at', null);
+
+  if (error) {
+    throw new Error(`Failed to load on-call firms: ${error.message}`);
+  }
+
+  const firms = (data || []) as OnCallFirm[];
+  const matching = practiceAreaId
+    ? firms.filter((firm) => firm.law_firm_practice_areas?.some((pa) => pa.practice_area_id === practiceAreaId))
+    : [];
+
+  return matching.length > 0 ? matching : firms;
+}
+
+async function pageFirm(supabase: SupabaseClient, escalation: EscalationRecord, firm: OnCallFirm): Promise<void> {
+  const { conversation } = escalation;
+  const appUrl = Deno.env.get('APP_URL') || 'http://localhost:5173';
+
+  const { data: existing } = await supabase
+    .from('lead_assignments')
+    .select('id')
+    .eq('conversation_id', conversation.id)
+    .eq('law_firm_id', firm.id)
+    .in('status', ['pending', 'accepted'])
+    .limit(1);
+
+  if (!existing || existing.length === 0) {
+    const { error: assignmentError } = await supabase
+      .from('lead_assignments')
+      .insert({
+        conversation_id: conversation.id,
+        law_firm_id: firm.id,
+        match_score: 1.0,
+        assignment_method: 'escalation',
+        status: 'pending',
+      });
+
+    if (assignmentError) {
+      throw new Error(`Failed to assign escalation to ${firm.name}: ${assignmentError.message}`);
+    }
+  }
+
+  const title = `🚨 Emergency ${conversation.case_category || 'intake'}`;
+  const message = `${escalation.reason}. Caller: ${conversation.name || 'Unknown'}${conversation.phone ? `, ${conversation.phone}` : ''}. Respond immediately.`;
+
+  const { data: admins } = await supabase
+    .from('profiles')
+    .select('id, email')
+    .eq('role', 'legal_admin')
+    .eq('law_firm_id', firm.id);
+
+  const recipients = admins && admins.length > 0 ? admins : [{ id: null, email: firm.contact_email }];
+
+  const { error: notificationError } = await supabase
+    .from('notifications')
+    .insert(recipients.map((admin) => ({
+      user_id: admin.id,
+      law_firm_id: firm.id,
+      type: 'emergency_escalation',
+      title,
+      message,
+      link: '/admin/firm-dashboard',
+      metadata: { escalationId: escalation.id, kind: escalation.kind },
+    })));
+
+  if (notificationError) {
+    console.error('Error creating emergency notification:', notificationError);
+  }
+
+  if (firm.emergency_phone) {
+    await sendSms(firm.emergency_phone, `${title}: ${message} ${appUrl}/admin/firm-dashboard`);
+  }
+
+  for (const email of new Set(recipients.map((r) => r.email).filter(Boolean) as string[])) {
+    await sendEmail(email, `${title} - respond now`, `${message}\n\nOpen the lead: ${appUrl}/admin/firm-dashboard`);
+  }
+}
+
+/** Returns the ids of firms paged by this call (firms paged earlier are skipped) */
+export async function pageEscalation(supabase: SupabaseClient, escalationId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('escalations')
+    .select(`
+      id, kind, reason, status, paged_firm_ids,
+      conversation:conversations!inner (id, name, phone, case_category, practice_area_id, firm_location)
+    `)
+    .eq('id', escalationId)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Escalation not found: ${escalationId}`);
+  }
+
+  const escalation = data as unknown as EscalationRecord;
+  if (escalation.status === 'resolved') {
+    console.log(`Escalation ${escalationId} already resolved, not paging`);
+    return [];
+  }
+
+  const firms = (await findOnCallFirms(supabase, escalation.conversation.practice_area_id))
+    .filter((firm) => !escalation.paged_firm_ids.includes(firm.id));
+
+  if (firms.length === 0 && escalation.paged_firm_ids.length === 0) {
+    console.warn(`No on-call firms to page for escalation ${escalationId}`);
+  }
+
+  const paged: string[] = [];
+  for (const firm of firms) {
+    await pageFirm(supabase, escalation, firm);
+    paged.push(firm.id);
+
+    // Record progress per firm so a retry doesn't page the same firm twice
+    const { error: updateError } = await supabase
+      .from('escalations')
+      .update({
+        paged_firm_ids: [...escalation.paged_firm_ids, ...paged],
+        paged_at: new Date().toISOString(),
+      })
+      .eq('id', escalationId);
+
+    if (updateError) {
+      throw new Error(`Failed to record page: ${updateError.message}`);
+    }
+  }
+
+  if (firms.length === 0) {
+    await supabase.from('escalations').update({ paged_at: new Date().toISOString() }).eq('id', escalationId);
+  }
+
+  return paged;
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { hourInTimezone, normalizeLanguage, pickPersona, routePersona, type PersonaRoutingRule } from './personas';
+
+describe('normalizeLanguage', () => {
+  it('reduces browser locales to supported codes', () => {
+    expect(normalizeLanguage('es-MX')).toBe('es');
+    expect(normalizeLanguage('PT_br')).toBe('pt');
+    expect(normalizeLanguage(' fr ')).toBe('fr');
+  });
+
+  it('falls back to English for unknown or missing languages', () => {
+    expect(normalizeLanguage('zh-CN')).toBe('en');
+    expect(normalizeLanguage(undefined)).toBe('en');
+    expect(normalizeLanguage(42)).toBe('en');
+  });
+});
+
+describe('pickPersona', () => {
+  const configs = [
+    { name: 'French intake', language: 'fr' },
+    { name: 'English intake', language: 'en' },
+    { name: 'Spanish intake', language: 'es' },
+  ];
+
+  it('picks the persona for the caller language', () => {
+    expect(pickPersona(configs, 'es')?.name).toBe('Spanish intake');
+  });
+
+  it('falls back to English, then to any active persona', () => {
+    expect(pickPersona(configs, 'de')?.name).toBe('English intake');
+    expect(pickPersona([configs[0]], 'de')?.name).toBe('French intake');
+    expect(pickPersona([], 'en')).toBeNull();
+  });
+});
+
+describe('routePersona', () => {
+  const configs = [
+    { id: 'cfg-en', language: 'en' },
+    { id: 'cfg-es', language: 'es' },
+    { id: 'cfg-night', language: 'en' },
+    { id: 'cfg-family', language: 'en' },
+  ];
+  const rule = (overrides: Partial<PersonaRoutingRule>): PersonaRoutingRule => ({
+    id: 'rule',
+    tavus_config_id: 'cfg-en',
+    priority: 100,
+    campaign: null,
+    language: null,
+    practice_area_id: null,
+    start_hour: null,
+    end_hour: null,
+    timezone: 'UTC',
+    traffic_weight: 1,
+    ...overrides,
+  });
+  const request = {
+    language: 'en',
+    campaign: null,
+    practiceAreaId: null,
+    now: new Date('2025-07-05T23:30:00Z'),
+  };
+
+  it('falls back to the language persona without a matching rule', () => {
+    const rules = [rule({ id: 'spring', tavus_config_id: 'cfg-family', campaign: 'spring-sale' })];
+
+    expect(routePersona(configs, rules, { ...request, language: 'es' })).toEqual({
+      config: configs[1],
+      ruleId: null,
+    });
+  });
+
+  it('matches campaign, practice area and overnight hours', () => {
+    const rules = [
+      rule({ id: 'family', tavus_config_id: 'cfg-family', campaign: 'Divorce-Ads', practice_area_id: 'pa-family' }),
+      rule({ id: 'night', tavus_config_id: 'cfg-night', start_hour: 22, end_hour: 6, priority: 200 }),
+    ];
+
+    expect(routePersona(configs, rules, { ...request, campaign: 'divorce-ads', practiceAreaId: 'pa-family' })?.ruleId)
+      .toBe('family');
+    expect(routePersona(configs, rules, { ...request, campaign: 'divorce-ads' })?.ruleId).toBe('night');
+    expect(routePersona(configs, rules, { ...request, now: new Date('2025-07-05T12:00:00Z') })?.ruleId).toBeNull();
+  });
+
+  it('splits traffic by weight within the first matching priority', () => {
+    const rules = [
+      rule({ id: 'a', tavus_config_id: 'cfg-en', traffic_weight: 3 }),
+      rule({ id: 'b', tavus_config_id: 'cfg-night', traffic_weight: 1 }),
+      rule({ id: 'later', tavus_config_id: 'cfg-family', priority: 200 }),
+    ];
+
+    expect(routePersona(configs, rules, request, () => 0.5)?.ruleId).toBe('a');
+    expect(routePersona(configs, rules, request, () => 0.8)?.ruleId).toBe('b');
+  });
+
+  it('ignores rules for inactive personas', () => {
+    const rules = [rule({ id: 'retired', tavus_config_id: 'cfg-retired', priority: 1 })];
+
+    expect(routePersona(configs, rules, request)?.ruleId).toBeNull();
+  });
+});
+
+describe('hourInTimezone', () => {
+  it('reads the hour in the rule time zone', () => {
+    const date = new Date('2025-07-05T23:30:00Z');
+
+    expect(hourInTimezone(date, 'UTC')).toBe(23);
+    expect(hourInTimezone(date, 'America/New_York')).toBe(19);
+    expect(hourInTimezone(date, 'Not/AZone')).toBe(23);
+  });
+});
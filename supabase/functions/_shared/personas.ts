@@ -0,0 +1,223 @@
+/**
+ * Persona selection.
+ *
+ * Several tavus_configs rows can be active at once. persona_routing_rules
+ * pick one per conversation by campaign, language, practice-area entry point
+ * and time of day, splitting traffic by weight between matching rules of the
+ * same priority. Without a matching rule callers get the persona for their
+ * language, falling back to English and then to any active persona so an
+ * intake can always start.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.3';
+import { resolvePracticeArea } from './lead-extraction.ts';
+
+export const DEFAULT_LANGUAGE = 'en';
+
+// Languages the public flow offers, by ISO 639-1 code
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+};
+
+export interface PersonaConfig {
+  id: string;
+  name: string;
+  persona_id: string;
+  custom_greeting: string | null;
+  conversational_context: string | null;
+  language: string;
+}
+
+/** Reduces "es-MX" or "ES" to a supported code, or English */
+export function normalizeLanguage(value: unknown): string {
+  const code = typeof value === 'string' ? value.trim().toLowerCase().split(/[-_]/)[0] : '';
+  return code in LANGUAGE_NAMES ? code : DEFAULT_LANGUAGE;
+}
+
+export function pickPersona<T extends { language: string }>(configs: T[], language: string): T | null {
+  return configs.find((config) => config.language === language)
+    ?? configs.find((config) => config.language === DEFAULT_LANGUAGE)
+    ?? configs[0]
+    ?? null;
+}
+
+export interface PersonaRoutingRule {
+  id: string;
+  tavus_config_id: string;
+  priority: number;
+  campaign: string | null;
+  language: string | null;
+  practice_area_id: string | null;
+  start_hour: number | null;
+  end_hour: number | null;
+  timezone: string;
+  traffic_weight: number;
+}
+
+export interface PersonaRequest {
+  language: string;
+  campaign: string | null;
+  practiceAreaId: string | null;
+  now: Date;
+}
+
+export interface PersonaChoice<T> {
+  config: T;
+  ruleId: string | null;
+}
+
+/** Hour of the day (0-23) at `date` in an IANA time zone; UTC if the zone is unknown */
+export function hourInTimezone(date: Date, timezone: string): number {
+  try {
+    const hour = new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', hourCycle: 'h23' })
+      .formatToParts(date)
+      .find((part) => part.type === 'hour');
+    return Number(hour?.value);
+  } catch {
+    return date.getUTCHours();
+  }
+}
+
+export function ruleMatches(rule: PersonaRoutingRule, request: PersonaRequest): boolean {
+  if (rule.campaign && rule.campaign.trim().toLowerCase() !== request.campaign?.trim().toLowerCase()) {
+    return false;
+  }
+  if (rule.language && rule.language !== request.language) {
+    return false;
+  }
+  if (rule.practice_area_id && rule.practice_area_id !== request.practiceAreaId) {
+    return false;
+  }
+  if (rule.start_hour !== null && rule.end_hour !== null) {
+    const hour = hourInTimezone(request.now, rule.timezone);
+    const inRange = rule.start_hour <= rule.end_hour
+      ? hour >= rule.start_hour && hour < rule.end_hour
+      : hour >= rule.start_hour || hour < rule.end_hour;
+    if (!inRange) return false;
+  }
+  return true;
+}
+
+/**
+ * Chooses the persona for one conversation. Rules pointing at inactive
+ * configs are ignored; the first priority with a matching rule wins and its
+ * matching rules split traffic by weight.
+ */
+export function routePersona<T extends { id: string; language: string }>(
+  configs: T[],
+  rules: PersonaRoutingRule[],
+  request: PersonaRequest,
+  random: () => number = Math.random
+): PersonaChoice<T> | null {
+  const usable = rules.filter((rule) =>
+    configs.some((config) => config.id === rule.tavus_config_id) && ruleMatches(rule, request)
+  );
+
+  if (usable.length > 0) {
+    const priority = Math.min(...usable.map((rule) => rule.priority));
+    const candidates = usable.filter((rule) => rule.priority === priority);
+    const totalWeight = candidates.reduce((sum, rule) => sum + rule.traffic_weight, 0);
+
+    let roll = random() * totalWeight;
+    let chosen = candidates[candidates.length - 1];
+    for (const rule of candidates) {
+      roll -= rule.traffic_weight;
+      if (roll < 0) {
+        chosen = rule;
+        break;
+      }
+    }
+
+    return { config: configs.find((config) => config.id === chosen.tavus_config_id)!, ruleId: chosen.id };
+  }
+
+  const config = pickPersona(configs, request.language);
+  return config ? { config, ruleId: null } : null;
+}
+
+// The landing page names its practice area by id, name or synonym
+async function resolveEntryPracticeArea(supabase: SupabaseClient, value: string | null): Promise<string | null> {
+  const needle = value?.trim();
+  if (!needle) return null;
+
+  const { data, error } = await supabase
+    .from('practice_areas')
+    .select('id, name, practice_area_synonyms(synonym)');
+
+  if (error) {
+    console.error('Error loading practice areas for persona routing:', error);
+    return null;
+  }
+
+  const areas = (data ?? []).map((area) => ({
+    id: area.id,
+    name: area.name,
+    synonyms: (area.practice_area_synonyms ?? []).map((s: { synonym: string }) => s.synonym),
+  }));
+
+  return areas.find((area) => area.id === needle)?.id ?? resolvePracticeArea(needle, areas)?.id ?? null;
+}
+
+/**
+ * Loads active personas and routing rules and chooses one. A resumed intake
+ * passes the persona it started with, which is kept while still active.
+ */
+export async function selectPersona(
+  supabase: SupabaseClient,
+  request: {
+    language: string;
+    campaign?: string | null;
+    practiceArea?: string | null;
+    preferredConfigId?: string | null;
+  }
+): Promise<PersonaChoice<PersonaConfig>> {
+  const { data: configs, error } = await supabase
+    .from('tavus_configs')
+    .select('id, name, persona_id, custom_greeting, conversational_context, language')
+    .eq('active', true)
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to load Tavus configuration: ${error.message}`);
+  }
+
+  const preferred = configs?.find((config) => config.id === request.preferredConfigId);
+  if (preferred) {
+    return { config: preferred, ruleId: null };
+  }
+
+  const { data: rules, error: rulesError } = await supabase
+    .from('persona_routing_rules')
+    .select('id, tavus_config_id, priority, campaign, language, practice_area_id, start_hour, end_hour, timezone, traffic_weight')
+    .eq('active', true);
+
+  // Routing is an optimization; a broken rules table shouldn't stop intakes
+  if (rulesError) {
+    console.error('Error loading persona routing rules, using language default:', rulesError);
+  }
+
+  const practiceAreaId = rules?.some((rule) => rule.practice_area_id)
+    ? await resolveEntryPracticeArea(supabase, request.practiceArea ?? null)
+    : null;
+
+  const choice = routePersona(configs ?? [], rules ?? [], {
+    language: request.language,
+    campaign: request.campaign ?? null,
+    practiceAreaId,
+    now: new Date(),
+  });
+  if (!choice) {
+    throw new Error('No active Tavus configuration found');
+  }
+
+  if (!choice.ruleId && choice.config.language !== request.language) {
+    console.warn(`No active persona for language "${request.language}", using ${choice.config.language} persona ${choice.config.name}`);
+  }
+
+  return choice;
+}
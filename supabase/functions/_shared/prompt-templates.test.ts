@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_EXTRACTION_TEMPLATE, renderPromptTemplate, selectPromptTemplate, type PromptTemplate } from './prompt-templates';
+
+const version = (overrides: Partial<PromptTemplate>): PromptTemplate => ({
+  ...DEFAULT_EXTRACTION_TEMPLATE,
+  id: `v${overrides.version}`,
+  is_active: false,
+  traffic_weight: 0,
+  ...overrides,
+});
+
+describe('selectPromptTemplate', () => {
+  const v1 = version({ version: 1, is_active: true });
+  const v2 = version({ version: 2, traffic_weight: 75 });
+  const v3 = version({ version: 3, traffic_weight: 25 });
+
+  it('uses the active version when no traffic weights are set', () => {
+    expect(selectPromptTemplate([v1, version({ version: 2 })])).toBe(v1);
+  });
+
+  it('splits traffic by weight', () => {
+    expect(selectPromptTemplate([v1, v2, v3], () => 0)).toBe(v2);
+    expect(selectPromptTemplate([v1, v2, v3], () => 0.74)).toBe(v2);
+    expect(selectPromptTemplate([v1, v2, v3], () => 0.75)).toBe(v3);
+    expect(selectPromptTemplate([v1, v2, v3], () => 0.999)).toBe(v3);
+  });
+
+  it('returns null when nothing is active or weighted', () => {
+    expect(selectPromptTemplate([version({ version: 4 })])).toBeNull();
+  });
+});
+
+describe('renderPromptTemplate', () => {
+  it('fills known placeholders without re-expanding substituted text', () => {
+    expect(renderPromptTemplate('A {{ transcript }} {{other}}', { transcript: '{{other}}' })).toBe('A {{other}} {{other}}');
+  });
+});
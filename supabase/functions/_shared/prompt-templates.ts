@@ -0,0 +1,101 @@
+/**
+ * Versioned prompt templates (prompt_templates table).
+ *
+ * Templates use {{placeholder}} variables. Several versions of the same
+ * template can receive traffic at once; each request picks one by weight
+ * so versions can be compared on the leads they produce.
+ */
+
+export interface PromptTemplate {
+  id: string | null;
+  name: string;
+  version: number;
+  system_prompt: string;
+  user_prompt: string;
+  is_active: boolean;
+  traffic_weight: number;
+}
+
+/**
+ * Built-in copy of version 1 of the lead_extraction template, used when the
+ * table has no usable rows. Keep in sync with the seed in
+ * 20250625000000_prompt_templates.sql.
+ */
+export const DEFAULT_EXTRACTION_TEMPLATE: PromptTemplate = {
+  id: null,
+  name: 'lead_extraction',
+  version: 1,
+  is_active: true,
+  traffic_weight: 0,
+  system_prompt:
+    'You are a legal data extraction expert. Extract information from conversation transcripts and return valid JSON only.',
+  user_prompt: `
+Analyze this legal conversation transcript and extract the following information:
+
+1. Case Category (exactly one of the category names listed below)
+2. Client Location (city, state format)
+3. Urgency Score (integer 1-10, where 10 is most urgent)
+4. Client Details (name, email, phone if mentioned)
+5. Case Description (summary of legal issue)
+6. Confidence (0-1) for each field; use 0 for fields not mentioned
+
+Categories:
+{{practice_areas}}
+
+Return a JSON object with this structure:
+{
+  "caseCategory": "string",
+  "firmLocation": "string or null",
+  "openaiUrgencyScore": number,
+  "extractedData": {
+    "name": "string or null",
+    "email": "string or null",
+    "phone": "string or null",
+    "case_description": "string or null"
+  },
+  "confidence": {
+    "caseCategory": number,
+    "firmLocation": number,
+    "openaiUrgencyScore": number,
+    "name": number,
+    "email": number,
+    "phone": number,
+    "case_description": number
+  }
+}
+
+Transcript:
+{{transcript}}
+`,
+};
+
+/** Replaces {{name}} placeholders; unknown placeholders are left as-is */
+export function renderPromptTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) =>
+    Object.prototype.hasOwnProperty.call(variables, key) ? variables[key] : placeholder
+  );
+}
+
+/**
+ * Picks a template version for one request. Versions with a positive
+ * traffic_weight split traffic proportionally; with no weights set the
+ * active version is used.
+ */
+export function selectPromptTemplate(
+  templates: PromptTemplate[],
+  random: () => number = Math.random
+): PromptTemplate | null {
+  const weighted = templates.filter((t) => t.traffic_weight > 0);
+  const totalWeight = weighted.reduce((sum, t) => sum + t.traffic_weight, 0);
+
+  if (totalWeight > 0) {
+    let roll = random() * totalWeight;
+    for (const template of weighted) {
+      roll -= template.traffic_weight;
+      if (roll < 0) return template;
+    }
+    return weighted[weighted.length - 1];
+  }
+
+  return templates.find((t) => t.is_active) ?? null;
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { buildResumeContext } from './resume';
+
+describe('buildResumeContext', () => {
+  it('lists collected details and the end of the earlier conversation', () => {
+    const context = buildResumeContext({
+      fields: { name: 'Maria Lopez', email: null, case_category: 'Family Law' },
+      turns: [
+        { speaker: 'assistant', text: 'Hi, how can I help?' },
+        { speaker: 'tool', text: '' },
+        { speaker: 'user', text: 'My ex stopped paying child support.' },
+      ],
+    });
+
+    expect(context).toContain('- Name: Maria Lopez\n- Case category: Family Law');
+    expect(context).not.toContain('Email');
+    expect(context).toContain('You: Hi, how can I help?\nCaller: My ex stopped paying child support.');
+  });
+
+  it('keeps only the most recent turns and truncates long ones', () => {
+    const turns = Array.from({ length: 5 }, (_, i) => ({ speaker: 'user' as const, text: `Turn ${i} ${'x'.repeat(400)}` }));
+    const context = buildResumeContext({ fields: {}, turns }, 2);
+
+    expect(context).toContain('(3 earlier turns omitted)');
+    expect(context).not.toContain('Turn 2');
+    expect(context.split('\n').at(-1)).toHaveLength('Caller: '.length + 300);
+  });
+
+  it('still tells the persona not to restart when nothing was captured', () => {
+    expect(buildResumeContext({ fields: {}, turns: [] })).toMatch(/do not start the intake over/);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Context for a conversation that continues an interrupted intake.
+ *
+ * When the original Tavus room is gone, the caller starts a new session
+ * linked to the same intake record. The persona is seeded with what was
+ * already collected and the tail of the earlier conversation so it picks up
+ * where it left off instead of starting the intake over.
+ */
+
+import type { TranscriptTurn } from './transcript.ts';
+
+export interface ResumeSeed {
+  fields: Partial<Record<'name' | 'email' | 'phone' | 'case_category' | 'firm_location', string | null>>;
+  turns: Pick<TranscriptTurn, 'speaker' | 'text'>[];
+}
+
+const FIELD_LABELS: [keyof ResumeSeed['fields'], string][] = [
+  ['name', 'Name'],
+  ['email', 'Email'],
+  ['phone', 'Phone'],
+  ['case_category', 'Case category'],
+  ['firm_location', 'Location'],
+];
+
+const MAX_TURN_CHARS = 300;
+
+function truncate(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > MAX_TURN_CHARS ? `${flat.slice(0, MAX_TURN_CHARS - 1)}…` : flat;
+}
+
+export function buildResumeContext(seed: ResumeSeed, maxTurns = 12): string {
+  const lines = [
+    'The caller was disconnected and is continuing an earlier intake conversation with you.',
+    'Welcome them back briefly, do not start the intake over, and do not ask again for details they already gave.',
+  ];
+
+  const collected = FIELD_LABELS.flatMap(([key, label]) => {
+    const value = seed.fields[key]?.trim();
+    return value ? [`- ${label}: ${value}`] : [];
+  });
+
+  if (collected.length > 0) {
+    lines.push('', 'Details already collected:', ...collected);
+  }
+
+  const spoken = seed.turns.filter((turn) => turn.speaker !== 'tool' && turn.text.trim());
+  if (spoken.length > 0) {
+    const recent = spoken.slice(-maxTurns);
+    lines.push('', 'End of the earlier conversation:');
+    if (recent.length < spoken.length) {
+      lines.push(`(${spoken.length - recent.length} earlier turns omitted)`);
+    }
+    lines.push(...recent.map((turn) => `${turn.speaker === 'user' ? 'Caller' : 'You'}: ${truncate(turn.text)}`));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { isServiceRoleRequest } from './service-auth';
+
+const serviceRoleKey = 'service-role-key';
+
+// process-lead-extraction pages on-call firms for urgent leads, so only the
+// job worker's service-role bearer may start an extraction
+describe('service role authorization', () => {
+  it('accepts the service role bearer', () => {
+    expect(isServiceRoleRequest(`Bearer ${serviceRoleKey}`, serviceRoleKey)).toBe(true);
+  });
+
+  it('rejects an unauthenticated extraction call so it cannot page', () => {
+    expect(isServiceRoleRequest(null, serviceRoleKey)).toBe(false);
+  });
+
+  it('rejects a forged or anon bearer so it cannot page', () => {
+    expect(isServiceRoleRequest('Bearer anon-key', serviceRoleKey)).toBe(false);
+    expect(isServiceRoleRequest(`Bearer ${serviceRoleKey}x`, serviceRoleKey)).toBe(false);
+    expect(isServiceRoleRequest(serviceRoleKey, serviceRoleKey)).toBe(false);
+  });
+
+  it('rejects every request when the key is not configured', () => {
+    expect(isServiceRoleRequest('Bearer ', undefined)).toBe(false);
+    expect(isServiceRoleRequest('Bearer undefined', undefined)).toBe(false);
+  });
+});
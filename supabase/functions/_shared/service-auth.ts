@@ -0,0 +1,12 @@
+/**
+ * Checks for functions that only the service role may call, such as the job
+ * worker and the steps it runs.
+ */
+
+import { timingSafeEqual } from './webhook-signature.ts';
+
+/** Whether an Authorization header carries the service role key as its bearer token */
+export function isServiceRoleRequest(authHeader: string | null, serviceRoleKey: string | undefined): boolean {
+  if (!serviceRoleKey || !authHeader) return false;
+  return timingSafeEqual(authHeader, `Bearer ${serviceRoleKey}`);
+}
@@ -0,0 +1,149 @@
+/**
+ * Tavus API helpers shared by edge functions
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.3';
+import { formatTurns, normalizeTranscript } from './transcript.ts';
+import { detectEscalationKeywords, openEscalation } from './escalation.ts';
+
+const TAVUS_API_BASE = 'https://tavusapi.com/v2';
+
+// Returns the transcript as Tavus sent it (usually an array of chat messages)
+export async function fetchTranscriptFromTavus(conversationId: string): Promise<unknown | null> {
+  try {
+    const tavusApiKey = Deno.env.get('TAVUS_API_KEY');
+    if (!tavusApiKey) {
+      console.error('TAVUS_API_KEY environment variable not set');
+      return null;
+    }
+
+    console.log(`Fetching transcript for conversation: ${conversationId}`);
+
+    const response = await fetch(
+      `${TAVUS_API_BASE}/conversations/${conversationId}?verbose=true`,
+      {
+        method: 'GET',
+        headers: {
+          'x-api-key': tavusApiKey,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    if (!response.ok) {
+      console.error(`Tavus API error: ${response.status} ${response.statusText}`);
+      const errorText = await response.text();
+      console.error('Error response:', errorText);
+      return null;
+    }
+
+    const data = await response.json();
+
+    // Extract transcript from the response - check multiple possible locations
+    let transcript = null;
+
+    if (data.transcript) {
+      transcript = data.transcript;
+    } else if (data.conversation && data.conversation.transcript) {
+      transcript = data.conversation.transcript;
+    } else if (data.data && data.data.transcript) {
+      transcript = data.data.transcript;
+    } else if (Array.isArray(data.events)) {
+      // Verbose responses carry the transcript on the transcription_ready event
+      const transcriptionEvent = data.events.find(
+        (event: { event_type?: string }) => event.event_type === 'application.transcription_ready'
+      );
+      transcript = transcriptionEvent?.properties?.transcript ?? null;
+    }
+
+    if (!transcript) {
+      console.warn('No transcript found in Tavus response');
+      console.log('Available fields:', Object.keys(data));
+      return null;
+    }
+
+    return transcript;
+  } catch (error) {
+    console.error('Error fetching transcript from Tavus:', error);
+    return null;
+  }
+}
+
+// Status and room URL of a conversation, or null if Tavus doesn't know it
+export async function fetchConversationStatus(
+  conversationId: string
+): Promise<{ status: string; conversation_url: string | null } | null> {
+  const tavusApiKey = Deno.env.get('TAVUS_API_KEY');
+  if (!tavusApiKey) {
+    throw new Error('Tavus API key not configured');
+  }
+
+  const response = await fetch(`${TAVUS_API_BASE}/conversations/${conversationId}`, {
+    method: 'GET',
+    headers: { 'x-api-key': tavusApiKey },
+  });
+
+  if (!response.ok) {
+    console.error(`Tavus API error: ${response.status} ${response.statusText}`);
+    return null;
+  }
+
+  const data = await response.json();
+  return { status: data.status, conversation_url: data.conversation_url ?? null };
+}
+
+/**
+ * Stores a Tavus transcript as conversation_turns plus a readable copy in
+ * conversations.transcript, escalating if the client used crisis language.
+ * Returns the id of the intake record, which differs from the session's own
+ * conversation when the caller continued an interrupted intake.
+ */
+export async function storeConversationTranscript(
+  supabase: SupabaseClient,
+  tavusConversationId: string,
+  rawTranscript: unknown
+): Promise<string> {
+  const turns = normalizeTranscript(rawTranscript);
+
+  if (turns.length === 0) {
+    throw new Error('Transcript contained no speaker turns');
+  }
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .update({
+      transcript: formatTurns(turns),
+      transcript_received_at: new Date().toISOString()
+    })
+    .eq('tavus_conversation_id', tavusConversationId)
+    .select('id, intake_conversation_id');
+
+  if (error) {
+    throw new Error(`Failed to store transcript: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error(`No conversation found with tavus_conversation_id: ${tavusConversationId}`);
+  }
+
+  const conversationId = data[0].id;
+  const intakeId = data[0].intake_conversation_id ?? conversationId;
+
+  const { error: turnsError } = await supabase.rpc('replace_conversation_turns', {
+    p_conversation_id: conversationId,
+    p_turns: turns,
+  });
+
+  if (turnsError) {
+    throw new Error(`Failed to store transcript turns: ${turnsError.message}`);
+  }
+
+  console.log(`Stored ${turns.length} transcript turns for conversation ${conversationId}`);
+
+  const signal = detectEscalationKeywords(turns);
+  if (signal) {
+    await openEscalation(supabase, intakeId, signal);
+  }
+
+  return intakeId;
+}
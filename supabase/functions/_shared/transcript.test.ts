@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { detectEntities, formatTurns, normalizeTranscript } from './transcript';
+
+describe('normalizeTranscript', () => {
+  it('converts Tavus chat messages into turns and drops the system prompt', () => {
+    const turns = normalizeTranscript([
+      { role: 'system', content: 'You are a legal intake assistant...' },
+      { role: 'assistant', content: 'Hi, how can I help?', start: 0.5, end: 2 },
+      { role: 'user', content: 'I was in a car accident on March 3rd. Call me at 512-555-0143.' },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ id: 'call_1', function: { name: 'record_contact', arguments: '{"phone":"5125550143"}' } }],
+      },
+    ]);
+
+    expect(turns).toHaveLength(3);
+    expect(turns[0]).toMatchObject({ turn_index: 0, speaker: 'assistant', start_offset_ms: 500, end_offset_ms: 2000 });
+    expect(turns[1].entities).toEqual([
+      { type: 'phone', value: '512-555-0143' },
+      { type: 'date', value: 'March 3rd' },
+    ]);
+    expect(turns[2].tool_calls).toEqual([{ id: 'call_1', name: 'record_contact', arguments: { phone: '5125550143' } }]);
+  });
+
+  it('splits a plain-text transcript on speaker labels', () => {
+    const turns = normalizeTranscript('AI: What happened?\nUser: My landlord\nchanged the locks.\nAssistant: I see.');
+
+    expect(turns.map((t) => [t.speaker, t.text])).toEqual([
+      ['assistant', 'What happened?'],
+      ['user', 'My landlord\nchanged the locks.'],
+      ['assistant', 'I see.'],
+    ]);
+  });
+
+  it('unwraps JSON strings and { transcript } objects', () => {
+    const messages = [{ role: 'user', content: 'Hello' }];
+
+    expect(normalizeTranscript(JSON.stringify(messages))).toHaveLength(1);
+    expect(normalizeTranscript({ transcript: messages })).toHaveLength(1);
+    expect(normalizeTranscript(null)).toEqual([]);
+  });
+});
+
+describe('detectEntities', () => {
+  it('finds emails and money amounts once each', () => {
+    expect(detectEntities('Email a@b.co or A@B.co, they owe me $40,000')).toEqual([
+      { type: 'email', value: 'a@b.co' },
+      { type: 'money', value: '$40,000' },
+    ]);
+  });
+});
+
+describe('formatTurns', () => {
+  it('labels speakers and inlines tool calls', () => {
+    const text = formatTurns([
+      { speaker: 'user', text: 'Hi', tool_calls: [] },
+      { speaker: 'assistant', text: 'Noted.', tool_calls: [{ name: 'save', arguments: { a: 1 } }] },
+    ]);
+
+    expect(text).toBe('User: Hi\nAI: Noted. [called save({"a":1})]');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Normalizes Tavus transcripts into speaker turns (conversation_turns rows).
+ *
+ * Tavus sends transcripts as an array of chat messages
+ * ({ role, content, tool_calls? }), but older conversations and the API
+ * fallback can return a plain "Speaker: text" blob, so both are accepted.
+ */
+
+export type Speaker = 'user' | 'assistant' | 'tool';
+
+export interface ToolCall {
+  id?: string;
+  name: string;
+  arguments: unknown;
+}
+
+export interface DetectedEntity {
+  type: 'email' | 'phone' | 'money' | 'date';
+  value: string;
+}
+
+export interface TranscriptTurn {
+  turn_index: number;
+  speaker: Speaker;
+  text: string;
+  start_offset_ms: number | null;
+  end_offset_ms: number | null;
+  tool_calls: ToolCall[];
+  entities: DetectedEntity[];
+}
+
+const SPEAKER_ALIASES: Record<string, Speaker> = {
+  user: 'user',
+  human: 'user',
+  client: 'user',
+  caller: 'user',
+  assistant: 'assistant',
+  ai: 'assistant',
+  replica: 'assistant',
+  agent: 'assistant',
+  tool: 'tool',
+  function: 'tool',
+};
+
+const ENTITY_PATTERNS: { type: DetectedEntity['type']; pattern: RegExp }[] = [
+  { type: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  { type: 'phone', pattern: /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g },
+  { type: 'money', pattern: /\$\s?\d[\d,]*(?:\.\d{2})?(?:\s?(?:k|thousand|million))?/gi },
+  {
+    type: 'date',
+    pattern: /\b(?:(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.? \d{1,2}(?:st|nd|rd|th)?(?:,? \d{4})?|\d{1,2}\/\d{1,2}\/\d{2,4}|(?:next|this|last) (?:monday|tuesday|wednesday|thursday|friday|saturday|sunday|week|month))\b/gi,
+  },
+];
+
+export function detectEntities(text: string): DetectedEntity[] {
+  const entities: DetectedEntity[] = [];
+  const seen = new Set<string>();
+
+  for (const { type, pattern } of ENTITY_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const value = match[0].trim();
+      const key = `${type}:${value.toLowerCase()}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        entities.push({ type, value });
+      }
+    }
+  }
+
+  return entities;
+}
+
+function toSeconds(value: unknown): number | null {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+}
+
+function toOffsetMs(message: Record<string, unknown>, keys: string[]): number | null {
+  for (const key of keys) {
+    const seconds = toSeconds(message[key]);
+    if (seconds !== null) return Math.round(seconds * 1000);
+  }
+  return null;
+}
+
+function parseToolCalls(raw: unknown): ToolCall[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((call) => {
+    if (!call || typeof call !== 'object') return [];
+    const record = call as Record<string, unknown>;
+    const fn = (record.function && typeof record.function === 'object' ? record.function : record) as Record<string, unknown>;
+    if (typeof fn.name !== 'string') return [];
+
+    let args = fn.arguments;
+    if (typeof args === 'string') {
+      try {
+        args = JSON.parse(args);
+      } catch {
+        // keep the raw string
+      }
+    }
+
+    return [{ id: typeof record.id === 'string' ? record.id : undefined, name: fn.name, arguments: args ?? null }];
+  });
+}
+
+function makeTurn(
+  index: number,
+  speaker: Speaker,
+  text: string,
+  extras: Partial<Pick<TranscriptTurn, 'start_offset_ms' | 'end_offset_ms' | 'tool_calls'>> = {}
+): TranscriptTurn {
+  return {
+    turn_index: index,
+    speaker,
+    text,
+    start_offset_ms: extras.start_offset_ms ?? null,
+    end_offset_ms: extras.end_offset_ms ?? null,
+    tool_calls: extras.tool_calls ?? [],
+    entities: speaker === 'user' ? detectEntities(text) : [],
+  };
+}
+
+function fromMessages(messages: unknown[]): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+
+  for (const item of messages) {
+    if (!item || typeof item !== 'object') continue;
+    const message = item as Record<string, unknown>;
+    const role = String(message.role ?? message.speaker ?? '').toLowerCase();
+    const speaker = SPEAKER_ALIASES[role];
+
+    // System messages are the persona prompt, not part of the conversation
+    if (!speaker) continue;
+
+    const text = typeof message.content === 'string'
+      ? message.content.trim()
+      : typeof message.text === 'string' ? message.text.trim() : '';
+    const toolCalls = parseToolCalls(message.tool_calls);
+
+    if (!text && toolCalls.length === 0) continue;
+
+    turns.push(makeTurn(turns.length, speaker, text, {
+      start_offset_ms: toOffsetMs(message, ['start', 'start_time', 'timestamp']),
+      end_offset_ms: toOffsetMs(message, ['end', 'end_time']),
+      tool_calls: toolCalls,
+    }));
+  }
+
+  return turns;
+}
+
+function fromText(blob: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  let current: { speaker: Speaker; lines: string[] } | null = null;
+
+  const flush = () => {
+    const text = current?.lines.join('\n').trim();
+    if (current && text) turns.push(makeTurn(turns.length, current.speaker, text));
+  };
+
+  for (const line of blob.split(/\r?\n/)) {
+    const match = line.match(/^\s*([A-Za-z]+)\s*:\s*(.*)$/);
+    const speaker = match ? SPEAKER_ALIASES[match[1].toLowerCase()] : undefined;
+
+    if (match && speaker) {
+      flush();
+      current = { speaker, lines: [match[2]] };
+    } else if (current) {
+      current.lines.push(line);
+    } else if (line.trim()) {
+      current = { speaker: 'user', lines: [line] };
+    }
+  }
+  flush();
+
+  return turns;
+}
+
+/** Accepts a message array, a JSON string of one, or a "Speaker: text" blob */
+export function normalizeTranscript(raw: unknown): TranscriptTurn[] {
+  if (Array.isArray(raw)) return fromMessages(raw);
+
+  if (typeof raw === 'string') {
+    const trimmed = raw.trim();
+    if (trimmed.startsWith('[')) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        if (Array.isArray(parsed)) return fromMessages(parsed);
+      } catch {
+        // fall through to the text parser
+      }
+    }
+    return fromText(trimmed);
+  }
+
+  if (raw && typeof raw === 'object') {
+    const record = raw as Record<string, unknown>;
+    if ('transcript' in record) return normalizeTranscript(record.transcript);
+    if ('messages' in record) return normalizeTranscript(record.messages);
+  }
+
+  return [];
+}
+
+const SPEAKER_LABELS: Record<Speaker, string> = {
+  user: 'User',
+  assistant: 'AI',
+  tool: 'Tool',
+};
+
+/** Renders turns as "User: ..." / "AI: ..." lines for prompts and the transcript column */
+export function formatTurns(turns: Pick<TranscriptTurn, 'speaker' | 'text' | 'tool_calls'>[]): string {
+  return turns
+    .map((turn) => {
+      const calls = turn.tool_calls.map((call) => `[called ${call.name}(${JSON.stringify(call.arguments)})]`);
+      return `${SPEAKER_LABELS[turn.speaker]}: ${[turn.text, ...calls].filter(Boolean).join(' ')}`;
+    })
+    .join('\n');
+}
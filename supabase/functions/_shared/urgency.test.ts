@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { scoreUrgency } from './urgency';
+
+describe('scoreUrgency', () => {
+  it('raises the score to the strongest rule and explains each one', () => {
+    const { score, reasons } = scoreUrgency({
+      text: 'My son was arrested last night. His arraignment is tomorrow morning.',
+      llmScore: 6,
+    });
+
+    expect(score).toBe(10);
+    expect(reasons.map((r) => r.rule)).toEqual(['detention', 'court_date_imminent', 'llm_score']);
+    expect(reasons[1].evidence).toBe('His arraignment is tomorrow morning.');
+  });
+
+  it('keeps the LLM score when it is higher than every rule', () => {
+    const { score, reasons } = scoreUrgency({ text: 'I was injured at work.', llmScore: 9 });
+
+    expect(score).toBe(9);
+    expect(reasons.find((r) => r.rule === 'serious_injury')?.score).toBe(7);
+  });
+
+  it('only counts a generic court mention when no date is close', () => {
+    expect(scoreUrgency({ text: 'There is a custody hearing in March.' }).reasons.map((r) => r.rule))
+      .toEqual(['child_custody', 'court_date']);
+    expect(scoreUrgency({ text: 'The hearing is next week.' }).reasons.map((r) => r.rule))
+      .toEqual(['court_date_imminent']);
+  });
+
+  it('lowers the score for "no rush" only when nothing risky was said', () => {
+    expect(scoreUrgency({ text: 'Questions about a will, no rush.', llmScore: 6 }).score).toBe(4);
+    expect(scoreUrgency({ text: 'No rush, but I was served with papers.', llmScore: 6 }).score).toBe(8);
+  });
+
+  it('records the client hint without letting it change the score', () => {
+    const { score, reasons } = scoreUrgency({ text: 'I want to update my will.', clientHint: 10 });
+
+    expect(score).toBe(5);
+    expect(reasons).toEqual([
+      { rule: 'client_hint', label: 'Urgency reported by the browser (not used)', score: 10, evidence: null, applied: false },
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Server-side urgency scoring.
+ *
+ * Each rule looks for a legal-risk signal in what the client said and sets a
+ * floor on the score; the LLM score is one more input. The highest floor
+ * wins, and every rule that fired is kept as a reason so admins and firms can
+ * see why a lead was ranked the way it was. The urgency the browser reports
+ * is recorded as a reason but never changes the score.
+ */
+
+export interface UrgencyReason {
+  rule: string;
+  label: string;
+  /** Score this reason argues for (1-10) */
+  score: number;
+  /** Excerpt that triggered the rule, if any */
+  evidence: string | null;
+  /** False for inputs shown for context only (the client hint) */
+  applied: boolean;
+}
+
+export interface UrgencyAssessment {
+  score: number;
+  reasons: UrgencyReason[];
+}
+
+export interface UrgencyInput {
+  /** What the client said; user turns only where available */
+  text: string;
+  llmScore?: number | null;
+  clientHint?: number | null;
+}
+
+interface UrgencyRule {
+  rule: string;
+  label: string;
+  score: number;
+  pattern: RegExp;
+}
+
+const TIME_SOON = String.raw`(?:today|tonight|tomorrow|this (?:week|morning|afternoon|friday|monday|tuesday|wednesday|thursday)|next (?:week|monday|tuesday|wednesday|thursday|friday)|in (?:a|one|two|three|four|five|\d{1,2}) days?)`;
+const COURT_EVENT = String.raw`(?:court date|hearing|arraignment|trial|deposition|eviction date|sentencing)`;
+
+export const URGENCY_RULES: UrgencyRule[] = [
+  {
+    rule: 'detention',
+    label: 'Someone is detained or facing arrest',
+    score: 10,
+    pattern: /\b(?:arrested|in jail|locked up|detained|in (?:police )?custody|held by (?:police|ice)|bail(?: hearing)?|warrant for (?:my|his|her|their) arrest)\b/i,
+  },
+  {
+    rule: 'court_date_imminent',
+    label: 'Court date within days',
+    score: 9,
+    pattern: new RegExp(
+      String.raw`\b${COURT_EVENT}\b[^.?!]{0,60}\b${TIME_SOON}\b|\b${TIME_SOON}\b[^.?!]{0,60}\b${COURT_EVENT}\b`,
+      'i'
+    ),
+  },
+  {
+    rule: 'statute_of_limitations',
+    label: 'Filing deadline may be close',
+    score: 8,
+    pattern: /\b(?:statute of limitations?|deadline to (?:file|sue|respond)|time limit to (?:file|sue)|(?:almost|nearly|about to be) (?:two|three|2|3) years ago|served (?:with )?(?:papers|a summons|a lawsuit))\b/i,
+  },
+  {
+    rule: 'child_custody',
+    label: 'Child custody or safety at stake',
+    score: 8,
+    pattern: /\b(?:custody of (?:my|our|the) (?:kids?|children|son|daughter)|custody (?:battle|hearing|order)|took (?:my|our|the) (?:kids?|children|son|daughter)|won't (?:let me see|return) (?:my|our|the) (?:kids?|children|son|daughter)|protective order|restraining order)\b/i,
+  },
+  {
+    rule: 'serious_injury',
+    label: 'Injury needing medical treatment',
+    score: 7,
+    pattern: /\b(?:hospital(?:ized)?|emergency room|ambulance|surgery|broken (?:bone|arm|leg|ribs?|neck|back)|fractured?|concussion|paralyzed|injured)\b/i,
+  },
+  {
+    rule: 'court_date',
+    label: 'Court proceeding scheduled',
+    score: 7,
+    pattern: new RegExp(String.raw`\b${COURT_EVENT}\b`, 'i'),
+  },
+];
+
+const CALM_PATTERN = /\b(?:no rush|not urgent|whenever (?:is )?convenient|no hurry|just exploring|just curious)\b/i;
+const CALM_CEILING = 4;
+const DEFAULT_SCORE = 5;
+
+const clamp = (score: number) => Math.min(10, Math.max(1, Math.round(score)));
+
+/** Returns the sentence containing the match, trimmed to a readable length */
+function excerpt(text: string, match: RegExpExecArray): string {
+  const start = Math.max(
+    text.lastIndexOf('.', match.index) + 1,
+    text.lastIndexOf('\n', match.index) + 1,
+    match.index - 80
+  );
+  const endCandidates = ['.', '?', '!', '\n']
+    .map((mark) => text.indexOf(mark, match.index + match[0].length))
+    .filter((index) => index !== -1);
+  const end = Math.min(endCandidates.length ? Math.min(...endCandidates) + 1 : text.length, match.index + match[0].length + 80);
+
+  return text.slice(start, end).trim();
+}
+
+const isScore = (value: number | null | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 1 && value <= 10;
+
+export function scoreUrgency({ text, llmScore, clientHint }: UrgencyInput): UrgencyAssessment {
+  const reasons: UrgencyReason[] = [];
+
+  for (const rule of URGENCY_RULES) {
+    const match = rule.pattern.exec(text);
+    if (!match) continue;
+
+    // A generic court mention adds nothing once an imminent date was found
+    if (rule.rule === 'court_date' && reasons.some((r) => r.rule === 'court_date_imminent')) continue;
+
+    reasons.push({ rule: rule.rule, label: rule.label, score: rule.score, evidence: excerpt(text, match), applied: true });
+  }
+
+  if (isScore(llmScore)) {
+    reasons.push({ rule: 'llm_score', label: 'Model-assessed urgency', score: clamp(llmScore), evidence: null, applied: true });
+  }
+
+  const ruleFired = reasons.some((r) => r.rule !== 'llm_score');
+  let score = reasons.length > 0 ? Math.max(...reasons.map((r) => r.score)) : DEFAULT_SCORE;
+
+  // "No rush" only lowers the score when nothing risky was said
+  const calm = CALM_PATTERN.exec(text);
+  if (calm && !ruleFired) {
+    score = Math.min(score, CALM_CEILING);
+    reasons.push({ rule: 'client_not_urgent', label: 'Client said it is not urgent', score: CALM_CEILING, evidence: excerpt(text, calm), applied: true });
+  }
+
+  if (isScore(clientHint)) {
+    reasons.push({ rule: 'client_hint', label: 'Urgency reported by the browser (not used)', score: clamp(clientHint), evidence: null, applied: false });
+  }
+
+  return { score: clamp(score), reasons };
+}
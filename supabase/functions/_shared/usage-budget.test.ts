@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { clientIp, hashIp, normalizeVisitorId } from './usage-budget';
+
+describe('clientIp', () => {
+  it('prefers the proxy headers and takes the first forwarded address', () => {
+    expect(clientIp(new Request('https://x', { headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' } })))
+      .toBe('203.0.113.7');
+    expect(clientIp(new Request('https://x', {
+      headers: { 'cf-connecting-ip': '198.51.100.2', 'x-forwarded-for': '203.0.113.7' },
+    }))).toBe('198.51.100.2');
+    expect(clientIp(new Request('https://x'))).toBeNull();
+  });
+});
+
+describe('hashIp', () => {
+  it('returns a stable SHA-256 hex digest and never the raw address', async () => {
+    const hash = await hashIp('203.0.113.7');
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashIp('203.0.113.7')).toBe(hash);
+    expect(await hashIp(null)).toBeNull();
+  });
+});
+
+describe('normalizeVisitorId', () => {
+  it('keeps browser-minted UUIDs and replaces anything else', () => {
+    const id = '3F2504E0-4F89-11D3-9A0C-0305E82C3301';
+
+    expect(normalizeVisitorId(id)).toBe(id.toLowerCase());
+    expect(normalizeVisitorId("' OR 1=1 --")).not.toContain('OR');
+    expect(normalizeVisitorId(undefined)).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Conversation time budgets
+ *
+ * Each call reserves time against the visitor's daily budget, the global
+ * daily budget and the daily spend cap (see usage_budgets). Visitors are
+ * keyed by an anonymous device id from the browser and a hash of their IP,
+ * so clearing browser storage alone doesn't reset the budget. Raw IPs are
+ * never stored.
+ */
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.39.3';
+
+export type BudgetLimit = 'visitor_limit' | 'global_limit' | 'spend_cap';
+
+export type BudgetReservation =
+  | { allowed: true; usageId: string; maxCallDuration: number }
+  | { allowed: false; reason: BudgetLimit };
+
+/** Calls shorter than this aren't worth starting */
+export const MIN_CALL_SECONDS = 60;
+
+const encoder = new TextEncoder();
+
+export function clientIp(req: Request): string | null {
+  const forwardedFor = req.headers.get('x-forwarded-for');
+  const ip = req.headers.get('cf-connecting-ip')
+    || req.headers.get('x-real-ip')
+    || forwardedFor?.split(',')[0];
+
+  return ip?.trim() || null;
+}
+
+export async function hashIp(ip: string | null): Promise<string | null> {
+  if (!ip) return null;
+
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(ip));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Device ids are random UUIDs minted by the browser; anything else is
+// replaced so a forged id can't match someone else's usage
+export function normalizeVisitorId(value: unknown): string {
+  return typeof value === 'string' && /^[0-9a-f-]{36}$/i.test(value)
+    ? value.toLowerCase()
+    : crypto.randomUUID();
+}
+
+export async function reserveConversationBudget(
+  supabase: SupabaseClient,
+  visitorId: string,
+  ipHash: string | null
+): Promise<BudgetReservation> {
+  const { data, error } = await supabase.rpc('reserve_conversation_budget', {
+    p_visitor_id: visitorId,
+    p_ip_hash: ipHash,
+    p_min_seconds: MIN_CALL_SECONDS,
+  });
+
+  if (error) {
+    throw new Error(`Failed to reserve conversation budget: ${error.message}`);
+  }
+
+  return data.allowed
+    ? { allowed: true, usageId: data.usage_id, maxCallDuration: data.max_call_duration }
+    : { allowed: false, reason: data.reason };
+}
+
+export async function conversationBudgetStatus(
+  supabase: SupabaseClient,
+  visitorId: string,
+  ipHash: string | null
+): Promise<{ remainingSeconds: number; limitedBy: BudgetLimit | null }> {
+  const { data, error } = await supabase
+    .rpc('conversation_budget_status', { p_visitor_id: visitorId, p_ip_hash: ipHash })
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to check conversation budget: ${error?.message}`);
+  }
+
+  return { remainingSeconds: data.remaining_seconds, limitedBy: data.limited_by };
+}
+
+/** Records how long the call actually ran; safe to call more than once */
+export async function settleConversationUsage(
+  supabase: SupabaseClient,
+  tavusConversationId: string
+): Promise<void> {
+  const { error } = await supabase.rpc('settle_conversation_usage', {
+    p_tavus_conversation_id: tavusConversationId,
+  });
+
+  if (error) {
+    console.error('Error settling conversation usage:', error);
+  }
+}
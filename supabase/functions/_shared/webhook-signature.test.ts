@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { computeSignature, deriveEventId, parseSignatureHeader, verifySignature } from './webhook-signature';
+
+const secret = 'whsec_test';
+const body = JSON.stringify({ event_type: 'conversation.ended', conversation_id: 'c123' });
+const now = 1_750_000_000_000;
+const timestamp = Math.floor(now / 1000);
+
+describe('webhook signature verification', () => {
+  it('accepts a correctly signed payload', async () => {
+    const signature = await computeSignature(secret, timestamp, body);
+    const result = await verifySignature(body, `t=${timestamp},v1=${signature}`, secret, { now });
+    expect(result).toEqual({ valid: true, timestamp });
+  });
+
+  it('rejects a tampered payload', async () => {
+    const signature = await computeSignature(secret, timestamp, body);
+    const result = await verifySignature(`${body} `, `t=${timestamp},v1=${signature}`, secret, { now });
+    expect(result.valid).toBe(false);
+    expect(result.valid === false && result.reason).toBe('signature_mismatch');
+  });
+
+  it('rejects timestamps outside the tolerance window', async () => {
+    const stale = timestamp - 600;
+    const signature = await computeSignature(secret, stale, body);
+    const result = await verifySignature(body, `t=${stale},v1=${signature}`, secret, { now, toleranceSeconds: 300 });
+    expect(result.valid === false && result.reason).toBe('timestamp_outside_tolerance');
+  });
+
+  it('rejects when the secret or header is missing', async () => {
+    expect(await verifySignature(body, 't=1,v1=ab', undefined)).toEqual({ valid: false, reason: 'secret_not_configured' });
+    expect(await verifySignature(body, null, secret)).toEqual({ valid: false, reason: 'missing_signature' });
+    expect(await verifySignature(body, 'garbage', secret)).toEqual({ valid: false, reason: 'malformed_signature' });
+  });
+
+  it('parses multiple v1 signatures for secret rotation', () => {
+    expect(parseSignatureHeader('t=10, v1=AA, v1=bb')).toEqual({ timestamp: 10, signatures: ['aa', 'bb'] });
+  });
+
+  it('derives the same event id for identical payloads', async () => {
+    expect(await deriveEventId(body)).toBe(await deriveEventId(body));
+    expect(await deriveEventId(body)).not.toBe(await deriveEventId(`${body} `));
+  });
+});
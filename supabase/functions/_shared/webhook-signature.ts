@@ -0,0 +1,106 @@
+/**
+ * HMAC signature verification for inbound webhooks
+ *
+ * Expects a header in the form `t=<unix seconds>,v1=<hex hmac>` where the
+ * HMAC-SHA256 is computed over `<t>.<raw body>` with the shared secret.
+ * The timestamp is checked against a tolerance window to block replays.
+ */
+
+export interface SignatureVerificationOptions {
+  toleranceSeconds?: number;
+  now?: number; // Current time in milliseconds, overridable for tests
+}
+
+export type SignatureVerificationResult =
+  | { valid: true; timestamp: number }
+  | { valid: false; reason: string; timestamp?: number };
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Constant-time comparison so the check doesn't leak how many characters matched
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+export function parseSignatureHeader(header: string): { timestamp: number | null; signatures: string[] } {
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=');
+    if (!key || !value) continue;
+
+    if (key === 't') {
+      const parsed = Number(value);
+      timestamp = Number.isFinite(parsed) ? parsed : null;
+    } else if (key === 'v1') {
+      signatures.push(value.toLowerCase());
+    }
+  }
+
+  return { timestamp, signatures };
+}
+
+export async function computeSignature(secret: string, timestamp: number, rawBody: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${rawBody}`));
+  return toHex(signature);
+}
+
+export async function verifySignature(
+  rawBody: string,
+  header: string | null,
+  secret: string | undefined,
+  options: SignatureVerificationOptions = {}
+): Promise<SignatureVerificationResult> {
+  if (!secret) {
+    return { valid: false, reason: 'secret_not_configured' };
+  }
+
+  if (!header) {
+    return { valid: false, reason: 'missing_signature' };
+  }
+
+  const { timestamp, signatures } = parseSignatureHeader(header);
+  if (timestamp === null || signatures.length === 0) {
+    return { valid: false, reason: 'malformed_signature' };
+  }
+
+  const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  const nowSeconds = Math.floor((options.now ?? Date.now()) / 1000);
+  if (Math.abs(nowSeconds - timestamp) > toleranceSeconds) {
+    return { valid: false, reason: 'timestamp_outside_tolerance', timestamp };
+  }
+
+  const expected = await computeSignature(secret, timestamp, rawBody);
+  if (!signatures.some((signature) => timingSafeEqual(signature, expected))) {
+    return { valid: false, reason: 'signature_mismatch', timestamp };
+  }
+
+  return { valid: true, timestamp };
+}
+
+// Stable id for providers that don't send one: redeliveries of the same payload hash identically
+export async function deriveEventId(rawBody: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(rawBody));
+  return `sha256:${toHex(digest)}`;
+}
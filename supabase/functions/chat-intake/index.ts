@@ -0,0 +1,275 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
+import { normalizeAttribution } from '../_shared/attribution.ts';
+import {
+  buildChatMessages,
+  DEFAULT_CHAT_GREETING,
+  MAX_CHAT_MESSAGE_CHARS,
+  MAX_CHAT_TURNS,
+} from '../_shared/chat-intake.ts';
+import { resolveEmbedToken } from '../_shared/embed.ts';
+import { detectEscalationKeywords, openEscalation } from '../_shared/escalation.ts';
+import { intakeUpdateFromClient } from '../_shared/intake-fields.ts';
+import { kickJobWorker } from '../_shared/job-queue.ts';
+import { createLlmProvider } from '../_shared/llm-provider.ts';
+import { normalizeLanguage, selectPersona } from '../_shared/personas.ts';
+import { RateLimiter } from '../_shared/rate-limiter.ts';
+import { formatTurns, normalizeTranscript, type TranscriptTurn } from '../_shared/transcript.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Every message is an LLM call, so callers are throttled per IP
+const chatRateLimiter = new RateLimiter({ windowMs: 60000, maxRequests: 20 });
+
+// Initialize Supabase client with service role key
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+type ChatTurn = Pick<TranscriptTurn, 'speaker' | 'text'>;
+
+// An open chat intake, or an error if it doesn't exist or has already ended
+async function getOpenChat(
+  conversationId: unknown
+): Promise<{ id: string; language: string; tavusConfigId: string | null }> {
+  if (typeof conversationId !== 'string') {
+    throw new Error('Chat not found');
+  }
+
+  const { data: chat, error } = await supabase
+    .from('conversations')
+    .select('id, status, language, tavus_config_id, transcript_received_at')
+    .eq('id', conversationId)
+    .eq('channel', 'chat')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading chat:', error);
+    throw new Error('Chat not found');
+  }
+
+  if (!chat) {
+    throw new Error('Chat not found');
+  }
+
+  if (chat.status !== 'new' || chat.transcript_received_at) {
+    throw new Error('Chat has already ended');
+  }
+
+  return { id: chat.id, language: chat.language, tavusConfigId: chat.tavus_config_id };
+}
+
+async function loadChatTurns(conversationId: string): Promise<ChatTurn[]> {
+  const { data, error } = await supabase
+    .from('conversation_turns')
+    .select('speaker, text')
+    .eq('conversation_id', conversationId)
+    .order('turn_index');
+
+  if (error) {
+    throw new Error(`Failed to load chat: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+// Stores the chat the same way a Tavus transcript is stored, so lead
+// extraction and the admin transcript view read it unchanged
+async function storeChatTurns(conversationId: string, chat: ChatTurn[]): Promise<void> {
+  const turns = normalizeTranscript(chat.map((turn) => ({ role: turn.speaker, content: turn.text })));
+
+  const { error: turnsError } = await supabase.rpc('replace_conversation_turns', {
+    p_conversation_id: conversationId,
+    p_turns: turns,
+  });
+
+  if (turnsError) {
+    throw new Error(`Failed to store chat turns: ${turnsError.message}`);
+  }
+
+  const { error } = await supabase
+    .from('conversations')
+    .update({ transcript: formatTurns(turns) })
+    .eq('id', conversationId);
+
+  if (error) {
+    throw new Error(`Failed to store chat transcript: ${error.message}`);
+  }
+}
+
+async function enqueueLeadExtraction(conversationId: string): Promise<void> {
+  const { error } = await supabase.rpc('enqueue_job', {
+    p_job_type: 'extract_lead',
+    p_payload: { conversation_id: conversationId },
+    p_dedupe_key: `extract_lead:${conversationId}`,
+  });
+
+  if (error) {
+    throw new Error(`Failed to queue lead extraction: ${error.message}`);
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const path = url.pathname.split('/').pop();
+
+    const limit = chatRateLimiter.check(req);
+    if (!limit.allowed) {
+      return new Response(
+        JSON.stringify({ error: 'Too many messages. Please wait a moment and try again.' }),
+        {
+          status: 429,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            'Retry-After': Math.ceil((limit.resetTime - Date.now()) / 1000).toString(),
+          }
+        }
+      );
+    }
+
+    if (req.method === 'POST' && path === 'start') {
+      console.log('=== STARTING CHAT INTAKE (PUBLIC ACCESS) ===');
+
+      // The chat is routed to a persona the same way a video call is
+      const { language, campaign, practice_area, embed_token, attribution } = await req.json().catch(() => ({}));
+      const sourceFirm = await resolveEmbedToken(supabase, embed_token);
+      const chatLanguage = normalizeLanguage(language);
+      const { config: persona, ruleId } = await selectPersona(supabase, {
+        language: chatLanguage,
+        campaign: typeof campaign === 'string' ? campaign : null,
+        practiceArea: typeof practice_area === 'string' ? practice_area : null,
+      });
+      const greeting = persona.custom_greeting?.trim() || DEFAULT_CHAT_GREETING;
+
+      const { data: conversation, error: conversationError } = await supabase
+        .from('conversations')
+        .insert({
+          tavus_conversation_id: null,
+          channel: 'chat',
+          user_id: null,
+          status: 'new',
+          language: chatLanguage,
+          tavus_config_id: persona.id,
+          persona_rule_id: ruleId,
+          source_firm_id: sourceFirm?.id ?? null,
+          ...normalizeAttribution(attribution)
+        })
+        .select('id')
+        .single();
+
+      if (conversationError) {
+        console.error('Database error:', conversationError);
+        throw conversationError;
+      }
+
+      await storeChatTurns(conversation.id, [{ speaker: 'assistant', text: greeting }]);
+
+      console.log('Chat intake stored in database:', conversation.id);
+
+      return new Response(
+        JSON.stringify({ conversation_id: conversation.id, greeting }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (req.method === 'POST' && path === 'message') {
+      const { conversation_id, message } = await req.json();
+      const { id: conversationId, language, tavusConfigId } = await getOpenChat(conversation_id);
+
+      const content = typeof message === 'string' ? message.trim() : '';
+      if (!content || content.length > MAX_CHAT_MESSAGE_CHARS) {
+        throw new Error('Invalid message');
+      }
+
+      const chat = await loadChatTurns(conversationId);
+      if (chat.length + 2 > MAX_CHAT_TURNS) {
+        throw new Error('This chat has reached its message limit. Press Finish to send your details.');
+      }
+
+      chat.push({ speaker: 'user', text: content });
+
+      const { config: persona } = await selectPersona(supabase, { language, preferredConfigId: tavusConfigId });
+      const llm = createLlmProvider();
+      const reply = (await llm.complete(
+        buildChatMessages(persona.conversational_context, chat),
+        { temperature: 0.7, maxTokens: 300 }
+      )).trim();
+
+      chat.push({ speaker: 'assistant', text: reply });
+      await storeChatTurns(conversationId, chat);
+
+      // Crisis language can't wait for the end of the chat
+      const signal = detectEscalationKeywords([{ speaker: 'user', text: content }]);
+      if (signal) {
+        await openEscalation(supabase, conversationId, signal);
+      }
+
+      return new Response(
+        JSON.stringify({
+          reply,
+          emergency: signal ? { kind: signal.kind, reason: signal.reason } : null,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (req.method === 'POST' && path === 'end') {
+      const { conversation_id, conversationData } = await req.json();
+      const { id: conversationId } = await getOpenChat(conversation_id);
+
+      console.log('=== ENDING CHAT INTAKE (PUBLIC ACCESS) ===');
+      console.log('Conversation ID:', conversationId);
+
+      // The status is left for lead extraction: its move to processed is what
+      // distributes the lead
+      const { error: updateError } = await supabase
+        .from('conversations')
+        .update({
+          transcript_received_at: new Date().toISOString(),
+          ...intakeUpdateFromClient(conversationData)
+        })
+        .eq('id', conversationId);
+
+      if (updateError) {
+        console.error('Database update error:', updateError);
+        throw updateError;
+      }
+
+      // A chat closed before the caller said anything has nothing to extract
+      const chat = await loadChatTurns(conversationId);
+      if (chat.some((turn) => turn.speaker === 'user')) {
+        await enqueueLeadExtraction(conversationId);
+        kickJobWorker();
+      }
+
+      console.log('Chat intake ended and updated successfully');
+
+      return new Response(
+        JSON.stringify({ message: 'Chat ended successfully' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    throw new Error('Invalid endpoint');
+  } catch (error) {
+    console.error('Edge function error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -0,0 +1,289 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
+import {
+  caseFirmAssignment,
+  caseReference,
+  caseStatus,
+  generatePortalToken,
+  hashPortalToken,
+  MAX_CLIENT_MESSAGE_CHARS,
+  parseCaseReference,
+  PORTAL_TOKEN_DAYS,
+  portalFirm,
+  type PortalFirmProfile,
+} from '../_shared/client-portal.ts';
+import { sendEmail } from '../_shared/email.ts';
+import { RateLimiter } from '../_shared/rate-limiter.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Link requests send email and case references are short, so callers are
+// throttled per IP
+const portalRateLimiter = new RateLimiter({ windowMs: 60000, maxRequests: 10 });
+
+// Initialize Supabase client with service role key
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+interface FirmAssignment {
+  status: string;
+  assigned_at: string;
+  law_firm: PortalFirmProfile;
+}
+
+// The intake conversation a portal link opens, or an error once it has expired
+async function openPortal(token: unknown): Promise<string> {
+  if (typeof token !== 'string' || !token) {
+    throw new Error('This link is not valid. Request a new one.');
+  }
+
+  const { data: portalToken, error } = await supabase
+    .from('client_portal_tokens')
+    .select('id, conversation_id')
+    .eq('token_hash', await hashPortalToken(token))
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check link: ${error.message}`);
+  }
+  if (!portalToken) {
+    throw new Error('This link has expired. Request a new one.');
+  }
+
+  await supabase
+    .from('client_portal_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', portalToken.id);
+
+  return portalToken.conversation_id;
+}
+
+// Messages and appointments hang off the lead extracted from the intake
+async function findCaseLead(conversationId: string): Promise<string | null> {
+  const { data: lead } = await supabase
+    .from('leads')
+    .select('id')
+    .eq('conversation_id', conversationId)
+    .order('created_at')
+    .limit(1)
+    .maybeSingle();
+
+  return lead?.id ?? null;
+}
+
+async function loadClientCase(conversationId: string) {
+  const { data: conversation, error } = await supabase
+    .from('conversations')
+    .select('id, name, case_category, created_at')
+    .eq('id', conversationId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load case: ${error.message}`);
+  }
+
+  const { data: assignmentData } = await supabase
+    .from('lead_assignments')
+    .select(`
+      status,
+      assigned_at,
+      law_firm:law_firms(
+        name,
+        description,
+        location,
+        website,
+        contact_email,
+        contact_phone,
+        rating,
+        avg_response_time_minutes
+      )
+    `)
+    .eq('conversation_id', conversationId);
+
+  const assignments = (assignmentData || []) as unknown as FirmAssignment[];
+  const leadId = await findCaseLead(conversationId);
+
+  const [appointmentsResult, messagesResult] = leadId
+    ? await Promise.all([
+        supabase
+          .from('appointments')
+          .select('id, scheduled_for, duration_minutes, status, meeting_type, meeting_link')
+          .eq('lead_id', leadId)
+          .order('scheduled_for'),
+        supabase
+          .from('messages')
+          .select('id, sender_type, message, created_at')
+          .eq('lead_id', leadId)
+          .order('created_at'),
+      ])
+    : [{ data: [] }, { data: [] }];
+
+  const appointments = appointmentsResult.data || [];
+  const firmAssignment = caseFirmAssignment(assignments);
+
+  // The caller has now seen the firm's replies
+  if (leadId) {
+    await supabase
+      .from('messages')
+      .update({ read: true, read_at: new Date().toISOString() })
+      .eq('lead_id', leadId)
+      .eq('sender_type', 'firm')
+      .eq('read', false);
+  }
+
+  return {
+    case_reference: caseReference(conversation.id),
+    name: conversation.name,
+    case_category: conversation.case_category,
+    submitted_at: conversation.created_at,
+    status: caseStatus(assignments, appointments),
+    firm: portalFirm(firmAssignment),
+    appointments,
+    messages: messagesResult.data || [],
+    can_message: leadId !== null && firmAssignment?.status === 'accepted',
+  };
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const path = url.pathname.split('/').pop();
+
+    const limit = portalRateLimiter.check(req);
+    if (!limit.allowed) {
+      return new Response(
+        JSON.stringify({ error: 'Too many requests. Please wait a moment and try again.' }),
+        {
+          status: 429,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            'Retry-After': Math.ceil((limit.resetTime - Date.now()) / 1000).toString(),
+          }
+        }
+      );
+    }
+
+    if (req.method === 'POST' && path === 'request-link') {
+      const { case_reference, email } = await req.json();
+      const prefix = parseCaseReference(case_reference);
+
+      if (!prefix || typeof email !== 'string' || !email.includes('@')) {
+        throw new Error('Enter your case reference and the email you gave us');
+      }
+
+      const { data: conversationId, error } = await supabase.rpc('find_client_case', {
+        p_prefix: prefix,
+        p_email: email,
+      });
+
+      if (error) {
+        throw new Error(`Failed to look up case: ${error.message}`);
+      }
+
+      // The reply is the same either way so references can't be probed
+      if (conversationId) {
+        const token = generatePortalToken();
+        const { error: tokenError } = await supabase
+          .from('client_portal_tokens')
+          .insert({
+            conversation_id: conversationId,
+            token_hash: await hashPortalToken(token),
+            expires_at: new Date(Date.now() + PORTAL_TOKEN_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+          });
+
+        if (tokenError) {
+          throw new Error(`Failed to create link: ${tokenError.message}`);
+        }
+
+        const appUrl = Deno.env.get('APP_URL') || 'http://localhost:5173';
+        const reference = caseReference(conversationId);
+        await sendEmail(
+          email.trim(),
+          `Your case ${reference}`,
+          `Follow your case, see appointments and message your attorney here:\n\n${appUrl}/portal?token=${token}\n\nThe link works for ${PORTAL_TOKEN_DAYS} days. You can request a new one any time with your case reference.`
+        );
+        console.log(`Portal link sent for ${reference}`);
+      }
+
+      return new Response(
+        JSON.stringify({ message: 'If the case reference matches your email, a link is on its way.' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (req.method === 'POST' && path === 'case') {
+      const { token } = await req.json();
+      const conversationId = await openPortal(token);
+
+      return new Response(
+        JSON.stringify(await loadClientCase(conversationId)),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (req.method === 'POST' && path === 'message') {
+      const { token, message } = await req.json();
+      const conversationId = await openPortal(token);
+
+      if (typeof message !== 'string' || !message.trim()) {
+        throw new Error('Message is empty');
+      }
+      if (message.length > MAX_CLIENT_MESSAGE_CHARS) {
+        throw new Error(`Messages are limited to ${MAX_CLIENT_MESSAGE_CHARS} characters`);
+      }
+
+      const { data: accepted } = await supabase
+        .from('lead_assignments')
+        .select('id')
+        .eq('conversation_id', conversationId)
+        .eq('status', 'accepted')
+        .limit(1);
+      const leadId = await findCaseLead(conversationId);
+
+      if (!leadId || !accepted?.length) {
+        throw new Error('You can message your attorney once a firm accepts your case');
+      }
+
+      const { error } = await supabase
+        .from('messages')
+        .insert({
+          lead_id: leadId,
+          sender_id: null,
+          sender_type: 'client',
+          message: message.trim(),
+        });
+
+      if (error) {
+        throw new Error(`Failed to send message: ${error.message}`);
+      }
+
+      return new Response(
+        JSON.stringify(await loadClientCase(conversationId)),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    throw new Error('Invalid endpoint');
+  } catch (error) {
+    console.error('Edge function error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -0,0 +1,99 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
+import { frameAncestorsPolicy, resolveEmbedFirm, resolveEmbedToken, signEmbedToken } from '../_shared/embed.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Initialize Supabase client with service role key
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const path = url.pathname.split('/').pop();
+
+    // GET /embed-widget/frame?firm_id=... - The page the widget's iframe lands
+    // on. Browsers only render it on the firm's allowed sites, and it frames
+    // the app's /embed with the token that starts the firm's intake (PUBLIC ACCESS)
+    if (req.method === 'GET' && path === 'frame') {
+      const firm = await resolveEmbedFirm(supabase, url.searchParams.get('firm_id'));
+
+      if (!firm) {
+        throw new Error('Missing firm_id');
+      }
+
+      const secret = Deno.env.get('EMBED_TOKEN_SECRET');
+      const appUrl = Deno.env.get('APP_URL');
+      if (!secret || !appUrl) {
+        console.error('EMBED_TOKEN_SECRET or APP_URL is not configured');
+        throw new Error('This intake widget is not available');
+      }
+
+      // The host page's parameters (firm, UTM, practice area) pass through;
+      // the token goes in the fragment so it isn't sent on to other servers
+      const embedUrl = new URL('/embed', appUrl);
+      url.searchParams.forEach((value, key) => embedUrl.searchParams.set(key, value));
+      embedUrl.hash = new URLSearchParams({ embed_token: await signEmbedToken(secret, firm.id) }).toString();
+
+      const src = embedUrl.toString().replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+      return new Response(
+        `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>Legal intake</title>
+    <style>html, body, iframe { margin: 0; width: 100%; height: 100%; border: 0; background: #000; }</style>
+  </head>
+  <body>
+    <iframe src="${src}" title="Legal intake" allow="camera; microphone; autoplay; display-capture; fullscreen"></iframe>
+  </body>
+</html>`,
+        {
+          headers: {
+            'Content-Type': 'text/html; charset=utf-8',
+            'Content-Security-Policy': frameAncestorsPolicy(firm.allowedOrigins),
+            'Cache-Control': 'no-store',
+          }
+        }
+      );
+    }
+
+    // GET /embed-widget/config?embed_token=... - The firm a widget token was
+    // issued for, checked again before the caller starts (PUBLIC ACCESS)
+    if (req.method === 'GET' && path === 'config') {
+      const firm = await resolveEmbedToken(supabase, url.searchParams.get('embed_token'));
+
+      if (!firm) {
+        throw new Error('Missing embed_token');
+      }
+
+      return new Response(
+        JSON.stringify({ firm_id: firm.id, firm_name: firm.name }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    throw new Error('Invalid endpoint');
+  } catch (error) {
+    console.error('Edge function error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -0,0 +1,180 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
+import { fetchTranscriptFromTavus, storeConversationTranscript } from '../_shared/tavus.ts';
+import { pageEscalation } from '../_shared/pager.ts';
+import { isServiceRoleRequest } from '../_shared/service-auth.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Initialize Supabase client with service role key
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const BATCH_SIZE = 10;
+
+interface Job {
+  id: string;
+  job_type: 'fetch_transcript' | 'extract_lead' | 'page_escalation';
+  payload: Record<string, string>;
+  attempts: number;
+  max_attempts: number;
+}
+
+async function enqueueLeadExtraction(conversationId: string): Promise<void> {
+  const { error } = await supabase.rpc('enqueue_job', {
+    p_job_type: 'extract_lead',
+    p_payload: { conversation_id: conversationId },
+    p_dedupe_key: `extract_lead:${conversationId}`,
+  });
+
+  if (error) {
+    throw new Error(`Failed to queue lead extraction: ${error.message}`);
+  }
+}
+
+// Fetches the transcript from Tavus, stores it as turns and queues extraction.
+// Throws while the transcript isn't ready so the job backs off and retries.
+async function runFetchTranscript(job: Job): Promise<void> {
+  const tavusConversationId = job.payload.tavus_conversation_id;
+  const transcript = await fetchTranscriptFromTavus(tavusConversationId);
+
+  if (!transcript) {
+    throw new Error('Transcript not available yet');
+  }
+
+  const conversationId = await storeConversationTranscript(supabase, tavusConversationId, transcript);
+  await enqueueLeadExtraction(conversationId);
+}
+
+// process-lead-extraction reads the stored transcript turns itself
+async function runExtractLead(job: Job): Promise<void> {
+  const conversationId = job.payload.conversation_id;
+
+  const response = await fetch(
+    `${Deno.env.get('SUPABASE_URL')}/functions/v1/process-lead-extraction`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+      },
+      body: JSON.stringify({ conversationId }),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Lead extraction failed: ${response.status} ${await response.text()}`);
+  }
+}
+
+// Firms already paged are skipped, so a retry only pages the ones that failed
+async function runPageEscalation(job: Job): Promise<void> {
+  const paged = await pageEscalation(supabase, job.payload.escalation_id);
+  console.log(`Escalation ${job.payload.escalation_id} paged ${paged.length} firm(s)`);
+}
+
+const handlers: Record<Job['job_type'], (job: Job) => Promise<void>> = {
+  fetch_transcript: runFetchTranscript,
+  extract_lead: runExtractLead,
+  page_escalation: runPageEscalation,
+};
+
+async function runJob(job: Job): Promise<'completed' | 'pending' | 'dead'> {
+  try {
+    const handler = handlers[job.job_type];
+    if (!handler) {
+      throw new Error(`Unknown job type: ${job.job_type}`);
+    }
+
+    await handler(job);
+
+    const { error } = await supabase.rpc('complete_job', { p_job_id: job.id });
+    if (error) throw error;
+
+    console.log(`Job ${job.id} (${job.job_type}) completed`);
+    return 'completed';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Job ${job.id} (${job.job_type}) failed on attempt ${job.attempts}/${job.max_attempts}:`, message);
+
+    const { data: status } = await supabase.rpc('fail_job', {
+      p_job_id: job.id,
+      p_error: message,
+    });
+
+    return status === 'dead' ? 'dead' : 'pending';
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Method not allowed' }),
+      {
+        status: 405,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  // The worker is only invoked by the scheduler or other edge functions
+  if (!isServiceRoleRequest(req.headers.get('Authorization'), Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'))) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  try {
+    const workerId = `job-worker-${crypto.randomUUID()}`;
+
+    const { data: jobs, error } = await supabase.rpc('claim_jobs', {
+      p_worker_id: workerId,
+      p_limit: BATCH_SIZE,
+    });
+
+    if (error) throw error;
+
+    const summary = { claimed: jobs?.length ?? 0, completed: 0, retrying: 0, dead: 0 };
+
+    // Run sequentially: a transcript job may queue an extraction we want to see next run
+    for (const job of (jobs ?? []) as Job[]) {
+      const result = await runJob(job);
+      if (result === 'completed') summary.completed++;
+      else if (result === 'dead') summary.dead++;
+      else summary.retrying++;
+    }
+
+    console.log('Job worker run finished:', summary);
+
+    return new Response(
+      JSON.stringify(summary),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Job worker error:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -1,4 +1,13 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
+import { createLlmProvider, LlmProviderError } from '../_shared/llm-provider.ts';
+import { extractLeadData, LeadExtractionError, resolvePracticeArea, type PracticeAreaOption } from '../_shared/lead-extraction.ts';
+import { formatTurns, type TranscriptTurn } from '../_shared/transcript.ts';
+import { loadIntakeTurns } from '../_shared/intake-sessions.ts';
+import { normalizeLanguage } from '../_shared/personas.ts';
+import { scoreUrgency } from '../_shared/urgency.ts';
+import { escalationFromUrgency, escalationUrgencyThreshold, openEscalation } from '../_shared/escalation.ts';
+import { DEFAULT_EXTRACTION_TEMPLATE, selectPromptTemplate, type PromptTemplate } from '../_shared/prompt-templates.ts';
+import { isServiceRoleRequest } from '../_shared/service-auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,102 +21,77 @@ const supabase = createClient(
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 );
 
-interface LeadExtractionData {
-  caseCategory: string;
-  firmLocation: string;
-  openaiUrgencyScore: number;
-  extractedData?: {
-    name?: string;
-    email?: string;
-    phone?: string;
-    case_description?: string;
-  };
+// Practice areas (with their synonyms) are the only valid case categories
+async function loadPracticeAreas(): Promise<PracticeAreaOption[]> {
+  const { data, error } = await supabase
+    .from('practice_areas')
+    .select('id, name, description, practice_area_synonyms(synonym)')
+    .order('name');
+
+  if (error) {
+    throw new Error(`Failed to load practice areas: ${error.message}`);
+  }
+
+  return (data || []).map((area: {
+    id: string;
+    name: string;
+    description: string | null;
+    practice_area_synonyms: { synonym: string }[] | null;
+  }) => ({
+    id: area.id,
+    name: area.name,
+    description: area.description,
+    synonyms: (area.practice_area_synonyms || []).map((s) => s.synonym),
+  }));
 }
 
-async function extractLeadDataFromTranscript(transcript: string): Promise<LeadExtractionData | null> {
+// Builds the transcript text from stored turns, falling back to the raw
+// transcript for conversations recorded before turns were stored.
+// clientText is what the client said, used for urgency rules.
+async function loadTranscript(
+  conversationId: string
+): Promise<{ text: string; clientText: string } | null> {
+  // A resumed intake spans several sessions; extract from all of them
+  let turns: Pick<TranscriptTurn, 'speaker' | 'text' | 'tool_calls'>[] = [];
   try {
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openaiApiKey) {
-      console.error('OPENAI_API_KEY not set');
-      return null;
-    }
+    turns = await loadIntakeTurns(supabase, conversationId);
+  } catch (error) {
+    console.error('Error loading conversation turns:', error);
+  }
 
-    const prompt = `
-Analyze this legal conversation transcript and extract the following information:
-
-1. Case Category (choose from: Personal Injury, Family Law, Criminal Defense, Immigration, Estate Planning, Business Law, Real Estate, Employment Law, Bankruptcy, Intellectual Property)
-2. Client Location (city, state format)
-3. Urgency Score (1-10, where 10 is most urgent)
-4. Client Details (name, email, phone if mentioned)
-5. Case Description (summary of legal issue)
-
-Transcript:
-${transcript}
-
-Return a JSON object with this structure:
-{
-  "caseCategory": "string",
-  "firmLocation": "string", 
-  "openaiUrgencyScore": number,
-  "extractedData": {
-    "name": "string or null",
-    "email": "string or null", 
-    "phone": "string or null",
-    "case_description": "string"
+  if (turns.length > 0) {
+    return {
+      text: formatTurns(turns),
+      clientText: turns.filter((turn) => turn.speaker === 'user').map((turn) => turn.text).join('\n'),
+    };
   }
-}
-`;
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a legal data extraction expert. Extract information from conversation transcripts and return valid JSON only.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.1,
-        max_tokens: 1000,
-      }),
-    });
 
-    if (!response.ok) {
-      console.error('OpenAI API error:', response.status, await response.text());
-      return null;
-    }
+  const { data: conversation } = await supabase
+    .from('conversations')
+    .select('transcript')
+    .eq('id', conversationId)
+    .single();
 
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
-    
-    if (!content) {
-      console.error('No content from OpenAI');
-      return null;
-    }
+  return conversation?.transcript
+    ? { text: conversation.transcript, clientText: conversation.transcript }
+    : null;
+}
 
-    try {
-      const extracted = JSON.parse(content);
-      console.log('Extracted lead data:', extracted);
-      return extracted;
-    } catch (parseError) {
-      console.error('Error parsing OpenAI response:', parseError);
-      console.error('Content:', content);
-      return null;
-    }
+// Picks the prompt version for this request: weighted A/B split, else the
+// active version, else the built-in default
+async function choosePromptTemplate(): Promise<PromptTemplate> {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('id, name, version, system_prompt, user_prompt, is_active, traffic_weight')
+    .eq('name', 'lead_extraction')
+    .or('is_active.eq.true,traffic_weight.gt.0');
 
-  } catch (error) {
-    console.error('Error extracting lead data:', error);
-    return null;
+  if (error) {
+    console.error('Error loading prompt templates, using built-in default:', error);
+    return DEFAULT_EXTRACTION_TEMPLATE;
   }
+
+  return selectPromptTemplate(data || []) ?? DEFAULT_EXTRACTION_TEMPLATE;
 }
 
 Deno.serve(async (req) => {
@@ -126,14 +110,26 @@ Deno.serve(async (req) => {
     );
   }
 
+  // Extraction sets urgency and lead data and can page on-call firms, so only
+  // the job worker may run it
+  if (!isServiceRoleRequest(req.headers.get('Authorization'), Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'))) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
   try {
     console.log('=== LEAD EXTRACTION FUNCTION CALLED ===');
     
-    const { conversationId, transcript } = await req.json();
+    const { conversationId } = await req.json();
     
-    if (!conversationId || !transcript) {
+    if (!conversationId) {
       return new Response(
-        JSON.stringify({ error: 'Missing conversationId or transcript' }),
+        JSON.stringify({ error: 'Missing conversationId' }),
         { 
           status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -142,32 +138,113 @@ Deno.serve(async (req) => {
     }
 
     console.log(`Processing lead extraction for conversation: ${conversationId}`);
-    
-    // Extract lead data using OpenAI
-    const extractedData = await extractLeadDataFromTranscript(transcript);
-    
-    if (!extractedData) {
-      console.error('Failed to extract lead data');
+
+    const transcript = await loadTranscript(conversationId);
+    if (!transcript) {
       return new Response(
-        JSON.stringify({ error: 'Failed to extract lead data' }),
-        { 
-          status: 500,
+        JSON.stringify({ error: 'Conversation has no transcript' }),
+        {
+          status: 404,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       );
     }
+    
+    const practiceAreas = await loadPracticeAreas();
+    if (practiceAreas.length === 0) {
+      throw new Error('No practice areas configured');
+    }
+
+    const promptTemplate = await choosePromptTemplate();
+    console.log(`Using ${promptTemplate.name} prompt v${promptTemplate.version}`);
+
+    const { data: intake } = await supabase
+      .from('conversations')
+      .select('client_urgency_hint, user_verified_fields, case_category, language')
+      .eq('id', conversationId)
+      .single();
+
+    let outcome;
+    try {
+      outcome = await extractLeadData(
+        createLlmProvider(),
+        transcript.text,
+        practiceAreas,
+        promptTemplate,
+        normalizeLanguage(intake?.language)
+      );
+    } catch (error) {
+      if (error instanceof LeadExtractionError) {
+        console.error('Extracted lead data failed validation:', error.issues);
+        return new Response(
+          JSON.stringify({ error: 'Extracted lead data failed validation', issues: error.issues }),
+          {
+            status: 422,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+      if (error instanceof LlmProviderError) {
+        console.error('Failed to extract lead data:', error.message);
+        return new Response(
+          JSON.stringify({ error: 'Failed to extract lead data', details: error.message }),
+          {
+            status: 502,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+      throw error;
+    }
+
+    const extractedData = outcome.extraction;
+    console.log(`Extracted lead data with ${outcome.providerId} in ${outcome.attempts} attempt(s):`, extractedData);
+
+    // Urgency comes from the rules engine; the browser's value is only a hint
+    const urgency = scoreUrgency({
+      text: transcript.clientText,
+      llmScore: extractedData.openaiUrgencyScore,
+      clientHint: intake?.client_urgency_hint ?? null,
+    });
+    console.log(`Urgency ${urgency.score}:`, urgency.reasons.filter((r) => r.applied).map((r) => r.rule));
+
+    // Values the caller confirmed during the call win over extracted ones
+    const verifiedFields: string[] = intake?.user_verified_fields ?? [];
+    const extractedValues: Record<string, string | null> = {
+      case_category: extractedData.caseCategory,
+      firm_location: extractedData.firmLocation,
+      name: extractedData.extractedData?.name || null,
+      email: extractedData.extractedData?.email || null,
+      phone: extractedData.extractedData?.phone || null,
+    };
+    for (const field of verifiedFields) {
+      delete extractedValues[field];
+    }
+
+    const verifiedArea = verifiedFields.includes('case_category')
+      ? resolvePracticeArea(intake?.case_category, practiceAreas)
+      : null;
+    const practiceAreaId = verifiedArea?.id ?? extractedData.practiceAreaId;
 
     // Update conversation with extracted data
     const { error: updateError } = await supabase
       .from('conversations')
       .update({
-        case_category: extractedData.caseCategory,
-        firm_location: extractedData.firmLocation,
+        ...extractedValues,
+        practice_area_id: practiceAreaId,
+        classification_status: practiceAreaId ? 'classified' : 'unclassified',
         openai_urgency_score: extractedData.openaiUrgencyScore,
-        name: extractedData.extractedData?.name || null,
-        email: extractedData.extractedData?.email || null,
-        phone: extractedData.extractedData?.phone || null,
+        urgency_score: urgency.score,
+        urgency_reasons: urgency.reasons,
+        urgency_scored_at: new Date().toISOString(),
         case_description: extractedData.extractedData?.case_description || null,
+        extraction_confidence: extractedData.confidence,
+        extraction_provider: outcome.providerId,
+        extraction_attempts: outcome.attempts,
+        extraction_issues: outcome.issues.length > 0 ? outcome.issues : null,
+        prompt_template_id: outcome.promptTemplateId,
+        prompt_version: outcome.promptVersion,
+        extracted_at: new Date().toISOString(),
         status: 'processed',
       })
       .eq('id', conversationId);
@@ -183,12 +260,32 @@ Deno.serve(async (req) => {
       );
     }
 
+    const escalation = escalationFromUrgency(urgency, escalationUrgencyThreshold());
+    if (escalation) {
+      await openEscalation(supabase, conversationId, escalation);
+    }
+
+    // Keep any lead rows for this conversation on the same practice area
+    if (practiceAreaId) {
+      const { error: leadError } = await supabase
+        .from('leads')
+        .update({ practice_area_id: practiceAreaId })
+        .eq('conversation_id', conversationId);
+
+      if (leadError) {
+        console.error('Error updating lead practice area:', leadError);
+      }
+    } else {
+      console.warn(`Conversation ${conversationId} is unclassified and waiting for triage`);
+    }
+
     console.log('Lead extraction and conversation update completed successfully');
 
     return new Response(
       JSON.stringify({ 
         message: 'Lead extraction completed',
-        extractedData: extractedData
+        extractedData: extractedData,
+        urgency
       }),
       { 
         status: 200,
@@ -201,7 +298,7 @@ Deno.serve(async (req) => {
     return new Response(
       JSON.stringify({ 
         error: 'Internal server error',
-        details: error.message 
+        details: error instanceof Error ? error.message : 'Unknown error'
       }),
       { 
         status: 500,
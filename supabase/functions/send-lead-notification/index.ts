@@ -253,11 +253,11 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { matchId } = await req.json();
+    const { assignmentId } = await req.json();
 
-    if (!matchId) {
+    if (!assignmentId) {
       return new Response(
-        JSON.stringify({ error: 'Missing matchId parameter' }),
+        JSON.stringify({ error: 'Missing assignmentId parameter' }),
         {
           status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -265,33 +265,33 @@ Deno.serve(async (req) => {
       );
     }
 
-    console.log('📨 Processing lead notification for match:', matchId);
+    console.log('📨 Processing lead notification for assignment:', assignmentId);
 
-    // Get match details with all related data
-    const { data: match, error: matchError } = await supabase
-      .from('matches')
+    // Get assignment details with all related data
+    const { data: assignment, error: assignmentError } = await supabase
+      .from('lead_assignments')
       .select(`
         *,
-        lead:leads!inner (
+        conversation:conversations!inner (
           *,
-          conversation:conversations!inner (
-            *
-          ),
           practice_area:practice_areas (
             name
+          ),
+          leads (
+            id
           )
         ),
         law_firm:law_firms!inner (
           *
         )
       `)
-      .eq('id', matchId)
+      .eq('id', assignmentId)
       .single();
 
-    if (matchError || !match) {
-      console.error('❌ Error fetching match:', matchError);
+    if (assignmentError || !assignment) {
+      console.error('❌ Error fetching assignment:', assignmentError);
       return new Response(
-        JSON.stringify({ error: 'Match not found', details: matchError?.message }),
+        JSON.stringify({ error: 'Assignment not found', details: assignmentError?.message }),
         {
           status: 404,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -299,10 +299,14 @@ Deno.serve(async (req) => {
       );
     }
 
-    console.log('✅ Match found:', {
-      firmId: match.law_firm_id,
-      firmName: match.law_firm.name,
-      leadId: match.lead_id,
+    const conversation = assignment.conversation;
+    const leadId: string | undefined = conversation.leads?.[0]?.id;
+    const leadLink = leadId ? `/admin/leads/${leadId}` : '/admin/firm-dashboard';
+
+    console.log('✅ Assignment found:', {
+      firmId: assignment.law_firm_id,
+      firmName: assignment.law_firm.name,
+      conversationId: assignment.conversation_id,
     });
 
     // Get firm admins to notify
@@ -310,7 +314,7 @@ Deno.serve(async (req) => {
       .from('profiles')
       .select('id, email, first_name, last_name')
       .eq('role', 'legal_admin')
-      .eq('law_firm_id', match.law_firm_id);
+      .eq('law_firm_id', assignment.law_firm_id);
 
     if (adminsError) {
       console.error('❌ Error fetching admins:', adminsError);
@@ -324,15 +328,15 @@ Deno.serve(async (req) => {
     }
 
     if (!admins || admins.length === 0) {
-      console.warn('⚠️ No admins found for firm:', match.law_firm_id);
+      console.warn('⚠️ No admins found for firm:', assignment.law_firm_id);
 
       // Still create a notification for the firm (will be visible when they add admins)
       await supabase.from('notifications').insert({
-        law_firm_id: match.law_firm_id,
+        law_firm_id: assignment.law_firm_id,
         type: 'lead_matched',
-        title: `New ${match.lead.practice_area?.name || 'Lead'}`,
-        message: `You've been matched with a new potential client. Match score: ${(match.match_score * 100).toFixed(0)}%`,
-        link: `/admin/leads/${match.lead_id}`,
+        title: `New ${conversation.practice_area?.name || 'Lead'}`,
+        message: `You've been matched with a new potential client. Match score: ${(assignment.match_score * 100).toFixed(0)}%`,
+        link: leadLink,
       });
 
       return new Response(
@@ -354,17 +358,17 @@ Deno.serve(async (req) => {
       admins.map(async (admin) => {
         const emailData: EmailData = {
           to: admin.email,
-          subject: `🎯 New ${match.lead.practice_area?.name || 'Legal'} Lead${match.match_score >= 0.8 ? ' - Excellent Match!' : match.match_score >= 0.6 ? ' - Good Match' : ''}`,
-          firmName: match.law_firm.name,
+          subject: `🎯 New ${conversation.practice_area?.name || 'Legal'} Lead${assignment.match_score >= 0.8 ? ' - Excellent Match!' : assignment.match_score >= 0.6 ? ' - Good Match' : ''}`,
+          firmName: assignment.law_firm.name,
           html: '',
           leadDetails: {
-            name: match.lead.conversation.name || '',
-            email: match.lead.conversation.email || '',
-            phone: match.lead.conversation.phone || '',
-            caseDescription: match.lead.conversation.case_description || 'No description provided',
-            urgencyScore: match.lead.conversation.urgency_score ||
-                          match.lead.conversation.openai_urgency_score || 5,
-            practiceArea: match.lead.practice_area?.name || 'General Practice',
+            name: conversation.name || '',
+            email: conversation.email || '',
+            phone: conversation.phone || '',
+            caseDescription: conversation.case_description || 'No description provided',
+            urgencyScore: conversation.urgency_score ||
+                          conversation.openai_urgency_score || 5,
+            practiceArea: conversation.practice_area?.name || 'General Practice',
           },
         };
 
@@ -378,14 +382,14 @@ Deno.serve(async (req) => {
           .from('notifications')
           .insert({
             user_id: admin.id,
-            law_firm_id: match.law_firm_id,
+            law_firm_id: assignment.law_firm_id,
             type: 'lead_matched',
-            title: `New ${match.lead.practice_area?.name || 'Legal'} Lead`,
-            message: `You've been matched with a new potential client. Match score: ${(match.match_score * 100).toFixed(0)}%. ${emailData.leadDetails.urgencyScore >= 8 ? '🔥 URGENT case!' : ''}`,
-            link: `/admin/leads/${match.lead_id}`,
+            title: `New ${conversation.practice_area?.name || 'Legal'} Lead`,
+            message: `You've been matched with a new potential client. Match score: ${(assignment.match_score * 100).toFixed(0)}%. ${emailData.leadDetails.urgencyScore >= 8 ? '🔥 URGENT case!' : ''}`,
+            link: leadLink,
             metadata: {
-              matchId: match.id,
-              matchScore: match.match_score,
+              assignmentId: assignment.id,
+              matchScore: assignment.match_score,
               urgency: emailData.leadDetails.urgencyScore,
             },
           });
@@ -410,7 +414,7 @@ Deno.serve(async (req) => {
     return new Response(
       JSON.stringify({
         message: 'Lead notifications processed',
-        matchId,
+        assignmentId,
         notificationsSent: successCount,
         notificationsFailed: failureCount,
         results: results.map(r =>
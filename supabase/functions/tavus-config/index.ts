@@ -1,4 +1,5 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
+import { normalizeLanguage, pickPersona } from '../_shared/personas.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -40,21 +41,27 @@ Deno.serve(async (req) => {
     const url = new URL(req.url);
     const path = url.pathname.split('/').pop();
 
-    // GET /tavus-config/active - Get active configuration (PUBLIC ACCESS)
+    // GET /tavus-config/active?language=es - Get active configuration for a language (PUBLIC ACCESS)
     if (req.method === 'GET' && path === 'active') {
-      console.log('Getting active Tavus config (public access)');
-      
-      const { data, error } = await supabase
+      const language = normalizeLanguage(url.searchParams.get('language'));
+      console.log('Getting active Tavus config (public access):', language);
+
+      const { data: configs, error } = await supabase
         .from('tavus_configs')
         .select('*')
         .eq('active', true)
-        .single();
+        .order('created_at');
 
       if (error) {
         console.error('Error getting active config:', error);
         throw error;
       }
 
+      const data = pickPersona(configs ?? [], language);
+      if (!data) {
+        throw new Error('No active Tavus configuration found');
+      }
+
       console.log('Active config found:', data?.name);
 
       return new Response(
@@ -92,14 +99,6 @@ Deno.serve(async (req) => {
         active
       } = await req.json();
 
-      // If this config is being set as active, deactivate all others
-      if (active) {
-        await supabase
-          .from('tavus_configs')
-          .update({ active: false })
-          .neq('id', 0); // Update all records
-      }
-
       const { data, error } = await supabase
         .from('tavus_configs')
         .insert({
@@ -107,7 +106,7 @@ Deno.serve(async (req) => {
           persona_id,
           custom_greeting,
           conversational_context,
-          language,
+          language: normalizeLanguage(language),
           interrupt_sensitivity,
           active,
           created_by: user.id,
@@ -136,14 +135,6 @@ Deno.serve(async (req) => {
         active
       } = await req.json();
 
-      // If this config is being set as active, deactivate all others
-      if (active) {
-        await supabase
-          .from('tavus_configs')
-          .update({ active: false })
-          .neq('id', id);
-      }
-
       const { data, error } = await supabase
         .from('tavus_configs')
         .update({
@@ -151,7 +142,7 @@ Deno.serve(async (req) => {
           persona_id,
           custom_greeting,
           conversational_context,
-          language,
+          language: normalizeLanguage(language),
           interrupt_sensitivity,
           active,
           updated_by: user.id
@@ -1,4 +1,24 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
+import { type AttributionColumns, normalizeAttribution } from '../_shared/attribution.ts';
+import { resolveEmbedToken } from '../_shared/embed.ts';
+import { ESCALATION_KINDS, openEscalation } from '../_shared/escalation.ts';
+import { INTAKE_FIELDS, intakeUpdateFromClient } from '../_shared/intake-fields.ts';
+import { findIntakeSession, loadIntakeTurns } from '../_shared/intake-sessions.ts';
+import { normalizeLanguage, selectPersona } from '../_shared/personas.ts';
+import { buildResumeContext } from '../_shared/resume.ts';
+import { fetchConversationStatus, fetchTranscriptFromTavus } from '../_shared/tavus.ts';
+import { normalizeTranscript } from '../_shared/transcript.ts';
+import { RateLimiter } from '../_shared/rate-limiter.ts';
+import { timingSafeEqual } from '../_shared/webhook-signature.ts';
+import {
+  clientIp,
+  conversationBudgetStatus,
+  hashIp,
+  MIN_CALL_SECONDS,
+  normalizeVisitorId,
+  reserveConversationBudget,
+  settleConversationUsage,
+} from '../_shared/usage-budget.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -6,6 +26,16 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
+// Tools the intake persona can call; anything else is rejected before it
+// reaches the audit table
+const INTAKE_TOOL_NAMES = ['record_contact', 'set_case_category', 'flag_emergency', 'request_callback_time'];
+const MAX_TOOL_PAYLOAD_BYTES = 8_000;
+
+// Calls can run a little past their reserved time before Tavus hangs up
+const TOOL_CALL_GRACE_SECONDS = 120;
+
+const toolCallRateLimiter = new RateLimiter({ windowMs: 60000, maxRequests: 30 });
+
 // Initialize Supabase client with service role key
 const supabase = createClient(
   Deno.env.get('SUPABASE_URL') ?? '',
@@ -57,6 +87,177 @@ async function isSystemAdmin(token: string): Promise<boolean> {
   }
 }
 
+async function hashToolCallToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// The session's status when the token is the one issued to the browser that
+// started it, or null when it isn't
+async function findTokenSession(sessionId: string, token: unknown): Promise<{ status: string } | null> {
+  if (typeof token !== 'string' || !token) return null;
+
+  const { data: session } = await supabase
+    .from('conversations')
+    .select('status, tool_call_token_hash')
+    .eq('id', sessionId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (!session?.tool_call_token_hash) return null;
+  if (!timingSafeEqual(await hashToolCallToken(token), session.tool_call_token_hash)) return null;
+
+  return { status: session.status };
+}
+
+// Tool calls are relayed by the browser running the call, so they are only
+// taken from the one holding the token issued when the call started, and only
+// while the call is within its reserved time
+async function isLiveToolCaller(sessionId: string, token: unknown): Promise<boolean> {
+  const session = await findTokenSession(sessionId, token);
+  if (session?.status !== 'new') return false;
+
+  const { data: usage } = await supabase
+    .from('conversation_usage')
+    .select('started_at, max_call_seconds, ended_at')
+    .eq('conversation_id', sessionId)
+    .maybeSingle();
+
+  return !!usage && !usage.ended_at &&
+    Date.parse(usage.started_at) + (usage.max_call_seconds + TOOL_CALL_GRACE_SECONDS) * 1000 > Date.now();
+}
+
+// Creates the Tavus conversation for a budget reservation and stores it with
+// the caller's language, the persona routing chose and where the caller came
+// from. A continued intake is linked to its intake record, and the persona is
+// caught up on the earlier session through the conversational context.
+async function startTavusConversation(
+  reservation: { usageId: string; maxCallDuration: number },
+  personaRequest: Parameters<typeof selectPersona>[1],
+  source: { firmId: string | null; attribution: AttributionColumns },
+  continuation?: { intakeConversationId: string; context: string }
+) {
+  try {
+    // Routed persona for this caller (no auth required)
+    const { config, ruleId } = await selectPersona(supabase, personaRequest);
+
+    console.log('Using Tavus config:', {
+      name: config.name,
+      persona_id: config.persona_id,
+      language: config.language
+    });
+
+    // Get Tavus API key from environment variable
+    const tavusApiKey = Deno.env.get('TAVUS_API_KEY');
+    if (!tavusApiKey) {
+      console.error('TAVUS_API_KEY environment variable not set');
+      throw new Error('Tavus API key not configured');
+    }
+
+    console.log('Making request to Tavus API...');
+
+    // Create conversation in Tavus
+    const tavusPayload = {
+      persona_id: config.persona_id,
+      custom_greeting: config.custom_greeting,
+      conversational_context: continuation
+        ? [config.conversational_context, continuation.context].filter(Boolean).join('\n\n')
+        : config.conversational_context,
+      callback_url: `${Deno.env.get('SUPABASE_URL')}/functions/v1/tavus-webhook`,
+      // Tavus ends the call when the reserved time runs out
+      properties: {
+        max_call_duration: reservation.maxCallDuration
+      }
+    };
+
+    console.log('Tavus API payload:', tavusPayload);
+
+    const response = await fetch('https://tavusapi.com/v2/conversations', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': tavusApiKey,
+      },
+      body: JSON.stringify(tavusPayload),
+    });
+
+    console.log('Tavus API response status:', response.status);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Tavus API error response:', errorText);
+      throw new Error(`Tavus API error: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    const tavusData = await response.json();
+    console.log('Raw Tavus API response:', JSON.stringify(tavusData, null, 2));
+
+    // Validate and fix the conversation URL
+    if (tavusData.conversation_url) {
+      tavusData.conversation_url = validateAndFixTavusUrl(tavusData.conversation_url);
+    } else {
+      console.error('No conversation_url in Tavus response!');
+      throw new Error('Tavus API did not return a conversation_url');
+    }
+
+    console.log('Final conversation data to return:', {
+      conversation_id: tavusData.conversation_id,
+      conversation_url: tavusData.conversation_url,
+      status: tavusData.status
+    });
+
+    // Store conversation in database (no user_id, public access)
+    const toolCallToken = crypto.randomUUID();
+    const { data: conversation, error: conversationError } = await supabase
+      .from('conversations')
+      .insert({
+        tavus_conversation_id: tavusData.conversation_id,
+        user_id: null, // No user authentication required
+        status: 'new',
+        language: personaRequest.language,
+        tavus_config_id: config.id,
+        persona_rule_id: ruleId,
+        source_firm_id: source.firmId,
+        ...source.attribution,
+        intake_conversation_id: continuation?.intakeConversationId ?? null,
+        tool_call_token_hash: await hashToolCallToken(toolCallToken)
+      })
+      .select()
+      .single();
+
+    if (conversationError) {
+      console.error('Database error:', conversationError);
+      throw conversationError;
+    }
+
+    console.log('Conversation stored in database:', conversation.id);
+
+    await supabase
+      .from('conversation_usage')
+      .update({ conversation_id: conversation.id })
+      .eq('id', reservation.usageId);
+
+    return { ...tavusData, max_call_duration: reservation.maxCallDuration, tool_call_token: toolCallToken };
+  } catch (error) {
+    // Release the reservation if the call never starts
+    await supabase.from('conversation_usage').delete().eq('id', reservation.usageId);
+    throw error;
+  }
+}
+
+function outOfMinutesResponse(reason: string) {
+  console.log(`Conversation refused, budget exhausted: ${reason}`);
+  return new Response(
+    JSON.stringify({ error: 'Out of minutes', out_of_minutes: true, reason }),
+    {
+      status: 429,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  );
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -69,110 +270,170 @@ Deno.serve(async (req) => {
     const url = new URL(req.url);
     const path = url.pathname.split('/').pop();
 
+    if (req.method === 'POST' && path === 'budget') {
+      const { visitor_id } = await req.json().catch(() => ({}));
+      const status = await conversationBudgetStatus(
+        supabase,
+        normalizeVisitorId(visitor_id),
+        await hashIp(clientIp(req))
+      );
+
+      return new Response(
+        JSON.stringify({
+          available: status.remainingSeconds >= MIN_CALL_SECONDS,
+          remaining_seconds: status.remainingSeconds,
+          limited_by: status.limitedBy,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     if (req.method === 'POST' && path === 'create') {
       console.log('=== CREATING TAVUS CONVERSATION (PUBLIC ACCESS) ===');
-      
-      // Get active Tavus configuration (no auth required)
-      const { data: config, error: configError } = await supabase
-        .from('tavus_configs')
-        .select('*')
-        .eq('active', true)
-        .single();
 
-      if (configError) {
-        console.error('Config error:', configError);
-        throw new Error('No active Tavus configuration found');
-      }
+      const { visitor_id, language, campaign, practice_area, embed_token, attribution } = await req.json().catch(() => ({}));
 
-      console.log('Using Tavus config:', {
-        name: config.name,
-        persona_id: config.persona_id,
-        language: config.language
-      });
+      // A firm's website widget only works on the sites the firm allows, as
+      // checked by embed-widget/config when it issued the token
+      const sourceFirm = await resolveEmbedToken(supabase, embed_token);
 
-      // Get Tavus API key from environment variable
-      const tavusApiKey = Deno.env.get('TAVUS_API_KEY');
-      if (!tavusApiKey) {
-        console.error('TAVUS_API_KEY environment variable not set');
-        throw new Error('Tavus API key not configured');
+      // Reserve call time before anything is spent with Tavus
+      const visitorId = normalizeVisitorId(visitor_id);
+      const reservation = await reserveConversationBudget(supabase, visitorId, await hashIp(clientIp(req)));
+
+      if (!reservation.allowed) {
+        return outOfMinutesResponse(reservation.reason);
       }
 
-      console.log('Making request to Tavus API...');
+      const conversationData = await startTavusConversation(reservation, {
+        language: normalizeLanguage(language),
+        campaign: typeof campaign === 'string' ? campaign : null,
+        practiceArea: typeof practice_area === 'string' ? practice_area : null,
+      }, { firmId: sourceFirm?.id ?? null, attribution: normalizeAttribution(attribution) });
 
-      // Create conversation in Tavus
-      const tavusPayload = {
-        persona_id: config.persona_id,
-        custom_greeting: config.custom_greeting,
-        conversational_context: config.conversational_context,
-        callback_url: `${Deno.env.get('SUPABASE_URL')}/functions/v1/tavus-webhook`
-      };
+      return new Response(
+        JSON.stringify({ ...conversationData, visitor_id: visitorId }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-      console.log('Tavus API payload:', tavusPayload);
+    if (req.method === 'POST' && path === 'resume') {
+      const { conversation_id, tool_call_token, visitor_id, intake } = await req.json();
 
-      const response = await fetch('https://tavusapi.com/v2/conversations', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': tavusApiKey,
-        },
-        body: JSON.stringify(tavusPayload),
-      });
+      console.log('=== RESUMING TAVUS CONVERSATION (PUBLIC ACCESS) ===');
+      console.log('Conversation ID:', conversation_id);
 
-      console.log('Tavus API response status:', response.status);
+      const session = typeof conversation_id === 'string'
+        ? await findIntakeSession(supabase, conversation_id)
+        : null;
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Tavus API error response:', errorText);
-        throw new Error(`Tavus API error: ${response.status} ${response.statusText} - ${errorText}`);
+      // Only the browser holding the interrupted session's token can rejoin
+      // its room or continue its intake
+      if (!session || !(await findTokenSession(session.id, tool_call_token))) {
+        throw new Error('Conversation not found');
       }
 
-      const tavusData = await response.json();
-      console.log('Raw Tavus API response:', JSON.stringify(tavusData, null, 2));
+      // Rejoin the same room while Tavus still has it open and reserved time is left
+      const { data: usage } = await supabase
+        .from('conversation_usage')
+        .select('max_call_seconds, started_at')
+        .eq('conversation_id', session.id)
+        .maybeSingle();
+
+      const remaining = usage
+        ? usage.max_call_seconds - Math.floor((Date.now() - new Date(usage.started_at).getTime()) / 1000)
+        : 0;
+      const live = remaining >= MIN_CALL_SECONDS ? await fetchConversationStatus(conversation_id) : null;
+
+      if (live?.status === 'active' && live.conversation_url) {
+        console.log(`Rejoining live conversation with ${remaining}s left`);
+        return new Response(
+          JSON.stringify({
+            mode: 'rejoin',
+            conversation_id,
+            tool_call_token,
+            conversation_url: validateAndFixTavusUrl(live.conversation_url),
+            status: live.status,
+            max_call_duration: remaining,
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // The room is gone: continue in a new session linked to the same intake
+      await settleConversationUsage(supabase, conversation_id);
+
+      const visitorId = normalizeVisitorId(visitor_id);
+      const reservation = await reserveConversationBudget(supabase, visitorId, await hashIp(clientIp(req)));
 
-      // Validate and fix the conversation URL
-      if (tavusData.conversation_url) {
-        tavusData.conversation_url = validateAndFixTavusUrl(tavusData.conversation_url);
-      } else {
-        console.error('No conversation_url in Tavus response!');
-        throw new Error('Tavus API did not return a conversation_url');
+      if (!reservation.allowed) {
+        return outOfMinutesResponse(reservation.reason);
       }
 
-      console.log('Final conversation data to return:', {
-        conversation_id: tavusData.conversation_id,
-        conversation_url: tavusData.conversation_url,
-        status: tavusData.status
-      });
+      const { data: intakeRecord } = await supabase
+        .from('conversations')
+        .select('name, email, phone, case_category, firm_location, language, tavus_config_id, source_firm_id')
+        .eq('id', session.intakeId)
+        .single();
 
-      // Store conversation in database (no user_id, public access)
-      const { data: conversation, error: conversationError } = await supabase
+      // The interrupted session's transcript usually hasn't been stored yet
+      const turns = await loadIntakeTurns(supabase, session.intakeId);
+      const { data: interrupted } = await supabase
         .from('conversations')
-        .insert({
-          tavus_conversation_id: tavusData.conversation_id,
-          user_id: null, // No user authentication required
-          status: 'new'
-        })
-        .select()
+        .select('transcript_received_at')
+        .eq('id', session.id)
         .single();
 
-      if (conversationError) {
-        console.error('Database error:', conversationError);
-        throw conversationError;
+      if (!interrupted?.transcript_received_at) {
+        const rawTranscript = await fetchTranscriptFromTavus(conversation_id);
+        if (rawTranscript) {
+          turns.push(...normalizeTranscript(rawTranscript));
+        }
       }
 
-      console.log('Conversation stored in database:', conversation.id);
+      // Fields captured in the browser but never sent because the call dropped
+      const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+      const fields = Object.fromEntries(
+        INTAKE_FIELDS.map((field) => [field, text(intake?.[field]) ?? intakeRecord?.[field as keyof typeof intakeRecord] ?? null])
+      );
+
+      // The caller continues with the persona they started with
+      const conversationData = await startTavusConversation(reservation, {
+        language: normalizeLanguage(intakeRecord?.language),
+        preferredConfigId: intakeRecord?.tavus_config_id ?? null,
+      }, {
+        // Attribution stays on the intake record the session continues
+        firmId: intakeRecord?.source_firm_id ?? null,
+        attribution: normalizeAttribution(null),
+      }, {
+        intakeConversationId: session.intakeId,
+        context: buildResumeContext({ fields, turns }),
+      });
+
+      console.log(`Continued intake ${session.intakeId} in conversation ${conversationData.conversation_id}`);
 
       return new Response(
-        JSON.stringify(tavusData),
+        JSON.stringify({ mode: 'continue', ...conversationData, visitor_id: visitorId }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
     if (req.method === 'POST' && path === 'end') {
-      const { conversation_id, conversationData } = await req.json();
+      const { conversation_id, tool_call_token, conversationData } = await req.json();
 
       console.log('=== ENDING TAVUS CONVERSATION (PUBLIC ACCESS) ===');
       console.log('Conversation ID:', conversation_id);
 
+      // Only the browser that started the call may end it and report what the
+      // caller verified
+      const session = typeof conversation_id === 'string'
+        ? await findIntakeSession(supabase, conversation_id)
+        : null;
+
+      if (!session || !(await findTokenSession(session.id, tool_call_token))) {
+        throw new Error('Conversation not found');
+      }
+
       // Get Tavus API key from environment variable
       const tavusApiKey = Deno.env.get('TAVUS_API_KEY');
       if (!tavusApiKey) {
@@ -192,30 +453,35 @@ Deno.serve(async (req) => {
 
       console.log('End conversation response status:', response.status);
 
+      await settleConversationUsage(supabase, conversation_id);
+
       if (!response.ok) {
         const errorText = await response.text();
         console.error('Tavus end conversation error:', errorText);
         throw new Error(`Tavus API error: ${response.status} ${response.statusText} - ${errorText}`);
       }
 
-      // Update conversation with collected data and set status to processed
+      // Update the intake record with collected data. The status is left for
+      // lead extraction: its move to processed is what distributes the lead
       const { error: updateError } = await supabase
         .from('conversations')
-        .update({ 
-          status: 'processed',
-          name: conversationData?.name || null,
-          email: conversationData?.email || null,
-          phone: conversationData?.phone || null,
-          case_description: conversationData?.case_description || null,
-          urgency_score: conversationData?.urgency_score || 5
-        })
-        .eq('tavus_conversation_id', conversation_id);
+        .update(intakeUpdateFromClient(conversationData))
+        .eq('id', session.intakeId);
 
       if (updateError) {
         console.error('Database update error:', updateError);
         throw updateError;
       }
 
+      // A continued session only records that it ended; its intake fields
+      // live on the intake record, so it has no lead to distribute
+      if (session.id !== session.intakeId) {
+        await supabase
+          .from('conversations')
+          .update({ status: 'processed' })
+          .eq('id', session.id);
+      }
+
       console.log('Conversation ended and updated successfully');
 
       return new Response(
@@ -224,6 +490,96 @@ Deno.serve(async (req) => {
       );
     }
 
+    if (req.method === 'POST' && path === 'tool-call') {
+      const limit = toolCallRateLimiter.check(req);
+      if (!limit.allowed) {
+        return new Response(
+          JSON.stringify({ error: 'Too many tool calls' }),
+          {
+            status: 429,
+            headers: {
+              ...corsHeaders,
+              'Content-Type': 'application/json',
+              'Retry-After': Math.ceil((limit.resetTime - Date.now()) / 1000).toString(),
+            }
+          }
+        );
+      }
+
+      const body = await req.text();
+      if (body.length > MAX_TOOL_PAYLOAD_BYTES) {
+        throw new Error('Tool call payload too large');
+      }
+
+      const { conversation_id, tool_call_token, tool_call_id, name, arguments: toolArguments, result } = JSON.parse(body);
+
+      if (!conversation_id || !INTAKE_TOOL_NAMES.includes(name) || typeof result?.ok !== 'boolean') {
+        throw new Error('Invalid tool call');
+      }
+
+      const session = await findIntakeSession(supabase, conversation_id);
+      if (!session || !(await isLiveToolCaller(session.id, tool_call_token))) {
+        throw new Error('Conversation not found');
+      }
+
+      const { error: insertError } = await supabase
+        .from('conversation_tool_calls')
+        .insert({
+          conversation_id: session.id,
+          tool_call_id: typeof tool_call_id === 'string' ? tool_call_id : null,
+          tool_name: name,
+          arguments: toolArguments ?? null,
+          result,
+          ok: result.ok,
+        });
+
+      if (insertError) {
+        console.error('Error recording tool call:', insertError);
+        throw insertError;
+      }
+
+      // Emergencies and callback requests can't wait for the end of the call
+      if (result.ok && (name === 'flag_emergency' || name === 'request_callback_time')) {
+        const args = typeof toolArguments === 'string' ? JSON.parse(toolArguments) : toolArguments ?? {};
+        const kind = ESCALATION_KINDS.includes(args.kind) ? args.kind : 'other';
+        const reason = String(args.reason ?? '').slice(0, 500);
+        const { data: intakeRecord } = await supabase
+          .from('conversations')
+          .select('emergency_flagged_at')
+          .eq('id', session.intakeId)
+          .single();
+
+        const update = name === 'flag_emergency'
+          ? {
+              emergency_kind: kind,
+              emergency_reason: reason,
+              emergency_flagged_at: intakeRecord?.emergency_flagged_at ?? new Date().toISOString(),
+            }
+          : { preferred_callback_time: String(args.preferred_time ?? '').slice(0, 200) };
+
+        const { error: updateError } = await supabase
+          .from('conversations')
+          .update(update)
+          .eq('id', session.intakeId);
+
+        if (updateError) {
+          console.error('Error applying tool call to conversation:', updateError);
+        }
+
+        // Only the first flag escalates; repeats update the kind and reason
+        if (name === 'flag_emergency' && !intakeRecord?.emergency_flagged_at) {
+          await openEscalation(supabase, session.intakeId, { trigger: 'tool_call', kind, reason, evidence: null });
+        }
+      }
+
+      console.log(`Recorded ${name} tool call for conversation ${session.id}`);
+
+      return new Response(
+        JSON.stringify({ message: 'Tool call recorded' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // For admin endpoints, check authentication
     const authHeader = req.headers.get('Authorization');
     if (!authHeader) {
@@ -1,4 +1,8 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.39.3';
+import { verifySignature, deriveEventId } from '../_shared/webhook-signature.ts';
+import { storeConversationTranscript } from '../_shared/tavus.ts';
+import { kickJobWorker } from '../_shared/job-queue.ts';
+import { settleConversationUsage } from '../_shared/usage-budget.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,6 +16,141 @@ const supabase = createClient(
   Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
 );
 
+const webhookSecret = Deno.env.get('TAVUS_WEBHOOK_SECRET');
+const signatureToleranceSeconds = Number(Deno.env.get('TAVUS_WEBHOOK_TOLERANCE_SECONDS') ?? '300');
+
+// A claim older than this is assumed to belong to a run that crashed or timed out
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+type WebhookClaim =
+  | { status: 'claimed'; ledgerId: string }
+  | { status: 'duplicate'; ledgerId: string | null };
+
+function parsePayloadForLedger(rawBody: string): unknown {
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    return { raw: rawBody.slice(0, 10000) };
+  }
+}
+
+async function recordRejectedDelivery(rawBody: string, reason: string, signatureTimestamp?: number): Promise<void> {
+  const { error } = await supabase.from('webhook_events').insert({
+    provider: 'tavus',
+    status: 'rejected',
+    rejection_reason: reason,
+    signature_timestamp: signatureTimestamp ? new Date(signatureTimestamp * 1000).toISOString() : null,
+    payload: parsePayloadForLedger(rawBody),
+  });
+
+  if (error) {
+    console.error('Failed to record rejected webhook delivery:', error);
+  }
+}
+
+// Claims an event in the ledger. Redelivered events that already succeeded or are
+// still in flight are recorded as duplicates; previously failed events, and ones
+// whose claim has outlived its lease, are retried.
+async function claimWebhookEvent(
+  eventId: string,
+  eventType: string,
+  conversationId: string,
+  payload: unknown,
+  signatureTimestamp: number
+): Promise<WebhookClaim> {
+  const { data: inserted, error: insertError } = await supabase
+    .from('webhook_events')
+    .insert({
+      provider: 'tavus',
+      event_id: eventId,
+      event_type: eventType,
+      tavus_conversation_id: conversationId,
+      status: 'processing',
+      signature_timestamp: new Date(signatureTimestamp * 1000).toISOString(),
+      payload,
+    })
+    .select('id')
+    .single();
+
+  if (!insertError && inserted) {
+    return { status: 'claimed', ledgerId: inserted.id };
+  }
+
+  // 23505 = unique_violation: this event id has been seen before
+  if (insertError?.code !== '23505') {
+    throw insertError;
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('webhook_events')
+    .select('id, status, attempts, claimed_at')
+    .eq('provider', 'tavus')
+    .eq('event_id', eventId)
+    .in('status', ['processing', 'processed', 'failed'])
+    .single();
+
+  if (existingError) {
+    throw existingError;
+  }
+
+  const leaseExpired = existing.status === 'processing'
+    && (!existing.claimed_at || new Date(existing.claimed_at).getTime() < Date.now() - CLAIM_LEASE_MS);
+
+  if (existing.status === 'failed' || leaseExpired) {
+    // Matching on the status and claim we read keeps two redeliveries from both reclaiming it
+    let reclaim = supabase
+      .from('webhook_events')
+      .update({
+        status: 'processing',
+        attempts: existing.attempts + 1,
+        error: null,
+        claimed_at: new Date().toISOString(),
+      })
+      .eq('id', existing.id)
+      .eq('status', existing.status);
+
+    reclaim = existing.claimed_at ? reclaim.eq('claimed_at', existing.claimed_at) : reclaim.is('claimed_at', null);
+
+    const { data: reclaimed } = await reclaim.select('id');
+
+    if (reclaimed && reclaimed.length > 0) {
+      return { status: 'claimed', ledgerId: existing.id };
+    }
+  }
+
+  const { error: duplicateError } = await supabase.from('webhook_events').insert({
+    provider: 'tavus',
+    event_id: eventId,
+    event_type: eventType,
+    tavus_conversation_id: conversationId,
+    status: 'duplicate',
+    duplicate_of: existing.id,
+    signature_timestamp: new Date(signatureTimestamp * 1000).toISOString(),
+    payload,
+  });
+
+  if (duplicateError) {
+    throw duplicateError;
+  }
+
+  return { status: 'duplicate', ledgerId: existing.id };
+}
+
+async function finishWebhookEvent(ledgerId: string, error?: string): Promise<void> {
+  const { error: updateError } = await supabase
+    .from('webhook_events')
+    .update({
+      status: error ? 'failed' : 'processed',
+      error: error ?? null,
+      processed_at: new Date().toISOString(),
+    })
+    .eq('id', ledgerId);
+
+  if (updateError) {
+    console.error('Failed to update webhook ledger entry:', updateError);
+  }
+}
+
 function extractConversationId(data: any): string | null {
   // Try multiple possible locations for conversation_id
   const possiblePaths = [
@@ -42,127 +181,27 @@ function extractConversationId(data: any): string | null {
   return null;
 }
 
-async function fetchTranscriptFromTavus(conversationId: string): Promise<string | null> {
-  try {
-    const tavusApiKey = Deno.env.get('TAVUS_API_KEY');
-    if (!tavusApiKey) {
-      console.error('TAVUS_API_KEY environment variable not set');
-      return null;
-    }
-
-    console.log(`Fetching transcript for conversation: ${conversationId}`);
-    
-    const response = await fetch(
-      `https://tavusapi.com/v2/conversations/${conversationId}`,
-      {
-        method: 'GET',
-        headers: {
-          'x-api-key': tavusApiKey,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-
-    if (!response.ok) {
-      console.error(`Tavus API error: ${response.status} ${response.statusText}`);
-      const errorText = await response.text();
-      console.error('Error response:', errorText);
-      return null;
-    }
+async function enqueueTranscriptFetch(conversationId: string): Promise<void> {
+  const { error } = await supabase.rpc('enqueue_job', {
+    p_job_type: 'fetch_transcript',
+    p_payload: { tavus_conversation_id: conversationId },
+    p_dedupe_key: `fetch_transcript:${conversationId}`,
+  });
 
-    const data = await response.json();
-    console.log('Tavus API response received:', JSON.stringify(data, null, 2));
-    
-    // Extract transcript from the response - check multiple possible locations
-    let transcript = null;
-    
-    if (data.transcript) {
-      transcript = data.transcript;
-    } else if (data.conversation && data.conversation.transcript) {
-      transcript = data.conversation.transcript;
-    } else if (data.data && data.data.transcript) {
-      transcript = data.data.transcript;
-    }
-    
-    if (!transcript) {
-      console.warn('No transcript found in Tavus response');
-      console.log('Available fields:', Object.keys(data));
-      return null;
-    }
-
-    console.log('Transcript found:', transcript);
-    return transcript;
-  } catch (error) {
-    console.error('Error fetching transcript from Tavus:', error);
-    return null;
+  if (error) {
+    throw new Error(`Failed to queue transcript fetch: ${error.message}`);
   }
 }
 
-async function updateConversationTranscript(conversationId: string, transcript: string): Promise<boolean> {
-  try {
-    console.log(`Updating transcript for conversation: ${conversationId}`);
-    
-    const { data, error } = await supabase
-      .from('conversations')
-      .update({ 
-        transcript: transcript,
-        transcript_received_at: new Date().toISOString()
-      })
-      .eq('tavus_conversation_id', conversationId)
-      .select('id');
-
-    if (error) {
-      console.error('Supabase update error:', error);
-      return false;
-    }
-
-    if (!data || data.length === 0) {
-      console.warn(`No conversation found with tavus_conversation_id: ${conversationId}`);
-      return false;
-    }
+async function enqueueLeadExtraction(conversationId: string): Promise<void> {
+  const { error } = await supabase.rpc('enqueue_job', {
+    p_job_type: 'extract_lead',
+    p_payload: { conversation_id: conversationId },
+    p_dedupe_key: `extract_lead:${conversationId}`,
+  });
 
-    console.log(`Successfully updated transcript for conversation: ${conversationId}`);
-    
-    // Trigger lead extraction process
-    await triggerLeadExtraction(data[0].id, transcript);
-    
-    return true;
-  } catch (error) {
-    console.error('Error updating conversation transcript:', error);
-    return false;
-  }
-}
-
-async function triggerLeadExtraction(conversationId: string, transcript: string): Promise<void> {
-  try {
-    console.log(`Triggering lead extraction for conversation: ${conversationId}`);
-    
-    const response = await fetch(
-      `${Deno.env.get('SUPABASE_URL')}/functions/v1/process-lead-extraction`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
-        },
-        body: JSON.stringify({
-          conversationId,
-          transcript,
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Lead extraction function error:', errorText);
-      return;
-    }
-
-    const result = await response.json();
-    console.log('Lead extraction completed:', result);
-    
-  } catch (error) {
-    console.error('Error triggering lead extraction:', error);
+  if (error) {
+    throw new Error(`Failed to queue lead extraction: ${error.message}`);
   }
 }
 
@@ -183,16 +222,38 @@ Deno.serve(async (req) => {
     );
   }
 
+  let claimedLedgerId: string | null = null;
+
   try {
     // Get the raw request body
     const rawBody = await req.text();
+
+    // Verify the HMAC signature before trusting anything in the payload
+    const verification = await verifySignature(
+      rawBody,
+      req.headers.get('x-tavus-signature'),
+      webhookSecret,
+      { toleranceSeconds: signatureToleranceSeconds }
+    );
+
+    if (!verification.valid) {
+      console.error('Webhook signature verification failed:', verification.reason);
+      await recordRejectedDelivery(rawBody, verification.reason, verification.timestamp);
+      return new Response(
+        JSON.stringify({ error: 'Webhook signature verification failed' }),
+        { 
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
     let webhookData;
     
     try {
       webhookData = JSON.parse(rawBody);
     } catch (parseError) {
       console.error('Invalid JSON in webhook payload:', parseError);
-      console.error('Raw body:', rawBody);
       return new Response(
         JSON.stringify({ error: 'Invalid JSON payload' }),
         { 
@@ -203,30 +264,19 @@ Deno.serve(async (req) => {
     }
 
     console.log('=== WEBHOOK RECEIVED ===');
-    console.log('Full webhook payload:', JSON.stringify(webhookData, null, 2));
-    console.log('Headers:', Object.fromEntries(req.headers.entries()));
+
+    // Payloads carry transcripts and caller details, so only the event type
+    // and ids are logged
+    const eventType = webhookData.event_type || webhookData.type || webhookData.event || 'unknown';
 
     // Extract conversation_id from webhook payload using improved extraction
     const conversationId = extractConversationId(webhookData);
     
     if (!conversationId) {
-      console.error('=== NO CONVERSATION_ID FOUND ===');
-      console.error('Webhook payload structure:');
-      console.error('Top-level keys:', Object.keys(webhookData));
-      
-      // Log nested structure
-      for (const [key, value] of Object.entries(webhookData)) {
-        if (typeof value === 'object' && value !== null) {
-          console.error(`${key} keys:`, Object.keys(value));
-        }
-      }
+      console.error(`No conversation_id found in ${eventType} webhook`);
       
       return new Response(
-        JSON.stringify({ 
-          error: 'Missing conversation_id in payload',
-          received_keys: Object.keys(webhookData),
-          payload: webhookData
-        }),
+        JSON.stringify({ error: 'Missing conversation_id in payload' }),
         { 
           status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -234,10 +284,28 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Check event type
-    const eventType = webhookData.event_type || webhookData.type || webhookData.event || 'unknown';
     console.log(`Processing webhook event: ${eventType} for conversation: ${conversationId}`);
 
+    const eventId = webhookData.event_id || req.headers.get('x-tavus-event-id') || await deriveEventId(rawBody);
+    const claim = await claimWebhookEvent(eventId, eventType, conversationId, webhookData, verification.timestamp);
+
+    if (claim.status === 'claimed') {
+      claimedLedgerId = claim.ledgerId;
+    } else {
+      console.log(`Duplicate delivery of event ${eventId}, acknowledging without reprocessing`);
+      return new Response(
+        JSON.stringify({ 
+          message: 'Duplicate event ignored',
+          event_id: eventId,
+          conversation_id: conversationId
+        }),
+        { 
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
     // Handle different event types - now including application.transcription_ready
     if (eventType === 'conversation.ended' || 
         eventType === 'conversation_ended' || 
@@ -247,48 +315,30 @@ Deno.serve(async (req) => {
         eventType === 'application.transcription_ready' ||
         eventType === 'transcription_ready') {
       
-      console.log('Conversation ended or transcription ready event received, fetching transcript...');
-      
-      // Wait a moment for Tavus to process the transcript (especially for end events)
-      if (eventType !== 'application.transcription_ready' && eventType !== 'transcription_ready') {
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      }
-      
-      // Fetch the full conversation details from Tavus
-      const transcript = await fetchTranscriptFromTavus(conversationId);
-      
-      if (!transcript) {
-        console.error('Failed to fetch transcript from Tavus');
-        // Still return success to avoid webhook retries
-        return new Response(
-          JSON.stringify({ 
-            message: 'Webhook received but no transcript available yet',
-            conversation_id: conversationId,
-            event_type: eventType
-          }),
-          { 
-            status: 200,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          }
-        );
-      }
+      // The browser may never report the end (closed tab), so settle usage here too
+      await settleConversationUsage(supabase, conversationId);
 
-      // Update the conversation in Supabase and trigger lead extraction
-      const updateSuccess = await updateConversationTranscript(conversationId, transcript);
-      
-      if (!updateSuccess) {
-        return new Response(
-          JSON.stringify({ error: 'Failed to update conversation in database' }),
-          { 
-            status: 500,
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-          }
-        );
+      // transcription_ready usually carries the transcript itself; otherwise fetch it from Tavus
+      const transcript = webhookData.properties?.transcript;
+      let message: string;
+
+      if (transcript) {
+        console.log('Transcript included in webhook payload, storing turns...');
+        const storedConversationId = await storeConversationTranscript(supabase, conversationId, transcript);
+        await enqueueLeadExtraction(storedConversationId);
+        message = 'Transcript stored, lead extraction queued';
+      } else {
+        console.log('Conversation ended or transcription ready event received, queueing transcript fetch...');
+        await enqueueTranscriptFetch(conversationId);
+        message = 'Transcript fetch queued';
       }
 
+      await finishWebhookEvent(claim.ledgerId);
+      kickJobWorker();
+
       return new Response(
         JSON.stringify({ 
-          message: 'Transcript stored and lead extraction triggered',
+          message,
           conversation_id: conversationId,
           event_type: eventType
         }),
@@ -300,6 +350,7 @@ Deno.serve(async (req) => {
     } else {
       // For other event types, just acknowledge receipt
       console.log(`Received ${eventType} event for conversation ${conversationId}`);
+      await finishWebhookEvent(claim.ledgerId);
       return new Response(
         JSON.stringify({ 
           message: 'Webhook received',
@@ -315,6 +366,9 @@ Deno.serve(async (req) => {
 
   } catch (error) {
     console.error('Webhook processing error:', error);
+    if (claimedLedgerId) {
+      await finishWebhookEvent(claimedLedgerId, error.message);
+    }
     return new Response(
       JSON.stringify({ 
         error: 'Internal server error',
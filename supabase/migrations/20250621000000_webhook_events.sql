@@ -0,0 +1,75 @@
+/*
+  # Webhook Event Ledger
+
+  1. New Tables
+    - `webhook_events`: Records every inbound webhook delivery
+      - `id` (uuid, primary key): Unique identifier
+      - `provider` (text): Source of the webhook (tavus)
+      - `event_id` (text): Provider event id, or a hash of the payload when none is sent
+      - `event_type` (text): Event type from the payload
+      - `tavus_conversation_id` (text): Conversation the event refers to
+      - `status` (text): processing, processed, failed, duplicate or rejected
+      - `rejection_reason` (text): Why a delivery was rejected (bad signature, stale timestamp, ...)
+      - `duplicate_of` (uuid): Original ledger row for redelivered events
+      - `attempts` (integer): Number of times processing was started for this event
+      - `claimed_at` (timestamptz): When processing was last started; a
+        `processing` claim older than the lease can be taken over
+      - `signature_timestamp` (timestamptz): Timestamp carried in the signature header
+      - `payload` (jsonb): Raw payload as received
+      - `error` (text): Last processing error
+      - `received_at` (timestamptz): When the delivery arrived
+      - `processed_at` (timestamptz): When processing finished
+
+  2. Idempotency
+    - Partial unique index on (provider, event_id) for accepted events, so a
+      redelivery cannot claim the same event twice. Duplicate and rejected
+      deliveries are still inserted as their own rows for operator visibility.
+
+  3. Security
+    - Enable RLS
+    - Only the service role writes; system admins can read
+*/
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider text NOT NULL DEFAULT 'tavus',
+  event_id text,
+  event_type text,
+  tavus_conversation_id text,
+  status text NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'failed', 'duplicate', 'rejected')),
+  rejection_reason text,
+  duplicate_of uuid REFERENCES webhook_events(id) ON DELETE SET NULL,
+  attempts integer NOT NULL DEFAULT 1,
+  claimed_at timestamptz DEFAULT now(),
+  signature_timestamp timestamptz,
+  payload jsonb,
+  error text,
+  received_at timestamptz DEFAULT now(),
+  processed_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_provider_event_id
+  ON webhook_events(provider, event_id)
+  WHERE status IN ('processing', 'processed', 'failed');
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_conversation ON webhook_events(tavus_conversation_id);
+
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only service role can manage webhook events"
+  ON webhook_events
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE POLICY "System admins can view webhook events"
+  ON webhook_events
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'system_admin'
+    AND profiles.deleted_at IS NULL
+  ));
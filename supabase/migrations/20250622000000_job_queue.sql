@@ -0,0 +1,241 @@
+/*
+  # Durable Job Queue
+
+  Replaces the fire-and-forget transcript fetch and lead extraction calls in
+  tavus-webhook with jobs that are retried until they succeed or exhaust
+  their attempts.
+
+  1. New Tables
+    - `job_queue`: Background jobs drained by the job-worker edge function
+      - `id` (uuid, primary key): Unique identifier
+      - `job_type` (text): fetch_transcript or extract_lead
+      - `payload` (jsonb): Job arguments
+      - `dedupe_key` (text): Prevents the same work being queued twice while active
+      - `status` (text): pending, running, completed or dead (dead-letter)
+      - `attempts` (integer): Number of times the job has been claimed
+      - `max_attempts` (integer): Attempts before the job is dead-lettered
+      - `run_at` (timestamptz): Earliest time the job may run (used for backoff)
+      - `locked_at` (timestamptz): When a worker claimed the job
+      - `locked_by` (text): Worker that claimed the job
+      - `last_error` (text): Error from the most recent failed attempt
+      - `completed_at` (timestamptz): When the job completed
+
+  2. New Functions
+    - `enqueue_job`: Queue a job, skipping it if an active job has the same dedupe key
+    - `claim_jobs`: Atomically claim due jobs (SKIP LOCKED), reclaiming stale locks
+      and dead-lettering stale jobs that were on their last attempt
+    - `complete_job`: Mark a job completed
+    - `fail_job`: Record a failure and schedule a retry with exponential backoff,
+      or dead-letter the job once max_attempts is reached
+    - `requeue_job`: Reset a dead or failing job so it runs again (system admins)
+
+  3. Security
+    - Enable RLS
+    - Only the service role writes; system admins can read and requeue
+*/
+
+CREATE TABLE IF NOT EXISTS job_queue (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_type text NOT NULL CHECK (job_type IN ('fetch_transcript', 'extract_lead')),
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  dedupe_key text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'dead')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 6,
+  run_at timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+  locked_by text,
+  last_error text,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_queue_active_dedupe
+  ON job_queue(dedupe_key)
+  WHERE status IN ('pending', 'running') AND dedupe_key IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_job_queue_due ON job_queue(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_job_queue_dead ON job_queue(updated_at DESC) WHERE status = 'dead';
+
+ALTER TABLE job_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only service role can manage jobs"
+  ON job_queue
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE POLICY "System admins can view jobs"
+  ON job_queue
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'system_admin'
+    AND profiles.deleted_at IS NULL
+  ));
+
+CREATE TRIGGER update_job_queue_modtime
+  BEFORE UPDATE ON job_queue
+  FOR EACH ROW
+  EXECUTE FUNCTION update_modified_column();
+
+-- Queue a job; returns the new job id, or NULL if an equivalent job is already active
+CREATE OR REPLACE FUNCTION enqueue_job(
+  p_job_type text,
+  p_payload jsonb,
+  p_dedupe_key text DEFAULT NULL,
+  p_max_attempts integer DEFAULT 6,
+  p_run_at timestamptz DEFAULT now()
+)
+RETURNS uuid AS $$
+DECLARE
+  v_job_id uuid;
+BEGIN
+  INSERT INTO job_queue (job_type, payload, dedupe_key, max_attempts, run_at)
+  VALUES (p_job_type, p_payload, p_dedupe_key, p_max_attempts, p_run_at)
+  ON CONFLICT (dedupe_key) WHERE status IN ('pending', 'running') AND dedupe_key IS NOT NULL
+  DO NOTHING
+  RETURNING id INTO v_job_id;
+
+  RETURN v_job_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Claim due jobs for a worker. Jobs stuck in 'running' past the lock timeout
+-- (e.g. the worker was killed) are treated as due again while they have
+-- attempts left; one that keeps crashing the worker is dead-lettered instead.
+CREATE OR REPLACE FUNCTION claim_jobs(
+  p_worker_id text,
+  p_limit integer DEFAULT 10,
+  p_lock_timeout interval DEFAULT interval '10 minutes'
+)
+RETURNS SETOF job_queue AS $$
+BEGIN
+  UPDATE job_queue
+  SET
+    status = 'dead',
+    last_error = 'Worker lock expired on the last attempt',
+    locked_at = NULL,
+    locked_by = NULL
+  WHERE status = 'running'
+  AND locked_at < now() - p_lock_timeout
+  AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE job_queue j
+  SET
+    status = 'running',
+    attempts = j.attempts + 1,
+    locked_at = now(),
+    locked_by = p_worker_id
+  WHERE j.id IN (
+    SELECT id FROM job_queue
+    WHERE (status = 'pending' AND run_at <= now())
+       OR (status = 'running' AND locked_at < now() - p_lock_timeout AND attempts < max_attempts)
+    ORDER BY run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION complete_job(p_job_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE job_queue
+  SET
+    status = 'completed',
+    completed_at = now(),
+    locked_at = NULL,
+    locked_by = NULL,
+    last_error = NULL
+  WHERE id = p_job_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Backoff doubles from 30 seconds per attempt, capped at one hour
+CREATE OR REPLACE FUNCTION fail_job(p_job_id uuid, p_error text)
+RETURNS text AS $$
+DECLARE
+  v_job RECORD;
+  v_status text;
+BEGIN
+  SELECT attempts, max_attempts INTO v_job
+  FROM job_queue
+  WHERE id = p_job_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_status := CASE WHEN v_job.attempts >= v_job.max_attempts THEN 'dead' ELSE 'pending' END;
+
+  UPDATE job_queue
+  SET
+    status = v_status,
+    last_error = p_error,
+    locked_at = NULL,
+    locked_by = NULL,
+    run_at = CASE
+      WHEN v_status = 'pending'
+      THEN now() + LEAST(interval '30 seconds' * power(2, GREATEST(v_job.attempts - 1, 0)), interval '1 hour')
+      ELSE run_at
+    END
+  WHERE id = p_job_id;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Give a dead-lettered (or backing-off) job a fresh set of attempts. A dead
+-- job whose work has since been queued again under the same dedupe key is
+-- left alone; the newer job does it.
+CREATE OR REPLACE FUNCTION requeue_job(job_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - System admin role required';
+  END IF;
+
+  UPDATE job_queue
+  SET
+    status = 'pending',
+    attempts = 0,
+    run_at = now(),
+    locked_at = NULL,
+    locked_by = NULL
+  WHERE id = job_id
+  AND status IN ('dead', 'pending')
+  AND NOT EXISTS (
+    SELECT 1 FROM job_queue active
+    WHERE active.dedupe_key = job_queue.dedupe_key
+    AND active.status IN ('pending', 'running')
+    AND active.id <> job_queue.id
+  );
+
+  INSERT INTO audit_logs (user_id, action, table_name, record_id)
+  VALUES (auth.uid(), 'requeue_job', 'job_queue', job_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Supabase grants EXECUTE to anon and authenticated by default, so revoking
+-- from PUBLIC alone is not enough
+REVOKE EXECUTE ON FUNCTION enqueue_job(text, jsonb, text, integer, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_jobs(text, integer, interval) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_job(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fail_job(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION requeue_job(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION enqueue_job(text, jsonb, text, integer, timestamptz) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_jobs(text, integer, interval) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_job(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION fail_job(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION requeue_job(uuid) TO authenticated;
@@ -0,0 +1,23 @@
+/*
+  # Lead Extraction Metadata
+
+  1. Modified Tables
+    - `conversations`
+      - `extraction_confidence` (jsonb): Per-field confidence (0-1) reported by the
+        model, keyed by caseCategory, firmLocation, openaiUrgencyScore, name,
+        email, phone and case_description
+      - `extraction_provider` (text): LLM provider and model that produced the
+        extraction, e.g. openai:gpt-4
+      - `extraction_attempts` (integer): 1, or 2 when the model was re-asked
+        after returning an invalid response
+      - `extraction_issues` (jsonb): Email or phone the re-asked model still got
+        wrong, cleared from the lead, with why
+      - `extracted_at` (timestamptz): When extraction completed
+*/
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS extraction_confidence jsonb,
+ADD COLUMN IF NOT EXISTS extraction_provider text,
+ADD COLUMN IF NOT EXISTS extraction_attempts integer,
+ADD COLUMN IF NOT EXISTS extraction_issues jsonb,
+ADD COLUMN IF NOT EXISTS extracted_at timestamptz;
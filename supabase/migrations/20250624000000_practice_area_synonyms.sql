@@ -0,0 +1,370 @@
+/*
+  # Practice Area Synonyms and Classification Triage
+
+  Case categories used to be matched to practice areas by exact (case-insensitive)
+  name, so label drift from the extraction model silently dropped leads.
+
+  1. New Tables
+    - `practice_area_synonyms`: Alternative labels that resolve to a practice area
+      - `id` (uuid, primary key): Unique identifier
+      - `practice_area_id` (uuid): Practice area the synonym resolves to
+      - `synonym` (text): Alternative label, unique case-insensitively
+      - `created_by` (uuid): Admin who added the synonym (NULL for seeded rows)
+
+  2. Modified Tables
+    - `conversations`
+      - `practice_area_id` (uuid): Resolved practice area for the intake
+      - `classification_status` (text): pending, classified, unclassified or triaged
+      - `triaged_by` (uuid): Admin who classified the intake by hand
+      - `triaged_at` (timestamptz): When it was classified by hand
+
+  3. New Functions
+    - `resolve_practice_area`: Resolve free text to a practice area by name, then synonym
+    - `triage_conversation`: Assign a practice area to an unclassified intake,
+      optionally saving its category text as a synonym, and distribute it
+
+  4. Modified Functions
+    - `distribute_lead_with_rotation`: Uses conversations.practice_area_id, falling
+      back to resolve_practice_area; unresolvable intakes are marked unclassified
+
+  5. Security
+    - Anyone authenticated can read synonyms; system admins manage them
+*/
+
+CREATE TABLE IF NOT EXISTS practice_area_synonyms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  practice_area_id uuid REFERENCES practice_areas(id) ON DELETE CASCADE NOT NULL,
+  synonym text NOT NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_practice_area_synonyms_synonym
+  ON practice_area_synonyms(LOWER(TRIM(synonym)));
+CREATE INDEX IF NOT EXISTS idx_practice_area_synonyms_area ON practice_area_synonyms(practice_area_id);
+
+ALTER TABLE practice_area_synonyms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view practice area synonyms"
+  ON practice_area_synonyms
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "System admins can manage practice area synonyms"
+  ON practice_area_synonyms
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'system_admin'
+    AND profiles.deleted_at IS NULL
+  ));
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS practice_area_id uuid REFERENCES practice_areas(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS classification_status text DEFAULT 'pending'
+  CHECK (classification_status IN ('pending', 'classified', 'unclassified', 'triaged')),
+ADD COLUMN IF NOT EXISTS triaged_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS triaged_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_unclassified
+  ON conversations(created_at DESC)
+  WHERE classification_status = 'unclassified';
+
+-- Seed common labels for the default practice areas
+INSERT INTO practice_area_synonyms (practice_area_id, synonym)
+SELECT pa.id, s.synonym
+FROM (VALUES
+  ('Personal Injury', 'Car Accident'),
+  ('Personal Injury', 'Auto Accident'),
+  ('Personal Injury', 'Slip and Fall'),
+  ('Personal Injury', 'Medical Malpractice'),
+  ('Personal Injury', 'Wrongful Death'),
+  ('Family Law', 'Divorce'),
+  ('Family Law', 'Child Custody'),
+  ('Family Law', 'Child Support'),
+  ('Family Law', 'Adoption'),
+  ('Criminal Defense', 'Criminal Law'),
+  ('Criminal Defense', 'DUI'),
+  ('Criminal Defense', 'DWI'),
+  ('Immigration', 'Immigration Law'),
+  ('Immigration', 'Visa'),
+  ('Immigration', 'Green Card'),
+  ('Immigration', 'Deportation'),
+  ('Estate Planning', 'Wills and Trusts'),
+  ('Estate Planning', 'Probate'),
+  ('Business Law', 'Corporate Law'),
+  ('Business Law', 'Contract Dispute'),
+  ('Real Estate', 'Real Estate Law'),
+  ('Real Estate', 'Landlord-Tenant'),
+  ('Real Estate', 'Eviction'),
+  ('Employment Law', 'Wrongful Termination'),
+  ('Employment Law', 'Workplace Discrimination'),
+  ('Bankruptcy', 'Debt Relief'),
+  ('Bankruptcy', 'Chapter 7'),
+  ('Bankruptcy', 'Chapter 13'),
+  ('Intellectual Property', 'Patent'),
+  ('Intellectual Property', 'Trademark'),
+  ('Intellectual Property', 'Copyright'),
+  ('Tax Law', 'Tax Dispute'),
+  ('Tax Law', 'IRS')
+) AS s(area_name, synonym)
+JOIN practice_areas pa ON pa.name = s.area_name
+ON CONFLICT DO NOTHING;
+
+-- Resolve free text to a practice area: exact name first, then synonym
+CREATE OR REPLACE FUNCTION resolve_practice_area(p_category text)
+RETURNS uuid AS $$
+DECLARE
+  v_practice_area_id uuid;
+BEGIN
+  IF p_category IS NULL OR TRIM(p_category) = '' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_practice_area_id
+  FROM practice_areas
+  WHERE LOWER(name) = LOWER(TRIM(p_category))
+  LIMIT 1;
+
+  IF v_practice_area_id IS NULL THEN
+    SELECT practice_area_id INTO v_practice_area_id
+    FROM practice_area_synonyms
+    WHERE LOWER(TRIM(synonym)) = LOWER(TRIM(p_category))
+    LIMIT 1;
+  END IF;
+
+  RETURN v_practice_area_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION distribute_lead_with_rotation(conversation_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_case_category text;
+  v_firm_location text;
+  v_urgency_score decimal;
+  v_practice_area_id uuid;
+  v_location_key text;
+  v_rotation_state RECORD;
+  v_eligible_firms uuid[];
+  v_selected_firm_id uuid;
+  v_rotation_order jsonb;
+  firm_record RECORD;
+BEGIN
+  -- Get conversation details
+  SELECT 
+    c.case_category, 
+    c.firm_location, 
+    COALESCE(c.openai_urgency_score, c.urgency_score::decimal) as urgency_score,
+    c.practice_area_id
+  INTO 
+    v_case_category, 
+    v_firm_location, 
+    v_urgency_score,
+    v_practice_area_id
+  FROM conversations c
+  WHERE c.id = conversation_id;
+
+  -- Fall back to resolving the free-text category (name or synonym)
+  IF v_practice_area_id IS NULL THEN
+    v_practice_area_id := resolve_practice_area(v_case_category);
+  END IF;
+
+  -- Unresolvable categories wait in the triage queue instead of being dropped
+  IF v_practice_area_id IS NULL THEN
+    UPDATE conversations c
+    SET classification_status = 'unclassified'
+    WHERE c.id = conversation_id;
+    RETURN;
+  END IF;
+
+  UPDATE conversations c
+  SET
+    practice_area_id = v_practice_area_id,
+    classification_status = CASE
+      WHEN c.classification_status = 'triaged' THEN 'triaged'
+      ELSE 'classified'
+    END
+  WHERE c.id = conversation_id
+  AND (c.practice_area_id IS DISTINCT FROM v_practice_area_id OR c.classification_status NOT IN ('classified', 'triaged'));
+
+  -- Create location key (state from firm_location)
+  v_location_key := COALESCE(SPLIT_PART(v_firm_location, ',', -1), 'unknown');
+  v_location_key := TRIM(v_location_key);
+
+  -- Find eligible firms based on:
+  -- 1. Active subscription
+  -- 2. Practice area match
+  -- 3. Service area match or remote capable
+  -- 4. Under capacity limits
+  SELECT array_agg(lf.id) INTO v_eligible_firms
+  FROM law_firms lf
+  JOIN law_firm_practice_areas lfpa ON lf.id = lfpa.law_firm_id
+  WHERE lfpa.practice_area_id = v_practice_area_id
+    AND lf.subscription_status = 'active'
+    AND lf.current_month_leads < lf.max_leads_per_month
+    AND (
+      lf.remote_capable = true 
+      OR EXISTS (
+        SELECT 1 FROM firm_service_areas fsa 
+        WHERE fsa.law_firm_id = lf.id 
+        AND (fsa.state = v_location_key OR fsa.city ILIKE '%' || v_firm_location || '%')
+      )
+    );
+
+  -- If no eligible firms, return
+  IF array_length(v_eligible_firms, 1) IS NULL OR array_length(v_eligible_firms, 1) = 0 THEN
+    RETURN;
+  END IF;
+
+  -- Get or create rotation state
+  SELECT * INTO v_rotation_state
+  FROM lead_rotation_state
+  WHERE practice_area_id = v_practice_area_id 
+    AND location_key = v_location_key;
+
+  IF v_rotation_state IS NULL THEN
+    -- Create new rotation state
+    INSERT INTO lead_rotation_state (practice_area_id, location_key, rotation_order)
+    VALUES (v_practice_area_id, v_location_key, to_jsonb(v_eligible_firms))
+    RETURNING * INTO v_rotation_state;
+  END IF;
+
+  -- Update rotation order to include new eligible firms
+  v_rotation_order := to_jsonb(v_eligible_firms);
+
+  -- Find next firm in rotation
+  IF v_rotation_state.last_assigned_firm_id IS NULL THEN
+    v_selected_firm_id := v_eligible_firms[1];
+  ELSE
+    -- Find current position and get next
+    DECLARE
+      current_pos integer;
+      next_pos integer;
+    BEGIN
+      SELECT position - 1 INTO current_pos
+      FROM unnest(v_eligible_firms) WITH ORDINALITY AS t(firm_id, position)
+      WHERE firm_id = v_rotation_state.last_assigned_firm_id;
+
+      IF current_pos IS NULL THEN
+        v_selected_firm_id := v_eligible_firms[1];
+      ELSE
+        next_pos := (current_pos % array_length(v_eligible_firms, 1)) + 1;
+        v_selected_firm_id := v_eligible_firms[next_pos];
+      END IF;
+    END;
+  END IF;
+
+  -- Create lead assignment
+  INSERT INTO lead_assignments (
+    conversation_id,
+    law_firm_id,
+    match_score,
+    assignment_method,
+    status
+  ) VALUES (
+    conversation_id,
+    v_selected_firm_id,
+    1.0, -- Full score for rotation assignment
+    'rotation',
+    'pending'
+  );
+
+  -- Update rotation state
+  UPDATE lead_rotation_state
+  SET 
+    last_assigned_firm_id = v_selected_firm_id,
+    rotation_order = v_rotation_order,
+    updated_at = now()
+  WHERE practice_area_id = v_practice_area_id 
+    AND location_key = v_location_key;
+
+  -- Update firm's lead count
+  UPDATE law_firms
+  SET 
+    current_month_leads = current_month_leads + 1,
+    last_lead_assigned_at = now()
+  WHERE id = v_selected_firm_id;
+
+  -- Update conversation status
+  UPDATE conversations 
+  SET status = 'matched'
+  WHERE id = conversation_id;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log error but don't fail
+    RAISE WARNING 'Error in distribute_lead_with_rotation: %', SQLERRM;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Classify an intake by hand and send it through distribution
+CREATE OR REPLACE FUNCTION triage_conversation(
+  conversation_id uuid,
+  practice_area_id uuid,
+  save_as_synonym boolean DEFAULT false
+)
+RETURNS void AS $$
+DECLARE
+  v_original_category text;
+  v_area_name text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - System admin role required';
+  END IF;
+
+  SELECT name INTO v_area_name
+  FROM practice_areas
+  WHERE id = triage_conversation.practice_area_id;
+
+  IF v_area_name IS NULL THEN
+    RAISE EXCEPTION 'Practice area not found';
+  END IF;
+
+  SELECT c.case_category INTO v_original_category
+  FROM conversations c
+  WHERE c.id = triage_conversation.conversation_id;
+
+  IF save_as_synonym AND v_original_category IS NOT NULL
+     AND LOWER(TRIM(v_original_category)) <> LOWER(v_area_name) THEN
+    INSERT INTO practice_area_synonyms (practice_area_id, synonym, created_by)
+    VALUES (triage_conversation.practice_area_id, TRIM(v_original_category), auth.uid())
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  UPDATE conversations c
+  SET
+    practice_area_id = triage_conversation.practice_area_id,
+    case_category = v_area_name,
+    classification_status = 'triaged',
+    triaged_by = auth.uid(),
+    triaged_at = now()
+  WHERE c.id = triage_conversation.conversation_id;
+
+  UPDATE leads l
+  SET practice_area_id = triage_conversation.practice_area_id
+  WHERE l.conversation_id = triage_conversation.conversation_id;
+
+  INSERT INTO audit_logs (user_id, action, table_name, record_id, old_data, new_data)
+  VALUES (
+    auth.uid(),
+    'triage_conversation',
+    'conversations',
+    triage_conversation.conversation_id,
+    jsonb_build_object('case_category', v_original_category),
+    jsonb_build_object('case_category', v_area_name, 'practice_area_id', triage_conversation.practice_area_id)
+  );
+
+  PERFORM distribute_lead_with_rotation(triage_conversation.conversation_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION triage_conversation(uuid, uuid, boolean) TO authenticated;
@@ -0,0 +1,227 @@
+/*
+  # Versioned Prompt Templates
+
+  1. New Tables
+    - `prompt_templates`: Versions of LLM prompts used by edge functions
+      - `id` (uuid, primary key): Unique identifier
+      - `name` (text): Template family, e.g. lead_extraction
+      - `version` (integer): Version number within the family
+      - `system_prompt` (text): System message
+      - `user_prompt` (text): User message with {{practice_areas}} and {{transcript}} placeholders
+      - `is_active` (boolean): Version used when no traffic weights are set (one per family)
+      - `traffic_weight` (integer): Relative share of traffic for A/B tests (0 = none)
+      - `notes` (text): What changed in this version
+      - `created_by` (uuid): Admin who created the version
+
+  2. Modified Tables
+    - `conversations`
+      - `prompt_template_id` (uuid): Template version used for extraction
+      - `prompt_version` (integer): Version number, kept even if the template is deleted
+
+  3. New Functions
+    - `activate_prompt_template`: Make a version the active one for its family
+    - `get_prompt_version_metrics`: Completeness, urgency distribution and
+      downstream conversion per version (system admins)
+
+  4. Security
+    - Enable RLS
+    - Only system admins and the service role can read or change templates
+*/
+
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  version integer NOT NULL,
+  system_prompt text NOT NULL,
+  user_prompt text NOT NULL,
+  is_active boolean NOT NULL DEFAULT false,
+  traffic_weight integer NOT NULL DEFAULT 0 CHECK (traffic_weight >= 0),
+  notes text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(name, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_active
+  ON prompt_templates(name)
+  WHERE is_active = true;
+
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only service role can manage prompt templates"
+  ON prompt_templates
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE POLICY "System admins can manage prompt templates"
+  ON prompt_templates
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'system_admin'
+    AND profiles.deleted_at IS NULL
+  ));
+
+CREATE TRIGGER update_prompt_templates_modtime
+  BEFORE UPDATE ON prompt_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_modified_column();
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS prompt_template_id uuid REFERENCES prompt_templates(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS prompt_version integer;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_prompt_template ON conversations(prompt_template_id);
+
+-- Version 1 is the prompt process-lead-extraction shipped with
+-- (DEFAULT_EXTRACTION_TEMPLATE in _shared/prompt-templates.ts)
+INSERT INTO prompt_templates (name, version, system_prompt, user_prompt, is_active, notes)
+VALUES (
+  'lead_extraction',
+  1,
+  $prompt$You are a legal data extraction expert. Extract information from conversation transcripts and return valid JSON only.$prompt$,
+  $prompt$
+Analyze this legal conversation transcript and extract the following information:
+
+1. Case Category (exactly one of the category names listed below)
+2. Client Location (city, state format)
+3. Urgency Score (integer 1-10, where 10 is most urgent)
+4. Client Details (name, email, phone if mentioned)
+5. Case Description (summary of legal issue)
+6. Confidence (0-1) for each field; use 0 for fields not mentioned
+
+Categories:
+{{practice_areas}}
+
+Return a JSON object with this structure:
+{
+  "caseCategory": "string",
+  "firmLocation": "string or null",
+  "openaiUrgencyScore": number,
+  "extractedData": {
+    "name": "string or null",
+    "email": "string or null",
+    "phone": "string or null",
+    "case_description": "string or null"
+  },
+  "confidence": {
+    "caseCategory": number,
+    "firmLocation": number,
+    "openaiUrgencyScore": number,
+    "name": number,
+    "email": number,
+    "phone": number,
+    "case_description": number
+  }
+}
+
+Transcript:
+{{transcript}}
+$prompt$,
+  true,
+  'Initial version'
+)
+ON CONFLICT (name, version) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION activate_prompt_template(template_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_name text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - System admin role required';
+  END IF;
+
+  SELECT name INTO v_name FROM prompt_templates WHERE id = template_id;
+
+  IF v_name IS NULL THEN
+    RAISE EXCEPTION 'Prompt template not found';
+  END IF;
+
+  UPDATE prompt_templates SET is_active = false WHERE name = v_name AND is_active = true;
+  UPDATE prompt_templates SET is_active = true WHERE id = template_id;
+
+  INSERT INTO audit_logs (user_id, action, table_name, record_id)
+  VALUES (auth.uid(), 'activate_prompt_template', 'prompt_templates', template_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Compare template versions on the conversations they produced.
+-- Completeness is the share of the six extracted fields that were filled in.
+CREATE OR REPLACE FUNCTION get_prompt_version_metrics(p_name text DEFAULT 'lead_extraction')
+RETURNS TABLE (
+  template_id uuid,
+  version integer,
+  is_active boolean,
+  traffic_weight integer,
+  conversation_count bigint,
+  avg_completeness numeric,
+  unclassified bigint,
+  urgency_low bigint,
+  urgency_medium bigint,
+  urgency_high bigint,
+  avg_urgency numeric,
+  assigned bigint,
+  accepted bigint,
+  converted bigint
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - System admin role required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    pt.id,
+    pt.version,
+    pt.is_active,
+    pt.traffic_weight,
+    COUNT(c.id),
+    ROUND(AVG((
+      (c.case_category IS NOT NULL)::int +
+      (c.firm_location IS NOT NULL)::int +
+      (c.name IS NOT NULL)::int +
+      (c.email IS NOT NULL)::int +
+      (c.phone IS NOT NULL)::int +
+      (c.case_description IS NOT NULL)::int
+    ) / 6.0), 3),
+    COUNT(c.id) FILTER (WHERE c.classification_status = 'unclassified'),
+    COUNT(c.id) FILTER (WHERE c.openai_urgency_score BETWEEN 1 AND 3),
+    COUNT(c.id) FILTER (WHERE c.openai_urgency_score BETWEEN 4 AND 6),
+    COUNT(c.id) FILTER (WHERE c.openai_urgency_score >= 7),
+    ROUND(AVG(c.openai_urgency_score), 2),
+    COUNT(c.id) FILTER (WHERE EXISTS (
+      SELECT 1 FROM lead_assignments la WHERE la.conversation_id = c.id
+    )),
+    COUNT(c.id) FILTER (WHERE EXISTS (
+      SELECT 1 FROM lead_assignments la WHERE la.conversation_id = c.id AND la.status = 'accepted'
+    )),
+    COUNT(c.id) FILTER (WHERE EXISTS (
+      SELECT 1 FROM leads l WHERE l.conversation_id = c.id AND l.status = 'converted'
+    ))
+  FROM prompt_templates pt
+  LEFT JOIN conversations c
+    ON c.prompt_template_id = pt.id
+    AND c.deleted_at IS NULL
+  WHERE pt.name = p_name
+  GROUP BY pt.id, pt.version, pt.is_active, pt.traffic_weight
+  ORDER BY pt.version DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION activate_prompt_template(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_prompt_version_metrics(text) TO authenticated;
@@ -0,0 +1,109 @@
+/*
+  # Structured Transcript Turns
+
+  1. New Tables
+    - `conversation_turns`: One row per speaker turn in a conversation transcript
+      - `id` (uuid, primary key): Unique identifier
+      - `conversation_id` (uuid): Conversation the turn belongs to
+      - `turn_index` (integer): Position of the turn, starting at 0
+      - `speaker` (text): user, assistant or tool
+      - `text` (text): What was said
+      - `start_offset_ms` (integer): Offset from the start of the call, when Tavus provides it
+      - `end_offset_ms` (integer): End offset, when Tavus provides it
+      - `tool_calls` (jsonb): Tool calls made in this turn ([{ id, name, arguments }])
+      - `entities` (jsonb): Entities detected in the turn ([{ type, value }])
+
+  2. New Functions
+    - `replace_conversation_turns`: Atomically replace all turns for a conversation,
+      so re-fetching a transcript is idempotent
+
+  3. Security
+    - Enable RLS
+    - Only the service role writes; system admins and legal admins of an
+      assigned firm can read, mirroring the conversations policies
+*/
+
+CREATE TABLE IF NOT EXISTS conversation_turns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE NOT NULL,
+  turn_index integer NOT NULL,
+  speaker text NOT NULL CHECK (speaker IN ('user', 'assistant', 'tool')),
+  text text NOT NULL DEFAULT '',
+  start_offset_ms integer,
+  end_offset_ms integer,
+  tool_calls jsonb NOT NULL DEFAULT '[]'::jsonb,
+  entities jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(conversation_id, turn_index)
+);
+
+ALTER TABLE conversation_turns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only service role can manage conversation turns"
+  ON conversation_turns
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE POLICY "System admins can view conversation turns"
+  ON conversation_turns
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'system_admin'
+    AND profiles.deleted_at IS NULL
+  ));
+
+CREATE POLICY "Legal admins can view turns of matched conversations"
+  ON conversation_turns
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1
+    FROM profiles
+    JOIN law_firms ON law_firms.contact_email = profiles.email
+    JOIN lead_assignments ON lead_assignments.law_firm_id = law_firms.id
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'legal_admin'
+    AND profiles.deleted_at IS NULL
+    AND law_firms.deleted_at IS NULL
+    AND lead_assignments.conversation_id = conversation_turns.conversation_id
+  ));
+
+CREATE OR REPLACE FUNCTION replace_conversation_turns(p_conversation_id uuid, p_turns jsonb)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM conversation_turns WHERE conversation_id = p_conversation_id;
+
+  INSERT INTO conversation_turns (
+    conversation_id,
+    turn_index,
+    speaker,
+    text,
+    start_offset_ms,
+    end_offset_ms,
+    tool_calls,
+    entities
+  )
+  SELECT
+    p_conversation_id,
+    (turn->>'turn_index')::integer,
+    turn->>'speaker',
+    COALESCE(turn->>'text', ''),
+    (turn->>'start_offset_ms')::integer,
+    (turn->>'end_offset_ms')::integer,
+    COALESCE(turn->'tool_calls', '[]'::jsonb),
+    COALESCE(turn->'entities', '[]'::jsonb)
+  FROM jsonb_array_elements(p_turns) AS turn;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION replace_conversation_turns(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION replace_conversation_turns(uuid, jsonb) TO service_role;
@@ -0,0 +1,20 @@
+/*
+  # Server-side Urgency Scoring
+
+  Urgency used to be computed in the browser from a few keywords and posted
+  with the end-of-call request, so any client could set its own score. It is
+  now computed by the lead extraction function from the transcript.
+
+  1. Modified Tables
+    - `conversations`
+      - `urgency_reasons` (jsonb): Rules that fired, each { rule, label, score,
+        evidence, applied }
+      - `urgency_scored_at` (timestamptz): When urgency_score was last computed
+      - `client_urgency_hint` (integer): Urgency reported by the browser (1-10),
+        kept for comparison only
+*/
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS urgency_reasons jsonb NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS urgency_scored_at timestamptz,
+ADD COLUMN IF NOT EXISTS client_urgency_hint integer CHECK (client_urgency_hint BETWEEN 1 AND 10);
@@ -0,0 +1,16 @@
+/*
+  # Caller-verified Intake Fields
+
+  The in-call intake panel lets the caller correct and confirm the details the
+  avatar captured. Confirmed values are sent when the call ends and take
+  precedence over values later extracted from the transcript.
+
+  1. Modified Tables
+    - `conversations`
+      - `user_verified_fields` (text[]): Intake fields the caller confirmed, any of
+        name, email, phone, case_category and firm_location
+*/
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS user_verified_fields text[] NOT NULL DEFAULT '{}'
+  CHECK (user_verified_fields <@ ARRAY['name', 'email', 'phone', 'case_category', 'firm_location']::text[]);
@@ -0,0 +1,73 @@
+/*
+  # Persona Tool Call Audit
+
+  The intake persona calls tools (record_contact, set_case_category,
+  flag_emergency, request_callback_time) that the browser handles during the
+  call. Every call and its result is recorded here. Only the browser that
+  started the call can record them, with the token it was given, and only
+  while the call is running.
+
+  1. New Tables
+    - `conversation_tool_calls`: One row per tool call
+      - `id` (uuid, primary key): Unique identifier
+      - `conversation_id` (uuid): Conversation the call was made in
+      - `tool_call_id` (text): Tavus tool call id, when provided
+      - `tool_name` (text): Tool that was called
+      - `arguments` (jsonb): Arguments as sent by the persona
+      - `result` (jsonb): Result returned to the persona ({ ok, message } or { ok, error })
+      - `ok` (boolean): Whether the call was accepted
+
+  2. Modified Tables
+    - `conversations`
+      - `emergency_kind` (text): detention, violence, medical, deadline or other
+      - `emergency_reason` (text): Reason given by the persona
+      - `emergency_flagged_at` (timestamptz): When flag_emergency was first called
+      - `preferred_callback_time` (text): Callback time in the caller's words
+      - `tool_call_token_hash` (text): SHA-256 of the token the browser sends
+        with its tool calls
+
+  3. Security
+    - Enable RLS
+    - Only the service role writes; system admins can read
+*/
+
+CREATE TABLE IF NOT EXISTS conversation_tool_calls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE NOT NULL,
+  tool_call_id text,
+  tool_name text NOT NULL,
+  arguments jsonb,
+  result jsonb NOT NULL,
+  ok boolean NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_tool_calls_conversation
+  ON conversation_tool_calls(conversation_id, created_at);
+
+ALTER TABLE conversation_tool_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only service role can manage conversation tool calls"
+  ON conversation_tool_calls
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE POLICY "System admins can view conversation tool calls"
+  ON conversation_tool_calls
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'system_admin'
+    AND profiles.deleted_at IS NULL
+  ));
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS emergency_kind text
+  CHECK (emergency_kind IN ('detention', 'violence', 'medical', 'deadline', 'other')),
+ADD COLUMN IF NOT EXISTS emergency_reason text,
+ADD COLUMN IF NOT EXISTS emergency_flagged_at timestamptz,
+ADD COLUMN IF NOT EXISTS preferred_callback_time text,
+ADD COLUMN IF NOT EXISTS tool_call_token_hash text;
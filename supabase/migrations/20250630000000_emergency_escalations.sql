@@ -0,0 +1,233 @@
+/*
+  # Emergency Escalations
+
+  Callers who disclose imminent danger, an arrest in progress or a hearing
+  within days are escalated instead of waiting in the normal distribution
+  flow. An escalation is opened by the persona's flag_emergency tool call,
+  by crisis keywords in the stored transcript turns, or by an urgency score
+  at or above the escalation threshold.
+
+  1. New Tables
+    - `escalations`: One open escalation per conversation
+      - `id` (uuid, primary key): Unique identifier
+      - `conversation_id` (uuid): Escalated conversation
+      - `trigger` (text): tool_call, keyword or urgency_threshold
+      - `kind` (text): detention, violence, medical, deadline or other
+      - `reason` (text): Why the conversation was escalated
+      - `evidence` (text): Transcript excerpt that triggered it, if any
+      - `status` (text): open, acknowledged or resolved
+      - `paged_firm_ids` (uuid[]): On-call firms that were paged
+      - `paged_at` (timestamptz): When the page went out
+      - `acknowledged_by` / `acknowledged_at`: Admin who picked it up
+      - `resolved_by` / `resolved_at` / `resolution_notes`: How it was closed
+
+  2. Modified Tables
+    - `law_firms`
+      - `emergency_on_call` (boolean): Firm accepts emergency pages
+      - `emergency_phone` (text): Number paged by SMS for emergencies
+    - `lead_assignments`
+      - `assignment_method` accepts 'escalation'
+      - Assignments for escalated conversations have no expires_at, so they skip
+        the normal 24-hour expiry
+    - `job_queue`
+      - `job_type` accepts page_escalation
+    - `notifications`
+      - `type` accepts emergency_escalation
+
+  3. New Functions
+    - `open_escalation`: Open (or return the already open) escalation for a
+      conversation and queue the on-call page
+    - `update_escalation_status`: Acknowledge or resolve an escalation (system admins)
+
+  4. Security
+    - Enable RLS
+    - Only the service role writes escalations; system admins can read them
+*/
+
+CREATE TABLE IF NOT EXISTS escalations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE NOT NULL,
+  trigger text NOT NULL CHECK (trigger IN ('tool_call', 'keyword', 'urgency_threshold')),
+  kind text NOT NULL DEFAULT 'other'
+    CHECK (kind IN ('detention', 'violence', 'medical', 'deadline', 'other')),
+  reason text NOT NULL,
+  evidence text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+  paged_firm_ids uuid[] NOT NULL DEFAULT '{}',
+  paged_at timestamptz,
+  acknowledged_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  acknowledged_at timestamptz,
+  resolved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  resolution_notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Later triggers for the same call attach to the open escalation
+CREATE UNIQUE INDEX IF NOT EXISTS idx_escalations_open_conversation
+  ON escalations(conversation_id)
+  WHERE status <> 'resolved';
+CREATE INDEX IF NOT EXISTS idx_escalations_status ON escalations(status, created_at DESC);
+
+CREATE TRIGGER update_escalations_modtime
+  BEFORE UPDATE ON escalations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_modified_column();
+
+ALTER TABLE escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only service role can manage escalations"
+  ON escalations
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE POLICY "System admins can view escalations"
+  ON escalations
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'system_admin'
+    AND profiles.deleted_at IS NULL
+  ));
+
+ALTER TABLE law_firms
+ADD COLUMN IF NOT EXISTS emergency_on_call boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS emergency_phone text;
+
+ALTER TABLE lead_assignments DROP CONSTRAINT IF EXISTS lead_assignments_assignment_method_check;
+ALTER TABLE lead_assignments
+ADD CONSTRAINT lead_assignments_assignment_method_check
+  CHECK (assignment_method IN ('auto', 'manual', 'rotation', 'escalation'));
+
+ALTER TABLE job_queue DROP CONSTRAINT IF EXISTS job_queue_job_type_check;
+ALTER TABLE job_queue
+ADD CONSTRAINT job_queue_job_type_check
+  CHECK (job_type IN ('fetch_transcript', 'extract_lead', 'page_escalation'));
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications
+ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('lead_matched', 'lead_claimed', 'payment_due', 'subscription_expiring', 'new_review', 'lead_expired', 'lead_converted', 'emergency_escalation'));
+
+-- Escalated conversations skip the 24-hour expiry on every assignment,
+-- however the assignment was created
+CREATE OR REPLACE FUNCTION clear_escalated_assignment_expiry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM escalations e
+    WHERE e.conversation_id = NEW.conversation_id
+    AND e.status <> 'resolved'
+  ) THEN
+    NEW.expires_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clear_escalated_assignment_expiry ON lead_assignments;
+CREATE TRIGGER clear_escalated_assignment_expiry
+  BEFORE INSERT ON lead_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_escalated_assignment_expiry();
+
+CREATE OR REPLACE FUNCTION open_escalation(
+  p_conversation_id uuid,
+  p_trigger text,
+  p_kind text,
+  p_reason text,
+  p_evidence text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_escalation_id uuid;
+BEGIN
+  SELECT id INTO v_escalation_id
+  FROM escalations
+  WHERE conversation_id = p_conversation_id
+  AND status <> 'resolved';
+
+  IF v_escalation_id IS NOT NULL THEN
+    RETURN v_escalation_id;
+  END IF;
+
+  INSERT INTO escalations (conversation_id, trigger, kind, reason, evidence)
+  VALUES (p_conversation_id, p_trigger, COALESCE(p_kind, 'other'), p_reason, p_evidence)
+  RETURNING id INTO v_escalation_id;
+
+  UPDATE lead_assignments
+  SET expires_at = NULL
+  WHERE conversation_id = p_conversation_id
+  AND status = 'pending';
+
+  PERFORM enqueue_job(
+    'page_escalation',
+    jsonb_build_object('escalation_id', v_escalation_id),
+    'page_escalation:' || v_escalation_id
+  );
+
+  RETURN v_escalation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION open_escalation(uuid, text, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION open_escalation(uuid, text, text, text, text) TO service_role;
+
+CREATE OR REPLACE FUNCTION update_escalation_status(
+  escalation_id uuid,
+  new_status text,
+  notes text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_old_status text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - System admin role required';
+  END IF;
+
+  IF new_status NOT IN ('acknowledged', 'resolved') THEN
+    RAISE EXCEPTION 'Invalid escalation status: %', new_status;
+  END IF;
+
+  SELECT status INTO v_old_status
+  FROM escalations
+  WHERE id = update_escalation_status.escalation_id;
+
+  IF v_old_status IS NULL THEN
+    RAISE EXCEPTION 'Escalation not found';
+  END IF;
+
+  UPDATE escalations e
+  SET
+    status = new_status,
+    acknowledged_by = COALESCE(e.acknowledged_by, auth.uid()),
+    acknowledged_at = COALESCE(e.acknowledged_at, now()),
+    resolved_by = CASE WHEN new_status = 'resolved' THEN auth.uid() ELSE e.resolved_by END,
+    resolved_at = CASE WHEN new_status = 'resolved' THEN now() ELSE e.resolved_at END,
+    resolution_notes = COALESCE(notes, e.resolution_notes)
+  WHERE e.id = update_escalation_status.escalation_id;
+
+  INSERT INTO audit_logs (user_id, action, table_name, record_id, old_data, new_data)
+  VALUES (
+    auth.uid(),
+    'update_escalation_status',
+    'escalations',
+    update_escalation_status.escalation_id,
+    jsonb_build_object('status', v_old_status),
+    jsonb_build_object('status', new_status, 'notes', notes)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION update_escalation_status(uuid, text, text) TO authenticated;
@@ -0,0 +1,302 @@
+/*
+  # Conversation Time Budgets
+
+  Call length used to be limited only by a browser cookie. Budgets are now
+  enforced when tavus-conversation creates the call: each call reserves
+  time against a per-visitor daily budget (keyed by an anonymous device id
+  and a hash of the caller's IP), a global daily budget and a daily spend
+  cap, and Tavus is told to end the call at max_call_duration.
+
+  1. New Tables
+    - `usage_budgets`: Single row of limits, edited by system admins
+      - `max_call_seconds` (integer): Longest a single call may run
+      - `visitor_daily_seconds` (integer): Talk time per visitor per day
+      - `global_daily_seconds` (integer): Talk time across all visitors per day
+      - `cost_per_minute_usd` (numeric): Tavus cost used to estimate spend
+      - `daily_spend_cap_usd` (numeric): Estimated spend at which new calls stop
+    - `conversation_usage`: One row per call reservation
+      - `conversation_id` (uuid): Conversation, set once Tavus has created it
+      - `visitor_id` (text): Anonymous device id from the browser
+      - `ip_hash` (text): SHA-256 of the caller's IP
+      - `max_call_seconds` (integer): Duration reserved and sent to Tavus
+      - `started_at` / `ended_at` (timestamptz): Call window
+      - `duration_seconds` (integer): Actual length, once the call has ended
+
+  2. New Functions
+    - `reserve_conversation_budget`: Check every budget and reserve a call, or
+      say which limit was hit
+    - `conversation_budget_status`: Same check without reserving, for the
+      public flow to show the out-of-minutes screen up front
+    - `settle_conversation_usage`: Record the actual length of an ended call
+    - `get_usage_summary`: Minutes and estimated spend per day (system admins)
+    - `update_usage_budget`: Change the limits (system admins)
+
+  3. Security
+    - Enable RLS
+    - Only the service role writes usage; system admins can read it
+*/
+
+CREATE TABLE IF NOT EXISTS usage_budgets (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  max_call_seconds integer NOT NULL DEFAULT 300 CHECK (max_call_seconds BETWEEN 60 AND 3600),
+  visitor_daily_seconds integer NOT NULL DEFAULT 300 CHECK (visitor_daily_seconds >= 0),
+  global_daily_seconds integer NOT NULL DEFAULT 36000 CHECK (global_daily_seconds >= 0),
+  cost_per_minute_usd numeric(8,4) NOT NULL DEFAULT 0.37 CHECK (cost_per_minute_usd >= 0),
+  daily_spend_cap_usd numeric(10,2) NOT NULL DEFAULT 100 CHECK (daily_spend_cap_usd >= 0),
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO usage_budgets (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+CREATE TRIGGER update_usage_budgets_modtime
+  BEFORE UPDATE ON usage_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_modified_column();
+
+CREATE TABLE IF NOT EXISTS conversation_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid REFERENCES conversations(id) ON DELETE SET NULL,
+  visitor_id text NOT NULL,
+  ip_hash text,
+  max_call_seconds integer NOT NULL,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  duration_seconds integer CHECK (duration_seconds >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_usage_started ON conversation_usage(started_at);
+CREATE INDEX IF NOT EXISTS idx_conversation_usage_visitor ON conversation_usage(visitor_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_conversation_usage_ip ON conversation_usage(ip_hash, started_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversation_usage_conversation ON conversation_usage(conversation_id);
+
+ALTER TABLE usage_budgets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only service role can manage usage budgets"
+  ON usage_budgets
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE POLICY "System admins can view usage budgets"
+  ON usage_budgets
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'system_admin'
+    AND profiles.deleted_at IS NULL
+  ));
+
+CREATE POLICY "Only service role can manage conversation usage"
+  ON conversation_usage
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE POLICY "System admins can view conversation usage"
+  ON conversation_usage
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'system_admin'
+    AND profiles.deleted_at IS NULL
+  ));
+
+-- Seconds this visitor may still talk today and the limit that caps it.
+-- Calls still in progress count at their full reservation, since Tavus will
+-- let them run that long.
+CREATE OR REPLACE FUNCTION conversation_budget_status(
+  p_visitor_id text,
+  p_ip_hash text DEFAULT NULL
+)
+RETURNS TABLE (remaining_seconds integer, limited_by text) AS $$
+DECLARE
+  v_budget usage_budgets%ROWTYPE;
+  v_day_start timestamptz := date_trunc('day', now());
+  v_visitor_used integer;
+  v_global_used integer;
+  v_visitor_left integer;
+  v_global_left integer;
+  v_spend_left integer;
+BEGIN
+  SELECT * INTO v_budget FROM usage_budgets WHERE id;
+
+  SELECT COALESCE(SUM(COALESCE(duration_seconds, max_call_seconds)), 0)
+  INTO v_visitor_used
+  FROM conversation_usage
+  WHERE started_at >= v_day_start
+  AND (visitor_id = p_visitor_id OR (p_ip_hash IS NOT NULL AND ip_hash = p_ip_hash));
+
+  SELECT COALESCE(SUM(COALESCE(duration_seconds, max_call_seconds)), 0)
+  INTO v_global_used
+  FROM conversation_usage
+  WHERE started_at >= v_day_start;
+
+  v_visitor_left := v_budget.visitor_daily_seconds - v_visitor_used;
+  v_global_left := v_budget.global_daily_seconds - v_global_used;
+  v_spend_left := CASE
+    WHEN v_budget.cost_per_minute_usd = 0 THEN v_budget.max_call_seconds
+    ELSE floor((v_budget.daily_spend_cap_usd - v_global_used / 60.0 * v_budget.cost_per_minute_usd)
+               / v_budget.cost_per_minute_usd * 60)::integer
+  END;
+
+  remaining_seconds := GREATEST(LEAST(v_budget.max_call_seconds, v_visitor_left, v_global_left, v_spend_left), 0);
+  limited_by := CASE
+    WHEN remaining_seconds = v_budget.max_call_seconds THEN NULL
+    WHEN v_spend_left <= LEAST(v_visitor_left, v_global_left) THEN 'spend_cap'
+    WHEN v_global_left <= v_visitor_left THEN 'global_limit'
+    ELSE 'visitor_limit'
+  END;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+CREATE OR REPLACE FUNCTION reserve_conversation_budget(
+  p_visitor_id text,
+  p_ip_hash text DEFAULT NULL,
+  p_min_seconds integer DEFAULT 60
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_status record;
+  v_usage_id uuid;
+BEGIN
+  -- Serialize reservations so concurrent calls can't overspend the budget
+  PERFORM pg_advisory_xact_lock(hashtext('reserve_conversation_budget'));
+
+  SELECT * INTO v_status FROM conversation_budget_status(p_visitor_id, p_ip_hash);
+
+  IF v_status.remaining_seconds < p_min_seconds THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', v_status.limited_by);
+  END IF;
+
+  INSERT INTO conversation_usage (visitor_id, ip_hash, max_call_seconds)
+  VALUES (p_visitor_id, p_ip_hash, v_status.remaining_seconds)
+  RETURNING id INTO v_usage_id;
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'usage_id', v_usage_id,
+    'max_call_duration', v_status.remaining_seconds
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Idempotent: the browser and the Tavus webhook may both report the end
+CREATE OR REPLACE FUNCTION settle_conversation_usage(p_tavus_conversation_id text)
+RETURNS void AS $$
+BEGIN
+  UPDATE conversation_usage u
+  SET
+    ended_at = now(),
+    duration_seconds = LEAST(EXTRACT(EPOCH FROM (now() - u.started_at))::integer, u.max_call_seconds)
+  FROM conversations c
+  WHERE c.id = u.conversation_id
+  AND c.tavus_conversation_id = p_tavus_conversation_id
+  AND u.ended_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the edge functions reserve and settle minutes; Supabase would otherwise
+-- let anon and authenticated call these too
+REVOKE EXECUTE ON FUNCTION conversation_budget_status(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reserve_conversation_budget(text, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_conversation_usage(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION conversation_budget_status(text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION reserve_conversation_budget(text, text, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION settle_conversation_usage(text) TO service_role;
+
+CREATE OR REPLACE FUNCTION get_usage_summary(p_days integer DEFAULT 14)
+RETURNS TABLE (
+  day date,
+  conversations bigint,
+  visitors bigint,
+  seconds bigint,
+  estimated_spend_usd numeric
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - System admin role required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    date_trunc('day', u.started_at)::date,
+    COUNT(*),
+    COUNT(DISTINCT u.visitor_id),
+    SUM(COALESCE(u.duration_seconds, u.max_call_seconds))::bigint,
+    ROUND(SUM(COALESCE(u.duration_seconds, u.max_call_seconds)) / 60.0 * b.cost_per_minute_usd, 2)
+  FROM conversation_usage u
+  CROSS JOIN usage_budgets b
+  WHERE u.started_at >= date_trunc('day', now()) - (p_days - 1) * interval '1 day'
+  GROUP BY 1, b.cost_per_minute_usd
+  ORDER BY 1 DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_usage_summary(integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION update_usage_budget(
+  max_call_seconds integer,
+  visitor_daily_seconds integer,
+  global_daily_seconds integer,
+  cost_per_minute_usd numeric,
+  daily_spend_cap_usd numeric
+)
+RETURNS void AS $$
+DECLARE
+  v_old usage_budgets%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - System admin role required';
+  END IF;
+
+  SELECT * INTO v_old FROM usage_budgets WHERE id;
+
+  UPDATE usage_budgets b
+  SET
+    max_call_seconds = update_usage_budget.max_call_seconds,
+    visitor_daily_seconds = update_usage_budget.visitor_daily_seconds,
+    global_daily_seconds = update_usage_budget.global_daily_seconds,
+    cost_per_minute_usd = update_usage_budget.cost_per_minute_usd,
+    daily_spend_cap_usd = update_usage_budget.daily_spend_cap_usd,
+    updated_by = auth.uid()
+  WHERE b.id;
+
+  INSERT INTO audit_logs (user_id, action, table_name, record_id, old_data, new_data)
+  VALUES (
+    auth.uid(),
+    'update_usage_budget',
+    'usage_budgets',
+    NULL,
+    to_jsonb(v_old),
+    jsonb_build_object(
+      'max_call_seconds', max_call_seconds,
+      'visitor_daily_seconds', visitor_daily_seconds,
+      'global_daily_seconds', global_daily_seconds,
+      'cost_per_minute_usd', cost_per_minute_usd,
+      'daily_spend_cap_usd', daily_spend_cap_usd
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION update_usage_budget(integer, integer, integer, numeric, numeric) TO authenticated;
@@ -0,0 +1,45 @@
+/*
+  # Resumable Intake Sessions
+
+  A dropped connection or a reloaded tab used to orphan the Tavus session
+  and send the caller back to the start. The caller can now rejoin the same
+  room while it is live, or continue in a new session seeded with the
+  earlier conversation. Every session of one intake is linked to the first
+  conversation, which remains the intake record: intake fields, urgency,
+  escalations and lead distribution all live on it.
+
+  1. Modified Tables
+    - `conversations`
+      - `intake_conversation_id` (uuid): For a continued session, the
+        conversation holding the intake record; null for the original session
+
+  2. New Functions
+    - `intake_session_ids`: The intake record's id followed by its continued
+      sessions in the order they started
+*/
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS intake_conversation_id uuid REFERENCES conversations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_intake_conversation
+  ON conversations(intake_conversation_id, created_at)
+  WHERE intake_conversation_id IS NOT NULL;
+
+-- Sessions always point at the original conversation, never at another
+-- continuation, so one hop finds the intake record
+ALTER TABLE conversations
+ADD CONSTRAINT conversations_intake_not_self
+  CHECK (intake_conversation_id IS NULL OR intake_conversation_id <> id);
+
+CREATE OR REPLACE FUNCTION intake_session_ids(p_intake_conversation_id uuid)
+RETURNS uuid[] AS $$
+  SELECT p_intake_conversation_id || COALESCE(
+    array_agg(id ORDER BY created_at),
+    '{}'
+  )
+  FROM conversations
+  WHERE intake_conversation_id = p_intake_conversation_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION intake_session_ids(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION intake_session_ids(uuid) TO service_role;
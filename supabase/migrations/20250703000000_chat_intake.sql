@@ -0,0 +1,25 @@
+/*
+  # Text Chat Intake
+
+  Callers who can't or won't use camera and microphone (denied permissions,
+  low bandwidth) can complete the intake by text instead. A chat intake is a
+  conversations row with no Tavus conversation; its messages are stored as
+  conversation_turns as they are sent, and ending the chat queues the same
+  lead extraction and distribution as a video call.
+
+  1. Modified Tables
+    - `conversations`
+      - `channel` (text): 'video' for Tavus calls, 'chat' for text intakes
+      - `tavus_conversation_id` is now nullable; only video rows have one
+*/
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS channel text NOT NULL DEFAULT 'video'
+  CHECK (channel IN ('video', 'chat'));
+
+ALTER TABLE conversations
+ALTER COLUMN tavus_conversation_id DROP NOT NULL;
+
+ALTER TABLE conversations
+ADD CONSTRAINT conversations_channel_tavus_id
+  CHECK ((channel = 'video') = (tavus_conversation_id IS NOT NULL));
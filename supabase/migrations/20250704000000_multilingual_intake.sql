@@ -0,0 +1,216 @@
+/*
+  # Multilingual Intake
+
+  Callers pick (or have detected) the language of their intake. One persona
+  can be active per language instead of one overall, and the conversation
+  records the caller's language. Lead extraction reads the transcript in the
+  original language and writes the case description in English. Firms list
+  the languages they speak, and lead rotation prefers those firms when any
+  eligible firm speaks the caller's language.
+
+  1. Modified Tables
+    - `tavus_configs`
+      - `language` is now required; at most one active config per language
+    - `conversations`
+      - `language` (text): ISO 639-1 code of the caller's language
+    - `law_firms`
+      - `languages` (text[]): ISO 639-1 codes of languages the firm speaks
+
+  2. Modified Functions
+    - `distribute_lead_with_rotation`: Narrows eligible firms to those that
+      speak the caller's language when there are any
+*/
+
+UPDATE tavus_configs SET language = 'en' WHERE language IS NULL;
+
+ALTER TABLE tavus_configs
+ALTER COLUMN language SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tavus_configs_active_language
+  ON tavus_configs(language)
+  WHERE active;
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS language text NOT NULL DEFAULT 'en';
+
+ALTER TABLE law_firms
+ADD COLUMN IF NOT EXISTS languages text[] NOT NULL DEFAULT '{en}';
+
+CREATE INDEX IF NOT EXISTS idx_law_firms_languages ON law_firms USING gin(languages);
+
+CREATE OR REPLACE FUNCTION distribute_lead_with_rotation(conversation_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_case_category text;
+  v_firm_location text;
+  v_urgency_score decimal;
+  v_practice_area_id uuid;
+  v_language text;
+  v_location_key text;
+  v_rotation_state RECORD;
+  v_eligible_firms uuid[];
+  v_selected_firm_id uuid;
+  v_rotation_order jsonb;
+  firm_record RECORD;
+BEGIN
+  -- Get conversation details
+  SELECT 
+    c.case_category, 
+    c.firm_location, 
+    COALESCE(c.openai_urgency_score, c.urgency_score::decimal) as urgency_score,
+    c.practice_area_id,
+    c.language
+  INTO 
+    v_case_category, 
+    v_firm_location, 
+    v_urgency_score,
+    v_practice_area_id,
+    v_language
+  FROM conversations c
+  WHERE c.id = conversation_id;
+
+  -- Fall back to resolving the free-text category (name or synonym)
+  IF v_practice_area_id IS NULL THEN
+    v_practice_area_id := resolve_practice_area(v_case_category);
+  END IF;
+
+  -- Unresolvable categories wait in the triage queue instead of being dropped
+  IF v_practice_area_id IS NULL THEN
+    UPDATE conversations c
+    SET classification_status = 'unclassified'
+    WHERE c.id = conversation_id;
+    RETURN;
+  END IF;
+
+  UPDATE conversations c
+  SET
+    practice_area_id = v_practice_area_id,
+    classification_status = CASE
+      WHEN c.classification_status = 'triaged' THEN 'triaged'
+      ELSE 'classified'
+    END
+  WHERE c.id = conversation_id
+  AND (c.practice_area_id IS DISTINCT FROM v_practice_area_id OR c.classification_status NOT IN ('classified', 'triaged'));
+
+  -- Create location key (state from firm_location)
+  v_location_key := COALESCE(SPLIT_PART(v_firm_location, ',', -1), 'unknown');
+  v_location_key := TRIM(v_location_key);
+
+  -- Find eligible firms based on:
+  -- 1. Active subscription
+  -- 2. Practice area match
+  -- 3. Service area match or remote capable
+  -- 4. Under capacity limits
+  SELECT array_agg(lf.id) INTO v_eligible_firms
+  FROM law_firms lf
+  JOIN law_firm_practice_areas lfpa ON lf.id = lfpa.law_firm_id
+  WHERE lfpa.practice_area_id = v_practice_area_id
+    AND lf.subscription_status = 'active'
+    AND lf.current_month_leads < lf.max_leads_per_month
+    AND (
+      lf.remote_capable = true 
+      OR EXISTS (
+        SELECT 1 FROM firm_service_areas fsa 
+        WHERE fsa.law_firm_id = lf.id 
+        AND (fsa.state = v_location_key OR fsa.city ILIKE '%' || v_firm_location || '%')
+      )
+    );
+
+  -- If no eligible firms, return
+  IF array_length(v_eligible_firms, 1) IS NULL OR array_length(v_eligible_firms, 1) = 0 THEN
+    RETURN;
+  END IF;
+
+  -- Prefer firms that speak the client's language; if none do, rotate
+  -- through every eligible firm as before
+  IF EXISTS (
+    SELECT 1 FROM law_firms lf
+    WHERE lf.id = ANY(v_eligible_firms)
+    AND v_language = ANY(lf.languages)
+  ) THEN
+    SELECT array_agg(lf.id ORDER BY array_position(v_eligible_firms, lf.id)) INTO v_eligible_firms
+    FROM law_firms lf
+    WHERE lf.id = ANY(v_eligible_firms)
+    AND v_language = ANY(lf.languages);
+  END IF;
+
+  -- Get or create rotation state
+  SELECT * INTO v_rotation_state
+  FROM lead_rotation_state
+  WHERE practice_area_id = v_practice_area_id 
+    AND location_key = v_location_key;
+
+  IF v_rotation_state IS NULL THEN
+    -- Create new rotation state
+    INSERT INTO lead_rotation_state (practice_area_id, location_key, rotation_order)
+    VALUES (v_practice_area_id, v_location_key, to_jsonb(v_eligible_firms))
+    RETURNING * INTO v_rotation_state;
+  END IF;
+
+  -- Update rotation order to include new eligible firms
+  v_rotation_order := to_jsonb(v_eligible_firms);
+
+  -- Find next firm in rotation
+  IF v_rotation_state.last_assigned_firm_id IS NULL THEN
+    v_selected_firm_id := v_eligible_firms[1];
+  ELSE
+    -- Find current position and get next
+    DECLARE
+      current_pos integer;
+      next_pos integer;
+    BEGIN
+      SELECT position - 1 INTO current_pos
+      FROM unnest(v_eligible_firms) WITH ORDINALITY AS t(firm_id, position)
+      WHERE firm_id = v_rotation_state.last_assigned_firm_id;
+
+      IF current_pos IS NULL THEN
+        v_selected_firm_id := v_eligible_firms[1];
+      ELSE
+        next_pos := (current_pos % array_length(v_eligible_firms, 1)) + 1;
+        v_selected_firm_id := v_eligible_firms[next_pos];
+      END IF;
+    END;
+  END IF;
+
+  -- Create lead assignment
+  INSERT INTO lead_assignments (
+    conversation_id,
+    law_firm_id,
+    match_score,
+    assignment_method,
+    status
+  ) VALUES (
+    conversation_id,
+    v_selected_firm_id,
+    1.0, -- Full score for rotation assignment
+    'rotation',
+    'pending'
+  );
+
+  -- Update rotation state
+  UPDATE lead_rotation_state
+  SET 
+    last_assigned_firm_id = v_selected_firm_id,
+    rotation_order = v_rotation_order,
+    updated_at = now()
+  WHERE practice_area_id = v_practice_area_id 
+    AND location_key = v_location_key;
+
+  -- Update firm's lead count
+  UPDATE law_firms
+  SET 
+    current_month_leads = current_month_leads + 1,
+    last_lead_assigned_at = now()
+  WHERE id = v_selected_firm_id;
+
+  -- Update conversation status
+  UPDATE conversations 
+  SET status = 'matched'
+  WHERE id = conversation_id;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log error but don't fail
+    RAISE WARNING 'Error in distribute_lead_with_rotation: %', SQLERRM;
+END;
+$$ LANGUAGE plpgsql;
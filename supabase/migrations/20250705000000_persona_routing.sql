@@ -0,0 +1,157 @@
+/*
+  # Persona Routing Rules
+
+  Several Tavus personas can be active at once. Each new conversation is
+  routed to one of them by rules matching the landing-page campaign, the
+  caller's language, the practice-area entry point and the time of day;
+  rules of the same priority split traffic by weight. Without a matching
+  rule the caller gets an active persona for their language. The chosen
+  config is stored on the conversation so personas can be compared on the
+  leads they produce.
+
+  1. New Tables
+    - `persona_routing_rules`: Conditions that send a conversation to a persona
+      - `id` (uuid, primary key): Unique identifier
+      - `name` (text): Label shown to admins
+      - `tavus_config_id` (uuid): Persona the rule routes to
+      - `priority` (integer): Lower numbers are checked first
+      - `campaign` (text): Landing-page campaign (utm_campaign) to match, case-insensitive
+      - `language` (text): ISO 639-1 language to match
+      - `practice_area_id` (uuid): Practice-area entry point to match
+      - `start_hour`, `end_hour` (smallint): Hours of the day the rule applies,
+        start inclusive, end exclusive; a range past midnight wraps (22 → 6)
+      - `timezone` (text): IANA time zone for the hours
+      - `traffic_weight` (integer): Share of traffic among matching rules of the same priority
+      - `active` (boolean): Whether the rule is used
+      - Empty conditions match every request
+
+  2. Modified Tables
+    - `tavus_configs`
+      - Any number of configs can be active per language
+    - `conversations`
+      - `tavus_config_id` (uuid): Persona the conversation used
+      - `persona_rule_id` (uuid): Routing rule that chose it, null for the language default
+
+  3. New Functions
+    - `get_persona_metrics`: Completeness and downstream conversion per persona (system admins)
+
+  4. Security
+    - Enable RLS
+    - Only system admins and the service role can read or change routing rules
+*/
+
+DROP INDEX IF EXISTS idx_tavus_configs_active_language;
+
+CREATE TABLE IF NOT EXISTS persona_routing_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  tavus_config_id uuid NOT NULL REFERENCES tavus_configs(id) ON DELETE CASCADE,
+  priority integer NOT NULL DEFAULT 100,
+  campaign text,
+  language text,
+  practice_area_id uuid REFERENCES practice_areas(id) ON DELETE CASCADE,
+  start_hour smallint CHECK (start_hour BETWEEN 0 AND 23),
+  end_hour smallint CHECK (end_hour BETWEEN 0 AND 23),
+  timezone text NOT NULL DEFAULT 'UTC',
+  traffic_weight integer NOT NULL DEFAULT 1 CHECK (traffic_weight > 0),
+  active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT persona_routing_rules_hours CHECK ((start_hour IS NULL) = (end_hour IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_persona_routing_rules_active
+  ON persona_routing_rules(priority)
+  WHERE active;
+
+ALTER TABLE persona_routing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only service role can manage persona routing rules"
+  ON persona_routing_rules
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE POLICY "System admins can manage persona routing rules"
+  ON persona_routing_rules
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'system_admin'
+    AND profiles.deleted_at IS NULL
+  ));
+
+CREATE TRIGGER update_persona_routing_rules_modtime
+  BEFORE UPDATE ON persona_routing_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_modified_column();
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS tavus_config_id uuid REFERENCES tavus_configs(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS persona_rule_id uuid REFERENCES persona_routing_rules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_tavus_config ON conversations(tavus_config_id);
+
+-- Compare personas on the conversations they held. Completeness is the share
+-- of the six extracted fields that were filled in.
+CREATE OR REPLACE FUNCTION get_persona_metrics()
+RETURNS TABLE (
+  config_id uuid,
+  name text,
+  language text,
+  active boolean,
+  conversation_count bigint,
+  avg_completeness numeric,
+  avg_urgency numeric,
+  assigned bigint,
+  accepted bigint,
+  converted bigint
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - System admin role required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    tc.id,
+    tc.name,
+    tc.language,
+    tc.active,
+    COUNT(c.id),
+    ROUND(AVG((
+      (c.case_category IS NOT NULL)::int +
+      (c.firm_location IS NOT NULL)::int +
+      (c.name IS NOT NULL)::int +
+      (c.email IS NOT NULL)::int +
+      (c.phone IS NOT NULL)::int +
+      (c.case_description IS NOT NULL)::int
+    ) / 6.0), 3),
+    ROUND(AVG(c.openai_urgency_score), 2),
+    COUNT(c.id) FILTER (WHERE EXISTS (
+      SELECT 1 FROM lead_assignments la WHERE la.conversation_id = c.id
+    )),
+    COUNT(c.id) FILTER (WHERE EXISTS (
+      SELECT 1 FROM lead_assignments la WHERE la.conversation_id = c.id AND la.status = 'accepted'
+    )),
+    COUNT(c.id) FILTER (WHERE EXISTS (
+      SELECT 1 FROM leads l WHERE l.conversation_id = c.id AND l.status = 'converted'
+    ))
+  FROM tavus_configs tc
+  LEFT JOIN conversations c
+    ON c.tavus_config_id = tc.id
+    AND c.deleted_at IS NULL
+  GROUP BY tc.id, tc.name, tc.language, tc.active
+  ORDER BY tc.active DESC, tc.name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_persona_metrics() TO authenticated;
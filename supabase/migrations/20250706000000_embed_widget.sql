@@ -0,0 +1,267 @@
+/*
+  # Embeddable Intake Widget
+
+  Firms can put the intake on their own website with a script tag that opens
+  the conversation flow in an iframe. The widget only runs on origins the
+  firm allows, and leads that start there are assigned to that firm instead
+  of going through the rotation: always for an exclusive widget, or first
+  for a preferred one, which falls back to the rotation when the firm passes.
+
+  1. Modified Tables
+    - `law_firms`
+      - `embed_enabled` (boolean): Whether the firm's widget accepts callers
+      - `embed_allowed_origins` (text[]): Website origins allowed to embed it
+      - `embed_routing` (text): 'exclusive' or 'preferred'
+    - `conversations`
+      - `source_firm_id` (uuid): Firm whose widget the conversation started in
+    - `lead_assignments`
+      - `assignment_method` accepts 'embed'
+
+  2. Modified Functions
+    - `distribute_lead_with_rotation`: Assigns widget leads to the source firm
+      before considering the rotation
+*/
+
+ALTER TABLE law_firms
+ADD COLUMN IF NOT EXISTS embed_enabled boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS embed_allowed_origins text[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS embed_routing text NOT NULL DEFAULT 'exclusive'
+  CHECK (embed_routing IN ('exclusive', 'preferred'));
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS source_firm_id uuid REFERENCES law_firms(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_source_firm ON conversations(source_firm_id);
+
+ALTER TABLE lead_assignments DROP CONSTRAINT IF EXISTS lead_assignments_assignment_method_check;
+ALTER TABLE lead_assignments
+ADD CONSTRAINT lead_assignments_assignment_method_check
+  CHECK (assignment_method IN ('auto', 'manual', 'rotation', 'escalation', 'embed'));
+
+CREATE OR REPLACE FUNCTION distribute_lead_with_rotation(conversation_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_case_category text;
+  v_firm_location text;
+  v_urgency_score decimal;
+  v_practice_area_id uuid;
+  v_language text;
+  v_source_firm_id uuid;
+  v_embed_routing text;
+  v_source_firm_active boolean;
+  v_location_key text;
+  v_rotation_state RECORD;
+  v_eligible_firms uuid[];
+  v_selected_firm_id uuid;
+  v_rotation_order jsonb;
+  firm_record RECORD;
+BEGIN
+  -- Get conversation details
+  SELECT 
+    c.case_category, 
+    c.firm_location, 
+    COALESCE(c.openai_urgency_score, c.urgency_score::decimal) as urgency_score,
+    c.practice_area_id,
+    c.language,
+    c.source_firm_id
+  INTO 
+    v_case_category, 
+    v_firm_location, 
+    v_urgency_score,
+    v_practice_area_id,
+    v_language,
+    v_source_firm_id
+  FROM conversations c
+  WHERE c.id = conversation_id;
+
+  -- Fall back to resolving the free-text category (name or synonym)
+  IF v_practice_area_id IS NULL THEN
+    v_practice_area_id := resolve_practice_area(v_case_category);
+  END IF;
+
+  -- Unresolvable categories wait in the triage queue instead of being dropped
+  IF v_practice_area_id IS NULL THEN
+    UPDATE conversations c
+    SET classification_status = 'unclassified'
+    WHERE c.id = conversation_id;
+    RETURN;
+  END IF;
+
+  UPDATE conversations c
+  SET
+    practice_area_id = v_practice_area_id,
+    classification_status = CASE
+      WHEN c.classification_status = 'triaged' THEN 'triaged'
+      ELSE 'classified'
+    END
+  WHERE c.id = conversation_id
+  AND (c.practice_area_id IS DISTINCT FROM v_practice_area_id OR c.classification_status NOT IN ('classified', 'triaged'));
+
+  -- Leads from a firm's website widget go to that firm instead of the
+  -- rotation. An exclusive widget keeps the lead with the firm even after it
+  -- passes; a preferred one falls back to the rotation when the firm passes or
+  -- has no active subscription.
+  IF v_source_firm_id IS NOT NULL THEN
+    SELECT lf.embed_routing, lf.subscription_status = 'active'
+    INTO v_embed_routing, v_source_firm_active
+    FROM law_firms lf
+    WHERE lf.id = v_source_firm_id;
+
+    IF EXISTS (
+      SELECT 1 FROM lead_assignments la
+      WHERE la.conversation_id = distribute_lead_with_rotation.conversation_id
+      AND la.law_firm_id = v_source_firm_id
+    ) THEN
+      IF v_embed_routing = 'exclusive' THEN
+        RETURN;
+      END IF;
+    ELSIF v_embed_routing = 'exclusive' OR v_source_firm_active THEN
+      -- The firm's own leads don't count against its monthly lead limit
+      INSERT INTO lead_assignments (
+        conversation_id,
+        law_firm_id,
+        match_score,
+        assignment_method,
+        status
+      ) VALUES (
+        conversation_id,
+        v_source_firm_id,
+        1.0,
+        'embed',
+        'pending'
+      );
+
+      UPDATE law_firms
+      SET last_lead_assigned_at = now()
+      WHERE id = v_source_firm_id;
+
+      UPDATE conversations
+      SET status = 'matched'
+      WHERE id = conversation_id;
+
+      RETURN;
+    END IF;
+  END IF;
+
+  -- Create location key (state from firm_location)
+  v_location_key := COALESCE(SPLIT_PART(v_firm_location, ',', -1), 'unknown');
+  v_location_key := TRIM(v_location_key);
+
+  -- Find eligible firms based on:
+  -- 1. Active subscription
+  -- 2. Practice area match
+  -- 3. Service area match or remote capable
+  -- 4. Under capacity limits
+  SELECT array_agg(lf.id) INTO v_eligible_firms
+  FROM law_firms lf
+  JOIN law_firm_practice_areas lfpa ON lf.id = lfpa.law_firm_id
+  WHERE lfpa.practice_area_id = v_practice_area_id
+    AND lf.subscription_status = 'active'
+    AND lf.current_month_leads < lf.max_leads_per_month
+    AND (
+      lf.remote_capable = true 
+      OR EXISTS (
+        SELECT 1 FROM firm_service_areas fsa 
+        WHERE fsa.law_firm_id = lf.id 
+        AND (fsa.state = v_location_key OR fsa.city ILIKE '%' || v_firm_location || '%')
+      )
+    );
+
+  -- If no eligible firms, return
+  IF array_length(v_eligible_firms, 1) IS NULL OR array_length(v_eligible_firms, 1) = 0 THEN
+    RETURN;
+  END IF;
+
+  -- Prefer firms that speak the client's language; if none do, rotate
+  -- through every eligible firm as before
+  IF EXISTS (
+    SELECT 1 FROM law_firms lf
+    WHERE lf.id = ANY(v_eligible_firms)
+    AND v_language = ANY(lf.languages)
+  ) THEN
+    SELECT array_agg(lf.id ORDER BY array_position(v_eligible_firms, lf.id)) INTO v_eligible_firms
+    FROM law_firms lf
+    WHERE lf.id = ANY(v_eligible_firms)
+    AND v_language = ANY(lf.languages);
+  END IF;
+
+  -- Get or create rotation state
+  SELECT * INTO v_rotation_state
+  FROM lead_rotation_state
+  WHERE practice_area_id = v_practice_area_id 
+    AND location_key = v_location_key;
+
+  IF v_rotation_state IS NULL THEN
+    -- Create new rotation state
+    INSERT INTO lead_rotation_state (practice_area_id, location_key, rotation_order)
+    VALUES (v_practice_area_id, v_location_key, to_jsonb(v_eligible_firms))
+    RETURNING * INTO v_rotation_state;
+  END IF;
+
+  -- Update rotation order to include new eligible firms
+  v_rotation_order := to_jsonb(v_eligible_firms);
+
+  -- Find next firm in rotation
+  IF v_rotation_state.last_assigned_firm_id IS NULL THEN
+    v_selected_firm_id := v_eligible_firms[1];
+  ELSE
+    -- Find current position and get next
+    DECLARE
+      current_pos integer;
+      next_pos integer;
+    BEGIN
+      SELECT position - 1 INTO current_pos
+      FROM unnest(v_eligible_firms) WITH ORDINALITY AS t(firm_id, position)
+      WHERE firm_id = v_rotation_state.last_assigned_firm_id;
+
+      IF current_pos IS NULL THEN
+        v_selected_firm_id := v_eligible_firms[1];
+      ELSE
+        next_pos := (current_pos % array_length(v_eligible_firms, 1)) + 1;
+        v_selected_firm_id := v_eligible_firms[next_pos];
+      END IF;
+    END;
+  END IF;
+
+  -- Create lead assignment
+  INSERT INTO lead_assignments (
+    conversation_id,
+    law_firm_id,
+    match_score,
+    assignment_method,
+    status
+  ) VALUES (
+    conversation_id,
+    v_selected_firm_id,
+    1.0, -- Full score for rotation assignment
+    'rotation',
+    'pending'
+  );
+
+  -- Update rotation state
+  UPDATE lead_rotation_state
+  SET 
+    last_assigned_firm_id = v_selected_firm_id,
+    rotation_order = v_rotation_order,
+    updated_at = now()
+  WHERE practice_area_id = v_practice_area_id 
+    AND location_key = v_location_key;
+
+  -- Update firm's lead count
+  UPDATE law_firms
+  SET 
+    current_month_leads = current_month_leads + 1,
+    last_lead_assigned_at = now()
+  WHERE id = v_selected_firm_id;
+
+  -- Update conversation status
+  UPDATE conversations 
+  SET status = 'matched'
+  WHERE id = conversation_id;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log error but don't fail
+    RAISE WARNING 'Error in distribute_lead_with_rotation: %', SQLERRM;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,81 @@
+/*
+  # Campaign Attribution
+
+  The intake page records where a caller came from on their first visit (UTM
+  parameters, referrer and landing page) and sends it with each new
+  conversation, so spend on a source or campaign can be weighed against the
+  leads and conversions it produces.
+
+  1. Modified Tables
+    - `conversations`
+      - `utm_source`, `utm_medium`, `utm_campaign`, `utm_term`, `utm_content` (text):
+        UTM parameters from the landing URL, lower-cased
+      - `referrer` (text): External page that linked to the site
+      - `landing_page` (text): Path and query the caller first landed on
+      - `first_visit_at` (timestamptz): When the caller first visited
+      - Continued sessions keep the attribution on the intake record they continue
+
+  2. New Functions
+    - `get_attribution_report`: Conversations, leads, accepted assignments and
+      conversions per source and campaign (system admins)
+*/
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS utm_source text,
+ADD COLUMN IF NOT EXISTS utm_medium text,
+ADD COLUMN IF NOT EXISTS utm_campaign text,
+ADD COLUMN IF NOT EXISTS utm_term text,
+ADD COLUMN IF NOT EXISTS utm_content text,
+ADD COLUMN IF NOT EXISTS referrer text,
+ADD COLUMN IF NOT EXISTS landing_page text,
+ADD COLUMN IF NOT EXISTS first_visit_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_attribution
+  ON conversations(utm_source, utm_campaign);
+
+-- Funnel per source and campaign over the last p_days days. Without a
+-- utm_source the referrer's host is the source, and "direct" when there's
+-- neither.
+CREATE OR REPLACE FUNCTION get_attribution_report(p_days integer DEFAULT 30)
+RETURNS TABLE (
+  source text,
+  campaign text,
+  conversations bigint,
+  leads bigint,
+  accepted bigint,
+  converted bigint
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - System admin role required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    COALESCE(c.utm_source, lower(substring(c.referrer from '^https?://(?:www\.)?([^/:?#]+)')), 'direct'),
+    c.utm_campaign,
+    COUNT(c.id),
+    COUNT(c.id) FILTER (WHERE EXISTS (
+      SELECT 1 FROM leads l WHERE l.conversation_id = c.id
+    )),
+    COUNT(c.id) FILTER (WHERE EXISTS (
+      SELECT 1 FROM lead_assignments la WHERE la.conversation_id = c.id AND la.status = 'accepted'
+    )),
+    COUNT(c.id) FILTER (WHERE EXISTS (
+      SELECT 1 FROM leads l WHERE l.conversation_id = c.id AND l.status = 'converted'
+    ))
+  FROM conversations c
+  WHERE c.deleted_at IS NULL
+  AND c.intake_conversation_id IS NULL
+  AND c.created_at >= date_trunc('day', now()) - (p_days - 1) * interval '1 day'
+  GROUP BY 1, 2
+  ORDER BY 3 DESC, 1, 2;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_attribution_report(integer) TO authenticated;
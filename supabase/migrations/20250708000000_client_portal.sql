@@ -0,0 +1,166 @@
+/*
+  # Client Portal
+
+  Callers can come back after intake to follow their case. They ask for a
+  link with the case reference from the thank-you screen (CASE- and the first
+  eight characters of the intake conversation's id) and the email they gave;
+  the link opens a portal showing the case status, the firm handling it,
+  appointments and a message thread with the firm.
+
+  1. New Tables
+    - `client_portal_tokens`: Magic-link tokens for the portal
+      - `id` (uuid, primary key): Unique identifier
+      - `conversation_id` (uuid): Intake conversation the token opens
+      - `token_hash` (text): SHA-256 of the token; the token itself is only in the email
+      - `expires_at` (timestamptz): When the link stops working
+      - `last_used_at` (timestamptz): Last time the portal was opened with it
+
+  2. New Functions
+    - `is_firm_admin`: Whether the current user administers a firm, by
+      profile firm or by the firm's contact email
+    - `find_client_case`: Intake conversation for a case reference and email (service role)
+    - `get_case_messages`: Client thread for a lead the firm accepted, marking the
+      client's messages read (legal admins)
+    - `send_case_message`: Replies to the client as the firm (legal admins)
+
+  3. Security
+    - Enable RLS on `client_portal_tokens`; only the service role can use it
+    - Client messages are written by the client-portal function with `sender_type = 'client'`
+*/
+
+CREATE TABLE IF NOT EXISTS client_portal_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  token_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  last_used_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_portal_tokens_conversation
+  ON client_portal_tokens(conversation_id);
+
+ALTER TABLE client_portal_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only service role can manage client portal tokens"
+  ON client_portal_tokens
+  FOR ALL
+  TO service_role
+  USING (true);
+
+-- Continued sessions share their intake's reference, so only intake records
+-- match. The prefix is compared whole, never as a pattern.
+CREATE OR REPLACE FUNCTION find_client_case(p_prefix text, p_email text)
+RETURNS uuid AS $$
+  SELECT id
+  FROM conversations
+  WHERE p_prefix ~* '^[0-9a-f]{8}$'
+  AND left(id::text, 8) = lower(p_prefix)
+  AND lower(email) = lower(trim(p_email))
+  AND intake_conversation_id IS NULL
+  AND deleted_at IS NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION find_client_case(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_client_case(text, text) TO service_role;
+
+-- Firm membership: a legal admin belongs to a firm through their profile or by
+-- being its contact email
+CREATE OR REPLACE FUNCTION is_firm_admin(p_law_firm_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM profiles p
+    LEFT JOIN law_firms lf ON lf.id = p_law_firm_id
+    WHERE p.id = auth.uid()
+    AND p.role = 'legal_admin'
+    AND p.deleted_at IS NULL
+    AND (p.law_firm_id = p_law_firm_id OR lf.contact_email = p.email)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION is_firm_admin(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_case_messages(p_conversation_id uuid)
+RETURNS TABLE (
+  id uuid,
+  sender_type text,
+  message text,
+  read boolean,
+  created_at timestamp
+) AS $$
+DECLARE
+  v_lead_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM lead_assignments la
+    WHERE la.conversation_id = p_conversation_id
+    AND la.status = 'accepted'
+    AND is_firm_admin(la.law_firm_id)
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - Accepted lead required';
+  END IF;
+
+  SELECT l.id INTO v_lead_id
+  FROM leads l
+  WHERE l.conversation_id = p_conversation_id
+  ORDER BY l.created_at
+  LIMIT 1;
+
+  UPDATE messages m
+  SET read = true, read_at = now()
+  WHERE m.lead_id = v_lead_id
+  AND m.sender_type = 'client'
+  AND NOT m.read;
+
+  RETURN QUERY
+  SELECT m.id, m.sender_type, m.message, m.read, m.created_at
+  FROM messages m
+  WHERE m.lead_id = v_lead_id
+  ORDER BY m.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION send_case_message(p_conversation_id uuid, p_message text)
+RETURNS uuid AS $$
+DECLARE
+  v_lead_id uuid;
+  v_message_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM lead_assignments la
+    WHERE la.conversation_id = p_conversation_id
+    AND la.status = 'accepted'
+    AND is_firm_admin(la.law_firm_id)
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - Accepted lead required';
+  END IF;
+
+  IF trim(coalesce(p_message, '')) = '' THEN
+    RAISE EXCEPTION 'Message is empty';
+  END IF;
+
+  SELECT l.id INTO v_lead_id
+  FROM leads l
+  WHERE l.conversation_id = p_conversation_id
+  ORDER BY l.created_at
+  LIMIT 1;
+
+  IF v_lead_id IS NULL THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+
+  INSERT INTO messages (lead_id, sender_id, sender_type, message)
+  VALUES (v_lead_id, auth.uid(), 'firm', left(trim(p_message), 2000))
+  RETURNING id INTO v_message_id;
+
+  RETURN v_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_case_messages(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION send_case_message(uuid, text) TO authenticated;
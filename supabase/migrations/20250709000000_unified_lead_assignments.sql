@@ -0,0 +1,368 @@
+/*
+  # Unified Lead Assignments
+
+  Leads used to be distributed twice: `match_lead_to_firms` wrote `matches`
+  for every firm with the practice area when a lead row was created, while
+  `distribute_lead_with_rotation` wrote `lead_assignments` for one firm when
+  the conversation was processed. Firms could see a lead as unassigned on one
+  screen and assigned on another. The rotation is now the only distribution
+  engine and `lead_assignments` the only assignment model; existing matches
+  are carried over and the matches table is removed.
+
+  1. Data Migration
+    - Every live match becomes an assignment on the lead's conversation, unless
+      the firm already has one there
+      - Statuses carry over; anything else becomes 'expired'
+      - Pending matches expire 24 hours after they were created
+
+  2. Removed
+    - `matches` table, with its policies and triggers
+    - `match_lead_to_firms`, `trigger_match_lead` and `match_lead_trigger`
+    - `expire_old_matches` (replaced by `expire_lead_assignments`)
+
+  3. New Functions
+    - `expire_lead_assignments`: Expires pending assignments past their deadline
+
+  4. Modified Functions
+    - `handle_lead_response`: Runs as definer so redistribution on a pass can
+      assign another firm; only the firm's admins or system admins may respond.
+      Accepting claims the lead for the firm.
+    - `trigger_lead_notification`: Fires on new assignments with `assignmentId`
+    - `log_lead_activity`: Expires other firms' pending assignments on claim
+    - `update_firm_metrics`, `cleanup_old_deleted_records`: Read assignments
+
+  5. Security
+    - Firm admins see assignments, conversations, leads and lead activities
+      through their assignments, whichever way they are linked to the firm
+      (`is_firm_admin`)
+    - Firms no longer update assignments directly; they respond through
+      `handle_lead_response`
+*/
+
+-- 1. Carry existing matches over
+INSERT INTO lead_assignments (
+  conversation_id,
+  law_firm_id,
+  match_score,
+  assignment_method,
+  status,
+  assigned_at,
+  responded_at,
+  expires_at,
+  created_at
+)
+SELECT DISTINCT ON (l.conversation_id, m.law_firm_id)
+  l.conversation_id,
+  m.law_firm_id,
+  m.match_score,
+  'auto',
+  CASE WHEN m.status IN ('pending', 'accepted', 'rejected') THEN m.status ELSE 'expired' END,
+  m.created_at,
+  CASE WHEN m.status = 'pending' THEN NULL ELSE m.updated_at END,
+  m.created_at + INTERVAL '24 hours',
+  m.created_at
+FROM matches m
+JOIN leads l ON l.id = m.lead_id
+WHERE m.deleted_at IS NULL
+AND l.conversation_id IS NOT NULL
+AND NOT EXISTS (
+  SELECT 1 FROM lead_assignments la
+  WHERE la.conversation_id = l.conversation_id
+  AND la.law_firm_id = m.law_firm_id
+)
+ORDER BY l.conversation_id, m.law_firm_id, m.created_at DESC;
+
+-- 2. Retire the lead-keyed matcher
+DROP TRIGGER IF EXISTS match_lead_trigger ON leads;
+DROP FUNCTION IF EXISTS trigger_match_lead();
+DROP FUNCTION IF EXISTS match_lead_to_firms(uuid);
+DROP FUNCTION IF EXISTS expire_old_matches();
+
+-- 3. Firm policies, by either link to the firm (is_firm_admin)
+DROP POLICY IF EXISTS "Law firms can view own assignments" ON lead_assignments;
+CREATE POLICY "Law firms can view own assignments"
+  ON lead_assignments
+  FOR SELECT
+  TO authenticated
+  USING (is_firm_admin(law_firm_id));
+
+-- Firms respond through handle_lead_response, which closes competing offers;
+-- a direct update could skip that or move the assignment to another lead
+DROP POLICY IF EXISTS "Law firms can update own assignments" ON lead_assignments;
+
+DROP POLICY IF EXISTS "Legal admins can view matched leads" ON leads;
+CREATE POLICY "Legal admins can view matched leads"
+  ON leads
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM lead_assignments la
+      WHERE la.conversation_id = leads.conversation_id
+      AND is_firm_admin(la.law_firm_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Legal admins can view matched conversations" ON conversations;
+CREATE POLICY "Legal admins can view matched conversations"
+  ON conversations
+  FOR SELECT
+  TO authenticated
+  USING (
+    conversations.deleted_at IS NULL AND EXISTS (
+      SELECT 1 FROM lead_assignments la
+      WHERE la.conversation_id = conversations.id
+      AND is_firm_admin(la.law_firm_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Legal admins can view activities for their leads" ON lead_activities;
+CREATE POLICY "Legal admins can view activities for their leads"
+  ON lead_activities FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM leads l
+      JOIN lead_assignments la ON la.conversation_id = l.conversation_id
+      WHERE l.id = lead_activities.lead_id
+      AND is_firm_admin(la.law_firm_id)
+    )
+  );
+
+-- 4. Notify firms of new assignments. Escalations page the firm themselves.
+CREATE OR REPLACE FUNCTION trigger_lead_notification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.assignment_method = 'escalation' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO email_queue (
+    to_email,
+    subject,
+    template_name,
+    template_data,
+    scheduled_for
+  )
+  SELECT
+    'trigger@notification.system',
+    'Lead Notification Trigger',
+    'send-lead-notification',
+    jsonb_build_object('assignmentId', NEW.id),
+    now()
+  WHERE NOT EXISTS (
+    -- Prevent duplicate notifications
+    SELECT 1 FROM email_queue
+    WHERE template_name = 'send-lead-notification'
+    AND template_data->>'assignmentId' = NEW.id::text
+    AND created_at > now() - interval '5 minutes'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS match_notification_trigger ON matches;
+DROP TRIGGER IF EXISTS assignment_notification_trigger ON lead_assignments;
+CREATE TRIGGER assignment_notification_trigger
+  AFTER INSERT ON lead_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION trigger_lead_notification();
+
+-- 5. Claiming a lead closes the other firms' offers
+CREATE OR REPLACE FUNCTION log_lead_activity()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Log status changes
+  IF TG_OP = 'UPDATE' AND OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO lead_activities (lead_id, activity_type, details)
+    VALUES (
+      NEW.id,
+      'status_changed',
+      jsonb_build_object(
+        'old_status', OLD.status,
+        'new_status', NEW.status
+      )
+    );
+  END IF;
+
+  -- Log when lead is claimed
+  IF TG_OP = 'UPDATE' AND OLD.claimed_at IS NULL AND NEW.claimed_at IS NOT NULL THEN
+    INSERT INTO lead_activities (lead_id, user_id, activity_type, details)
+    VALUES (
+      NEW.id,
+      NEW.claimed_by_user_id,
+      'claimed',
+      jsonb_build_object(
+        'firm_id', NEW.claimed_by_firm_id,
+        'claimed_at', NEW.claimed_at
+      )
+    );
+
+    -- Notify other firms that this lead is no longer available
+    INSERT INTO notifications (law_firm_id, type, title, message, link)
+    SELECT
+      la.law_firm_id,
+      'lead_claimed',
+      'Lead No Longer Available',
+      'A lead you were matched with has been claimed by another firm.',
+      '/admin/leads'
+    FROM lead_assignments la
+    WHERE la.conversation_id = NEW.conversation_id
+    AND la.law_firm_id != NEW.claimed_by_firm_id
+    AND la.status = 'pending';
+
+    UPDATE lead_assignments
+    SET status = 'expired'
+    WHERE conversation_id = NEW.conversation_id
+    AND law_firm_id != NEW.claimed_by_firm_id
+    AND status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 6. Firm responses
+CREATE OR REPLACE FUNCTION handle_lead_response(assignment_id uuid, response_status text, reason text DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_assignment RECORD;
+BEGIN
+  IF response_status NOT IN ('accepted', 'rejected') THEN
+    RAISE EXCEPTION 'Response must be accepted or rejected';
+  END IF;
+
+  SELECT * INTO v_assignment
+  FROM lead_assignments la
+  WHERE la.id = assignment_id;
+
+  IF v_assignment IS NULL THEN
+    RAISE EXCEPTION 'Assignment not found';
+  END IF;
+
+  IF NOT is_firm_admin(v_assignment.law_firm_id) AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - Firm admin role required';
+  END IF;
+
+  IF v_assignment.status <> 'pending' THEN
+    RAISE EXCEPTION 'Assignment is no longer pending';
+  END IF;
+
+  UPDATE lead_assignments
+  SET
+    status = response_status,
+    responded_at = now(),
+    rejection_reason = CASE WHEN response_status = 'rejected' THEN reason ELSE NULL END
+  WHERE id = assignment_id;
+
+  IF response_status = 'accepted' THEN
+    -- Claiming the lead expires the other firms' pending assignments
+    UPDATE leads
+    SET
+      claimed_at = now(),
+      claimed_by_firm_id = v_assignment.law_firm_id,
+      claimed_by_user_id = auth.uid()
+    WHERE conversation_id = v_assignment.conversation_id
+    AND claimed_at IS NULL;
+  ELSE
+    -- Keep the rejected assignment for tracking and offer the lead to the next firm
+    PERFORM distribute_lead_with_rotation(v_assignment.conversation_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION handle_lead_response(uuid, text, text) TO authenticated;
+
+-- 7. Deadline sweep (run periodically)
+CREATE OR REPLACE FUNCTION expire_lead_assignments()
+RETURNS integer AS $$
+DECLARE
+  v_expired integer;
+BEGIN
+  UPDATE lead_assignments
+  SET status = 'expired'
+  WHERE status = 'pending'
+  AND expires_at < now();
+
+  GET DIAGNOSTICS v_expired = ROW_COUNT;
+
+  RETURN v_expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 8. Reporting and housekeeping
+CREATE OR REPLACE FUNCTION update_firm_metrics()
+RETURNS void AS $$
+DECLARE
+  firm RECORD;
+  yesterday DATE := CURRENT_DATE - 1;
+BEGIN
+  FOR firm IN SELECT id FROM law_firms LOOP
+    INSERT INTO firm_metrics (
+      law_firm_id,
+      metric_date,
+      leads_received,
+      leads_claimed,
+      leads_contacted,
+      leads_converted,
+      avg_response_time_minutes
+    )
+    SELECT
+      firm.id,
+      yesterday,
+      COUNT(DISTINCT a.conversation_id) FILTER (WHERE a.assigned_at::date = yesterday),
+      COUNT(DISTINCT l.id) FILTER (WHERE l.claimed_at::date = yesterday AND l.claimed_by_firm_id = firm.id),
+      COUNT(DISTINCT la.lead_id) FILTER (WHERE la.created_at::date = yesterday AND la.activity_type = 'contacted'),
+      COUNT(DISTINCT l.id) FILTER (WHERE l.status = 'converted' AND l.updated_at::date = yesterday),
+      AVG(EXTRACT(EPOCH FROM (a.responded_at - a.assigned_at))/60)::integer
+    FROM law_firms lf
+    LEFT JOIN lead_assignments a ON a.law_firm_id = lf.id
+    LEFT JOIN leads l ON l.conversation_id = a.conversation_id
+    LEFT JOIN lead_activities la ON la.lead_id = l.id
+    WHERE lf.id = firm.id
+    GROUP BY lf.id
+    ON CONFLICT (law_firm_id, metric_date)
+    DO UPDATE SET
+      leads_received = EXCLUDED.leads_received,
+      leads_claimed = EXCLUDED.leads_claimed,
+      leads_contacted = EXCLUDED.leads_contacted,
+      leads_converted = EXCLUDED.leads_converted,
+      avg_response_time_minutes = EXCLUDED.avg_response_time_minutes,
+      updated_at = now();
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION cleanup_old_deleted_records(retention_days integer DEFAULT 90)
+RETURNS void AS $$
+BEGIN
+  -- Permanently delete profiles older than retention period
+  DELETE FROM profiles
+  WHERE deleted_at IS NOT NULL
+  AND deleted_at < (now() - make_interval(days => retention_days));
+
+  DELETE FROM law_firms
+  WHERE deleted_at IS NOT NULL
+  AND deleted_at < (now() - make_interval(days => retention_days));
+
+  DELETE FROM conversations
+  WHERE deleted_at IS NOT NULL
+  AND deleted_at < (now() - make_interval(days => retention_days));
+
+  DELETE FROM leads
+  WHERE deleted_at IS NOT NULL
+  AND deleted_at < (now() - make_interval(days => retention_days));
+
+  -- Log the cleanup
+  INSERT INTO audit_logs (user_id, action, table_name, new_data)
+  VALUES (auth.uid(), 'cleanup_deleted', 'system', jsonb_build_object('retention_days', retention_days));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 9. Drop the old model
+DROP TABLE IF EXISTS matches;
@@ -0,0 +1,651 @@
+/*
+  # Distribution Strategies
+
+  How a lead is distributed is now data instead of code. A strategy applies
+  to a practice area and region (the state taken from the caller's location,
+  as in `lead_rotation_state`); either may be left empty to cover every one,
+  and the most specific active strategy wins. Without one, leads rotate as
+  before.
+
+  Strategies:
+    - `round_robin`: Next eligible firm in the rotation
+    - `weighted_score`: Highest-scoring eligible firm
+    - `exclusive`: Always the named firm
+    - `first_to_claim`: Every eligible firm at or above the minimum score; the
+      first to accept claims the lead
+    - `broadcast`: The top N eligible firms by score
+
+  Scores blend practice-area experience, firm performance, availability,
+  location and fit with the lead's urgency, using per-strategy weights.
+
+  1. New Tables
+    - `distribution_strategies`: Strategy per practice area and region
+      - `id` (uuid, primary key): Unique identifier
+      - `practice_area_id` (uuid): Practice area it applies to, null for all
+      - `location_key` (text): State it applies to, null for all
+      - `strategy` (text): One of the strategies above
+      - `weights` (jsonb): Score weights by component (practice_area,
+        performance, availability, location, quality); they are normalized
+        to sum to 1
+      - `min_score` (numeric): Lowest score that can receive the lead
+      - `firm_count` (integer): Firms offered the lead when broadcasting
+      - `exclusive_firm_id` (uuid): Firm for the exclusive strategy
+      - `active` (boolean): Whether the strategy is used
+
+  2. Modified Tables
+    - `lead_assignments`
+      - `assignment_method` accepts 'exclusive', 'first_to_claim' and 'broadcast'
+
+  3. New Functions
+    - `resolve_distribution_strategy`: Most specific active strategy for a lead
+    - `score_firm_for_lead`: Weighted score with its components
+    - `plan_lead_distribution`: Firms a lead would be offered to, without
+      assigning it
+    - `preview_lead_distribution`: Dry run of the plan for a sample lead
+      (system admins)
+
+  4. Modified Functions
+    - `distribute_lead_with_rotation`: Offers the lead as the plan says, skips
+      firms already offered it and waits while an offer is still open
+    - `handle_lead_response`: Accepting a shared offer counts against the
+      accepting firm's monthly leads and closes the other firms' offers
+
+  5. Security
+    - Enable RLS
+    - Only system admins and the service role can read or change strategies
+*/
+
+CREATE TABLE IF NOT EXISTS distribution_strategies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  practice_area_id uuid REFERENCES practice_areas(id) ON DELETE CASCADE,
+  location_key text,
+  strategy text NOT NULL DEFAULT 'round_robin'
+    CHECK (strategy IN ('round_robin', 'weighted_score', 'exclusive', 'first_to_claim', 'broadcast')),
+  weights jsonb NOT NULL DEFAULT '{"practice_area": 0.40, "performance": 0.25, "availability": 0.15, "location": 0.10, "quality": 0.10}'::jsonb
+    CHECK (jsonb_typeof(weights) = 'object'),
+  min_score numeric NOT NULL DEFAULT 0.3 CHECK (min_score BETWEEN 0 AND 1),
+  firm_count integer NOT NULL DEFAULT 3 CHECK (firm_count > 0),
+  exclusive_firm_id uuid REFERENCES law_firms(id) ON DELETE CASCADE,
+  active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT distribution_strategies_exclusive_firm
+    CHECK (strategy <> 'exclusive' OR exclusive_firm_id IS NOT NULL)
+);
+
+-- One strategy per scope; empty scopes compare equal
+CREATE UNIQUE INDEX IF NOT EXISTS idx_distribution_strategies_scope
+  ON distribution_strategies (
+    COALESCE(practice_area_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(LOWER(location_key), '')
+  );
+
+ALTER TABLE distribution_strategies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only service role can manage distribution strategies"
+  ON distribution_strategies
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE POLICY "System admins can manage distribution strategies"
+  ON distribution_strategies
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'system_admin'
+    AND profiles.deleted_at IS NULL
+  ));
+
+CREATE TRIGGER update_distribution_strategies_modtime
+  BEFORE UPDATE ON distribution_strategies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_modified_column();
+
+-- The default keeps today's behavior and gives admins a row to edit
+INSERT INTO distribution_strategies (strategy)
+SELECT 'round_robin'
+WHERE NOT EXISTS (
+  SELECT 1 FROM distribution_strategies
+  WHERE practice_area_id IS NULL AND location_key IS NULL
+);
+
+ALTER TABLE lead_assignments DROP CONSTRAINT IF EXISTS lead_assignments_assignment_method_check;
+ALTER TABLE lead_assignments
+ADD CONSTRAINT lead_assignments_assignment_method_check
+  CHECK (assignment_method IN (
+    'auto', 'manual', 'rotation', 'escalation', 'embed', 'exclusive', 'first_to_claim', 'broadcast'
+  ));
+
+CREATE OR REPLACE FUNCTION resolve_distribution_strategy(p_practice_area_id uuid, p_location_key text)
+RETURNS distribution_strategies AS $$
+  SELECT ds.*
+  FROM distribution_strategies ds
+  WHERE ds.active
+  AND (ds.practice_area_id IS NULL OR ds.practice_area_id = p_practice_area_id)
+  AND (ds.location_key IS NULL OR LOWER(ds.location_key) = LOWER(p_location_key))
+  ORDER BY (ds.practice_area_id IS NOT NULL) DESC, (ds.location_key IS NOT NULL) DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Each component is on a 0-1 scale; the weights are normalized so admins can
+-- enter them as percentages or shares.
+CREATE OR REPLACE FUNCTION score_firm_for_lead(
+  p_law_firm_id uuid,
+  p_practice_area_id uuid,
+  p_location_key text,
+  p_urgency numeric,
+  p_weights jsonb
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_firm RECORD;
+  v_experience integer;
+  v_practice_area numeric;
+  v_performance numeric;
+  v_availability numeric;
+  v_location numeric;
+  v_quality numeric;
+  v_usage numeric;
+  v_response numeric;
+  v_conversion numeric;
+  v_premium boolean;
+  v_w_practice_area numeric := COALESCE((p_weights->>'practice_area')::numeric, 0.40);
+  v_w_performance numeric := COALESCE((p_weights->>'performance')::numeric, 0.25);
+  v_w_availability numeric := COALESCE((p_weights->>'availability')::numeric, 0.15);
+  v_w_location numeric := COALESCE((p_weights->>'location')::numeric, 0.10);
+  v_w_quality numeric := COALESCE((p_weights->>'quality')::numeric, 0.10);
+  v_total_weight numeric;
+BEGIN
+  SELECT * INTO v_firm FROM law_firms WHERE id = p_law_firm_id;
+
+  SELECT COALESCE(experience_years, 0) INTO v_experience
+  FROM law_firm_practice_areas
+  WHERE law_firm_id = p_law_firm_id
+  AND practice_area_id = p_practice_area_id;
+
+  -- Practice area: having it, plus experience
+  v_practice_area := 0.6 + CASE
+    WHEN COALESCE(v_experience, 0) >= 10 THEN 0.4
+    WHEN COALESCE(v_experience, 0) >= 5 THEN 0.3
+    WHEN COALESCE(v_experience, 0) >= 2 THEN 0.2
+    ELSE 0.1
+  END;
+
+  -- Performance: rating, success rate and conversion history
+  v_conversion := CASE
+    WHEN COALESCE(v_firm.total_leads_converted, 0) >= 50 THEN 1.0
+    WHEN v_firm.total_leads_converted >= 20 THEN 0.8
+    WHEN v_firm.total_leads_converted >= 10 THEN 0.6
+    WHEN v_firm.total_leads_converted >= 5 THEN 0.4
+    ELSE 0.3
+  END;
+  v_performance := COALESCE(v_firm.rating / 5.0, 0.5) * 0.4
+    + COALESCE(NULLIF(v_firm.success_rate, 0), 0.5) * 0.4
+    + v_conversion * 0.2;
+
+  -- Availability: remaining monthly capacity, blended with response time
+  IF COALESCE(v_firm.max_leads_per_month, 0) > 0 THEN
+    v_usage := COALESCE(v_firm.current_month_leads, 0)::numeric / v_firm.max_leads_per_month;
+    v_availability := CASE
+      WHEN v_usage < 0.5 THEN 1.0
+      WHEN v_usage < 0.75 THEN 0.7
+      WHEN v_usage < 0.9 THEN 0.4
+      ELSE 0.2
+    END;
+  ELSE
+    v_availability := 0.1;
+  END IF;
+
+  IF v_firm.avg_response_time_minutes IS NOT NULL THEN
+    v_response := CASE
+      WHEN v_firm.avg_response_time_minutes < 120 THEN 1.0
+      WHEN v_firm.avg_response_time_minutes < 240 THEN 0.8
+      WHEN v_firm.avg_response_time_minutes < 480 THEN 0.6
+      ELSE 0.4
+    END;
+    v_availability := v_availability * 0.7 + v_response * 0.3;
+  END IF;
+
+  -- Location: serves the caller's state, or takes remote clients
+  v_location := CASE
+    WHEN EXISTS (
+      SELECT 1 FROM firm_service_areas fsa
+      WHERE fsa.law_firm_id = p_law_firm_id
+      AND LOWER(fsa.state) = LOWER(p_location_key)
+    ) THEN 1.0
+    WHEN v_firm.remote_capable THEN 0.5
+    ELSE 0.3
+  END;
+
+  -- Quality fit: premium firms and fast responders for urgent leads
+  v_premium := v_firm.subscription_tier IN ('pro', 'enterprise');
+  v_quality := CASE
+    WHEN v_premium AND p_urgency >= 8 THEN 1.0
+    WHEN p_urgency >= 8 THEN 0.8
+    WHEN v_premium THEN 0.7
+    ELSE 0.6
+  END;
+  IF p_urgency >= 8 AND v_firm.avg_response_time_minutes < 180 THEN
+    v_quality := LEAST(v_quality * 1.1, 1.0);
+  END IF;
+
+  v_total_weight := v_w_practice_area + v_w_performance + v_w_availability + v_w_location + v_w_quality;
+  IF v_total_weight <= 0 THEN
+    v_total_weight := 1;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'score', ROUND((
+      v_practice_area * v_w_practice_area +
+      v_performance * v_w_performance +
+      v_availability * v_w_availability +
+      v_location * v_w_location +
+      v_quality * v_w_quality
+    ) / v_total_weight, 3),
+    'practice_area', ROUND(v_practice_area, 3),
+    'performance', ROUND(v_performance, 3),
+    'availability', ROUND(v_availability, 3),
+    'location', ROUND(v_location, 3),
+    'quality', ROUND(v_quality, 3)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Firms a lead would be offered to under its strategy. Reads the rotation
+-- state but changes nothing, so it also serves the dry-run preview.
+CREATE OR REPLACE FUNCTION plan_lead_distribution(
+  p_practice_area_id uuid,
+  p_firm_location text,
+  p_urgency numeric,
+  p_language text,
+  p_exclude_firm_ids uuid[] DEFAULT '{}'
+)
+RETURNS TABLE (
+  law_firm_id uuid,
+  firm_name text,
+  match_score numeric,
+  assignment_method text,
+  strategy text,
+  strategy_id uuid,
+  location_key text,
+  score_breakdown jsonb
+) AS $$
+DECLARE
+  v_location_key text;
+  v_strategy distribution_strategies;
+  v_strategy_name text;
+  v_eligible_firms uuid[];
+  v_last_firm_id uuid;
+  v_position integer;
+  v_selected_firm_id uuid;
+BEGIN
+  v_location_key := TRIM(COALESCE(SPLIT_PART(p_firm_location, ',', -1), 'unknown'));
+
+  v_strategy := resolve_distribution_strategy(p_practice_area_id, v_location_key);
+  v_strategy_name := COALESCE(v_strategy.strategy, 'round_robin');
+
+  IF v_strategy_name = 'exclusive' THEN
+    IF NOT v_strategy.exclusive_firm_id = ANY(p_exclude_firm_ids) THEN
+      RETURN QUERY
+      SELECT lf.id, lf.name, 1.0::numeric, 'exclusive'::text, v_strategy_name, v_strategy.id, v_location_key, NULL::jsonb
+      FROM law_firms lf
+      WHERE lf.id = v_strategy.exclusive_firm_id
+      AND lf.deleted_at IS NULL;
+    END IF;
+    RETURN;
+  END IF;
+
+  -- Eligible firms: active subscription, practice area, service area or
+  -- remote, under capacity, and not already offered this lead
+  SELECT array_agg(lf.id ORDER BY lf.created_at, lf.id) INTO v_eligible_firms
+  FROM law_firms lf
+  JOIN law_firm_practice_areas lfpa ON lf.id = lfpa.law_firm_id
+  WHERE lfpa.practice_area_id = p_practice_area_id
+    AND lf.subscription_status = 'active'
+    AND lf.deleted_at IS NULL
+    AND lf.current_month_leads < lf.max_leads_per_month
+    AND NOT lf.id = ANY(p_exclude_firm_ids)
+    AND (
+      lf.remote_capable = true
+      OR EXISTS (
+        SELECT 1 FROM firm_service_areas fsa
+        WHERE fsa.law_firm_id = lf.id
+        AND (fsa.state = v_location_key OR fsa.city ILIKE '%' || p_firm_location || '%')
+      )
+    );
+
+  IF v_eligible_firms IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Prefer firms that speak the client's language
+  IF EXISTS (
+    SELECT 1 FROM law_firms lf
+    WHERE lf.id = ANY(v_eligible_firms)
+    AND p_language = ANY(lf.languages)
+  ) THEN
+    SELECT array_agg(lf.id ORDER BY array_position(v_eligible_firms, lf.id)) INTO v_eligible_firms
+    FROM law_firms lf
+    WHERE lf.id = ANY(v_eligible_firms)
+    AND p_language = ANY(lf.languages);
+  END IF;
+
+  IF v_strategy_name = 'round_robin' THEN
+    SELECT lrs.last_assigned_firm_id INTO v_last_firm_id
+    FROM lead_rotation_state lrs
+    WHERE lrs.practice_area_id = p_practice_area_id
+    AND lrs.location_key = v_location_key;
+
+    v_position := array_position(v_eligible_firms, v_last_firm_id);
+    v_selected_firm_id := v_eligible_firms[
+      CASE WHEN v_position IS NULL THEN 1 ELSE (v_position % array_length(v_eligible_firms, 1)) + 1 END
+    ];
+
+    RETURN QUERY
+    SELECT lf.id, lf.name, 1.0::numeric, 'rotation'::text, v_strategy_name, v_strategy.id, v_location_key, NULL::jsonb
+    FROM law_firms lf
+    WHERE lf.id = v_selected_firm_id;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    scored.id,
+    scored.name,
+    (scored.breakdown->>'score')::numeric,
+    CASE v_strategy_name WHEN 'weighted_score' THEN 'auto' ELSE v_strategy_name END,
+    v_strategy_name,
+    v_strategy.id,
+    v_location_key,
+    scored.breakdown
+  FROM (
+    SELECT
+      lf.id,
+      lf.name,
+      score_firm_for_lead(lf.id, p_practice_area_id, v_location_key, p_urgency, v_strategy.weights) AS breakdown
+    FROM law_firms lf
+    WHERE lf.id = ANY(v_eligible_firms)
+  ) scored
+  WHERE (scored.breakdown->>'score')::numeric >= v_strategy.min_score
+  ORDER BY (scored.breakdown->>'score')::numeric DESC, array_position(v_eligible_firms, scored.id)
+  LIMIT CASE v_strategy_name
+    WHEN 'weighted_score' THEN 1
+    WHEN 'broadcast' THEN v_strategy.firm_count
+    ELSE NULL
+  END;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION preview_lead_distribution(
+  p_practice_area_id uuid,
+  p_firm_location text,
+  p_urgency numeric DEFAULT 5,
+  p_language text DEFAULT 'en'
+)
+RETURNS TABLE (
+  law_firm_id uuid,
+  firm_name text,
+  match_score numeric,
+  assignment_method text,
+  strategy text,
+  strategy_id uuid,
+  location_key text,
+  score_breakdown jsonb
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - System admin role required';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM plan_lead_distribution(p_practice_area_id, p_firm_location, p_urgency, p_language);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION preview_lead_distribution(uuid, text, numeric, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION distribute_lead_with_rotation(conversation_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_case_category text;
+  v_firm_location text;
+  v_urgency_score decimal;
+  v_practice_area_id uuid;
+  v_language text;
+  v_source_firm_id uuid;
+  v_embed_routing text;
+  v_source_firm_active boolean;
+  v_offered_firms uuid[];
+  v_offer RECORD;
+  v_assigned integer := 0;
+BEGIN
+  -- Get conversation details
+  SELECT
+    c.case_category,
+    c.firm_location,
+    COALESCE(c.openai_urgency_score, c.urgency_score::decimal) as urgency_score,
+    c.practice_area_id,
+    c.language,
+    c.source_firm_id
+  INTO
+    v_case_category,
+    v_firm_location,
+    v_urgency_score,
+    v_practice_area_id,
+    v_language,
+    v_source_firm_id
+  FROM conversations c
+  WHERE c.id = conversation_id;
+
+  -- Fall back to resolving the free-text category (name or synonym)
+  IF v_practice_area_id IS NULL THEN
+    v_practice_area_id := resolve_practice_area(v_case_category);
+  END IF;
+
+  -- Unresolvable categories wait in the triage queue instead of being dropped
+  IF v_practice_area_id IS NULL THEN
+    UPDATE conversations c
+    SET classification_status = 'unclassified'
+    WHERE c.id = conversation_id;
+    RETURN;
+  END IF;
+
+  UPDATE conversations c
+  SET
+    practice_area_id = v_practice_area_id,
+    classification_status = CASE
+      WHEN c.classification_status = 'triaged' THEN 'triaged'
+      ELSE 'classified'
+    END
+  WHERE c.id = conversation_id
+  AND (c.practice_area_id IS DISTINCT FROM v_practice_area_id OR c.classification_status NOT IN ('classified', 'triaged'));
+
+  -- Leads from a firm's website widget go to that firm instead of the
+  -- rotation. An exclusive widget keeps the lead with the firm even after it
+  -- passes; a preferred one falls back to the rotation when the firm passes or
+  -- has no active subscription.
+  IF v_source_firm_id IS NOT NULL THEN
+    SELECT lf.embed_routing, lf.subscription_status = 'active'
+    INTO v_embed_routing, v_source_firm_active
+    FROM law_firms lf
+    WHERE lf.id = v_source_firm_id;
+
+    IF EXISTS (
+      SELECT 1 FROM lead_assignments la
+      WHERE la.conversation_id = distribute_lead_with_rotation.conversation_id
+      AND la.law_firm_id = v_source_firm_id
+    ) THEN
+      IF v_embed_routing = 'exclusive' THEN
+        RETURN;
+      END IF;
+    ELSIF v_embed_routing = 'exclusive' OR v_source_firm_active THEN
+      -- The firm's own leads don't count against its monthly lead limit
+      INSERT INTO lead_assignments (
+        conversation_id,
+        law_firm_id,
+        match_score,
+        assignment_method,
+        status
+      ) VALUES (
+        conversation_id,
+        v_source_firm_id,
+        1.0,
+        'embed',
+        'pending'
+      );
+
+      UPDATE law_firms
+      SET last_lead_assigned_at = now()
+      WHERE id = v_source_firm_id;
+
+      UPDATE conversations
+      SET status = 'matched'
+      WHERE id = conversation_id;
+
+      RETURN;
+    END IF;
+  END IF;
+
+  -- A shared offer stays open until every firm has answered or one accepts
+  IF EXISTS (
+    SELECT 1 FROM lead_assignments la
+    WHERE la.conversation_id = distribute_lead_with_rotation.conversation_id
+    AND la.status IN ('pending', 'accepted')
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(array_agg(la.law_firm_id), '{}') INTO v_offered_firms
+  FROM lead_assignments la
+  WHERE la.conversation_id = distribute_lead_with_rotation.conversation_id;
+
+  FOR v_offer IN
+    SELECT * FROM plan_lead_distribution(
+      v_practice_area_id,
+      v_firm_location,
+      v_urgency_score,
+      v_language,
+      v_offered_firms
+    )
+  LOOP
+    INSERT INTO lead_assignments (
+      conversation_id,
+      law_firm_id,
+      match_score,
+      assignment_method,
+      status
+    ) VALUES (
+      conversation_id,
+      v_offer.law_firm_id,
+      v_offer.match_score,
+      v_offer.assignment_method,
+      'pending'
+    );
+
+    -- Shared offers count against the firm that accepts (handle_lead_response)
+    UPDATE law_firms
+    SET
+      current_month_leads = current_month_leads
+        + CASE WHEN v_offer.assignment_method IN ('first_to_claim', 'broadcast') THEN 0 ELSE 1 END,
+      last_lead_assigned_at = now()
+    WHERE id = v_offer.law_firm_id;
+
+    IF v_offer.assignment_method = 'rotation' THEN
+      INSERT INTO lead_rotation_state (practice_area_id, location_key, last_assigned_firm_id)
+      VALUES (v_practice_area_id, v_offer.location_key, v_offer.law_firm_id)
+      ON CONFLICT (practice_area_id, location_key)
+      DO UPDATE SET
+        last_assigned_firm_id = EXCLUDED.last_assigned_firm_id,
+        updated_at = now();
+    END IF;
+
+    v_assigned := v_assigned + 1;
+  END LOOP;
+
+  IF v_assigned > 0 THEN
+    UPDATE conversations
+    SET status = 'matched'
+    WHERE id = conversation_id;
+  END IF;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log error but don't fail
+    RAISE WARNING 'Error in distribute_lead_with_rotation: %', SQLERRM;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION handle_lead_response(assignment_id uuid, response_status text, reason text DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_assignment RECORD;
+BEGIN
+  IF response_status NOT IN ('accepted', 'rejected') THEN
+    RAISE EXCEPTION 'Response must be accepted or rejected';
+  END IF;
+
+  SELECT * INTO v_assignment
+  FROM lead_assignments la
+  WHERE la.id = assignment_id;
+
+  IF v_assignment IS NULL THEN
+    RAISE EXCEPTION 'Assignment not found';
+  END IF;
+
+  IF NOT is_firm_admin(v_assignment.law_firm_id) AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - Firm admin role required';
+  END IF;
+
+  IF v_assignment.status <> 'pending' THEN
+    RAISE EXCEPTION 'Assignment is no longer pending';
+  END IF;
+
+  UPDATE lead_assignments
+  SET
+    status = response_status,
+    responded_at = now(),
+    rejection_reason = CASE WHEN response_status = 'rejected' THEN reason ELSE NULL END
+  WHERE id = assignment_id;
+
+  IF response_status = 'accepted' THEN
+    IF v_assignment.assignment_method IN ('first_to_claim', 'broadcast') THEN
+      UPDATE law_firms
+      SET current_month_leads = current_month_leads + 1
+      WHERE id = v_assignment.law_firm_id;
+    END IF;
+
+    -- Claiming the lead expires the other firms' pending assignments
+    UPDATE leads
+    SET
+      claimed_at = now(),
+      claimed_by_firm_id = v_assignment.law_firm_id,
+      claimed_by_user_id = auth.uid()
+    WHERE conversation_id = v_assignment.conversation_id
+    AND claimed_at IS NULL;
+
+    -- Close the rest of a shared offer even before a lead row exists
+    UPDATE lead_assignments
+    SET status = 'expired'
+    WHERE conversation_id = v_assignment.conversation_id
+    AND id <> v_assignment.id
+    AND status = 'pending';
+  ELSE
+    -- Keep the rejected assignment for tracking and offer the lead to the next firm
+    PERFORM distribute_lead_with_rotation(v_assignment.conversation_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
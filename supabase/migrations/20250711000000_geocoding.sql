@@ -0,0 +1,847 @@
+/*
+  # Geocoding and Radius Matching
+
+  Location matching was string-based: the region was whatever followed the
+  last comma of the caller's location, service areas matched by state name or
+  a city substring, and `radius_miles` was never read. Locations are now
+  geocoded against a bundled table of US state and city centroids, so a
+  service area matches when the caller is within its radius.
+
+  A ZIP code resolves to the city that covers its three-digit prefix, or to
+  its state's centroid when the bundled cities don't cover it. "City, ST",
+  "City, State" and bare state names or abbreviations resolve to the city or
+  state. Anything else is left ungeocoded and matches by name as before.
+
+  Firms also list the states they are admitted to practice in. When the
+  caller's state is known, a firm must be admitted there to be offered the
+  lead, remote or not. A firm that hasn't listed any states isn't restricted.
+
+  1. New Tables
+    - `geo_places`: Bundled state and city centroids
+      - `place_type` (text): 'state' or 'city'
+      - `name` (text): City or full state name
+      - `state` (text): Two-letter state abbreviation
+      - `latitude`, `longitude` (double precision): Centroid
+      - `zip_prefixes` (text[]): Three-digit ZIP prefixes a city covers
+    - `geo_zip_prefix_states`: State for each range of three-digit ZIP prefixes
+
+  2. Modified Tables
+    - `conversations`
+      - `latitude`, `longitude` (double precision): Geocoded `firm_location`
+      - `location_state` (text): State abbreviation of `firm_location`
+      - `location_precision` (text): 'zip', 'city' or 'state'
+    - `firm_service_areas`
+      - `latitude`, `longitude` (double precision): Geocoded from the ZIP
+        code, or else the city and state
+    - `law_firms`
+      - `bar_admission_states` (text[]): States the firm is admitted in,
+        backfilled from its service areas and office location
+
+  3. New Functions
+    - `normalize_state`: State abbreviation for a name or abbreviation
+    - `geocode_location`: Coordinates, state and precision for free text
+    - `distance_miles`: Great-circle distance between two points
+    - `nearest_service_area_miles`: Distance from a point to a firm's closest
+      geocoded service area
+
+  4. Modified Functions
+    - `resolve_distribution_strategy`: Compares regions by normalized state
+    - `score_firm_for_lead`: Location scores by distance within a radius
+    - `plan_lead_distribution`: Keys regions by geocoded state, requires bar
+      admission from firms that list their states and matches service areas
+      by radius; returns the distance to the firm's nearest service area
+    - `preview_lead_distribution`: Returns the distance as well
+
+  5. Security
+    - Enable RLS on the new tables
+    - Authenticated users can read the place data; only system admins change it
+*/
+
+CREATE TABLE IF NOT EXISTS geo_places (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  place_type text NOT NULL CHECK (place_type IN ('state', 'city')),
+  name text NOT NULL,
+  state text NOT NULL,
+  latitude double precision NOT NULL,
+  longitude double precision NOT NULL,
+  zip_prefixes text[] NOT NULL DEFAULT '{}'
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_geo_places_name
+  ON geo_places(place_type, state, LOWER(name));
+CREATE INDEX IF NOT EXISTS idx_geo_places_zip_prefixes ON geo_places USING gin(zip_prefixes);
+
+CREATE TABLE IF NOT EXISTS geo_zip_prefix_states (
+  prefix_start text PRIMARY KEY,
+  prefix_end text NOT NULL,
+  state text NOT NULL,
+  CHECK (prefix_start <= prefix_end)
+);
+
+ALTER TABLE geo_places ENABLE ROW LEVEL SECURITY;
+ALTER TABLE geo_zip_prefix_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view geo places"
+  ON geo_places
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "System admins can manage geo places"
+  ON geo_places
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'system_admin'
+    AND profiles.deleted_at IS NULL
+  ));
+
+CREATE POLICY "Anyone can view ZIP prefix states"
+  ON geo_zip_prefix_states
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "System admins can manage ZIP prefix states"
+  ON geo_zip_prefix_states
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'system_admin'
+    AND profiles.deleted_at IS NULL
+  ));
+
+-- State centroids
+INSERT INTO geo_places (place_type, name, state, latitude, longitude) VALUES
+('state', 'Alabama', 'AL', 32.8067, -86.7911),
+('state', 'Alaska', 'AK', 61.3707, -152.4044),
+('state', 'Arizona', 'AZ', 33.7298, -111.4312),
+('state', 'Arkansas', 'AR', 34.9697, -92.3731),
+('state', 'California', 'CA', 36.1162, -119.6816),
+('state', 'Colorado', 'CO', 39.0598, -105.3111),
+('state', 'Connecticut', 'CT', 41.5978, -72.7554),
+('state', 'Delaware', 'DE', 39.3185, -75.5071),
+('state', 'District of Columbia', 'DC', 38.8974, -77.0268),
+('state', 'Florida', 'FL', 27.7663, -81.6868),
+('state', 'Georgia', 'GA', 33.0406, -83.6431),
+('state', 'Hawaii', 'HI', 21.0943, -157.4983),
+('state', 'Idaho', 'ID', 44.2405, -114.4788),
+('state', 'Illinois', 'IL', 40.3495, -88.9861),
+('state', 'Indiana', 'IN', 39.8494, -86.2583),
+('state', 'Iowa', 'IA', 42.0115, -93.2105),
+('state', 'Kansas', 'KS', 38.5266, -96.7265),
+('state', 'Kentucky', 'KY', 37.6681, -84.6701),
+('state', 'Louisiana', 'LA', 31.1695, -91.8678),
+('state', 'Maine', 'ME', 44.6939, -69.3819),
+('state', 'Maryland', 'MD', 39.0639, -76.8021),
+('state', 'Massachusetts', 'MA', 42.2302, -71.5301),
+('state', 'Michigan', 'MI', 43.3266, -84.5361),
+('state', 'Minnesota', 'MN', 45.6945, -93.9002),
+('state', 'Mississippi', 'MS', 32.7416, -89.6787),
+('state', 'Missouri', 'MO', 38.4561, -92.2884),
+('state', 'Montana', 'MT', 46.9219, -110.4544),
+('state', 'Nebraska', 'NE', 41.1254, -98.2681),
+('state', 'Nevada', 'NV', 38.3135, -117.0554),
+('state', 'New Hampshire', 'NH', 43.4525, -71.5639),
+('state', 'New Jersey', 'NJ', 40.2989, -74.5210),
+('state', 'New Mexico', 'NM', 34.8405, -106.2485),
+('state', 'New York', 'NY', 42.1657, -74.9481),
+('state', 'North Carolina', 'NC', 35.6301, -79.8064),
+('state', 'North Dakota', 'ND', 47.5289, -99.7840),
+('state', 'Ohio', 'OH', 40.3888, -82.7649),
+('state', 'Oklahoma', 'OK', 35.5653, -96.9289),
+('state', 'Oregon', 'OR', 44.5720, -122.0709),
+('state', 'Pennsylvania', 'PA', 40.5908, -77.2098),
+('state', 'Rhode Island', 'RI', 41.6809, -71.5118),
+('state', 'South Carolina', 'SC', 33.8569, -80.9450),
+('state', 'South Dakota', 'SD', 44.2998, -99.4388),
+('state', 'Tennessee', 'TN', 35.7478, -86.6923),
+('state', 'Texas', 'TX', 31.0545, -97.5635),
+('state', 'Utah', 'UT', 40.1500, -111.8624),
+('state', 'Vermont', 'VT', 44.0459, -72.7107),
+('state', 'Virginia', 'VA', 37.7693, -78.1700),
+('state', 'Washington', 'WA', 47.4009, -121.4905),
+('state', 'West Virginia', 'WV', 38.4912, -80.9545),
+('state', 'Wisconsin', 'WI', 44.2685, -89.6165),
+('state', 'Wyoming', 'WY', 42.7560, -107.3025)
+ON CONFLICT DO NOTHING;
+
+-- City centroids with the three-digit ZIP prefixes they cover
+INSERT INTO geo_places (place_type, name, state, latitude, longitude, zip_prefixes) VALUES
+('city', 'New York', 'NY', 40.7128, -74.0060, '{100,101,102,103,104,111,112,113,114,116}'),
+('city', 'Los Angeles', 'CA', 34.0522, -118.2437, '{900,901}'),
+('city', 'Chicago', 'IL', 41.8781, -87.6298, '{606,607,608}'),
+('city', 'Houston', 'TX', 29.7604, -95.3698, '{770,772}'),
+('city', 'Phoenix', 'AZ', 33.4484, -112.0740, '{850}'),
+('city', 'Philadelphia', 'PA', 39.9526, -75.1652, '{190,191}'),
+('city', 'San Antonio', 'TX', 29.4241, -98.4936, '{782}'),
+('city', 'San Diego', 'CA', 32.7157, -117.1611, '{919,920,921}'),
+('city', 'Dallas', 'TX', 32.7767, -96.7970, '{750,751,752,753}'),
+('city', 'San Jose', 'CA', 37.3382, -121.8863, '{950,951}'),
+('city', 'Austin', 'TX', 30.2672, -97.7431, '{786,787}'),
+('city', 'Jacksonville', 'FL', 30.3322, -81.6557, '{320,322}'),
+('city', 'Fort Worth', 'TX', 32.7555, -97.3308, '{760,761}'),
+('city', 'Columbus', 'OH', 39.9612, -82.9988, '{430,431,432}'),
+('city', 'Charlotte', 'NC', 35.2271, -80.8431, '{280,281,282}'),
+('city', 'San Francisco', 'CA', 37.7749, -122.4194, '{940,941}'),
+('city', 'Indianapolis', 'IN', 39.7684, -86.1581, '{460,461,462}'),
+('city', 'Seattle', 'WA', 47.6062, -122.3321, '{980,981}'),
+('city', 'Denver', 'CO', 39.7392, -104.9903, '{800,801,802}'),
+('city', 'Washington', 'DC', 38.9072, -77.0369, '{200,202,203,204,205}'),
+('city', 'Boston', 'MA', 42.3601, -71.0589, '{021,022,023,024}'),
+('city', 'Nashville', 'TN', 36.1627, -86.7816, '{370,371,372}'),
+('city', 'Detroit', 'MI', 42.3314, -83.0458, '{480,481,482}'),
+('city', 'Oklahoma City', 'OK', 35.4676, -97.5164, '{730,731}'),
+('city', 'Portland', 'OR', 45.5152, -122.6784, '{970,971,972}'),
+('city', 'Las Vegas', 'NV', 36.1699, -115.1398, '{889,890,891}'),
+('city', 'Memphis', 'TN', 35.1495, -90.0490, '{380,381}'),
+('city', 'Louisville', 'KY', 38.2527, -85.7585, '{400,401,402}'),
+('city', 'Baltimore', 'MD', 39.2904, -76.6122, '{210,211,212}'),
+('city', 'Milwaukee', 'WI', 43.0389, -87.9065, '{530,531,532}'),
+('city', 'Albuquerque', 'NM', 35.0844, -106.6504, '{870,871}'),
+('city', 'Tucson', 'AZ', 32.2226, -110.9747, '{856,857}'),
+('city', 'Fresno', 'CA', 36.7378, -119.7871, '{936,937}'),
+('city', 'Sacramento', 'CA', 38.5816, -121.4944, '{956,957,958}'),
+('city', 'Kansas City', 'MO', 39.0997, -94.5786, '{640,641}'),
+('city', 'Atlanta', 'GA', 33.7490, -84.3880, '{300,301,302,303}'),
+('city', 'Omaha', 'NE', 41.2565, -95.9345, '{680,681}'),
+('city', 'Raleigh', 'NC', 35.7796, -78.6382, '{275,276}'),
+('city', 'Miami', 'FL', 25.7617, -80.1918, '{330,331,332}'),
+('city', 'Minneapolis', 'MN', 44.9778, -93.2650, '{553,554,555}'),
+('city', 'Tulsa', 'OK', 36.1540, -95.9928, '{740,741}'),
+('city', 'Cleveland', 'OH', 41.4993, -81.6944, '{440,441}'),
+('city', 'New Orleans', 'LA', 29.9511, -90.0715, '{700,701}'),
+('city', 'Tampa', 'FL', 27.9506, -82.4572, '{335,336}'),
+('city', 'Orlando', 'FL', 28.5383, -81.3792, '{327,328}'),
+('city', 'Pittsburgh', 'PA', 40.4406, -79.9959, '{150,151,152}'),
+('city', 'St. Louis', 'MO', 38.6270, -90.1994, '{630,631}'),
+('city', 'Cincinnati', 'OH', 39.1031, -84.5120, '{450,451,452}'),
+('city', 'Salt Lake City', 'UT', 40.7608, -111.8910, '{840,841}'),
+('city', 'Birmingham', 'AL', 33.5186, -86.8104, '{350,351,352}'),
+('city', 'Richmond', 'VA', 37.5407, -77.4360, '{230,231,232}'),
+('city', 'Buffalo', 'NY', 42.8864, -78.8784, '{140,141,142}'),
+('city', 'Newark', 'NJ', 40.7357, -74.1724, '{070,071}'),
+('city', 'Honolulu', 'HI', 21.3069, -157.8583, '{967,968}'),
+('city', 'Anchorage', 'AK', 61.2181, -149.9003, '{995,996}'),
+('city', 'Boise', 'ID', 43.6150, -116.2023, '{836,837}'),
+('city', 'Little Rock', 'AR', 34.7465, -92.2896, '{720,721,722}'),
+('city', 'Des Moines', 'IA', 41.5868, -93.6250, '{500,502,503}'),
+('city', 'Wichita', 'KS', 37.6872, -97.3301, '{670,671,672}'),
+('city', 'Jackson', 'MS', 32.2988, -90.1848, '{390,391,392}'),
+('city', 'Columbia', 'SC', 34.0007, -81.0348, '{290,291,292}'),
+('city', 'Charleston', 'SC', 32.7765, -79.9311, '{294}'),
+('city', 'Hartford', 'CT', 41.7658, -72.6734, '{060,061}'),
+('city', 'Providence', 'RI', 41.8240, -71.4128, '{028,029}'),
+('city', 'Manchester', 'NH', 42.9956, -71.4548, '{030,031}'),
+('city', 'Portland', 'ME', 43.6591, -70.2568, '{040,041}'),
+('city', 'Burlington', 'VT', 44.4759, -73.2121, '{054}'),
+('city', 'Wilmington', 'DE', 39.7391, -75.5398, '{197,198}'),
+('city', 'Charleston', 'WV', 38.3498, -81.6326, '{250,251,252,253}'),
+('city', 'Billings', 'MT', 45.7833, -108.5007, '{590,591}'),
+('city', 'Fargo', 'ND', 46.8772, -96.7898, '{580,581}'),
+('city', 'Sioux Falls', 'SD', 43.5446, -96.7311, '{570,571}'),
+('city', 'Cheyenne', 'WY', 41.1400, -104.8202, '{820}'),
+('city', 'El Paso', 'TX', 31.7619, -106.4850, '{798,799,885}'),
+('city', 'Oakland', 'CA', 37.8044, -122.2712, '{945,946}'),
+('city', 'Long Beach', 'CA', 33.7701, -118.1937, '{907,908}'),
+('city', 'Riverside', 'CA', 33.9806, -117.3755, '{925}'),
+('city', 'Spokane', 'WA', 47.6588, -117.4260, '{990,991,992}'),
+('city', 'Madison', 'WI', 43.0731, -89.4012, '{535,537}'),
+('city', 'Grand Rapids', 'MI', 42.9634, -85.6681, '{493,494,495}'),
+('city', 'Knoxville', 'TN', 35.9606, -83.9207, '{377,378,379}'),
+('city', 'Lexington', 'KY', 38.0406, -84.5037, '{403,404,405}')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO geo_zip_prefix_states (prefix_start, prefix_end, state) VALUES
+('005', '005', 'NY'), ('010', '027', 'MA'), ('028', '029', 'RI'), ('030', '038', 'NH'),
+('039', '049', 'ME'), ('050', '059', 'VT'), ('060', '069', 'CT'), ('070', '089', 'NJ'),
+('100', '149', 'NY'), ('150', '196', 'PA'), ('197', '199', 'DE'), ('200', '205', 'DC'),
+('206', '219', 'MD'), ('220', '246', 'VA'), ('247', '268', 'WV'), ('270', '289', 'NC'),
+('290', '299', 'SC'), ('300', '319', 'GA'), ('320', '349', 'FL'), ('350', '369', 'AL'),
+('370', '385', 'TN'), ('386', '397', 'MS'), ('398', '399', 'GA'), ('400', '427', 'KY'),
+('430', '459', 'OH'), ('460', '479', 'IN'), ('480', '499', 'MI'), ('500', '528', 'IA'),
+('530', '549', 'WI'), ('550', '567', 'MN'), ('570', '577', 'SD'), ('580', '588', 'ND'),
+('590', '599', 'MT'), ('600', '629', 'IL'), ('630', '658', 'MO'), ('660', '679', 'KS'),
+('680', '693', 'NE'), ('700', '714', 'LA'), ('716', '729', 'AR'), ('730', '749', 'OK'),
+('750', '799', 'TX'), ('800', '816', 'CO'), ('820', '831', 'WY'), ('832', '838', 'ID'),
+('840', '847', 'UT'), ('850', '865', 'AZ'), ('870', '884', 'NM'), ('885', '885', 'TX'),
+('889', '898', 'NV'), ('900', '961', 'CA'), ('967', '968', 'HI'), ('970', '979', 'OR'),
+('980', '994', 'WA'), ('995', '999', 'AK')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION normalize_state(p_state text)
+RETURNS text AS $$
+  SELECT gp.state
+  FROM geo_places gp
+  WHERE gp.place_type = 'state'
+  AND (gp.state = UPPER(TRIM(p_state)) OR LOWER(gp.name) = LOWER(TRIM(p_state)))
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Free text to coordinates. Returns no row when nothing matches.
+CREATE OR REPLACE FUNCTION geocode_location(p_location text)
+RETURNS TABLE (
+  latitude double precision,
+  longitude double precision,
+  state text,
+  location_precision text
+) AS $$
+DECLARE
+  v_text text := NULLIF(TRIM(p_location), '');
+  v_zip text;
+  v_state text;
+  v_city text;
+BEGIN
+  IF v_text IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_zip := SUBSTRING(v_text FROM '(?:^|\D)(\d{5})(?:-\d{4})?\s*$');
+
+  IF v_zip IS NOT NULL THEN
+    RETURN QUERY
+    SELECT gp.latitude, gp.longitude, gp.state, 'zip'::text
+    FROM geo_places gp
+    WHERE gp.place_type = 'city'
+    AND LEFT(v_zip, 3) = ANY(gp.zip_prefixes)
+    LIMIT 1;
+    IF FOUND THEN
+      RETURN;
+    END IF;
+
+    SELECT zps.state INTO v_state
+    FROM geo_zip_prefix_states zps
+    WHERE LEFT(v_zip, 3) BETWEEN zps.prefix_start AND zps.prefix_end;
+
+    -- Drop the ZIP so the rest of the text can still name a city
+    v_text := NULLIF(TRIM(BOTH ', ' FROM REPLACE(v_text, v_zip, '')), '');
+  END IF;
+
+  IF v_state IS NULL AND v_text IS NOT NULL THEN
+    IF POSITION(',' IN v_text) > 0 THEN
+      v_state := normalize_state(SPLIT_PART(v_text, ',', -1));
+      v_city := TRIM(SPLIT_PART(v_text, ',', 1));
+    ELSE
+      v_state := normalize_state(v_text);
+      -- "Austin TX"
+      IF v_state IS NULL AND v_text ~ '\s[A-Za-z]{2}$' THEN
+        v_state := normalize_state(RIGHT(v_text, 2));
+        v_city := TRIM(LEFT(v_text, -2));
+      ELSIF v_state IS NULL THEN
+        v_city := v_text;
+      END IF;
+    END IF;
+  ELSIF v_text IS NOT NULL THEN
+    v_city := TRIM(SPLIT_PART(v_text, ',', 1));
+  END IF;
+
+  IF NULLIF(v_city, '') IS NOT NULL THEN
+    RETURN QUERY
+    SELECT gp.latitude, gp.longitude, gp.state, 'city'::text
+    FROM geo_places gp
+    WHERE gp.place_type = 'city'
+    AND LOWER(gp.name) = LOWER(v_city)
+    AND (v_state IS NULL OR gp.state = v_state)
+    LIMIT 1;
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_state IS NOT NULL THEN
+    RETURN QUERY
+    SELECT gp.latitude, gp.longitude, gp.state, 'state'::text
+    FROM geo_places gp
+    WHERE gp.place_type = 'state'
+    AND gp.state = v_state;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Haversine distance on a 3,958.8 mile Earth radius
+CREATE OR REPLACE FUNCTION distance_miles(
+  p_lat1 double precision,
+  p_lng1 double precision,
+  p_lat2 double precision,
+  p_lng2 double precision
+)
+RETURNS numeric AS $$
+  SELECT ROUND((2 * 3958.8 * ASIN(SQRT(
+    POWER(SIN(RADIANS(p_lat2 - p_lat1) / 2), 2)
+    + COS(RADIANS(p_lat1)) * COS(RADIANS(p_lat2)) * POWER(SIN(RADIANS(p_lng2 - p_lng1) / 2), 2)
+  )))::numeric, 1);
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS latitude double precision,
+ADD COLUMN IF NOT EXISTS longitude double precision,
+ADD COLUMN IF NOT EXISTS location_state text,
+ADD COLUMN IF NOT EXISTS location_precision text
+  CHECK (location_precision IN ('zip', 'city', 'state'));
+
+ALTER TABLE firm_service_areas
+ADD COLUMN IF NOT EXISTS latitude double precision,
+ADD COLUMN IF NOT EXISTS longitude double precision;
+
+ALTER TABLE law_firms
+ADD COLUMN IF NOT EXISTS bar_admission_states text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_conversations_location_state ON conversations(location_state);
+
+CREATE OR REPLACE FUNCTION geocode_conversation_location()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_geo RECORD;
+BEGIN
+  SELECT * INTO v_geo FROM geocode_location(NEW.firm_location);
+
+  NEW.latitude := v_geo.latitude;
+  NEW.longitude := v_geo.longitude;
+  NEW.location_state := v_geo.state;
+  NEW.location_precision := v_geo.location_precision;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS geocode_conversation_location_trigger ON conversations;
+CREATE TRIGGER geocode_conversation_location_trigger
+  BEFORE INSERT OR UPDATE OF firm_location ON conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION geocode_conversation_location();
+
+CREATE OR REPLACE FUNCTION geocode_service_area()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_geo RECORD;
+BEGIN
+  SELECT * INTO v_geo
+  FROM geocode_location(COALESCE(
+    NULLIF(TRIM(NEW.zip_code), ''),
+    NULLIF(TRIM(NEW.city), '') || ', ' || NEW.state,
+    NEW.state
+  ));
+
+  NEW.latitude := v_geo.latitude;
+  NEW.longitude := v_geo.longitude;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS geocode_service_area_trigger ON firm_service_areas;
+CREATE TRIGGER geocode_service_area_trigger
+  BEFORE INSERT OR UPDATE OF state, city, zip_code ON firm_service_areas
+  FOR EACH ROW
+  EXECUTE FUNCTION geocode_service_area();
+
+-- Backfill existing rows. Conversations get the geocoded columns set directly,
+-- and only where a location geocodes, so firm_location isn't rewritten and
+-- the other conversation triggers only see rows that change
+UPDATE conversations c
+SET
+  latitude = g.latitude,
+  longitude = g.longitude,
+  location_state = g.state,
+  location_precision = g.location_precision
+FROM (
+  SELECT conv.id, geo.*
+  FROM conversations conv
+  CROSS JOIN LATERAL geocode_location(conv.firm_location) geo
+  WHERE conv.firm_location IS NOT NULL
+  AND conv.latitude IS NULL
+  AND conv.location_state IS NULL
+) g
+WHERE g.id = c.id
+AND g.state IS NOT NULL;
+
+UPDATE firm_service_areas
+SET state = state
+WHERE latitude IS NULL;
+
+UPDATE law_firms lf
+SET bar_admission_states = admitted.states
+FROM (
+  SELECT lf2.id, array_agg(DISTINCT s.state ORDER BY s.state) AS states
+  FROM law_firms lf2
+  CROSS JOIN LATERAL (
+    SELECT normalize_state(fsa.state) AS state
+    FROM firm_service_areas fsa
+    WHERE fsa.law_firm_id = lf2.id
+    UNION
+    SELECT g.state FROM geocode_location(lf2.location) g
+  ) s
+  WHERE s.state IS NOT NULL
+  GROUP BY lf2.id
+) admitted
+WHERE admitted.id = lf.id
+AND lf.bar_admission_states = '{}';
+
+CREATE OR REPLACE FUNCTION resolve_distribution_strategy(p_practice_area_id uuid, p_location_key text)
+RETURNS distribution_strategies AS $$
+  SELECT ds.*
+  FROM distribution_strategies ds
+  WHERE ds.active
+  AND (ds.practice_area_id IS NULL OR ds.practice_area_id = p_practice_area_id)
+  AND (
+    ds.location_key IS NULL
+    OR LOWER(COALESCE(normalize_state(ds.location_key), ds.location_key))
+      = LOWER(COALESCE(normalize_state(p_location_key), p_location_key))
+  )
+  ORDER BY (ds.practice_area_id IS NOT NULL) DESC, (ds.location_key IS NOT NULL) DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- The signatures change, so the old versions go rather than overload
+DROP FUNCTION IF EXISTS preview_lead_distribution(uuid, text, numeric, text);
+DROP FUNCTION IF EXISTS plan_lead_distribution(uuid, text, numeric, text, uuid[]);
+DROP FUNCTION IF EXISTS score_firm_for_lead(uuid, uuid, text, numeric, jsonb);
+
+-- Each component is on a 0-1 scale; the weights are normalized so admins can
+-- enter them as percentages or shares.
+CREATE OR REPLACE FUNCTION score_firm_for_lead(
+  p_law_firm_id uuid,
+  p_practice_area_id uuid,
+  p_location_key text,
+  p_urgency numeric,
+  p_weights jsonb,
+  p_latitude double precision DEFAULT NULL,
+  p_longitude double precision DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_firm RECORD;
+  v_experience integer;
+  v_practice_area numeric;
+  v_performance numeric;
+  v_availability numeric;
+  v_location numeric;
+  v_quality numeric;
+  v_usage numeric;
+  v_response numeric;
+  v_conversion numeric;
+  v_premium boolean;
+  v_nearest numeric;
+  v_radius_share numeric;
+  v_w_practice_area numeric := COALESCE((p_weights->>'practice_area')::numeric, 0.40);
+  v_w_performance numeric := COALESCE((p_weights->>'performance')::numeric, 0.25);
+  v_w_availability numeric := COALESCE((p_weights->>'availability')::numeric, 0.15);
+  v_w_location numeric := COALESCE((p_weights->>'location')::numeric, 0.10);
+  v_w_quality numeric := COALESCE((p_weights->>'quality')::numeric, 0.10);
+  v_total_weight numeric;
+BEGIN
+  SELECT * INTO v_firm FROM law_firms WHERE id = p_law_firm_id;
+
+  SELECT COALESCE(experience_years, 0) INTO v_experience
+  FROM law_firm_practice_areas
+  WHERE law_firm_id = p_law_firm_id
+  AND practice_area_id = p_practice_area_id;
+
+  -- Practice area: having it, plus experience
+  v_practice_area := 0.6 + CASE
+    WHEN COALESCE(v_experience, 0) >= 10 THEN 0.4
+    WHEN COALESCE(v_experience, 0) >= 5 THEN 0.3
+    WHEN COALESCE(v_experience, 0) >= 2 THEN 0.2
+    ELSE 0.1
+  END;
+
+  -- Performance: rating, success rate and conversion history
+  v_conversion := CASE
+    WHEN COALESCE(v_firm.total_leads_converted, 0) >= 50 THEN 1.0
+    WHEN v_firm.total_leads_converted >= 20 THEN 0.8
+    WHEN v_firm.total_leads_converted >= 10 THEN 0.6
+    WHEN v_firm.total_leads_converted >= 5 THEN 0.4
+    ELSE 0.3
+  END;
+  v_performance := COALESCE(v_firm.rating / 5.0, 0.5) * 0.4
+    + COALESCE(NULLIF(v_firm.success_rate, 0), 0.5) * 0.4
+    + v_conversion * 0.2;
+
+  -- Availability: remaining monthly capacity, blended with response time
+  IF COALESCE(v_firm.max_leads_per_month, 0) > 0 THEN
+    v_usage := COALESCE(v_firm.current_month_leads, 0)::numeric / v_firm.max_leads_per_month;
+    v_availability := CASE
+      WHEN v_usage < 0.5 THEN 1.0
+      WHEN v_usage < 0.75 THEN 0.7
+      WHEN v_usage < 0.9 THEN 0.4
+      ELSE 0.2
+    END;
+  ELSE
+    v_availability := 0.1;
+  END IF;
+
+  IF v_firm.avg_response_time_minutes IS NOT NULL THEN
+    v_response := CASE
+      WHEN v_firm.avg_response_time_minutes < 120 THEN 1.0
+      WHEN v_firm.avg_response_time_minutes < 240 THEN 0.8
+      WHEN v_firm.avg_response_time_minutes < 480 THEN 0.6
+      ELSE 0.4
+    END;
+    v_availability := v_availability * 0.7 + v_response * 0.3;
+  END IF;
+
+  -- Location: the closer within a service area's radius the better, then a
+  -- statewide area, then remote
+  IF p_latitude IS NOT NULL THEN
+    SELECT
+      MIN(distance_miles(p_latitude, p_longitude, fsa.latitude, fsa.longitude)),
+      MIN(distance_miles(p_latitude, p_longitude, fsa.latitude, fsa.longitude) / NULLIF(fsa.radius_miles, 0))
+    INTO v_nearest, v_radius_share
+    FROM firm_service_areas fsa
+    WHERE fsa.law_firm_id = p_law_firm_id
+    AND fsa.latitude IS NOT NULL
+    AND (NULLIF(TRIM(fsa.city), '') IS NOT NULL OR NULLIF(TRIM(fsa.zip_code), '') IS NOT NULL);
+
+    v_location := CASE
+      WHEN v_radius_share <= 1 THEN 1.0 - v_radius_share * 0.4
+      WHEN EXISTS (
+        SELECT 1 FROM firm_service_areas fsa
+        WHERE fsa.law_firm_id = p_law_firm_id
+        AND normalize_state(fsa.state) = p_location_key
+      ) THEN 0.8
+      WHEN v_firm.remote_capable THEN 0.5
+      ELSE 0.3
+    END;
+  ELSE
+    v_location := CASE
+      WHEN EXISTS (
+        SELECT 1 FROM firm_service_areas fsa
+        WHERE fsa.law_firm_id = p_law_firm_id
+        AND LOWER(fsa.state) = LOWER(p_location_key)
+      ) THEN 1.0
+      WHEN v_firm.remote_capable THEN 0.5
+      ELSE 0.3
+    END;
+  END IF;
+
+  -- Quality fit: premium firms and fast responders for urgent leads
+  v_premium := v_firm.subscription_tier IN ('pro', 'enterprise');
+  v_quality := CASE
+    WHEN v_premium AND p_urgency >= 8 THEN 1.0
+    WHEN p_urgency >= 8 THEN 0.8
+    WHEN v_premium THEN 0.7
+    ELSE 0.6
+  END;
+  IF p_urgency >= 8 AND v_firm.avg_response_time_minutes < 180 THEN
+    v_quality := LEAST(v_quality * 1.1, 1.0);
+  END IF;
+
+  v_total_weight := v_w_practice_area + v_w_performance + v_w_availability + v_w_location + v_w_quality;
+  IF v_total_weight <= 0 THEN
+    v_total_weight := 1;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'score', ROUND((
+      v_practice_area * v_w_practice_area +
+      v_performance * v_w_performance +
+      v_availability * v_w_availability +
+      v_location * v_w_location +
+      v_quality * v_w_quality
+    ) / v_total_weight, 3),
+    'practice_area', ROUND(v_practice_area, 3),
+    'performance', ROUND(v_performance, 3),
+    'availability', ROUND(v_availability, 3),
+    'location', ROUND(v_location, 3),
+    'quality', ROUND(v_quality, 3),
+    'distance_miles', v_nearest
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION nearest_service_area_miles(
+  p_law_firm_id uuid,
+  p_latitude double precision,
+  p_longitude double precision
+)
+RETURNS numeric AS $$
+  SELECT MIN(distance_miles(p_latitude, p_longitude, fsa.latitude, fsa.longitude))
+  FROM firm_service_areas fsa
+  WHERE fsa.law_firm_id = p_law_firm_id
+  AND fsa.latitude IS NOT NULL;
+$$ LANGUAGE sql STABLE;
+
+-- Firms a lead would be offered to under its strategy. Reads the rotation
+-- state but changes nothing, so it also serves the dry-run preview.
+CREATE OR REPLACE FUNCTION plan_lead_distribution(
+  p_practice_area_id uuid,
+  p_firm_location text,
+  p_urgency numeric,
+  p_language text,
+  p_exclude_firm_ids uuid[] DEFAULT '{}'
+)
+RETURNS TABLE (
+  law_firm_id uuid,
+  firm_name text,
+  match_score numeric,
+  assignment_method text,
+  strategy text,
+  strategy_id uuid,
+  location_key text,
+  score_breakdown jsonb,
+  distance_miles numeric
+) AS $$
+DECLARE
+  v_geo RECORD;
+  v_location_key text;
+  v_strategy distribution_strategies;
+  v_strategy_name text;
+  v_eligible_firms uuid[];
+  v_last_firm_id uuid;
+  v_position integer;
+  v_selected_firm_id uuid;
+BEGIN
+  SELECT * INTO v_geo FROM geocode_location(p_firm_location);
+
+  -- Regions are states; ungeocoded locations keep the text after the last comma
+  v_location_key := COALESCE(v_geo.state, TRIM(COALESCE(SPLIT_PART(p_firm_location, ',', -1), 'unknown')));
+
+  v_strategy := resolve_distribution_strategy(p_practice_area_id, v_location_key);
+  v_strategy_name := COALESCE(v_strategy.strategy, 'round_robin');
+
+  IF v_strategy_name = 'exclusive' THEN
+    IF NOT v_strategy.exclusive_firm_id = ANY(p_exclude_firm_ids) THEN
+      RETURN QUERY
+      SELECT
+        lf.id, lf.name, 1.0::numeric, 'exclusive'::text, v_strategy_name, v_strategy.id, v_location_key, NULL::jsonb,
+        nearest_service_area_miles(lf.id, v_geo.latitude, v_geo.longitude)
+      FROM law_firms lf
+      WHERE lf.id = v_strategy.exclusive_firm_id
+      AND lf.deleted_at IS NULL;
+    END IF;
+    RETURN;
+  END IF;
+
+  -- Eligible firms: active subscription, practice area, admitted in the
+  -- caller's state (when the firm lists its states), a service area covering
+  -- the caller or remote, under capacity, and not already offered this lead.
+  -- A city or ZIP covers callers within its radius; a state-only area, or a
+  -- caller known only by state, matches on the state.
+  SELECT array_agg(lf.id ORDER BY lf.created_at, lf.id) INTO v_eligible_firms
+  FROM law_firms lf
+  JOIN law_firm_practice_areas lfpa ON lf.id = lfpa.law_firm_id
+  WHERE lfpa.practice_area_id = p_practice_area_id
+    AND lf.subscription_status = 'active'
+    AND lf.deleted_at IS NULL
+    AND lf.current_month_leads < lf.max_leads_per_month
+    AND NOT lf.id = ANY(p_exclude_firm_ids)
+    AND (v_geo.state IS NULL OR cardinality(lf.bar_admission_states) = 0 OR v_geo.state = ANY(lf.bar_admission_states))
+    AND (
+      lf.remote_capable = true
+      OR EXISTS (
+        SELECT 1 FROM firm_service_areas fsa
+        WHERE fsa.law_firm_id = lf.id
+        AND CASE
+          WHEN v_geo.state IS NULL THEN
+            fsa.state = v_location_key OR fsa.city ILIKE '%' || p_firm_location || '%'
+          WHEN v_geo.location_precision = 'state'
+            OR (NULLIF(TRIM(fsa.city), '') IS NULL AND NULLIF(TRIM(fsa.zip_code), '') IS NULL) THEN
+            normalize_state(fsa.state) = v_geo.state
+          ELSE
+            distance_miles(v_geo.latitude, v_geo.longitude, fsa.latitude, fsa.longitude) <= fsa.radius_miles
+        END
+      )
+    );
+
+  IF v_eligible_firms IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Prefer firms that speak the client's language
+  IF EXISTS (
+    SELECT 1 FROM law_firms lf
+    WHERE lf.id = ANY(v_eligible_firms)
+    AND p_language = ANY(lf.languages)
+  ) THEN
+    SELECT array_agg(lf.id ORDER BY array_position(v_eligible_firms, lf.id)) INTO v_eligible_firms
+    FROM law_firms lf
+    WHERE lf.id = ANY(v_eligible_firms)
+    AND p_language = ANY(lf.languages);
+  END IF;
+
+  IF v_strategy_name = 'round_robin' THEN
+    SELECT lrs.last_assigned_firm_id INTO v_last_firm_id
+    FROM lead_rotation_state lrs
+    WHERE lrs.practice_area_id = p_practice_area_id
+    AND lrs.location_key = v_location_key;
+
+    v_position := array_position(v_eligible_firms, v_last_firm_id);
+    v_selected_firm_id := v_eligible_firms[
+      CASE WHEN v_position IS NULL THEN 1 ELSE (v_position % array_length(v_eligible_firms, 1)) + 1 END
+    ];
+
+    RETURN QUERY
+    SELECT
+      lf.id, lf.name, 1.0::numeric, 'rotation'::text, v_strategy_name, v_strategy.id, v_location_key, NULL::jsonb,
+      nearest_service_area_miles(lf.id, v_geo.latitude, v_geo.longitude)
+    FROM law_firms lf
+    WHERE lf.id = v_selected_firm_id;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    scored.id,
+    scored.name,
+    (scored.breakdown->>'score')::numeric,
+    CASE v_strategy_name WHEN 'weighted_score' THEN 'auto' ELSE v_strategy_name END,
+    v_strategy_name,
+    v_strategy.id,
+    v_location_key,
+    scored.breakdown,
+    (scored.breakdown->>'distance_miles')::numeric
+  FROM (
+    SELECT
+      lf.id,
+      lf.name,
+      score_firm_for_lead(
+        lf.id, p_practice_area_id, v_location_key, p_urgency, v_strategy.weights, v_geo.latitude, v_geo.longitude
+      ) AS breakdown
+    FROM law_firms lf
+    WHERE lf.id = ANY(v_eligible_firms)
+  ) scored
+  WHERE (scored.breakdown->>'score')::numeric >= v_strategy.min_score
+  ORDER BY (scored.breakdown->>'score')::numeric DESC, array_position(v_eligible_firms, scored.id)
+  LIMIT CASE v_strategy_name
+    WHEN 'weighted_score' THEN 1
+    WHEN 'broadcast' THEN v_strategy.firm_count
+    ELSE NULL
+  END;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION preview_lead_distribution(
+  p_practice_area_id uuid,
+  p_firm_location text,
+  p_urgency numeric DEFAULT 5,
+  p_language text DEFAULT 'en'
+)
+RETURNS TABLE (
+  law_firm_id uuid,
+  firm_name text,
+  match_score numeric,
+  assignment_method text,
+  strategy text,
+  strategy_id uuid,
+  location_key text,
+  score_breakdown jsonb,
+  distance_miles numeric
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - System admin role required';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM plan_lead_distribution(p_practice_area_id, p_firm_location, p_urgency, p_language);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION preview_lead_distribution(uuid, text, numeric, text) TO authenticated;
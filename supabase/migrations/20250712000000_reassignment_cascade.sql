@@ -0,0 +1,329 @@
+/*
+  # Reassignment Cascade
+
+  A lead a firm passed on was offered to the next firm, but one whose offer
+  expired was not, so leads that ran out the 24-hour clock just stopped. Both
+  now cascade: once no offer on a lead is open, it goes to the next firm in
+  rotation or score order, skipping every firm that has already had it.
+
+  Each round of offers is numbered. A lead gets as many rounds as its own
+  limit allows, or else its distribution strategy's; after the last round, or
+  when no eligible firm is left, it is marked exhausted so admins can follow
+  up, raise the limit or send it out again.
+
+  1. Modified Tables
+    - `lead_assignments`
+      - `attempt` (integer): Offer round the assignment belongs to, backfilled
+        from the order the lead was offered in
+    - `distribution_strategies`
+      - `max_attempts` (integer): Offer rounds a lead gets under the strategy
+    - `conversations`
+      - `max_offer_attempts` (integer): Per-lead override of the strategy's
+        limit
+      - `distribution_exhausted_at` (timestamptz): When the cascade ran out of
+        rounds or firms
+
+  2. New Functions
+    - `redistribute_lead`: Sends an exhausted or stalled lead out again,
+      optionally with a new round limit (system admins)
+
+  3. Modified Functions
+    - `distribute_lead_with_rotation`: Numbers offer rounds and stops at the
+      lead's limit
+    - `expire_lead_assignments`: Offers leads whose last open offer expired to
+      the next firm
+*/
+
+ALTER TABLE lead_assignments
+ADD COLUMN IF NOT EXISTS attempt integer NOT NULL DEFAULT 1 CHECK (attempt > 0);
+
+ALTER TABLE distribution_strategies
+ADD COLUMN IF NOT EXISTS max_attempts integer NOT NULL DEFAULT 3 CHECK (max_attempts > 0);
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS max_offer_attempts integer CHECK (max_offer_attempts > 0),
+ADD COLUMN IF NOT EXISTS distribution_exhausted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_lead_assignments_conversation_attempt
+  ON lead_assignments(conversation_id, attempt);
+CREATE INDEX IF NOT EXISTS idx_conversations_distribution_exhausted
+  ON conversations(distribution_exhausted_at)
+  WHERE distribution_exhausted_at IS NOT NULL;
+
+-- Offers made together (one distribution run) share a timestamp and a round
+UPDATE lead_assignments la
+SET attempt = ranked.attempt
+FROM (
+  SELECT id, DENSE_RANK() OVER (PARTITION BY conversation_id ORDER BY assigned_at) AS attempt
+  FROM lead_assignments
+) ranked
+WHERE ranked.id = la.id
+AND la.attempt IS DISTINCT FROM ranked.attempt;
+
+CREATE OR REPLACE FUNCTION distribute_lead_with_rotation(conversation_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_case_category text;
+  v_firm_location text;
+  v_location_key text;
+  v_urgency_score decimal;
+  v_practice_area_id uuid;
+  v_language text;
+  v_source_firm_id uuid;
+  v_embed_routing text;
+  v_source_firm_active boolean;
+  v_max_attempts integer;
+  v_attempt integer;
+  v_offered_firms uuid[];
+  v_offer RECORD;
+  v_assigned integer := 0;
+BEGIN
+  -- Get conversation details
+  SELECT
+    c.case_category,
+    c.firm_location,
+    COALESCE(c.location_state, TRIM(SPLIT_PART(c.firm_location, ',', -1))),
+    COALESCE(c.openai_urgency_score, c.urgency_score::decimal) as urgency_score,
+    c.practice_area_id,
+    c.language,
+    c.source_firm_id,
+    c.max_offer_attempts
+  INTO
+    v_case_category,
+    v_firm_location,
+    v_location_key,
+    v_urgency_score,
+    v_practice_area_id,
+    v_language,
+    v_source_firm_id,
+    v_max_attempts
+  FROM conversations c
+  WHERE c.id = conversation_id;
+
+  -- Fall back to resolving the free-text category (name or synonym)
+  IF v_practice_area_id IS NULL THEN
+    v_practice_area_id := resolve_practice_area(v_case_category);
+  END IF;
+
+  -- Unresolvable categories wait in the triage queue instead of being dropped
+  IF v_practice_area_id IS NULL THEN
+    UPDATE conversations c
+    SET classification_status = 'unclassified'
+    WHERE c.id = conversation_id;
+    RETURN;
+  END IF;
+
+  UPDATE conversations c
+  SET
+    practice_area_id = v_practice_area_id,
+    classification_status = CASE
+      WHEN c.classification_status = 'triaged' THEN 'triaged'
+      ELSE 'classified'
+    END
+  WHERE c.id = conversation_id
+  AND (c.practice_area_id IS DISTINCT FROM v_practice_area_id OR c.classification_status NOT IN ('classified', 'triaged'));
+
+  SELECT COALESCE(MAX(la.attempt), 0) + 1 INTO v_attempt
+  FROM lead_assignments la
+  WHERE la.conversation_id = distribute_lead_with_rotation.conversation_id;
+
+  -- Leads from a firm's website widget go to that firm instead of the
+  -- rotation. An exclusive widget keeps the lead with the firm even after it
+  -- passes; a preferred one falls back to the rotation when the firm passes or
+  -- has no active subscription.
+  IF v_source_firm_id IS NOT NULL THEN
+    SELECT lf.embed_routing, lf.subscription_status = 'active'
+    INTO v_embed_routing, v_source_firm_active
+    FROM law_firms lf
+    WHERE lf.id = v_source_firm_id;
+
+    IF EXISTS (
+      SELECT 1 FROM lead_assignments la
+      WHERE la.conversation_id = distribute_lead_with_rotation.conversation_id
+      AND la.law_firm_id = v_source_firm_id
+    ) THEN
+      IF v_embed_routing = 'exclusive' THEN
+        RETURN;
+      END IF;
+    ELSIF v_embed_routing = 'exclusive' OR v_source_firm_active THEN
+      -- The firm's own leads don't count against its monthly lead limit
+      INSERT INTO lead_assignments (
+        conversation_id,
+        law_firm_id,
+        match_score,
+        assignment_method,
+        status,
+        attempt
+      ) VALUES (
+        conversation_id,
+        v_source_firm_id,
+        1.0,
+        'embed',
+        'pending',
+        v_attempt
+      );
+
+      UPDATE law_firms
+      SET last_lead_assigned_at = now()
+      WHERE id = v_source_firm_id;
+
+      UPDATE conversations
+      SET status = 'matched'
+      WHERE id = conversation_id;
+
+      RETURN;
+    END IF;
+  END IF;
+
+  -- A shared offer stays open until every firm has answered or one accepts
+  IF EXISTS (
+    SELECT 1 FROM lead_assignments la
+    WHERE la.conversation_id = distribute_lead_with_rotation.conversation_id
+    AND la.status IN ('pending', 'accepted')
+  ) THEN
+    RETURN;
+  END IF;
+
+  -- The lead's own limit wins over its strategy's
+  v_max_attempts := COALESCE(
+    v_max_attempts,
+    (resolve_distribution_strategy(v_practice_area_id, v_location_key)).max_attempts,
+    3
+  );
+
+  IF v_attempt > v_max_attempts THEN
+    UPDATE conversations c
+    SET distribution_exhausted_at = now()
+    WHERE c.id = conversation_id
+    AND c.distribution_exhausted_at IS NULL;
+    RETURN;
+  END IF;
+
+  -- Every firm that has had the lead, whatever it did with it, is skipped
+  SELECT COALESCE(array_agg(la.law_firm_id), '{}') INTO v_offered_firms
+  FROM lead_assignments la
+  WHERE la.conversation_id = distribute_lead_with_rotation.conversation_id;
+
+  FOR v_offer IN
+    SELECT * FROM plan_lead_distribution(
+      v_practice_area_id,
+      v_firm_location,
+      v_urgency_score,
+      v_language,
+      v_offered_firms
+    )
+  LOOP
+    INSERT INTO lead_assignments (
+      conversation_id,
+      law_firm_id,
+      match_score,
+      assignment_method,
+      status,
+      attempt
+    ) VALUES (
+      conversation_id,
+      v_offer.law_firm_id,
+      v_offer.match_score,
+      v_offer.assignment_method,
+      'pending',
+      v_attempt
+    );
+
+    -- Shared offers count against the firm that accepts (handle_lead_response)
+    UPDATE law_firms
+    SET
+      current_month_leads = current_month_leads
+        + CASE WHEN v_offer.assignment_method IN ('first_to_claim', 'broadcast') THEN 0 ELSE 1 END,
+      last_lead_assigned_at = now()
+    WHERE id = v_offer.law_firm_id;
+
+    IF v_offer.assignment_method = 'rotation' THEN
+      INSERT INTO lead_rotation_state (practice_area_id, location_key, last_assigned_firm_id)
+      VALUES (v_practice_area_id, v_offer.location_key, v_offer.law_firm_id)
+      ON CONFLICT (practice_area_id, location_key)
+      DO UPDATE SET
+        last_assigned_firm_id = EXCLUDED.last_assigned_firm_id,
+        updated_at = now();
+    END IF;
+
+    v_assigned := v_assigned + 1;
+  END LOOP;
+
+  IF v_assigned > 0 THEN
+    UPDATE conversations
+    SET
+      status = 'matched',
+      distribution_exhausted_at = NULL
+    WHERE id = conversation_id;
+  ELSE
+    UPDATE conversations c
+    SET distribution_exhausted_at = now()
+    WHERE c.id = conversation_id
+    AND c.distribution_exhausted_at IS NULL;
+  END IF;
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log error but don't fail
+    RAISE WARNING 'Error in distribute_lead_with_rotation: %', SQLERRM;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION expire_lead_assignments()
+RETURNS integer AS $$
+DECLARE
+  v_expired integer;
+  v_conversation_ids uuid[];
+  v_conversation_id uuid;
+BEGIN
+  WITH expired AS (
+    UPDATE lead_assignments
+    SET status = 'expired'
+    WHERE status = 'pending'
+    AND expires_at < now()
+    RETURNING conversation_id
+  )
+  SELECT COUNT(*), COALESCE(array_agg(DISTINCT conversation_id), '{}')
+  INTO v_expired, v_conversation_ids
+  FROM expired;
+
+  -- Leads with another offer still open wait for it
+  FOREACH v_conversation_id IN ARRAY v_conversation_ids LOOP
+    PERFORM distribute_lead_with_rotation(v_conversation_id);
+  END LOOP;
+
+  RETURN v_expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION redistribute_lead(p_conversation_id uuid, p_max_attempts integer DEFAULT NULL)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - System admin role required';
+  END IF;
+
+  IF p_max_attempts IS NOT NULL AND p_max_attempts < 1 THEN
+    RAISE EXCEPTION 'Max attempts must be at least 1';
+  END IF;
+
+  UPDATE conversations
+  SET
+    max_offer_attempts = COALESCE(p_max_attempts, max_offer_attempts),
+    distribution_exhausted_at = NULL
+  WHERE id = p_conversation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  PERFORM distribute_lead_with_rotation(p_conversation_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION redistribute_lead(uuid, integer) TO authenticated;
@@ -0,0 +1,563 @@
+/*
+  # Scheduled Maintenance Jobs
+
+  Offer expiry, firm metrics, the monthly lead reset, the email queue and
+  soft-delete cleanup were defined but never called, and the job worker only
+  ran when something nudged it. They are now registered in `scheduled_jobs`
+  and run by pg_cron through `run_scheduled_job`, which records every run's
+  duration, rows affected and error. System admins see the runs under
+  Admin → Background Jobs and can run a job on demand.
+
+  The email queue and the job worker drain call edge functions through
+  pg_net, using the `app.settings.supabase_url` and
+  `app.settings.service_role_key` database settings. Queued lead
+  notifications used to be marked sent without being sent; they are now
+  marked sent only once send-lead-notification answers with success.
+
+  `expire_old_matches` went away with the `matches` table; its replacement,
+  `expire_lead_assignments`, is the expiry job.
+
+  1. Modified Tables
+    - `email_queue`
+      - `body` is optional; template emails are rendered by their function
+      - `net_request_id` (bigint): pg_net request of the current send attempt
+      - `dispatched_at` (timestamptz): When the current attempt was sent
+
+  2. New Tables
+    - `scheduled_jobs`: Registry of maintenance jobs
+      - `name` (text, primary key): Job name, also its pg_cron job name
+      - `description` (text): What the job does
+      - `function_name` (text): Function the job calls; it takes no arguments
+        and returns the rows it affected
+      - `schedule` (text): Cron expression
+      - `enabled` (boolean): Scheduled runs are skipped while disabled
+      - `last_run_at`, `last_duration_ms`, `last_rows_affected`,
+        `last_status`, `last_error`: Outcome of the latest run
+    - `scheduled_job_runs`: One row per run
+      - `triggered_by` (text): 'schedule' or 'manual'
+      - `triggered_by_user` (uuid): Admin who ran it manually
+      - `status` (text): running, succeeded or failed
+
+  3. New Functions
+    - `call_edge_function`: Queues a pg_net POST to an edge function with the
+      service role key
+    - `drain_job_queue`: Runs the job worker when jobs are due
+    - `run_scheduled_job`: Runs a job and records the run (service role)
+    - `schedule_maintenance_jobs`: Registers every job with pg_cron
+    - `trigger_scheduled_job`: Runs a job now (system admins)
+    - `set_scheduled_job_enabled`: Pauses or resumes a job (system admins)
+
+  4. Modified Functions
+    - `update_firm_metrics`, `reset_monthly_lead_counts`,
+      `process_email_queue`, `cleanup_old_deleted_records`: Return the rows
+      they affected. The monthly reset no longer checks the day itself; the
+      schedule decides when it runs.
+    - `process_email_queue`: Sends lead notifications through
+      send-lead-notification and retries failed sends
+
+  5. Security
+    - Enable RLS
+    - Only the service role writes; system admins can read
+    - Job functions can only be run by pg_cron or the service role
+*/
+
+ALTER TABLE email_queue
+ALTER COLUMN body DROP NOT NULL,
+ADD COLUMN IF NOT EXISTS net_request_id bigint,
+ADD COLUMN IF NOT EXISTS dispatched_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+  name text PRIMARY KEY,
+  description text,
+  function_name text NOT NULL,
+  schedule text NOT NULL,
+  enabled boolean NOT NULL DEFAULT true,
+  last_run_at timestamptz,
+  last_duration_ms integer,
+  last_rows_affected integer,
+  last_status text CHECK (last_status IN ('succeeded', 'failed')),
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS scheduled_job_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_name text REFERENCES scheduled_jobs(name) ON DELETE CASCADE NOT NULL,
+  triggered_by text NOT NULL DEFAULT 'schedule' CHECK (triggered_by IN ('schedule', 'manual')),
+  triggered_by_user uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  duration_ms integer,
+  rows_affected integer,
+  error text
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_job ON scheduled_job_runs(job_name, started_at DESC);
+
+ALTER TABLE scheduled_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_job_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only service role can manage scheduled jobs"
+  ON scheduled_jobs
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE POLICY "System admins can view scheduled jobs"
+  ON scheduled_jobs
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'system_admin'
+    AND profiles.deleted_at IS NULL
+  ));
+
+CREATE POLICY "Only service role can manage scheduled job runs"
+  ON scheduled_job_runs
+  FOR ALL
+  TO service_role
+  USING (true);
+
+CREATE POLICY "System admins can view scheduled job runs"
+  ON scheduled_job_runs
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'system_admin'
+    AND profiles.deleted_at IS NULL
+  ));
+
+CREATE TRIGGER update_scheduled_jobs_modtime
+  BEFORE UPDATE ON scheduled_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_modified_column();
+
+-- The jobs now report how much they did, so their return types change
+DROP FUNCTION IF EXISTS update_firm_metrics();
+DROP FUNCTION IF EXISTS reset_monthly_lead_counts();
+DROP FUNCTION IF EXISTS process_email_queue();
+DROP FUNCTION IF EXISTS cleanup_old_deleted_records(integer);
+
+CREATE OR REPLACE FUNCTION update_firm_metrics()
+RETURNS integer AS $$
+DECLARE
+  firm RECORD;
+  yesterday DATE := CURRENT_DATE - 1;
+  v_rows integer;
+  v_total integer := 0;
+BEGIN
+  FOR firm IN SELECT id FROM law_firms LOOP
+    INSERT INTO firm_metrics (
+      law_firm_id,
+      metric_date,
+      leads_received,
+      leads_claimed,
+      leads_contacted,
+      leads_converted,
+      avg_response_time_minutes
+    )
+    SELECT
+      firm.id,
+      yesterday,
+      COUNT(DISTINCT a.conversation_id) FILTER (WHERE a.assigned_at::date = yesterday),
+      COUNT(DISTINCT l.id) FILTER (WHERE l.claimed_at::date = yesterday AND l.claimed_by_firm_id = firm.id),
+      COUNT(DISTINCT la.lead_id) FILTER (WHERE la.created_at::date = yesterday AND la.activity_type = 'contacted'),
+      COUNT(DISTINCT l.id) FILTER (WHERE l.status = 'converted' AND l.updated_at::date = yesterday),
+      AVG(EXTRACT(EPOCH FROM (a.responded_at - a.assigned_at))/60)::integer
+    FROM law_firms lf
+    LEFT JOIN lead_assignments a ON a.law_firm_id = lf.id
+    LEFT JOIN leads l ON l.conversation_id = a.conversation_id
+    LEFT JOIN lead_activities la ON la.lead_id = l.id
+    WHERE lf.id = firm.id
+    GROUP BY lf.id
+    ON CONFLICT (law_firm_id, metric_date)
+    DO UPDATE SET
+      leads_received = EXCLUDED.leads_received,
+      leads_claimed = EXCLUDED.leads_claimed,
+      leads_contacted = EXCLUDED.leads_contacted,
+      leads_converted = EXCLUDED.leads_converted,
+      avg_response_time_minutes = EXCLUDED.avg_response_time_minutes,
+      updated_at = now();
+
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    v_total := v_total + v_rows;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Runs on the 1st of each month (see scheduled_jobs)
+CREATE OR REPLACE FUNCTION reset_monthly_lead_counts()
+RETURNS integer AS $$
+DECLARE
+  v_rows integer;
+BEGIN
+  UPDATE law_firms
+  SET
+    current_month_leads = 0,
+    leads_used_this_month = 0
+  WHERE current_month_leads <> 0
+  OR leads_used_this_month <> 0;
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  RETURN v_rows;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Queues a POST to an edge function; pg_net sends it once the transaction
+-- commits and keeps the response in net._http_response
+CREATE OR REPLACE FUNCTION call_edge_function(p_function text, p_body jsonb DEFAULT '{}'::jsonb)
+RETURNS bigint AS $$
+DECLARE
+  v_supabase_url text := current_setting('app.settings.supabase_url', true);
+  v_service_key text := current_setting('app.settings.service_role_key', true);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    RAISE EXCEPTION 'pg_net is not enabled';
+  END IF;
+
+  IF COALESCE(v_supabase_url, '') = '' OR COALESCE(v_service_key, '') = '' THEN
+    RAISE EXCEPTION 'app.settings.supabase_url and app.settings.service_role_key must be set';
+  END IF;
+
+  RETURN net.http_post(
+    url := v_supabase_url || '/functions/v1/' || p_function,
+    body := p_body,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_service_key
+    ),
+    timeout_milliseconds := 30000
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- pg_net answers after the run that sent the request, so each run first
+-- settles earlier sends: a 2xx marks the email sent, and an error or no answer
+-- within 10 minutes puts it back in the queue until it runs out of retries.
+-- Returns the emails settled plus the emails sent.
+CREATE OR REPLACE FUNCTION process_email_queue()
+RETURNS integer AS $$
+DECLARE
+  email_record RECORD;
+  v_rows integer;
+  v_processed integer := 0;
+BEGIN
+  UPDATE email_queue q
+  SET
+    status = 'sent',
+    sent_at = now(),
+    error = NULL
+  FROM net._http_response r
+  WHERE q.status = 'sending'
+  AND r.id = q.net_request_id
+  AND r.status_code BETWEEN 200 AND 299;
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  v_processed := v_processed + v_rows;
+
+  WITH failed AS (
+    SELECT
+      q.id,
+      CASE
+        WHEN r.id IS NULL THEN 'No response'
+        ELSE COALESCE(r.error_msg, 'Sender returned ' || r.status_code)
+      END AS error
+    FROM email_queue q
+    LEFT JOIN net._http_response r ON r.id = q.net_request_id
+    WHERE q.status = 'sending'
+    AND CASE
+      WHEN r.id IS NULL THEN COALESCE(q.dispatched_at, '-infinity') < now() - interval '10 minutes'
+      ELSE r.status_code IS NULL OR r.status_code NOT BETWEEN 200 AND 299
+    END
+  )
+  UPDATE email_queue q
+  SET
+    status = CASE WHEN q.retry_count + 1 >= q.max_retries THEN 'failed' ELSE 'pending' END,
+    retry_count = q.retry_count + 1,
+    error = failed.error
+  FROM failed
+  WHERE q.id = failed.id;
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  v_processed := v_processed + v_rows;
+
+  FOR email_record IN
+    SELECT * FROM email_queue
+    WHERE status = 'pending'
+    AND scheduled_for <= now()
+    AND retry_count < max_retries
+    ORDER BY scheduled_for
+    LIMIT 10
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    -- Lead notifications are the only emails queued with a sender
+    IF email_record.template_name = 'send-lead-notification' THEN
+      UPDATE email_queue
+      SET
+        status = 'sending',
+        dispatched_at = now(),
+        net_request_id = call_edge_function('send-lead-notification', email_record.template_data)
+      WHERE id = email_record.id;
+    ELSE
+      UPDATE email_queue
+      SET
+        status = 'failed',
+        error = 'No sender for template ' || COALESCE(email_record.template_name, '(none)')
+      WHERE id = email_record.id;
+    END IF;
+
+    v_processed := v_processed + 1;
+  END LOOP;
+
+  RETURN v_processed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The job worker only runs when called; this calls it whenever a job is due
+-- or a claimed job may have gone stale. Returns the jobs waiting.
+CREATE OR REPLACE FUNCTION drain_job_queue()
+RETURNS integer AS $$
+DECLARE
+  v_waiting integer;
+BEGIN
+  SELECT COUNT(*) INTO v_waiting
+  FROM job_queue
+  WHERE (status = 'pending' AND run_at <= now())
+  OR status = 'running';
+
+  IF v_waiting > 0 THEN
+    PERFORM call_edge_function('job-worker');
+  END IF;
+
+  RETURN v_waiting;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION cleanup_old_deleted_records(retention_days integer DEFAULT 90)
+RETURNS integer AS $$
+DECLARE
+  v_rows integer;
+  v_total integer := 0;
+BEGIN
+  -- Permanently delete profiles older than retention period
+  DELETE FROM profiles
+  WHERE deleted_at IS NOT NULL
+  AND deleted_at < (now() - make_interval(days => retention_days));
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  v_total := v_total + v_rows;
+
+  DELETE FROM law_firms
+  WHERE deleted_at IS NOT NULL
+  AND deleted_at < (now() - make_interval(days => retention_days));
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  v_total := v_total + v_rows;
+
+  DELETE FROM conversations
+  WHERE deleted_at IS NOT NULL
+  AND deleted_at < (now() - make_interval(days => retention_days));
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  v_total := v_total + v_rows;
+
+  DELETE FROM leads
+  WHERE deleted_at IS NOT NULL
+  AND deleted_at < (now() - make_interval(days => retention_days));
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  v_total := v_total + v_rows;
+
+  -- Log the cleanup
+  INSERT INTO audit_logs (user_id, action, table_name, new_data)
+  VALUES (
+    auth.uid(),
+    'cleanup_deleted',
+    'system',
+    jsonb_build_object('retention_days', retention_days, 'deleted', v_total)
+  );
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+INSERT INTO scheduled_jobs (name, description, function_name, schedule) VALUES
+('expire-lead-assignments', 'Expire unanswered offers and pass the leads on', 'expire_lead_assignments', '*/15 * * * *'),
+('process-email-queue', 'Send queued notification emails', 'process_email_queue', '* * * * *'),
+('drain-job-queue', 'Run the job worker for due background jobs', 'drain_job_queue', '* * * * *'),
+('update-firm-metrics', 'Roll up yesterday''s lead metrics per firm', 'update_firm_metrics', '15 0 * * *'),
+('reset-monthly-lead-counts', 'Reset every firm''s monthly lead count', 'reset_monthly_lead_counts', '0 0 1 * *'),
+('cleanup-old-deleted-records', 'Purge records soft-deleted more than 90 days ago', 'cleanup_old_deleted_records', '30 3 * * 0')
+ON CONFLICT (name) DO NOTHING;
+
+-- Runs a registered job and records the outcome. A failing job's changes
+-- roll back, but its run and error are kept.
+CREATE OR REPLACE FUNCTION run_scheduled_job(p_job_name text, p_triggered_by text DEFAULT 'schedule')
+RETURNS uuid AS $$
+DECLARE
+  v_job scheduled_jobs;
+  v_run_id uuid;
+  v_started timestamptz := clock_timestamp();
+  v_rows integer;
+  v_status text;
+  v_error text;
+  v_duration integer;
+BEGIN
+  SELECT * INTO v_job FROM scheduled_jobs WHERE name = p_job_name;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown scheduled job: %', p_job_name;
+  END IF;
+
+  IF p_triggered_by = 'schedule' AND NOT v_job.enabled THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO scheduled_job_runs (job_name, triggered_by, triggered_by_user, started_at)
+  VALUES (p_job_name, p_triggered_by, auth.uid(), v_started)
+  RETURNING id INTO v_run_id;
+
+  BEGIN
+    EXECUTE format('SELECT %I()', v_job.function_name) INTO v_rows;
+    v_status := 'succeeded';
+  EXCEPTION
+    WHEN OTHERS THEN
+      v_status := 'failed';
+      v_error := SQLERRM;
+  END;
+
+  v_duration := (EXTRACT(EPOCH FROM (clock_timestamp() - v_started)) * 1000)::integer;
+
+  UPDATE scheduled_job_runs
+  SET
+    status = v_status,
+    finished_at = clock_timestamp(),
+    duration_ms = v_duration,
+    rows_affected = v_rows,
+    error = v_error
+  WHERE id = v_run_id;
+
+  UPDATE scheduled_jobs
+  SET
+    last_run_at = v_started,
+    last_duration_ms = v_duration,
+    last_rows_affected = v_rows,
+    last_status = v_status,
+    last_error = v_error
+  WHERE name = p_job_name;
+
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- (Re)registers every job with pg_cron under its own name; safe to run again
+-- after changing a schedule or enabling the extension.
+CREATE OR REPLACE FUNCTION schedule_maintenance_jobs()
+RETURNS integer AS $$
+DECLARE
+  v_job RECORD;
+  v_scheduled integer := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    RAISE EXCEPTION 'pg_cron is not enabled';
+  END IF;
+
+  FOR v_job IN SELECT name, schedule FROM scheduled_jobs LOOP
+    EXECUTE 'SELECT cron.schedule($1, $2, $3)'
+    USING v_job.name, v_job.schedule, format('SELECT run_scheduled_job(%L)', v_job.name);
+    v_scheduled := v_scheduled + 1;
+  END LOOP;
+
+  RETURN v_scheduled;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION trigger_scheduled_job(p_job_name text)
+RETURNS uuid AS $$
+DECLARE
+  v_run_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - System admin role required';
+  END IF;
+
+  v_run_id := run_scheduled_job(p_job_name, 'manual');
+
+  INSERT INTO audit_logs (user_id, action, table_name, record_id, new_data)
+  VALUES (auth.uid(), 'run_scheduled_job', 'scheduled_job_runs', v_run_id, jsonb_build_object('job', p_job_name));
+
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION set_scheduled_job_enabled(p_job_name text, p_enabled boolean)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'system_admin'
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - System admin role required';
+  END IF;
+
+  UPDATE scheduled_jobs
+  SET enabled = p_enabled
+  WHERE name = p_job_name;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown scheduled job: %', p_job_name;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- pg_cron runs the jobs as the database owner; admins go through
+-- trigger_scheduled_job
+REVOKE EXECUTE ON FUNCTION run_scheduled_job(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION schedule_maintenance_jobs() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION call_edge_function(text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_lead_assignments() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_firm_metrics() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reset_monthly_lead_counts() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_email_queue() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION drain_job_queue() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cleanup_old_deleted_records(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION run_scheduled_job(text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION schedule_maintenance_jobs() TO service_role;
+GRANT EXECUTE ON FUNCTION expire_lead_assignments() TO service_role;
+GRANT EXECUTE ON FUNCTION update_firm_metrics() TO service_role;
+GRANT EXECUTE ON FUNCTION reset_monthly_lead_counts() TO service_role;
+GRANT EXECUTE ON FUNCTION process_email_queue() TO service_role;
+GRANT EXECUTE ON FUNCTION drain_job_queue() TO service_role;
+GRANT EXECUTE ON FUNCTION cleanup_old_deleted_records(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION trigger_scheduled_job(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_scheduled_job_enabled(text, boolean) TO authenticated;
+
+-- Where pg_cron is available (Supabase: Database → Extensions), schedule the
+-- jobs now; otherwise enable it and run `select schedule_maintenance_jobs();`
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_net') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_net;
+  ELSE
+    RAISE NOTICE 'pg_net is not available; the email queue and job worker drain will fail until it is enabled';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM schedule_maintenance_jobs();
+  ELSE
+    RAISE NOTICE 'pg_cron is not available; maintenance jobs are registered but not scheduled';
+  END IF;
+END;
+$$;